@@ -1,42 +1,89 @@
 
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-// FIX: Replaced non-exported type GenerateContentCandidate with Candidate.
-import { Chat, GenerateContentResponse, Part, Candidate, Modality, Content } from '@google/genai';
 import { ChatWindow } from './components/ChatWindow';
 import { HistoryPanel } from './components/HistoryPanel';
 import { LiveChatView } from './components/LiveChatView';
-import { startChat, sendMessage, editImage, generateVideo, generateImage, summarizeText } from './services/geminiService';
-import { WELCOME_MESSAGES, LANGUAGES, SUSTAINABILITY_TIPS, TRIP_PLAN_PROMPT, ART_STYLES, TODAYS_BRIEFING_PROMPT } from './constants';
-import { BeachIcon, HotelIcon, FoodIcon, TempleIcon, TripPlanIcon, PaletteIcon, SunCloudIcon } from './components/Icons';
-import type { ChatMessage, Language, ChatStage, UploadedFile, Suggestion, ChatSession, GeneratedImage } from './types';
+import { LANGUAGES, ART_STYLES, DEFAULT_TRASH_RETENTION_DAYS } from './constants';
+import { BeachIcon, HotelIcon, FoodIcon, TempleIcon, TripPlanIcon, PaletteIcon, SunCloudIcon, LiveChatIcon, PencilIcon, ShareIcon } from './components/Icons';
+import type { ChatMessage, Language, ChatStage, UploadedFile, Suggestion, ChatSession, ChatFolder, GeneratedImage, RetryRequest, HistorySummary, IntentId, Itinerary, HotelOption } from './types';
 import type { ArtStyle } from './constants';
+import type { ChatProvider, ChatHandle, ChatPart } from './services/chatProvider';
+import { classifyError, getErrorMessage, isAbortError } from './services/errors';
+import { translate } from './services/i18n';
+import { LANGUAGE_PACKS, getLanguagePack, type SuggestionIcon } from './services/languagePacks';
+import { resolveChatModel } from './services/models';
+import { budgetHistory, buildSummaryInput } from './services/historyBudget';
+import { loadFolders, loadSessions, reloadSessions, saveFolders, saveSessions, type LoadResult } from './services/chatStore';
+import { SESSION_BUSY, broadcast, onSyncMessage, withSessionLock } from './services/tabSync';
+import { isInTrash, purgeExpired, sortByActivity } from './services/sessionList';
+import { importSessions } from './services/chatExport';
+import { deepestLeaf, getActivePath, getParentId, getPathTo, getVersions, linkNewMessages } from './services/branches';
+import { routeIntent, type IntentMatch } from './services/intentRouter';
+import type { SlashCommand } from './services/slashCommands';
+import { extractHotels } from './services/hotels';
+import { cacheBriefing, gokarnaToday, readCachedBriefing } from './services/briefing';
+import { knowledgeContext, retrieveKnowledge, toCitation } from './services/knowledgeBase';
 
-// Helper to convert app messages to Gemini's history format
-const messageToGeminiContent = (message: ChatMessage): Content | null => {
-    if (message.isSystem || message.isWelcome || (!message.text.trim() && !message.files?.length)) return null;
+// Turns a failed bot placeholder into a localized error message that remembers how to retry.
+const toFailedMessage = (message: ChatMessage, error: unknown, languageCode: string, retry: RetryRequest): ChatMessage => {
+    const { kind } = classifyError(error);
+    return { ...message, text: getErrorMessage(kind, languageCode), isLoading: false, error: { kind, retry } };
+};
 
-    const parts: Part[] = [];
-    if (message.text) {
-        parts.push({ text: message.text });
-    }
-    if (message.files) {
-        message.files.forEach(file => {
-            parts.push({ inlineData: { data: file.data, mimeType: file.mimeType } });
-        });
-    }
+// How much of the first exchange is sent when asking for a chat title and tags.
+const MAX_DESCRIBE_CHARS = 2000;
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
 
-    return {
-        role: message.sender === 'user' ? 'user' : 'model',
-        parts: parts,
-    };
+// Chip icons for the choices offered when the router cannot tell what a message asks for.
+const INTENT_ICONS: { [intent in IntentId]: Suggestion['icon'] } = {
+  'chat': LiveChatIcon,
+  'generate-image': PaletteIcon,
+  'edit-image': PencilIcon,
+  'change-language': ShareIcon,
+  'trip-plan': TripPlanIcon,
+  'update-itinerary': PencilIcon,
+};
+
+const SUGGESTION_ICONS: { [icon in SuggestionIcon]: Suggestion['icon'] } = {
+  beach: BeachIcon,
+  hotel: HotelIcon,
+  food: FoodIcon,
+  temple: TempleIcon,
 };
 
+// The welcome chips: today's briefing, the language pack's topics, then the trip planner.
+const welcomeSuggestions = (languageCode: string): Suggestion[] => {
+  const pack = getLanguagePack(languageCode);
+  return [
+    { text: pack.briefingLabel, icon: SunCloudIcon },
+    ...pack.suggestions.map(suggestion => ({ text: suggestion.text, icon: SUGGESTION_ICONS[suggestion.icon] })),
+    { text: pack.tripPlanLabel, icon: TripPlanIcon },
+  ];
+};
 
-const App: React.FC = () => {
+
+interface AppProps {
+  provider: ChatProvider;
+  // The UI language. New chats start in it, and it follows the chat on screen.
+  languageCode: string;
+  onLanguageChange: (languageCode: string) => void;
+  onOpenHistoryLock: () => void;
+  // Only set while the history lock is on.
+  onLockHistory?: () => void;
+}
+
+const App: React.FC<AppProps> = ({ provider, languageCode, onLanguageChange, onOpenHistoryLock, onLockHistory }) => {
   const [stage, setStage] = useState<ChatStage>('chat');
   const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [folders, setFolders] = useState<ChatFolder[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('gokarna-trash-retention-days'));
+    return saved > 0 ? saved : DEFAULT_TRASH_RETENTION_DAYS;
+  });
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [hasLoadedSessions, setHasLoadedSessions] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<{ messageId: number } | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState<boolean>(false);
   const [isTextToSpeechEnabled, setIsTextToSpeechEnabled] = useState<boolean>(() => {
@@ -46,69 +93,200 @@ const App: React.FC = () => {
   const [isBotSpeaking, setIsBotSpeaking] = useState<boolean>(false);
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number; } | null>(null);
   const [pendingImagePrompt, setPendingImagePrompt] = useState<string | null>(null);
+  // The chat that was just asked the trip-plan questions; its next message is the answer.
+  const [pendingTripPlan, setPendingTripPlan] = useState<string | null>(null);
+  // The message the router asked about, until the traveler answers the clarification prompt.
+  const [pendingClarification, setPendingClarification] = useState<{ sessionId: string; payload: { text: string; files: UploadedFile[] }; candidates: IntentMatch[] } | null>(null);
+  const [streamingMessageId, setStreamingMessageId] = useState<number | null>(null);
   
-  const chatSessionRef = useRef<Chat | null>(null);
+  const chatSessionRef = useRef<ChatHandle | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  // The session this tab is streaming a reply into, if any.
+  const streamingSessionRef = useRef<string | null>(null);
+  // Replies other tabs are streaming, by session: message id. Mirrored in a ref for the sync handler.
+  const [remoteStreams, setRemoteStreams] = useState<Map<string, number>>(new Map());
+  const remoteStreamsRef = useRef(remoteStreams);
+  remoteStreamsRef.current = remoteStreams;
+  // Ids of the preview messages shown for those replies, as opposed to this tab's own.
+  const previewIdsRef = useRef(new Set<number>());
+  const videoJobsRef = useRef(new Map<number, AbortController>());
+  const summaryAttemptsRef = useRef(new Map<string, number>());
+  const describingSessionsRef = useRef(new Set<string>());
   const userMessageCount = useRef(0);
+  // Sessions are loaded once, in the language the app opened in.
+  const initialLanguageRef = useRef(languageCode);
   
-  const initialSuggestions = useMemo(() => {
-    const suggestions: { [key: string]: Suggestion[] } = {
-        'en-US': [{ text: "Today's Briefing", icon: SunCloudIcon, prompt: TODAYS_BRIEFING_PROMPT['en-US'] }, { text: 'Explore Beaches', icon: BeachIcon }, { text: 'Find Hotels', icon: HotelIcon }, { text: 'Local Food', icon: FoodIcon }, { text: 'Temple Visits', icon: TempleIcon }, { text: 'Trip Plan', icon: TripPlanIcon }],
-        'hi-IN': [{ text: 'आज की ब्रीफिंग', icon: SunCloudIcon, prompt: TODAYS_BRIEFING_PROMPT['hi-IN'] }, { text: 'समुद्र तट', icon: BeachIcon }, { text: 'होटल खोजें', icon: HotelIcon }, { text: 'स्थानीय भोजन', icon: FoodIcon }, { text: 'मंदिर दर्शन', icon: TempleIcon }, { text: 'यात्रा योजना', icon: TripPlanIcon }],
-        'kn-IN': [{ text: 'ಇಂದಿನ ಬ್ರೀಫಿಂಗ್', icon: SunCloudIcon, prompt: TODAYS_BRIEFING_PROMPT['kn-IN'] }, { text: 'ಕಡಲತೀರಗಳು', icon: BeachIcon }, { text: 'ಹೋಟೆಲ್‌ಗಳು', icon: HotelIcon }, { text: 'ಸ್ಥಳೀಯ ಆಹಾರ', icon: FoodIcon }, { text: 'ದೇವಾಲಯ ಭೇಟಿಗಳು', icon: TempleIcon }, { text: 'ಪ್ರವಾಸ ಯೋಜನೆ', icon: TripPlanIcon }],
-        'ta-IN': [{ text: 'இன்றைய அறிக்கை', icon: SunCloudIcon, prompt: TODAYS_BRIEFING_PROMPT['ta-IN'] }, { text: 'கடற்கரைகள்', icon: BeachIcon }, { text: 'ஹோட்டல்கள்', icon: HotelIcon }, { text: 'உள்ளூர் உணவு', icon: FoodIcon }, { text: 'கோவில் வருகைகள்', icon: TempleIcon }, { text: 'பயணத் திட்டம்', icon: TripPlanIcon }],
-        'te-IN': [{ text: 'నేటి బ్రీఫింగ్', icon: SunCloudIcon, prompt: TODAYS_BRIEFING_PROMPT['te-IN'] }, { text: 'బీచ్‌లు', icon: BeachIcon }, { text: 'ಹోటళ్ళు', icon: HotelIcon }, { text: 'ಸ್ಥానిక ఆహారం', icon: FoodIcon }, { text: 'ఆలయ సందర్శనలు', icon: TempleIcon }, { text: 'ట్రిప్ ప్లాన్', icon: TripPlanIcon }],
-        'ml-IN': [{ text: 'ഇന്നത്തെ ബ്രീഫിംഗ്', icon: SunCloudIcon, prompt: TODAYS_BRIEFING_PROMPT['ml-IN'] }, { text: 'ബീച്ചുകൾ', icon: BeachIcon }, { text: 'ഹോട്ടലുകൾ', icon: HotelIcon }, { text: 'പ്രാദേശിക ഭക്ഷണം', icon: FoodIcon }, { text: 'ക്ഷേത്ര സന്ദർശനം', icon: TempleIcon }, { text: 'യാത്രാ പദ്ധതി', icon: TripPlanIcon }],
-    };
-    return suggestions;
-  }, []);
-
   const getWelcomeMessage = useCallback((languageCode: string) => ({
     id: Date.now(),
     text: ``,
     sender: 'bot' as const,
-    suggestions: initialSuggestions[languageCode] || initialSuggestions['en-US'],
+    suggestions: welcomeSuggestions(languageCode),
     isWelcome: true,
-  }), [initialSuggestions]);
+  }), []);
 
-  // Load sessions from localStorage on initial mount, or create a default session
+  // Load sessions from IndexedDB on initial mount, or create a default session
   useEffect(() => {
-    try {
-      const savedSessionsRaw = localStorage.getItem('gokarna-all-chats');
-      if (savedSessionsRaw) {
-        const savedSessions = JSON.parse(savedSessionsRaw);
-        if (Array.isArray(savedSessions) && savedSessions.length > 0) {
-          setSessions(savedSessions);
+    let cancelled = false;
+    Promise.all([
+      loadSessions().catch((e): LoadResult => {
+        console.error("Failed to load sessions", e);
+        return { sessions: [], quarantinedSessions: 0, quarantinedMessages: 0 };
+      }),
+      loadFolders().catch((e): ChatFolder[] => {
+        console.error("Failed to load folders", e);
+        return [];
+      }),
+    ])
+      .then(([{ sessions: savedSessions, quarantinedSessions, quarantinedMessages }, savedFolders]) => {
+        if (cancelled) return;
+        setHasLoadedSessions(true);
+        setFolders(savedFolders);
+        // Anything dropped while loading was quarantined, not deleted; tell the user either way.
+        const recoveryNotices: ChatMessage[] = quarantinedSessions > 0 || quarantinedMessages > 0
+          ? [{ id: Date.now() + 1, sender: 'bot', isSystem: true, text: translate(initialLanguageRef.current, 'notice.unreadable', { sessions: quarantinedSessions, messages: quarantinedMessages }) }]
+          : [];
+        // Chats in the trash are loaded too, but never opened.
+        const liveSessions = savedSessions.filter(s => !isInTrash(s));
+        if (liveSessions.length > 0) {
           const lastActiveId = localStorage.getItem('gokarna-active-chat-id');
-          const activeSession = savedSessions.find(s => s.id === lastActiveId) || savedSessions[0];
+          const activeSession = liveSessions.find(s => s.id === lastActiveId) || liveSessions[0];
+          setSessions(recoveryNotices.length > 0
+            ? savedSessions.map(s => s.id === activeSession.id ? { ...s, messages: [...s.messages, ...recoveryNotices] } : s)
+            : savedSessions);
           setActiveSessionId(activeSession.id);
           setStage('chat');
           return;
         }
+        // No sessions found, create a default one in the UI language
+        const newSession: ChatSession = {
+          id: Date.now().toString(),
+          title: translate(initialLanguageRef.current, 'history.newChat'),
+          messages: [getWelcomeMessage(initialLanguageRef.current), ...recoveryNotices],
+          languageCode: initialLanguageRef.current,
+        };
+        setSessions([...savedSessions, newSession]);
+        setActiveSessionId(newSession.id);
+      });
+    return () => { cancelled = true; };
+  }, [getWelcomeMessage]);
+
+  // Persist whatever changed; only messages and sessions that were actually updated get written.
+  useEffect(() => {
+    if (hasLoadedSessions) {
+      saveSessions(sessions);
+    }
+    if (activeSessionId) {
+      localStorage.setItem('gokarna-active-chat-id', activeSessionId);
+    }
+  }, [sessions, activeSessionId, hasLoadedSessions]);
+
+  useEffect(() => {
+    if (hasLoadedSessions) saveFolders(folders);
+  }, [folders, hasLoadedSessions]);
+
+  // Other tabs announce what they saved; re-read it so every tab shows the same history.
+  useEffect(() => {
+    if (!hasLoadedSessions) return;
+    const setRemoteStream = (sessionId: string, messageId: number | null) => {
+      const next = new Map(remoteStreamsRef.current);
+      if (messageId === null) next.delete(sessionId);
+      else next.set(sessionId, messageId);
+      // Updated right away so a reload that lands before the next render sees it.
+      remoteStreamsRef.current = next;
+      setRemoteStreams(next);
+    };
+
+    const applyReload = ({ sessions: reloaded, deletedIds }: { sessions: ChatSession[]; deletedIds: string[] }) => setSessions(prev => {
+      const deleted = new Set(deletedIds);
+      const byId = new Map(reloaded.map(s => [s.id, s]));
+      const merged = prev.filter(s => !deleted.has(s.id)).map(local => {
+        const remote = byId.get(local.id);
+        if (!remote) return local;
+        byId.delete(local.id);
+        // Replies still streaming are not saved yet: keep this tab's own, and previews of
+        // replies other tabs are still streaming.
+        const remoteIds = new Set(remote.messages.map(m => m.id));
+        const inFlight = local.messages.filter(m => m.isLoading && !remoteIds.has(m.id)
+          && (!previewIdsRef.current.has(m.id) || remoteStreamsRef.current.get(local.id) === m.id));
+        return inFlight.length > 0 ? { ...remote, messages: [...remote.messages, ...inFlight] } : remote;
+      });
+      return [...merged, ...byId.values()];
+    });
+
+    const reload = (sessionIds: string[]) => reloadSessions(sessionIds)
+      .then(applyReload)
+      .catch(e => console.error('Failed to reload sessions changed in another tab', e));
+
+    return onSyncMessage(message => {
+      switch (message.type) {
+        case 'sessions-changed':
+          reload(message.sessionIds);
+          break;
+        case 'folders-changed':
+          loadFolders().then(setFolders).catch(e => console.error('Failed to reload folders', e));
+          break;
+        case 'stream-progress': {
+          const preview = message.message;
+          previewIdsRef.current.add(preview.id);
+          if (remoteStreamsRef.current.get(message.sessionId) !== preview.id) setRemoteStream(message.sessionId, preview.id);
+          setSessions(prev => prev.map(s => {
+            if (s.id !== message.sessionId) return s;
+            const exists = s.messages.some(m => m.id === preview.id);
+            return { ...s, messages: exists ? s.messages.map(m => m.id === preview.id ? preview : m) : [...s.messages, preview] };
+          }));
+          break;
+        }
+        case 'stream-ended':
+          setRemoteStream(message.sessionId, null);
+          // Picks up the finished reply, or drops the preview if the other tab closed mid-stream.
+          reload([message.sessionId]);
+          break;
+        case 'stop-stream':
+          if (streamingSessionRef.current === message.sessionId) streamAbortRef.current?.abort();
+          break;
       }
-    } catch (e) {
-      console.error("Failed to load sessions from localStorage", e);
-      localStorage.removeItem('gokarna-all-chats');
+    });
+  }, [hasLoadedSessions]);
+
+  // Closing the tab mid-reply releases its lock; tell the other tabs to drop the preview too.
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (streamingSessionRef.current && streamingMessageId !== null) {
+        broadcast({ type: 'stream-ended', sessionId: streamingSessionRef.current, messageId: streamingMessageId });
+      }
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [streamingMessageId]);
+
+  // The open chat can disappear when another tab deletes or trashes it.
+  useEffect(() => {
+    if (!hasLoadedSessions || !activeSessionId) return;
+    if (sessions.some(s => s.id === activeSessionId && !isInTrash(s))) return;
+    const next = sortByActivity(sessions.filter(s => !isInTrash(s)))[0];
+    if (next) {
+      setActiveSessionId(next.id);
+      return;
     }
-    // No sessions found, create a default one in English
     const newSession: ChatSession = {
       id: Date.now().toString(),
-      title: 'New Chat',
-      messages: [getWelcomeMessage('en-US')],
-      languageCode: 'en-US',
+      title: translate(languageCode, 'history.newChat'),
+      messages: [getWelcomeMessage(languageCode)],
+      languageCode,
     };
-    setSessions([newSession]);
+    setSessions(prev => [...prev, newSession]);
     setActiveSessionId(newSession.id);
-  }, [getWelcomeMessage]);
+  }, [sessions, activeSessionId, hasLoadedSessions, languageCode, getWelcomeMessage]);
 
-  // Save sessions to localStorage whenever they change
+  // Chats past their retention period leave the trash for good, checked on load and then hourly.
   useEffect(() => {
-    if (sessions.length > 0) {
-      localStorage.setItem('gokarna-all-chats', JSON.stringify(sessions));
-    }
-    if (activeSessionId) {
-      localStorage.setItem('gokarna-active-chat-id', activeSessionId);
-    }
-  }, [sessions, activeSessionId]);
+    localStorage.setItem('gokarna-trash-retention-days', String(trashRetentionDays));
+    if (!hasLoadedSessions) return;
+    const purge = () => setSessions(prev => purgeExpired(prev, trashRetentionDays));
+    purge();
+    const timer = setInterval(purge, TRASH_PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [trashRetentionDays, hasLoadedSessions]);
   
   useEffect(() => {
     localStorage.setItem('gokarna-tts-enabled', JSON.stringify(isTextToSpeechEnabled));
@@ -121,9 +299,26 @@ const App: React.FC = () => {
   
   const activeSession = useMemo(() => sessions.find(s => s.id === activeSessionId), [sessions, activeSessionId]);
   const activeLanguage = useMemo(() => LANGUAGES.find(l => l.code === activeSession?.languageCode) || LANGUAGES[0], [activeSession]);
+  const activeLanguageCode = activeSession?.languageCode;
+
+  // Opening a chat, or switching its language, switches the UI with it.
+  useEffect(() => {
+    if (activeLanguageCode) onLanguageChange(activeLanguageCode);
+  }, [activeLanguageCode, onLanguageChange]);
+  // The branch of the conversation currently on screen.
+  const activePath = useMemo(() => activeSession ? getActivePath(activeSession) : [], [activeSession]);
+  const messageVersions = useMemo(() => {
+    const versions = new Map<number, { index: number; total: number }>();
+    if (!activeSession) return versions;
+    for (const message of activePath) {
+      const siblings = getVersions(activeSession.messages, message.id);
+      if (siblings.length > 1) versions.set(message.id, { index: siblings.findIndex(m => m.id === message.id), total: siblings.length });
+    }
+    return versions;
+  }, [activeSession, activePath]);
 
   const allGeneratedImages: GeneratedImage[] = useMemo(() => {
-    return sessions.flatMap(session =>
+    return sessions.filter(session => !isInTrash(session)).flatMap(session =>
       session.messages
         .filter(msg => msg.sender === 'bot' && msg.images && msg.images.length > 0)
         .flatMap(msg =>
@@ -137,17 +332,25 @@ const App: React.FC = () => {
   }, [sessions]);
 
 
+  // New messages continue the branch on screen unless they carry their own parentId.
   const updateSessionMessages = useCallback((sessionId: string, newMessages: ChatMessage[] | ((prevMessages: ChatMessage[]) => ChatMessage[])) => {
     setSessions(prevSessions =>
       prevSessions.map(session => {
         if (session.id === sessionId) {
           const updatedMessages = typeof newMessages === 'function' ? newMessages(session.messages) : newMessages;
-          return { ...session, messages: updatedMessages };
+          const { messages, activeLeafId } = linkNewMessages(session, updatedMessages);
+          // Only a new message counts as activity, not every streamed chunk.
+          const isNewMessage = messages.length > 0 && messages[messages.length - 1].id !== session.messages[session.messages.length - 1]?.id;
+          return { ...session, messages, activeLeafId, lastActivityAt: isNewMessage ? Date.now() : session.lastActivityAt };
         }
         return session;
       })
     );
   }, []);
+
+  const setActiveLeaf = useCallback((sessionId: string, activeLeafId: number) => {
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, activeLeafId } : s));
+  }, []);
   
   const addSystemMessage = useCallback((text: string) => {
     if (!activeSessionId) return;
@@ -155,136 +358,256 @@ const App: React.FC = () => {
     updateSessionMessages(activeSessionId, prev => [...prev, systemMessage]);
   }, [activeSessionId, updateSessionMessages]);
   
+  // Folds messages that fell out of the history budget into the session's rolling summary.
+  // Until the summary arrives those messages are simply left out of the replayed history.
+  const foldIntoSummary = useCallback(async (session: ChatSession, overflow: ChatMessage[], previousSummary?: HistorySummary) => {
+    const throughMessageId = overflow[overflow.length - 1].id;
+    // Remember the attempt so a re-render (or a failure) does not summarize the same messages again.
+    if (summaryAttemptsRef.current.get(session.id) === throughMessageId) return;
+    summaryAttemptsRef.current.set(session.id, throughMessageId);
+    try {
+      const text = await provider.summarizeText(buildSummaryInput(overflow, previousSummary));
+      if (!text.trim()) return;
+      setSessions(prev => prev.map(s => s.id === session.id ? { ...s, historySummary: { text: text.trim(), throughMessageId } } : s));
+    } catch (error) {
+      console.warn('Could not summarize older messages:', error);
+    }
+  }, [provider]);
+
   // Initialize or re-initialize chat session when active session changes (e.g., new chat, or language change)
   useEffect(() => {
     if (activeSession) {
-      const geminiHistory = activeSession.messages
-        .map(messageToGeminiContent)
-        .filter((c): c is Content => c !== null);
+      const { turns, overflow, summary } = budgetHistory(activePath, activeSession.historySummary);
+      chatSessionRef.current = provider.startChat(activeSession.languageCode, turns, activeSession.modelId);
+      userMessageCount.current = activePath.filter(m => m.sender === 'user').length % 5;
+      if (overflow.length > 0) foldIntoSummary(activeSession, overflow, summary);
+    }
+  }, [activeSession, activePath, provider, foldIntoSummary]);
 
-      chatSessionRef.current = startChat(activeSession.languageCode, geminiHistory);
-      userMessageCount.current = activeSession.messages.filter(m => m.sender === 'user').length % 5;
+  // Titles and tags a chat from its first exchange, in the background. If it fails the chat keeps
+  // its provisional title and the next exchange tries again.
+  const describeSession = useCallback(async (sessionId: string, languageCode: string, transcript: string) => {
+    if (describingSessionsRef.current.has(sessionId)) return;
+    describingSessionsRef.current.add(sessionId);
+    try {
+      const { title, tags } = await provider.describeChat(transcript.slice(0, MAX_DESCRIBE_CHARS), languageCode);
+      setSessions(prev => prev.map(s => s.id !== sessionId ? s : {
+        ...s,
+        tags,
+        title: s.isTitleUserEdited || !title.trim() ? s.title : title.trim(),
+      }));
+    } catch (error) {
+      console.warn('Could not title the chat:', error);
+    } finally {
+      describingSessionsRef.current.delete(sessionId);
     }
-  }, [activeSession]);
+  }, [provider]);
+
+  // A chat handle whose history ends at `messageId` (or is empty for null), for replies on another branch.
+  const startChatAt = useCallback((session: ChatSession, messageId: number | null): ChatHandle => {
+    const path = messageId === null ? [] : getPathTo(session, messageId);
+    return provider.startChat(session.languageCode, budgetHistory(path, session.historySummary).turns, session.modelId);
+  }, [provider]);
 
   useEffect(() => {
     if (stage === 'chat') {
       if (navigator.geolocation) {
         navigator.geolocation.getCurrentPosition(
           (position) => setUserLocation({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
-          () => addSystemMessage("⚠️ Could not access your location. Nearby search will be less accurate.")
+          () => addSystemMessage(translate(languageCode, 'notice.locationFailed'))
         );
       } else {
-        addSystemMessage("⚠️ Geolocation is not supported by your browser.");
+        addSystemMessage(translate(languageCode, 'notice.geolocationUnsupported'));
       }
     }
-  }, [stage, addSystemMessage]);
+  }, [stage, languageCode, addSystemMessage]);
   
   const handleNewChat = useCallback(() => {
     window.speechSynthesis.cancel();
     setIsBotSpeaking(false);
     const newSession: ChatSession = {
       id: Date.now().toString(),
-      title: 'New Chat',
+      title: translate(activeLanguage.code, 'history.newChat'),
       messages: [getWelcomeMessage(activeLanguage.code)],
       languageCode: activeLanguage.code,
+      modelId: activeSession?.modelId,
     };
     setSessions(prev => [...prev, newSession]);
     setActiveSessionId(newSession.id);
     setIsHistoryPanelOpen(false);
-  }, [activeLanguage, getWelcomeMessage]);
+  }, [activeLanguage, activeSession, getWelcomeMessage]);
   
   const handleSelectSession = (sessionId: string) => {
     setActiveSessionId(sessionId);
     setIsHistoryPanelOpen(false);
   };
   
+  const handleSelectMessage = (sessionId: string, messageId: number) => {
+    setActiveSessionId(sessionId);
+    setStage('chat');
+    setFocusRequest({ messageId });
+    setIsHistoryPanelOpen(false);
+    // Search can find messages on branches that are not on screen; bring that branch up.
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, activeLeafId: deepestLeaf(s.messages, messageId) } : s));
+  };
+
+  // Moves the chat to the trash. If it was open, the most recent remaining chat (or a new one) opens instead.
   const handleDeleteSession = (sessionId: string) => {
-    setSessions(prev => {
-      const remainingSessions = prev.filter(s => s.id !== sessionId);
-      if (activeSessionId === sessionId) {
-        if (remainingSessions.length > 0) {
-          setActiveSessionId(remainingSessions[0].id);
-        } else {
-          // If all chats are deleted, create a new default one
-          const newSession: ChatSession = {
-            id: Date.now().toString(),
-            title: 'New Chat',
-            messages: [getWelcomeMessage('en-US')],
-            languageCode: 'en-US',
-          };
-          setActiveSessionId(newSession.id);
-          return [newSession];
-        }
-      }
-      return remainingSessions;
-    });
+    const markDeleted = (list: ChatSession[]) => list.map(s => s.id === sessionId ? { ...s, deletedAt: Date.now() } : s);
+    if (activeSessionId !== sessionId) {
+      setSessions(markDeleted);
+      return;
+    }
+    // The next chat is worked out here rather than in the updater, which must stay free of side effects.
+    const remainingSessions = sortByActivity(markDeleted(sessions).filter(s => !isInTrash(s)));
+    if (remainingSessions.length > 0) {
+      setSessions(markDeleted);
+      setActiveSessionId(remainingSessions[0].id);
+      return;
+    }
+    // If all chats are deleted, create a new default one
+    const newSession: ChatSession = {
+      id: Date.now().toString(),
+      title: translate(languageCode, 'history.newChat'),
+      messages: [getWelcomeMessage(languageCode)],
+      languageCode,
+    };
+    setSessions(prev => [...markDeleted(prev), newSession]);
+    setActiveSessionId(newSession.id);
+  };
+
+  const handleRestoreSession = (sessionId: string) => {
+    setSessions(prev => prev.map(s => {
+      if (s.id !== sessionId) return s;
+      const { deletedAt: _deletedAt, ...restored } = s;
+      return restored;
+    }));
+  };
+
+  const handleDeleteSessionsForever = (sessionIds: string[]) => {
+    const ids = new Set(sessionIds);
+    setSessions(prev => prev.filter(s => !(ids.has(s.id) && isInTrash(s))));
+  };
+
+  const handleTogglePin = (sessionId: string) => {
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, isPinned: !s.isPinned } : s));
+  };
+
+  // `folderId` undefined takes the chat out of its folder.
+  const handleMoveSession = (sessionId: string, folderId?: string) => {
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, folderId } : s));
+  };
+
+  const handleCreateFolder = (name: string): string => {
+    const folder: ChatFolder = { id: `folder-${Date.now()}`, name: name.trim() };
+    setFolders(prev => [...prev, folder]);
+    return folder.id;
+  };
+
+  const handleRenameFolder = (folderId: string, name: string) => {
+    if (!name.trim()) return;
+    setFolders(prev => prev.map(f => f.id === folderId ? { ...f, name: name.trim() } : f));
+  };
+
+  // The folder's chats are kept; they go back to the unfiled list.
+  const handleDeleteFolder = (folderId: string) => {
+    setFolders(prev => prev.filter(f => f.id !== folderId));
+    setSessions(prev => prev.map(s => s.folderId === folderId ? { ...s, folderId: undefined } : s));
   };
 
+  // Imported sessions are added alongside the existing ones; nothing is replaced.
+  const handleImportSessions = useCallback((json: string) => {
+    try {
+      const { sessions: imported, skipped } = importSessions(json, sessions.map(s => s.id));
+      // Folders are not part of an export, and an imported chat is never born in the trash.
+      const folderIds = new Set(folders.map(f => f.id));
+      const added = imported.map(({ deletedAt: _deletedAt, ...s }) => s.folderId && !folderIds.has(s.folderId) ? { ...s, folderId: undefined } : s);
+      setSessions(prev => [...prev, ...added]);
+      const skippedNote = skipped > 0 ? ` ${translate(languageCode, 'notice.importSkipped', { count: skipped })}` : '';
+      addSystemMessage(`${translate(languageCode, 'notice.imported', { count: imported.length })}${skippedNote}`);
+    } catch (error) {
+      addSystemMessage(translate(languageCode, 'notice.importFailed', { error: error instanceof Error ? error.message : String(error) }));
+    }
+  }, [sessions, folders, languageCode, addSystemMessage]);
+
   const handleRenameSession = (sessionId: string, newTitle: string) => {
     if (!newTitle.trim()) return;
     setSessions(prev =>
-      prev.map(s => (s.id === sessionId ? { ...s, title: newTitle.trim() } : s))
+      prev.map(s => (s.id === sessionId ? { ...s, title: newTitle.trim(), isTitleUserEdited: true } : s))
     );
   };
 
+  // Changing the model rebuilds the chat handle through the effect above; the history carries over.
+  const handleSelectModel = useCallback((modelId: string) => {
+    if (!activeSessionId) return;
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, modelId } : s));
+    addSystemMessage(translate(languageCode, 'notice.modelSwitched', { model: resolveChatModel(modelId).label }));
+  }, [activeSessionId, languageCode, addSystemMessage]);
+
+  // The header's language picker. Unlike asking in the chat, it leaves no message to answer, just a
+  // notice in the new language; a chat that has not started gets its welcome chips in it too.
+  const handleChangeLanguage = useCallback((code: string) => {
+    const target = LANGUAGES.find(l => l.code === code);
+    if (!activeSessionId || !target) return;
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, languageCode: target.code } : s));
+    const notice: ChatMessage = { id: Date.now(), text: translate(target.code, 'language.switched', { language: target.nativeName }), sender: 'bot', isSystem: true };
+    updateSessionMessages(activeSessionId, prev => [
+      ...prev.map(m => m.isWelcome ? { ...m, suggestions: getWelcomeMessage(target.code).suggestions } : m),
+      notice,
+    ]);
+  }, [activeSessionId, getWelcomeMessage, updateSessionMessages]);
+
+  const handleChangeBilingualLanguage = useCallback((code?: string) => {
+    if (!activeSessionId) return;
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, bilingualLanguageCode: code } : s));
+  }, [activeSessionId]);
+
   const handleClearAllSessions = useCallback(() => {
     window.speechSynthesis.cancel();
     setIsBotSpeaking(false);
     const newSession: ChatSession = {
       id: Date.now().toString(),
-      title: 'New Chat',
-      messages: [getWelcomeMessage('en-US')],
-      languageCode: 'en-US',
+      title: translate(languageCode, 'history.newChat'),
+      messages: [getWelcomeMessage(languageCode)],
+      languageCode,
     };
-    setSessions([newSession]);
+    const deletedAt = Date.now();
+    setSessions(prev => [...prev.map(s => isInTrash(s) ? s : { ...s, deletedAt }), newSession]);
     setActiveSessionId(newSession.id);
     setIsHistoryPanelOpen(false);
-  }, [getWelcomeMessage]);
+  }, [languageCode, getWelcomeMessage]);
 
-  const handleImageGeneration = useCallback(async (prompt: string, style: ArtStyle) => {
+  // `userText` is the message shown for the request; after the style chips that is just the style.
+  const handleImageGeneration = useCallback(async (prompt: string, style: ArtStyle, userText: string = style) => {
     if (!activeSessionId) return;
     const finalPrompt = `A ${style.toLowerCase()} of: ${prompt}`;
     const botMessageId = Date.now() + 1;
     const botMessagePlaceholder: ChatMessage = { id: botMessageId, text: '', sender: 'bot', isLoading: true };
-    const userStyleMessage: ChatMessage = { id: Date.now(), text: style, sender: 'user'};
-    updateSessionMessages(activeSessionId, prev => [...prev, userStyleMessage, botMessagePlaceholder]);
+    const userStyleMessage: ChatMessage = { id: Date.now(), text: userText, sender: 'user'};
+    updateSessionMessages(activeSessionId, prev => [...prev.filter(m => !m.isWelcome), userStyleMessage, botMessagePlaceholder]);
 
     try {
-        const response = await generateImage(finalPrompt);
-        if (response.promptFeedback?.blockReason) throw new Error(`Request was blocked due to: ${response.promptFeedback.blockReason.toLowerCase().replace(/_/g, ' ')}.`);
-        
-        const firstCandidate = response.candidates?.[0];
-        const imagePart = firstCandidate?.content?.parts.find(p => p.inlineData);
+        const response = await provider.generateImage(finalPrompt);
 
-        if (imagePart?.inlineData) {
-            const generatedImage = imagePart.inlineData;
-            const finalBotMessage: ChatMessage = { id: botMessageId, text: "Here is the image I generated for you:", sender: 'bot', images: [`data:${generatedImage.mimeType};base64,${generatedImage.data}`], isLoading: false };
-            updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? finalBotMessage : msg));
+        if (response.image) {
+            const generatedImage = response.image;
+            const finalBotMessage: ChatMessage = { id: botMessageId, text: translate(activeLanguage.code, 'reply.image'), sender: 'bot', images: [`data:${generatedImage.mimeType};base64,${generatedImage.data}`], isLoading: false };
+            updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, ...finalBotMessage } : msg));
         } else {
-            const explanation = response.text;
-            if (explanation && explanation.trim()) {
-                const finalBotMessage: ChatMessage = { id: botMessageId, text: explanation, sender: 'bot', isLoading: false };
-                updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? finalBotMessage : msg));
-            } else {
-                throw new Error("No image was returned from the API.");
-            }
+            // The provider guarantees an explanation when no image comes back.
+            const finalBotMessage: ChatMessage = { id: botMessageId, text: response.text ?? '', sender: 'bot', isLoading: false };
+            updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, ...finalBotMessage } : msg));
         }
     } catch (error) {
         console.error('Error generating image:', error);
-        let userMessage = "Sorry, I couldn't generate the image. Please try a different prompt.";
-        if (error instanceof Error) {
-            if (error.message.includes('safety')) userMessage = "I'm unable to create an image for that request as it appears to violate safety guidelines. Could you please try a different idea?";
-            else if (error.message.includes('No image was returned')) userMessage = "It seems I had trouble creating an image for that prompt. Could you please try a different one?";
-            else if (error.message.includes('blocked due to')) userMessage = "I'm unable to create an image for that request because it was blocked. Please try rephrasing your prompt.";
-        }
-        updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: userMessage, isLoading: false } : msg));
+        const retry: RetryRequest = { type: 'image', prompt, style };
+        updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? toFailedMessage(msg, error, activeLanguage.code, retry) : msg));
     }
-  }, [activeSessionId, updateSessionMessages]);
+  }, [activeSessionId, activeLanguage, provider, updateSessionMessages]);
 
   const handleImageEdit = useCallback(async (text: string, file: UploadedFile) => {
       if (!activeSessionId) return;
-      const userMessage: ChatMessage = { id: Date.now(), text: `(Edit Prompt: ${text})`, sender: 'user', files: [file] };
+      const userMessage: ChatMessage = { id: Date.now(), text: translate(activeLanguage.code, 'message.editPrompt', { prompt: text }), sender: 'user', files: [file] };
       const botMessageId = Date.now() + 1;
       const botMessagePlaceholder: ChatMessage = { id: botMessageId, text: '', sender: 'bot', isLoading: true };
       updateSessionMessages(activeSessionId, prev => {
@@ -293,38 +616,169 @@ const App: React.FC = () => {
       });
 
       try {
-          const response = await editImage(file, text);
-          if (response.promptFeedback?.blockReason) throw new Error(`Request was blocked due to: ${response.promptFeedback.blockReason.toLowerCase().replace(/_/g, ' ')}.`);
-          
-          const firstCandidate = response.candidates?.[0];
-          const imagePart = firstCandidate?.content?.parts.find(p => p.inlineData);
-          
-          if (imagePart?.inlineData) {
-              const editedImage = imagePart.inlineData;
-              const finalBotMessage: ChatMessage = { id: botMessageId, text: "Here's the edited image:", sender: 'bot', images: [`data:${editedImage.mimeType};base64,${editedImage.data}`], isLoading: false };
-              updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? finalBotMessage : msg));
+          const response = await provider.editImage(file, text);
+
+          if (response.image) {
+              const editedImage = response.image;
+              const finalBotMessage: ChatMessage = { id: botMessageId, text: translate(activeLanguage.code, 'reply.editedImage'), sender: 'bot', images: [`data:${editedImage.mimeType};base64,${editedImage.data}`], isLoading: false };
+              updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, ...finalBotMessage } : msg));
           } else {
-              const explanation = response.text;
-              if (explanation && explanation.trim()) {
-                  const finalBotMessage: ChatMessage = { id: botMessageId, text: explanation, sender: 'bot', isLoading: false };
-                  updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? finalBotMessage : msg));
-              } else {
-                  throw new Error("No image was returned from the API.");
-              }
+              const finalBotMessage: ChatMessage = { id: botMessageId, text: response.text ?? '', sender: 'bot', isLoading: false };
+              updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, ...finalBotMessage } : msg));
           }
       } catch (error) {
           console.error('Error editing image:', error);
-          let userMessage = "Sorry, I couldn't edit the image. Please try a different prompt or image.";
-          if (error instanceof Error) {
-            if (error.message.includes('safety')) userMessage = "I'm unable to edit the image with that request as it appears to violate safety guidelines. Could you please try a different edit?";
-            else if (error.message.includes('No image was returned')) userMessage = "It seems I had trouble editing the image with that prompt. Could you please try a more descriptive or different edit?";
-            else if (error.message.includes('blocked due to')) userMessage = "I'm unable to edit the image with that request because it was blocked. Please try rephrasing your prompt.";
-          }
-          updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: userMessage, isLoading: false } : msg));
+          const retry: RetryRequest = { type: 'edit', text, file };
+          updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? toFailedMessage(msg, error, activeLanguage.code, retry) : msg));
       }
+  }, [activeSessionId, activeLanguage, provider, updateSessionMessages]);
+
+  const streamIntoPlaceholder = useCallback(async (sessionId: string, languageCode: string, chat: ChatHandle, request: { text: string; files: UploadedFile[]; prompt?: string }, placeholder: ChatMessage): Promise<string | null> => {
+    const { text, files, prompt } = request;
+    const botMessageId = placeholder.id;
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
+    setStreamingMessageId(botMessageId);
+    let fullResponse = '';
+
+    try {
+        let promptText = prompt || text;
+        if (userLocation) promptText = `My current location is latitude: ${userLocation.latitude}, longitude: ${userLocation.longitude}. Please use this for any location-based queries.\n\nMy request: "${promptText}"`;
+
+        const imageParts: ChatPart[] = files.filter(f => f.mimeType.startsWith('image/')).map(f => ({ inlineData: { data: f.data, mimeType: f.mimeType } }));
+        files.filter(f => f.mimeType === 'text/plain').forEach(f => {
+          promptText = `Context from file "${f.name}":\n${f.data}\n\nMy question: ${promptText}`;
+        });
+        const knowledge = retrieveKnowledge(text);
+        if (knowledge.length > 0) promptText = `${knowledgeContext(knowledge)}\n\n${promptText}`;
+        
+        const stream = await chat.sendMessageStream([promptText, ...imageParts], abortController.signal);
+        const sources: {uri: string, title: string}[] = [];
+
+        for await (const chunk of stream) {
+            fullResponse += chunk.text;
+            sources.push(...chunk.sources);
+            // A hotels block is hidden while it streams in, so its JSON never flashes up as text.
+            const shownText = extractHotels(fullResponse, true).text;
+            updateSessionMessages(sessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: shownText, isLoading: true } : msg));
+            // Other tabs show the reply as it streams; it is only persisted once finished.
+            broadcast({ type: 'stream-progress', sessionId, message: { ...placeholder, text: shownText, isLoading: true } });
+        }
+        
+        const { text: replyText, hotels } = extractHotels(fullResponse);
+        const cleanedText = replyText.replace(/!\[.*?\]\(.*?\)/g, '').trim();
+        const uniqueSources = Array.from(new Map(sources.map(s => [s.uri, s])).values());
+        
+        updateSessionMessages(sessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: cleanedText, sources: uniqueSources, isLoading: false, ...(hotels.length > 0 && { hotels }), ...(knowledge.length > 0 && { citations: knowledge.map(toCitation) }) } : msg));
+        return cleanedText;
+    } catch (error) {
+        if (isAbortError(error)) {
+            // Keep whatever arrived before the user pressed Stop.
+            updateSessionMessages(sessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: extractHotels(fullResponse).text.trim(), isLoading: false, isInterrupted: true } : msg));
+            return null;
+        }
+        console.error('Error sending message:', error);
+        const retry: RetryRequest = { type: 'chat', text, files, prompt };
+        updateSessionMessages(sessionId, prev => prev.map(msg => msg.id === botMessageId ? toFailedMessage(msg, error, languageCode, retry) : msg));
+        return null;
+    } finally {
+        if (streamAbortRef.current === abortController) {
+            streamAbortRef.current = null;
+            setStreamingMessageId(null);
+        }
+    }
+  }, [userLocation, updateSessionMessages]);
+
+  // Adds the new messages (ending with the bot `placeholder`) and streams the reply to `request`
+  // into the placeholder. Resolves to the reply's text when it finished normally, or null when it
+  // was stopped, failed, or another tab is already replying in this chat.
+  const streamReply = useCallback(async (sessionId: string, languageCode: string, chat: ChatHandle, request: { text: string; files: UploadedFile[]; prompt?: string }, addMessages: (prev: ChatMessage[]) => ChatMessage[], placeholder: ChatMessage): Promise<string | null> => {
+    const outcome = await withSessionLock(sessionId, async () => {
+      updateSessionMessages(sessionId, addMessages);
+      streamingSessionRef.current = sessionId;
+      try {
+        return await streamIntoPlaceholder(sessionId, languageCode, chat, request, placeholder);
+      } finally {
+        if (streamingSessionRef.current === sessionId) streamingSessionRef.current = null;
+        broadcast({ type: 'stream-ended', sessionId, messageId: placeholder.id });
+      }
+    });
+    if (outcome !== SESSION_BUSY) return outcome;
+    addSystemMessage(translate(languageCode, 'notice.busyElsewhere'));
+    return null;
+  }, [updateSessionMessages, addSystemMessage, streamIntoPlaceholder]);
+
+  // Plans a trip from `request`. With `isUpdate` the chat's current plan is changed instead, so
+  // the stops the traveler kept or moved survive.
+  const handleItineraryRequest = useCallback(async (request: string, isUpdate: boolean) => {
+    const session = sessions.find(s => s.id === activeSessionId);
+    if (!session) return;
+    const userMessage: ChatMessage = { id: Date.now(), text: request, sender: 'user' };
+    const botMessageId = Date.now() + 1;
+    const botMessagePlaceholder: ChatMessage = { id: botMessageId, text: '', sender: 'bot', isLoading: true };
+    updateSessionMessages(session.id, prev => [...prev.filter(m => !m.isWelcome), userMessage, botMessagePlaceholder]);
+
+    try {
+        const { itinerary, text } = await provider.planItinerary(request, session.languageCode, isUpdate ? session.itinerary?.plan : undefined);
+        updateSessionMessages(session.id, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text, itinerary, isLoading: false } : msg));
+        setSessions(prev => prev.map(s => s.id === session.id ? { ...s, itinerary: { plan: itinerary, messageId: botMessageId } } : s));
+    } catch (error) {
+        console.error('Error planning the trip:', error);
+        const retry: RetryRequest = { type: 'itinerary', request, isUpdate };
+        updateSessionMessages(session.id, prev => prev.map(msg => msg.id === botMessageId ? toFailedMessage(msg, error, session.languageCode, retry) : msg));
+    }
+  }, [activeSessionId, sessions, provider, updateSessionMessages]);
+
+  // Moving or removing a stop on the cards edits the current plan in place.
+  const handleChangeItinerary = useCallback((messageId: number, itinerary: Itinerary) => {
+    if (!activeSessionId) return;
+    updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === messageId ? { ...msg, itinerary } : msg));
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, itinerary: { plan: itinerary, messageId } } : s));
   }, [activeSessionId, updateSessionMessages]);
 
-  const handleSendMessage = useCallback(async (payload: { text: string; files: UploadedFile[], prompt?: string }) => {
+  const handleRefineItinerary = useCallback((request: string) => handleItineraryRequest(request, true), [handleItineraryRequest]);
+
+  // Today's briefing card. The first one of the day in each language is looked up; after that it
+  // comes from the cache, even in another chat or after a reload.
+  const handleBriefing = useCallback(async () => {
+    const session = sessions.find(s => s.id === activeSessionId);
+    if (!session) return;
+    const { languageCode } = session;
+    const userMessage: ChatMessage = { id: Date.now(), text: getLanguagePack(languageCode).briefingLabel, sender: 'user' };
+    const botMessageId = Date.now() + 1;
+    const botMessagePlaceholder: ChatMessage = { id: botMessageId, text: '', sender: 'bot', isLoading: true };
+    updateSessionMessages(session.id, prev => [...prev.filter(m => !m.isWelcome), userMessage, botMessagePlaceholder]);
+
+    try {
+        let reply = readCachedBriefing(languageCode);
+        if (!reply) {
+            reply = await provider.getBriefing(languageCode, gokarnaToday());
+            cacheBriefing(languageCode, reply);
+        }
+        const { briefing, sources } = reply;
+        updateSessionMessages(session.id, prev => prev.map(msg => msg.id === botMessageId
+            ? { ...msg, text: briefing.summary, briefing, ...(sources.length > 0 && { sources }), isLoading: false }
+            : msg));
+    } catch (error) {
+        console.error("Error getting today's briefing:", error);
+        updateSessionMessages(session.id, prev => prev.map(msg => msg.id === botMessageId ? toFailedMessage(msg, error, languageCode, { type: 'briefing' }) : msg));
+    }
+  }, [activeSessionId, sessions, provider, updateSessionMessages]);
+
+  // Saves a hotel to the chat's shortlist, or takes it off again.
+  const handleToggleShortlist = useCallback((hotel: HotelOption) => {
+    if (!activeSessionId) return;
+    setSessions(prev => prev.map(s => {
+      if (s.id !== activeSessionId) return s;
+      const shortlist = s.shortlist ?? [];
+      return { ...s, shortlist: shortlist.some(h => h.id === hotel.id) ? shortlist.filter(h => h.id !== hotel.id) : [...shortlist, hotel] };
+    }));
+  }, [activeSessionId]);
+
+  // `branchFrom` starts a new branch after that message (null: from the very start) instead of
+  // continuing the one on screen; editing a message uses it. `intent` skips the intent router,
+  // for slash commands that already say what they want.
+  const handleSendMessage = useCallback(async (payload: { text: string; files: UploadedFile[], prompt?: string }, options: { branchFrom?: number | null; intent?: IntentMatch } = {}) => {
     window.speechSynthesis.cancel();
     setIsBotSpeaking(false);
     
@@ -334,35 +788,6 @@ const App: React.FC = () => {
     const currentSession = sessions.find(s => s.id === activeSessionId);
     if (!currentSession) return;
 
-    // Handle language change request
-    const languagesForRegex = LANGUAGES.map(l => l.name.toLowerCase()).join('|');
-    const langChangeRegex = new RegExp(`\\b(?:in|speak|talk in|use|change to|switch to|respond in)\\s+(${languagesForRegex})\\b`, 'i');
-    const match = text.trim().match(langChangeRegex);
-
-    if (match) {
-        const requestedLangName = match[1].toLowerCase();
-        const targetLanguage = LANGUAGES.find(l => l.name.toLowerCase() === requestedLangName);
-
-        if (targetLanguage && targetLanguage.code !== currentSession.languageCode) {
-            const userMessage: ChatMessage = { id: Date.now(), text, sender: 'user' };
-            updateSessionMessages(activeSessionId, prev => [...prev.filter(m => !m.isWelcome), userMessage]);
-
-            setSessions(prevSessions =>
-              prevSessions.map(session =>
-                session.id === activeSessionId ? { ...session, languageCode: targetLanguage.code } : session
-              )
-            );
-
-            const confirmationMessage: ChatMessage = {
-                id: Date.now() + 1,
-                sender: 'bot',
-                text: `Certainly! I will now respond in ${targetLanguage.name}.`,
-            };
-            updateSessionMessages(activeSessionId, prev => [...prev, confirmationMessage]);
-            return;
-        }
-    }
-
     // Handle image generation style selection
     if (pendingImagePrompt && ART_STYLES.includes(text as ArtStyle)) {
       handleImageGeneration(pendingImagePrompt, text as ArtStyle);
@@ -371,111 +796,127 @@ const App: React.FC = () => {
     }
     if (pendingImagePrompt) setPendingImagePrompt(null);
 
-    // Handle image editing
-    if (files.length === 1 && files[0].mimeType.startsWith('image/') && text.trim()) {
-      handleImageEdit(text, files[0]);
+    const isTripPlanAnswer = pendingTripPlan === activeSessionId && files.length === 0 && !options.intent;
+    if (pendingTripPlan) setPendingTripPlan(null);
+    if (isTripPlanAnswer) {
+      handleItineraryRequest(text, false);
       return;
     }
 
-    // Handle image generation request
-    const imageGenRegex = /\b(generate|create|draw|make|imagine|show me|give me|produce|render|paint|picture|photo|drawing|painting|illustration|artwork|sketch|portrait)\b/i;
-    const imageGenBlockRegex = /\b(what|how|why|explain|describe)\b.{0,50}\b(to|do you|is it possible to)\s*(generate|create|draw|make|edit)/i;
-    if (imageGenRegex.test(text.trim()) && !imageGenBlockRegex.test(text.trim()) && files.length === 0) {
-        setPendingImagePrompt(text);
-        const userMessage: ChatMessage = { id: Date.now(), text, sender: 'user' };
-        const artStyleSuggestions: Suggestion[] = ART_STYLES.map(style => ({ text: style, icon: PaletteIcon }));
-        const botMessage: ChatMessage = { id: Date.now() + 1, sender: 'bot', text: 'Sounds creative! Which art style would you like?', suggestions: artStyleSuggestions };
+    // The briefing chip, or its label typed out, shows the day's card instead of asking the chat.
+    if (files.length === 0 && !options.intent && Object.values(LANGUAGE_PACKS).some(p => p.briefingLabel === text.trim())) {
+      handleBriefing();
+      return;
+    }
+
+    // Picking a chip from the clarification prompt runs that intent on the message that was
+    // unclear. A plain answer is just sent on: the model sees its own question in the history.
+    const pack = getLanguagePack(currentSession.languageCode);
+    const labels = pack.intentLabels;
+    const clarification = pendingClarification?.sessionId === activeSessionId ? pendingClarification : null;
+    const clarified = clarification?.candidates.find(c => labels[c.intent] === text);
+    const source = clarified && clarification ? clarification.payload : payload;
+    if (pendingClarification) setPendingClarification(null);
+
+    let match = clarified ?? options.intent;
+    if (!match) {
+      const decision = await routeIntent({ text, files, languageCode: currentSession.languageCode, hasItinerary: !!currentSession.itinerary }, provider.classifyIntent);
+      if (decision.type === 'clarify') {
+        setPendingClarification({ sessionId: activeSessionId, payload, candidates: decision.candidates });
+        const userMessage: ChatMessage = { id: Date.now(), text, sender: 'user', files, prompt, parentId: options.branchFrom };
+        const botMessage: ChatMessage = {
+          id: Date.now() + 1,
+          sender: 'bot',
+          text: pack.clarifyIntentPrompt,
+          suggestions: decision.candidates.map(c => ({ text: labels[c.intent], icon: INTENT_ICONS[c.intent] })),
+        };
         updateSessionMessages(activeSessionId, prev => [...prev.filter(m => !m.isWelcome), userMessage, botMessage]);
         return;
+      }
+      match = decision.match;
     }
+    const userMessage: ChatMessage = { id: Date.now(), text, sender: 'user', files, prompt, parentId: options.branchFrom };
+    const withUserMessage = (prev: ChatMessage[], ...replies: ChatMessage[]) => [...prev.filter(m => !m.isWelcome), userMessage, ...replies];
 
-    // Handle Trip Plan suggestion
-    const tripPlanVariants = LANGUAGES.map(lang => initialSuggestions[lang.code][5].text.toLowerCase());
-    if (tripPlanVariants.includes(text.toLowerCase().trim()) && files.length === 0) {
-        const userMessage: ChatMessage = { id: Date.now(), text, sender: 'user' };
-        const botResponse: ChatMessage = { id: Date.now() + 1, sender: 'bot', text: TRIP_PLAN_PROMPT[currentSession.languageCode] || TRIP_PLAN_PROMPT['en-US'] };
-        updateSessionMessages(activeSessionId, prev => {
-          if (prev.length === 1 && prev[0].isWelcome) return [userMessage, botResponse];
-          return [...prev, userMessage, botResponse];
-        });
+    const targetLanguage = LANGUAGES.find(l => l.code === match.targetLanguage);
+    if (match.intent === 'change-language' && targetLanguage) {
+        setSessions(prevSessions =>
+          prevSessions.map(session =>
+            session.id === activeSessionId ? { ...session, languageCode: targetLanguage.code } : session
+          )
+        );
+        const confirmationMessage: ChatMessage = {
+            id: Date.now() + 1,
+            sender: 'bot',
+            text: translate(targetLanguage.code, 'language.switched', { language: targetLanguage.nativeName }),
+        };
+        updateSessionMessages(activeSessionId, prev => withUserMessage(prev, confirmationMessage));
+        return;
+    }
+
+    if (match.intent === 'edit-image') {
+      handleImageEdit(source.text, source.files[0]);
+      return;
+    }
+
+    if (match.intent === 'generate-image') {
+        setPendingImagePrompt(source.text);
+        const artStyleSuggestions: Suggestion[] = ART_STYLES.map(style => ({ text: style, icon: PaletteIcon }));
+        const botMessage: ChatMessage = { id: Date.now() + 1, sender: 'bot', text: translate(currentSession.languageCode, 'reply.artStyle'), suggestions: artStyleSuggestions };
+        updateSessionMessages(activeSessionId, prev => withUserMessage(prev, botMessage));
+        return;
+    }
+
+    if (match.intent === 'update-itinerary' && currentSession.itinerary) {
+      handleItineraryRequest(source.text, true);
+      return;
+    }
+
+    // The welcome chip comes without any details, so the traveler is asked for them first.
+    if (match.intent === 'trip-plan' && !Object.values(LANGUAGE_PACKS).some(p => p.tripPlanLabel === source.text.trim())) {
+      handleItineraryRequest(source.text, false);
+      return;
+    }
+
+    if (match.intent === 'trip-plan') {
+        setPendingTripPlan(activeSessionId);
+        const botResponse: ChatMessage = { id: Date.now() + 1, sender: 'bot', text: pack.tripPlanPrompt };
+        updateSessionMessages(activeSessionId, prev => withUserMessage(prev, botResponse));
         return;
     }
 
     // Standard message sending
-    const userMessage: ChatMessage = { id: Date.now(), text, sender: 'user', files };
     userMessageCount.current += 1;
 
     const botMessageId = Date.now() + 1;
-    const botMessagePlaceholder: ChatMessage = { id: botMessageId, text: '', sender: 'bot', isLoading: true };
+    const botMessagePlaceholder: ChatMessage = { id: botMessageId, text: '', sender: 'bot', isLoading: true, parentId: userMessage.id };
 
     const isFirstUserMessage = currentSession.messages.filter(m => m.sender === 'user').length === 0;
     if (isFirstUserMessage) {
         setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, title: text.substring(0, 40) } : s));
     }
 
-    updateSessionMessages(activeSessionId, prev => {
+    const chat = options.branchFrom !== undefined ? startChatAt(currentSession, options.branchFrom) : chatSessionRef.current;
+    if (!chat) return;
+    const addMessages = (prev: ChatMessage[]) => {
       if (prev.length === 1 && prev[0].isWelcome) return [userMessage, botMessagePlaceholder];
       return [...prev, userMessage, botMessagePlaceholder];
-    });
-
-    try {
-        if (!chatSessionRef.current) throw new Error("Chat session not initialized");
-        
-        let promptText = prompt || text;
-        if (userLocation) promptText = `My current location is latitude: ${userLocation.latitude}, longitude: ${userLocation.longitude}. Please use this for any location-based queries.\n\nMy request: "${promptText}"`;
-
-        const imageParts: Part[] = files.filter(f => f.mimeType.startsWith('image/')).map(f => ({ inlineData: { data: f.data, mimeType: f.mimeType } }));
-        files.filter(f => f.mimeType === 'text/plain').forEach(f => {
-          promptText = `Context from file "${f.name}":\n${f.data}\n\nMy question: ${promptText}`;
-        });
-        
-        const stream = await sendMessage(chatSessionRef.current, [promptText, ...imageParts]);
-        let fullResponse = '', sources: {uri: string, title: string}[] = [];
-
-        for await (const chunk of stream) {
-            fullResponse += chunk.text;
-            // FIX: Removed unnecessary type assertion for chunk.candidates.
-            const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
-            if (groundingMetadata?.groundingChunks && Array.isArray(groundingMetadata.groundingChunks)) {
-                const webChunks = groundingMetadata.groundingChunks
-                  .flatMap(c => {
-                      if (c.web) {
-                          return [c.web];
-                      }
-                      if (c.maps?.placeAnswerSources && Array.isArray(c.maps.placeAnswerSources)) {
-                          return c.maps.placeAnswerSources.map(p => ({ uri: p.uri, title: p.displayName }));
-                      }
-                      return [];
-                  })
-                  .filter((c): c is { uri: string; title: string } => !!c && !!c.uri);
-                sources.push(...webChunks);
-            }
-            updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: fullResponse, isLoading: true } : msg));
-        }
-        
-        const cleanedText = fullResponse.replace(/!\[.*?\]\(.*?\)/g, '').trim();
-        const uniqueSources = Array.from(new Map(sources.map(s => [s.uri, s])).values());
-        
-        const finalBotMessage: ChatMessage = { id: botMessageId, text: cleanedText, sender: 'bot', sources: uniqueSources, isLoading: false };
-        updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? finalBotMessage : msg));
-
-        if (userMessageCount.current >= 5) {
-            userMessageCount.current = 0;
-            const tip = SUSTAINABILITY_TIPS[currentSession.languageCode] || SUSTAINABILITY_TIPS['en-US'];
-            setTimeout(() => {
-                addSystemMessage(tip);
-            }, 500);
-        }
+    };
+    const reply = await streamReply(activeSessionId, currentSession.languageCode, chat, { text, files, prompt }, addMessages, botMessagePlaceholder);
+    if (reply !== null && !currentSession.tags) describeSession(activeSessionId, currentSession.languageCode, `Traveler: ${text}\nGuide: ${reply}`);
 
-    } catch (error) {
-        console.error('Error sending message:', error);
-        updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: "Sorry, I encountered an error. Please try again.", isLoading: false } : msg));
+    if (reply !== null && userMessageCount.current >= 5) {
+        userMessageCount.current = 0;
+        const tip = pack.sustainabilityTip;
+        setTimeout(() => {
+            addSystemMessage(tip);
+        }, 500);
     }
-  }, [activeSessionId, sessions, pendingImagePrompt, userLocation, handleImageEdit, handleImageGeneration, initialSuggestions, updateSessionMessages, addSystemMessage]);
+  }, [activeSessionId, sessions, pendingImagePrompt, pendingTripPlan, pendingClarification, provider, handleItineraryRequest, handleBriefing, handleImageEdit, handleImageGeneration, updateSessionMessages, addSystemMessage, startChatAt, streamReply, describeSession]);
   
   const handleVideoGeneration = useCallback(async (file: UploadedFile, prompt: string, aspectRatio: '16:9' | '9:16') => {
     if (!activeSessionId) return;
-    const userMessage: ChatMessage = { id: Date.now(), text: `(Video Prompt: ${prompt})`, sender: 'user', files: [file] };
+    const userMessage: ChatMessage = { id: Date.now(), text: translate(activeLanguage.code, 'message.videoPrompt', { prompt }), sender: 'user', files: [file] };
     const botMessageId = Date.now() + 1;
     const botMessagePlaceholder: ChatMessage = { id: botMessageId, text: '', sender: 'bot', isLoading: true, videoState: 'generating' };
     updateSessionMessages(activeSessionId, prev => {
@@ -483,62 +924,212 @@ const App: React.FC = () => {
       return [...prev, userMessage, botMessagePlaceholder];
     });
 
+    const abortController = new AbortController();
+    videoJobsRef.current.set(botMessageId, abortController);
+
     try {
-        const videoUri = await generateVideo(file, prompt, aspectRatio);
-        const finalBotMessage: ChatMessage = { id: botMessageId, text: 'Here is the generated video:', sender: 'bot', isLoading: false, videoState: 'done', videoUrl: videoUri };
-        updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? finalBotMessage : msg));
+        const videoUri = await provider.generateVideo(file, prompt, aspectRatio, abortController.signal);
+        const finalBotMessage: ChatMessage = { id: botMessageId, text: translate(activeLanguage.code, 'reply.video'), sender: 'bot', isLoading: false, videoState: 'done', videoUrl: videoUri };
+        updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, ...finalBotMessage } : msg));
     } catch (error) {
+        if (isAbortError(error)) {
+            updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: translate(activeLanguage.code, 'reply.videoCancelled'), isLoading: false, videoState: 'cancelled' } : msg));
+            return;
+        }
         console.error('Error generating video:', error);
-        const errorMessage = (error instanceof Error) ? error.message : "An unknown error occurred.";
-        updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: `Sorry, I couldn't generate the video. Error: ${errorMessage}`, isLoading: false, videoState: 'failed' } : msg));
+        const retry: RetryRequest = { type: 'video', file, prompt, aspectRatio };
+        updateSessionMessages(activeSessionId, prev => prev.map(msg => msg.id === botMessageId ? { ...toFailedMessage(msg, error, activeLanguage.code, retry), videoState: 'failed' } : msg));
+    } finally {
+        videoJobsRef.current.delete(botMessageId);
     }
-  }, [activeSessionId, updateSessionMessages]);
+  }, [activeSessionId, activeLanguage, provider, updateSessionMessages]);
+
+  const handleStopGeneration = useCallback(() => {
+    if (streamAbortRef.current) {
+      streamAbortRef.current.abort();
+    } else if (activeSessionId && remoteStreamsRef.current.has(activeSessionId)) {
+      // The reply is streaming in another tab; only that tab can stop it.
+      broadcast({ type: 'stop-stream', sessionId: activeSessionId });
+    }
+  }, [activeSessionId]);
+
+  const handleCancelVideo = useCallback((messageId: number) => {
+    videoJobsRef.current.get(messageId)?.abort();
+  }, []);
 
   const handleSummarize = useCallback(async (textToSummarize: string) => {
     if (!activeSessionId) return;
-    const tempId = Date.now();
-    addSystemMessage("Summarizing...");
+    const summarizingText = translate(activeLanguage.code, 'notice.summarizing');
+    addSystemMessage(summarizingText);
 
     try {
-        const summary = await summarizeText(textToSummarize);
+        const summary = await provider.summarizeText(textToSummarize);
         const summaryMessage: ChatMessage = {
             id: Date.now(),
             sender: 'bot',
-            text: `📝 **Summary**\n\n${summary}`,
+            text: `📝 **${translate(activeLanguage.code, 'reply.summary')}**\n\n${summary}`,
         };
         updateSessionMessages(activeSessionId, prev => 
-            prev.filter(m => !(m.isSystem && m.text === "Summarizing..."))
+            prev.filter(m => !(m.isSystem && m.text === summarizingText))
                 .concat(summaryMessage)
         );
     } catch (error) {
         console.error("Summarization error:", error);
+        const failedMessage = toFailedMessage({ id: Date.now(), text: '', sender: 'bot' }, error, activeLanguage.code, { type: 'summarize', text: textToSummarize });
         updateSessionMessages(activeSessionId, prev => 
-            prev.filter(m => !(m.isSystem && m.text === "Summarizing..."))
+            prev.filter(m => !(m.isSystem && m.text === summarizingText))
+                .concat(failedMessage)
         );
-        addSystemMessage("Sorry, I couldn't summarize that. Please try again.");
     }
-  }, [activeSessionId, addSystemMessage, updateSessionMessages]);
+  }, [activeSessionId, activeLanguage, provider, addSystemMessage, updateSessionMessages]);
+
+  // Translations are cached on the message, so asking again, or the bilingual view showing it
+  // again after a reload, costs nothing. Errors go back to the bubble, which shows them inline.
+  const handleTranslateMessage = useCallback(async (messageId: number, code: string): Promise<string> => {
+    const message = activeSession?.messages.find(m => m.id === messageId);
+    if (!activeSession || !message) return '';
+    const cached = message.translations?.[code];
+    if (cached) return cached;
+    const translation = await provider.translateText(message.text, code);
+    updateSessionMessages(activeSession.id, prev => prev.map(m => m.id === messageId ? { ...m, translations: { ...m.translations, [code]: translation } } : m));
+    return translation;
+  }, [activeSession, provider, updateSessionMessages]);
+
+  // Slash commands typed in ChatInput go straight to their handler instead of through the router.
+  const handleCommand = useCallback((command: SlashCommand, payload: { text: string; files: UploadedFile[] }) => {
+    if (!activeSession) return;
+    const languageCode = activeSession.languageCode;
+    switch (command.type) {
+      case 'image':
+        if (command.style) handleImageGeneration(command.prompt, command.style, payload.text);
+        else handleSendMessage({ text: command.prompt, files: [] }, { intent: { intent: 'generate-image', confidence: 1 } });
+        break;
+      case 'edit': handleImageEdit(command.prompt, payload.files[0]); break;
+      case 'video': handleVideoGeneration(payload.files[0], command.prompt, command.aspectRatio); break;
+      case 'summarize': {
+        const textFile = payload.files.find(f => f.mimeType === 'text/plain');
+        const conversation = activePath.filter(m => !m.isWelcome && !m.isSystem);
+        if (command.text || textFile) handleSummarize(command.text ?? textFile!.data);
+        else if (conversation.length > 0) handleSummarize(buildSummaryInput(conversation));
+        else addSystemMessage(translate(languageCode, 'notice.nothingToSummarize'));
+        break;
+      }
+      case 'lang':
+        handleSendMessage(payload, { intent: { intent: 'change-language', confidence: 1, targetLanguage: command.languageCode } });
+        break;
+      case 'briefing': handleBriefing(); break;
+      case 'plan':
+        if (command.details) handleItineraryRequest(command.details, false);
+        else handleSendMessage({ text: getLanguagePack(languageCode).tripPlanLabel, files: [] }, { intent: { intent: 'trip-plan', confidence: 1 } });
+        break;
+      case 'new': handleNewChat(); break;
+    }
+  }, [activeSession, activePath, handleSendMessage, handleItineraryRequest, handleBriefing, handleImageGeneration, handleImageEdit, handleVideoGeneration, handleSummarize, handleNewChat, addSystemMessage]);
+
+  // Asks for another reply to the user message `userMessageId`. The new reply becomes a sibling of
+  // the existing ones, which stay reachable through the version arrows.
+  const regenerateFrom = useCallback((session: ChatSession, userMessageId: number) => {
+    const userMessage = session.messages.find(m => m.id === userMessageId);
+    if (!userMessage || userMessage.sender !== 'user') return;
+    const placeholder: ChatMessage = { id: Date.now(), text: '', sender: 'bot', isLoading: true, parentId: userMessage.id };
+    const chat = startChatAt(session, getParentId(session.messages, userMessage.id));
+    streamReply(session.id, session.languageCode, chat, { text: userMessage.text, files: userMessage.files ?? [], prompt: userMessage.prompt }, prev => [...prev, placeholder], placeholder);
+  }, [startChatAt, streamReply]);
+
+  const handleRegenerate = useCallback((messageId: number) => {
+    if (!activeSession) return;
+    const parentId = getParentId(activeSession.messages, messageId);
+    if (parentId !== null) regenerateFrom(activeSession, parentId);
+  }, [activeSession, regenerateFrom]);
+
+  // Sends the edited text as a new version of the message, branching from the message before it.
+  const handleEditMessage = useCallback((messageId: number, text: string) => {
+    const original = activeSession?.messages.find(m => m.id === messageId);
+    if (!activeSession || !original || !text.trim()) return;
+    handleSendMessage({ text: text.trim(), files: original.files ?? [] }, { branchFrom: getParentId(activeSession.messages, messageId) });
+  }, [activeSession, handleSendMessage]);
+
+  const handleSwitchVersion = useCallback((messageId: number, delta: number) => {
+    if (!activeSession) return;
+    const versions = getVersions(activeSession.messages, messageId);
+    const target = versions[versions.findIndex(m => m.id === messageId) + delta];
+    if (target) setActiveLeaf(activeSession.id, deepestLeaf(activeSession.messages, target.id));
+  }, [activeSession, setActiveLeaf]);
+
+  const handleRetry = useCallback((messageId: number) => {
+    if (!activeSession) return;
+    const failed = activeSession.messages.find(m => m.id === messageId);
+    const retry = failed?.error?.retry;
+    if (!retry) return;
+
+    const parentId = getParentId(activeSession.messages, messageId);
+    const parent = activeSession.messages.find(m => m.id === parentId);
+    // A failed chat reply is simply asked for again from the message that prompted it.
+    if (retry.type === 'chat' && parent?.sender === 'user') {
+      const remaining = activeSession.messages.filter(m => m.id !== messageId);
+      updateSessionMessages(activeSession.id, remaining);
+      regenerateFrom({ ...activeSession, messages: remaining }, parent.id);
+      return;
+    }
+
+    // Drop the failed reply, and the user message that prompted it, since the handler adds it back.
+    const idsToRemove = new Set([messageId]);
+    if (retry.type !== 'summarize' && parent?.sender === 'user') idsToRemove.add(parent.id);
+    updateSessionMessages(activeSession.id, prev => prev.filter(m => !idsToRemove.has(m.id)));
+
+    switch (retry.type) {
+      case 'chat': handleSendMessage({ text: retry.text, files: retry.files, prompt: retry.prompt }); break;
+      case 'image': handleImageGeneration(retry.prompt, retry.style as ArtStyle); break;
+      case 'edit': handleImageEdit(retry.text, retry.file); break;
+      case 'video': handleVideoGeneration(retry.file, retry.prompt, retry.aspectRatio); break;
+      case 'summarize': handleSummarize(retry.text); break;
+      case 'itinerary': handleItineraryRequest(retry.request, retry.isUpdate); break;
+      case 'briefing': handleBriefing(); break;
+    }
+  }, [activeSession, updateSessionMessages, regenerateFrom, handleSendMessage, handleItineraryRequest, handleBriefing, handleImageGeneration, handleImageEdit, handleVideoGeneration, handleSummarize]);
 
   const renderContent = () => {
     switch (stage) {
       case 'live-chat':
-        return <LiveChatView onGoBack={() => setStage('chat')} />;
+        return <LiveChatView provider={provider} onGoBack={() => setStage('chat')} />;
       case 'chat':
       default:
         return activeSession ? (
           <ChatWindow
-            messages={activeSession.messages}
+            messages={activePath}
+            messageVersions={messageVersions}
             onSendMessage={handleSendMessage}
+            onCommand={handleCommand}
+            onEditMessage={handleEditMessage}
+            onRegenerate={handleRegenerate}
+            onSwitchVersion={handleSwitchVersion}
             onGenerateVideo={handleVideoGeneration}
             onSummarize={handleSummarize}
+            onTranslateMessage={handleTranslateMessage}
+            onRetry={handleRetry}
+            onStopGeneration={handleStopGeneration}
+            onCancelVideo={handleCancelVideo}
+            itineraryMessageId={activeSession.itinerary?.messageId}
+            onChangeItinerary={handleChangeItinerary}
+            onRefineItinerary={handleRefineItinerary}
+            shortlist={activeSession.shortlist ?? []}
+            onToggleShortlist={handleToggleShortlist}
+            userLocation={userLocation}
+            isGenerating={streamingMessageId !== null || (activeSessionId !== null && remoteStreams.has(activeSessionId))}
             isLoading={isLoading}
             language={activeLanguage}
+            onChangeLanguage={handleChangeLanguage}
+            bilingualLanguageCode={activeSession.bilingualLanguageCode}
+            onChangeBilingualLanguage={handleChangeBilingualLanguage}
+            modelId={activeSession.modelId}
+            onSelectModel={handleSelectModel}
             isTextToSpeechEnabled={isTextToSpeechEnabled}
             onToggleTextToSpeech={() => setIsTextToSpeechEnabled(prev => !prev)}
             isBotSpeaking={isBotSpeaking}
             setIsBotSpeaking={setIsBotSpeaking}
             addSystemMessage={addSystemMessage}
             onToggleHistoryPanel={() => setIsHistoryPanelOpen(prev => !prev)}
+            focusRequest={focusRequest}
           />
         ) : null;
     }
@@ -548,15 +1139,29 @@ const App: React.FC = () => {
     <div className="bg-[#131314] text-gray-200 h-screen w-full font-sans flex overflow-hidden relative">
       <HistoryPanel
         sessions={sessions}
+        folders={folders}
         activeSessionId={activeSessionId}
         onSelectSession={handleSelectSession}
+        onSelectMessage={handleSelectMessage}
         onNewChat={handleNewChat}
         onDeleteSession={handleDeleteSession}
         onRenameSession={handleRenameSession}
         onClearAllSessions={handleClearAllSessions}
+        onImportSessions={handleImportSessions}
+        onTogglePin={handleTogglePin}
+        onMoveSession={handleMoveSession}
+        onCreateFolder={handleCreateFolder}
+        onRenameFolder={handleRenameFolder}
+        onDeleteFolder={handleDeleteFolder}
+        onRestoreSession={handleRestoreSession}
+        onDeleteSessionsForever={handleDeleteSessionsForever}
+        trashRetentionDays={trashRetentionDays}
+        onChangeTrashRetention={setTrashRetentionDays}
         isOpen={isHistoryPanelOpen}
         onToggle={() => setIsHistoryPanelOpen(prev => !prev)}
         allGeneratedImages={allGeneratedImages}
+        onOpenHistoryLock={onOpenHistoryLock}
+        onLockHistory={onLockHistory}
       />
       <main className={`flex-1 flex flex-col transition-all duration-300 ${isHistoryPanelOpen ? 'md:ml-96' : ''}`}>
         {renderContent()}
@@ -0,0 +1,126 @@
+import React from 'react';
+import type { TideEvent, TodaysBriefing, WeatherCondition } from '../types';
+import { gokarnaTime, gokarnaToday, minutesOfDay } from '../services/briefing';
+import { useTranslation } from '../services/i18n';
+import { getLanguagePack } from '../services/languagePacks';
+import { SunCloudIcon } from './Icons';
+
+interface BriefingCardProps {
+  briefing: TodaysBriefing;
+}
+
+const CONDITION_ICONS: { [condition in WeatherCondition]: string } = {
+  'sunny': '☀️',
+  'partly-cloudy': '⛅',
+  'cloudy': '☁️',
+  'rain': '🌧️',
+  'storm': '⛈️',
+  'fog': '🌫️',
+};
+
+const DAY_MINUTES = 24 * 60;
+const HOUR_MARKS = ['00:00', '06:00', '12:00', '18:00', '24:00'];
+
+const position = (time: string) => `${(minutesOfDay(time) / DAY_MINUTES) * 100}%`;
+
+// The day from midnight to midnight, with high tides above the line and low tides below. The
+// sunset, and the time now on the day the briefing is for, are marked on the line itself.
+const TideTimeline: React.FC<{ tides: TideEvent[]; sunset?: string; now?: string }> = ({ tides, sunset, now }) => {
+  const { t } = useTranslation();
+  return (
+    <div className="px-5">
+      <div className="relative h-16">
+        <div className="absolute inset-x-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-gradient-to-r from-blue-950 via-blue-700 to-blue-950" />
+        {tides.map((tide, index) => {
+          const label = t(tide.type === 'high' ? 'briefing.highTide' : 'briefing.lowTide', { time: tide.time });
+          return (
+            <div
+              key={index}
+              className={`absolute -translate-x-1/2 whitespace-nowrap text-xs ${tide.type === 'high' ? 'top-0 text-blue-300' : 'bottom-0 text-gray-400'}`}
+              style={{ left: position(tide.time) }}
+              title={label}
+              aria-label={label}
+            >
+              {tide.type === 'high' ? '▲' : '▼'} {tide.time}
+            </div>
+          );
+        })}
+        {sunset && (
+          <div
+            className="absolute top-1/2 w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-orange-400 ring-2 ring-[#1E1F20]"
+            style={{ left: position(sunset) }}
+            title={`${t('briefing.sunset')} ${sunset}`}
+          />
+        )}
+        {now && (
+          <div
+            className="absolute top-2 bottom-2 w-0.5 -translate-x-1/2 bg-white/70"
+            style={{ left: position(now) }}
+            title={`${t('briefing.now')} ${now}`}
+          />
+        )}
+      </div>
+      <div className="relative h-4 text-[0.65rem] text-gray-600">
+        {HOUR_MARKS.map(mark => (
+          <span key={mark} className="absolute -translate-x-1/2" style={{ left: mark === '24:00' ? '100%' : position(mark) }}>{mark}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const BriefingCard: React.FC<BriefingCardProps> = ({ briefing }) => {
+  const { t, languageCode } = useTranslation();
+  const date = new Date(`${briefing.date}T12:00:00Z`).toLocaleDateString(languageCode, { weekday: 'long', day: 'numeric', month: 'long', timeZone: 'UTC' });
+  const now = briefing.date === gokarnaToday() ? gokarnaTime() : undefined;
+
+  return (
+    <div className="mt-3 w-full max-w-xl bg-[#1E1F20] rounded-xl border border-gray-700/50 overflow-hidden">
+      <header className="flex items-center justify-between gap-2 px-4 py-2 bg-[#252525] text-sm">
+        <span className="flex items-center gap-2 font-semibold text-gray-200">
+          <SunCloudIcon className="w-5 h-5 text-blue-400" /> {getLanguagePack(languageCode).briefingLabel}
+        </span>
+        <span className="text-xs text-gray-400">{date}</span>
+      </header>
+
+      <div className="flex items-center gap-4 px-4 py-4">
+        <span className="text-5xl" role="img" aria-label={briefing.conditionText || briefing.condition}>{CONDITION_ICONS[briefing.condition]}</span>
+        <div>
+          <p className="text-3xl font-semibold text-white">{briefing.temperature}°C</p>
+          {briefing.conditionText && <p className="text-sm text-gray-400">{briefing.conditionText}</p>}
+          {briefing.high !== undefined && briefing.low !== undefined && (
+            <p className="text-xs text-gray-500">{t('briefing.highLow', { high: briefing.high, low: briefing.low })}</p>
+          )}
+        </div>
+        {briefing.sunset && (
+          <div className="ml-auto text-right">
+            <p className="text-xs text-gray-500">{t('briefing.sunset')}</p>
+            <p className="text-lg font-semibold text-orange-300">🌅 {briefing.sunset}</p>
+          </div>
+        )}
+      </div>
+
+      <section className="px-4 pb-4">
+        <h4 className="mb-2 text-xs font-semibold text-gray-400">🌊 {t('briefing.tides')}</h4>
+        {briefing.tides.length > 0
+          ? <TideTimeline tides={briefing.tides} sunset={briefing.sunset} now={now} />
+          : <p className="text-sm text-gray-500">{t('briefing.noTides')}</p>}
+      </section>
+
+      <div className="divide-y divide-gray-800 border-t border-gray-800">
+        {briefing.gem && (
+          <section className="px-4 py-3">
+            <h4 className="mb-1 text-xs font-semibold text-gray-400">💎 {t('briefing.gem')}</h4>
+            <p className="text-sm text-gray-200">{briefing.gem}</p>
+          </section>
+        )}
+        {briefing.safetyTip && (
+          <section className="px-4 py-3">
+            <h4 className="mb-1 text-xs font-semibold text-gray-400">💡 {t('briefing.safetyTip')}</h4>
+            <p className="text-sm text-gray-200">{briefing.safetyTip}</p>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
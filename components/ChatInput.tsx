@@ -1,12 +1,19 @@
 
 import React, { useState, useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
-import { PlusIcon, MicIcon, ImageIcon, FileTextIcon, VideoIcon, SendIcon, WaveformIcon } from './Icons';
+import { PlusIcon, MicIcon, ImageIcon, FileTextIcon, VideoIcon, SendIcon, WaveformIcon, StopIcon } from './Icons';
 import type { UploadedFile } from '../types';
+import { DEFAULT_VIDEO_PROMPT, SLASH_COMMANDS, describeCommand, findCommand, matchCommands, parseSlashCommand, type SlashCommand, type SlashCommandSpec } from '../services/slashCommands';
+import { useTranslation } from '../services/i18n';
 
 interface ChatInputProps {
   onSendMessage: (payload: { text: string; files: UploadedFile[] }) => void;
+  // Messages starting with "/" are parsed here and never reach onSendMessage.
+  onCommand: (command: SlashCommand, payload: { text: string; files: UploadedFile[] }) => void;
   onGenerateVideo: (file: UploadedFile, prompt: string, aspectRatio: '16:9' | '9:16') => void;
   isLoading: boolean;
+  isGenerating: boolean;
+  onStop: () => void;
+  // Speech recognition listens for this language; the UI strings follow the locale context.
   languageCode: string;
   isBotSpeaking: boolean;
   addSystemMessage: (text: string) => void;
@@ -40,11 +47,15 @@ const SpeechRecognition = (window as any).SpeechRecognition || (window as any).w
 const isSpeechRecognitionSupported = !!SpeechRecognition;
 
 // FIX: Update forwardRef to use the new ChatInputHandle type instead of HTMLInputElement.
-export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMessage, onGenerateVideo, isLoading, languageCode, isBotSpeaking, addSystemMessage }, ref) => {
+export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMessage, onCommand, onGenerateVideo, isLoading, isGenerating, onStop, languageCode, isBotSpeaking, addSystemMessage }, ref) => {
+  const { t } = useTranslation();
   const [inputValue, setInputValue] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [stagedFiles, setStagedFiles] = useState<UploadedFile[]>([]);
+  const [highlightedCommand, setHighlightedCommand] = useState(0);
+  // Escape hides the command menu until the input changes again.
+  const [isCommandMenuDismissed, setIsCommandMenuDismissed] = useState(false);
   const recognitionRef = useRef<any>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
   const textInputRef = useRef<HTMLInputElement>(null);
@@ -90,13 +101,13 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
     recognition.onerror = (event: any) => {
         console.error('Speech recognition error:', event.error);
         if (event.error === 'not-allowed') {
-             addSystemMessage("Microphone access denied. Please allow mic permission in your browser or device settings.");
+             addSystemMessage(t('mic.denied'));
         } else if (event.error === 'no-speech') {
-             addSystemMessage("No speech was detected. Please tap the mic again to speak.");
+             addSystemMessage(t('mic.noSpeech'));
         } else if (event.error === 'audio-capture') {
-            addSystemMessage("Microphone error. Another app might be using it. Please check and try again.");
+            addSystemMessage(t('mic.busy'));
         } else if (event.error !== 'aborted') {
-             addSystemMessage("A microphone error occurred. Please check your connection and try again.");
+             addSystemMessage(t('mic.failed'));
         }
     }
 
@@ -126,10 +137,46 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
             clearTimeout(silenceTimerRef.current);
         }
     }
-  }, [languageCode, addSystemMessage]);
+  }, [languageCode, addSystemMessage, t]);
   
+  const commandMatches = isCommandMenuDismissed ? [] : matchCommands(inputValue);
+  const typedCommand = findCommand(inputValue);
+
+  const handleInputChange = (value: string) => {
+    setInputValue(value);
+    setHighlightedCommand(0);
+    setIsCommandMenuDismissed(false);
+  };
+
+  const completeCommand = (command: SlashCommandSpec) => {
+    handleInputChange(`/${command.name} `);
+    localInputRef.current?.focus();
+  };
+
+  const runCommand = () => {
+    const text = inputValue.trim();
+    let command: SlashCommand;
+    try {
+      command = parseSlashCommand(text, languageCode);
+    } catch (error) {
+      addSystemMessage((error as Error).message);
+      return;
+    }
+    if (SLASH_COMMANDS.find(c => c.name === command.type)?.needsImage && (stagedFiles.length !== 1 || !stagedFiles[0].mimeType.startsWith('image/'))) {
+      addSystemMessage(t('input.needOneImage', { command: command.type }));
+      return;
+    }
+    onCommand(command, { text, files: stagedFiles });
+    setInputValue('');
+    setStagedFiles([]);
+  };
+
   const handleManualSendMessage = () => {
-    if ((inputValue.trim() || stagedFiles.length > 0) && !isLoading) {
+    if ((inputValue.trim() || stagedFiles.length > 0) && !isLoading && !isGenerating) {
+      if (inputValue.trimStart().startsWith('/')) {
+        runCommand();
+        return;
+      }
       onSendMessage({ text: inputValue, files: stagedFiles });
       setInputValue('');
       setStagedFiles([]);
@@ -138,7 +185,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
 
   const handleMicClick = () => {
     if (!isSpeechRecognitionSupported) {
-        addSystemMessage("Voice input is not supported by your browser.");
+        addSystemMessage(t('input.voiceUnsupported'));
         return;
     }
 
@@ -153,12 +200,12 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
   
     const handleGenerateVideoClick = () => {
         if (stagedFiles.length !== 1 || !stagedFiles[0].mimeType.startsWith('image/')) {
-            addSystemMessage("Please upload exactly one image to generate a video.");
+            addSystemMessage(t('input.needOneImageForVideo'));
             return;
         }
-        const prompt = window.prompt("Enter a prompt for the video:", "A cinematic shot of this scene.");
+        const prompt = window.prompt(t('input.videoPrompt'), DEFAULT_VIDEO_PROMPT);
         if (prompt) {
-            const aspectRatio = window.confirm("Generate in landscape (16:9)? Cancel for portrait (9:16).") ? '16:9' : '9:16';
+            const aspectRatio = window.confirm(t('input.videoLandscape')) ? '16:9' : '9:16';
             onGenerateVideo(stagedFiles[0], prompt, aspectRatio);
             setStagedFiles([]);
             setInputValue('');
@@ -167,6 +214,26 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
     };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (commandMatches.length > 0) {
+      const highlighted = commandMatches[highlightedCommand % commandMatches.length];
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : commandMatches.length - 1;
+        setHighlightedCommand((highlightedCommand + step) % commandMatches.length);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setIsCommandMenuDismissed(true);
+        return;
+      }
+      // Enter completes a partly typed name, and runs a command that is already typed in full.
+      if (e.key === 'Tab' || (e.key === 'Enter' && inputValue.trim() !== `/${highlighted.name}`)) {
+        e.preventDefault();
+        completeCommand(highlighted);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
         if (isListening) {
@@ -194,7 +261,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
             }]);
         } catch (error) {
             console.error("Error reading file:", error);
-            addSystemMessage("Could not read file. Please try again.");
+            addSystemMessage(t('input.readFileFailed'));
         }
     }
     event.target.value = '';
@@ -210,19 +277,44 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
         {isMenuOpen && (
             <div ref={menuRef} className="absolute bottom-full mb-3 w-48 bg-[#2a2a2a] text-white rounded-xl shadow-lg animate-fade-in-up overflow-hidden border border-gray-700/50">
                 <button onClick={() => imageInputRef.current?.click()} className="flex items-center w-full px-4 py-3 text-left hover:bg-[#333] transition-colors">
-                    <ImageIcon className="mr-3" /> Upload Image
+                    <ImageIcon className="mr-3" /> {t('input.uploadImage')}
                 </button>
                 <button onClick={() => textInputRef.current?.click()} className="flex items-center w-full px-4 py-3 text-left hover:bg-[#333] transition-colors">
-                    <FileTextIcon className="mr-3" /> Upload text file
+                    <FileTextIcon className="mr-3" /> {t('input.uploadText')}
                 </button>
                 <button 
                     onClick={handleGenerateVideoClick} 
                     className={`flex items-center w-full px-4 py-3 text-left transition-colors ${stagedFiles.length === 1 && stagedFiles[0].mimeType.startsWith('image/') ? 'hover:bg-[#333]' : 'text-gray-500 cursor-not-allowed'}`}
                     disabled={stagedFiles.length !== 1 || !stagedFiles[0].mimeType.startsWith('image/')}>
-                    <VideoIcon className="mr-3" /> Generate Video
+                    <VideoIcon className="mr-3" /> {t('input.generateVideo')}
                 </button>
             </div>
         )}
+        {commandMatches.length > 0 ? (
+            <div role="listbox" id="slash-commands" aria-label={t('input.commands')} className="absolute bottom-full mb-3 w-full max-w-md bg-[#2a2a2a] text-white rounded-xl shadow-lg animate-fade-in-up overflow-hidden border border-gray-700/50 z-20">
+                {commandMatches.map((command, index) => (
+                    <button
+                        key={command.name}
+                        role="option"
+                        aria-selected={index === highlightedCommand % commandMatches.length}
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => completeCommand(command)}
+                        onMouseEnter={() => setHighlightedCommand(index)}
+                        className={`flex flex-col w-full px-4 py-2 text-left transition-colors ${index === highlightedCommand % commandMatches.length ? 'bg-[#333]' : ''}`}
+                    >
+                        <span className="text-sm">
+                            <span className="font-semibold">/{command.name}</span>
+                            {command.args && <span className="text-gray-400"> {command.args}</span>}
+                        </span>
+                        <span className="text-xs text-gray-500">{describeCommand(command, languageCode)}{command.needsImage && ` ${t('input.attachOnePhoto')}`}</span>
+                    </button>
+                ))}
+            </div>
+        ) : typedCommand?.args && (
+            <div className="absolute bottom-full mb-3 px-3 py-1.5 bg-[#2a2a2a] rounded-lg text-sm text-gray-400 border border-gray-700/50 pointer-events-none">
+                <span className="text-white font-semibold">/{typedCommand.name}</span> {typedCommand.args}
+            </div>
+        )}
         <input type="file" ref={imageInputRef} onChange={handleFileChange} accept="image/*" className="hidden" multiple/>
         <input type="file" ref={textInputRef} onChange={handleFileChange} accept=".txt,text/plain" className="hidden" multiple/>
         
@@ -238,7 +330,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
                                     <FileTextIcon className="w-8 h-8 text-gray-400"/>
                                 }
                                 <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                                    <button onClick={() => removeStagedFile(file.name)} className="text-white text-3xl font-bold leading-none" aria-label={`Remove ${file.name}`}>
+                                    <button onClick={() => removeStagedFile(file.name)} className="text-white text-3xl font-bold leading-none" aria-label={t('input.removeFile', { name: file.name })}>
                                         &times;
                                     </button>
                                 </div>
@@ -255,7 +347,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
           <button 
             onClick={() => setIsMenuOpen(prev => !prev)}
             className="p-3 text-gray-400 hover:text-white transition-colors flex-shrink-0 rounded-full hover:bg-white/10"
-            aria-label="Add files"
+            aria-label={t('input.addFiles')}
           >
             <PlusIcon />
           </button>
@@ -263,7 +355,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
             className="absolute bottom-full mb-2 whitespace-nowrap bg-black text-white text-sm font-semibold px-3 py-1.5 rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"
             role="tooltip"
           >
-            Add Files
+            {t('input.addFiles')}
           </div>
         </div>
         
@@ -271,10 +363,14 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
           ref={localInputRef}
           type="text"
           value={inputValue}
-          onChange={(e) => setInputValue(e.target.value)}
+          onChange={(e) => handleInputChange(e.target.value)}
           onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-expanded={commandMatches.length > 0}
+          aria-controls="slash-commands"
+          aria-autocomplete="list"
           onFocus={() => { if (isBotSpeaking) window.speechSynthesis.cancel(); }}
-          placeholder="Ask about Gokarna..."
+          placeholder={t('input.placeholder')}
           className="w-full h-full bg-transparent border-none focus:ring-0 text-gray-200 placeholder-gray-500 px-2 text-lg outline-none"
           disabled={isLoading}
         />
@@ -288,10 +384,26 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
                     <button 
                         onClick={handleMicClick}
                         className="px-4 py-2 bg-red-600 text-white rounded-full font-semibold transition-colors hover:bg-red-700"
-                        aria-label="Stop listening"
+                        aria-label={t('input.stopListening')}
+                    >
+                        {t('input.stop')}
+                    </button>
+                </div>
+            ) : isGenerating ? (
+                <div className="relative group flex justify-center">
+                    <button
+                        onClick={onStop}
+                        className="p-3 bg-white text-black rounded-full hover:bg-gray-300 transition-all duration-300"
+                        aria-label={t('input.stopGenerating')}
                     >
-                        Stop
+                        <StopIcon className="h-5 w-5" />
                     </button>
+                    <div 
+                        className="absolute bottom-full mb-2 whitespace-nowrap bg-black text-white text-sm font-semibold px-3 py-1.5 rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"
+                        role="tooltip"
+                    >
+                        {t('input.stopGenerating')}
+                    </div>
                 </div>
             ) : (
                 <>
@@ -300,7 +412,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
                             onClick={handleManualSendMessage}
                             disabled={isLoading}
                             className="p-3 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:bg-gray-600 transition-all duration-300"
-                            aria-label="Send message"
+                            aria-label={t('input.send')}
                         >
                             <SendIcon />
                         </button>
@@ -310,7 +422,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
                                 onClick={handleMicClick}
                                 disabled={isLoading}
                                 className={`p-3 rounded-full text-gray-400 hover:text-white hover:bg-white/10 disabled:text-gray-600 disabled:cursor-not-allowed transition-all`}
-                                aria-label="Use voice mode"
+                                aria-label={t('input.voiceMode')}
                             >
                                 <MicIcon />
                             </button>
@@ -318,7 +430,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSendMe
                                 className="absolute bottom-full mb-2 whitespace-nowrap bg-black text-white text-sm font-semibold px-3 py-1.5 rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"
                                 role="tooltip"
                             >
-                                Use voice mode
+                                {t('input.voiceMode')}
                             </div>
                         </div>
                     )}
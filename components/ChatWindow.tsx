@@ -1,32 +1,70 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import type { ChatMessage, Language, UploadedFile, Suggestion } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { ChatMessage, HotelOption, Itinerary, Language, UploadedFile, Suggestion } from '../types';
 import { MessageBubble } from './MessageBubble';
 import { ChatInput, type ChatInputHandle } from './ChatInput';
 import { SuggestionChip } from './SuggestionChip';
-import { SpeakerOnIcon, SpeakerOffIcon, MenuIcon, ChevronDownIcon } from './Icons';
+import { ModelSelector } from './ModelSelector';
+import { HotelShortlist } from './HotelShortlist';
+import { LanguageSelector } from './LanguageSelector';
+import type { SlashCommand } from '../services/slashCommands';
+import { useTranslation } from '../services/i18n';
+import { getLanguagePack } from '../services/languagePacks';
+import { SpeakerOnIcon, SpeakerOffIcon, MenuIcon, ChevronDownIcon, BookmarkIcon, TranslateIcon } from './Icons';
 
 interface ChatWindowProps {
+  // The branch on screen, plus "version i of n" for messages that were edited or regenerated.
   messages: ChatMessage[];
+  messageVersions?: Map<number, { index: number; total: number }>;
   onSendMessage: (payload: { text: string; files: UploadedFile[]; prompt?: string }) => void;
+  onCommand: (command: SlashCommand, payload: { text: string; files: UploadedFile[] }) => void;
   onGenerateVideo: (file: UploadedFile, prompt: string, aspectRatio: '16:9' | '9:16') => void;
   onSummarize: (text: string) => void;
+  // Fetches a message's translation and caches it on the message.
+  onTranslateMessage: (messageId: number, languageCode: string) => Promise<string>;
+  onRetry: (messageId: number) => void;
+  onEditMessage: (messageId: number, text: string) => void;
+  onRegenerate: (messageId: number) => void;
+  onSwitchVersion: (messageId: number, delta: number) => void;
+  onStopGeneration: () => void;
+  onCancelVideo: (messageId: number) => void;
+  // The reply whose trip plan is the chat's current one; its cards can be edited.
+  itineraryMessageId?: number;
+  onChangeItinerary: (messageId: number, itinerary: Itinerary) => void;
+  onRefineItinerary: (request: string) => void;
+  // Hotels saved from any reply in this chat.
+  shortlist: HotelOption[];
+  onToggleShortlist: (hotel: HotelOption) => void;
+  userLocation: { latitude: number; longitude: number } | null;
   isLoading: boolean;
+  isGenerating: boolean;
   language: Language;
+  onChangeLanguage: (languageCode: string) => void;
+  // The second language bot replies are shown in, side by side, if any.
+  bilingualLanguageCode?: string;
+  onChangeBilingualLanguage: (languageCode?: string) => void;
+  modelId?: string;
+  onSelectModel: (modelId: string) => void;
   isTextToSpeechEnabled: boolean;
   onToggleTextToSpeech: () => void;
   isBotSpeaking: boolean;
   setIsBotSpeaking: (isSpeaking: boolean) => void;
   addSystemMessage: (text: string) => void;
   onToggleHistoryPanel: () => void;
+  // A new object each time, so jumping to the same message twice still scrolls.
+  focusRequest?: { messageId: number } | null;
 }
 
-export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage, onGenerateVideo, onSummarize, isLoading, language, isTextToSpeechEnabled, onToggleTextToSpeech, isBotSpeaking, setIsBotSpeaking, addSystemMessage, onToggleHistoryPanel }) => {
+export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, messageVersions, onSendMessage, onCommand, onGenerateVideo, onSummarize, onTranslateMessage, onRetry, onEditMessage, onRegenerate, onSwitchVersion, onStopGeneration, onCancelVideo, itineraryMessageId, onChangeItinerary, onRefineItinerary, shortlist, onToggleShortlist, userLocation, isLoading, isGenerating, language, onChangeLanguage, bilingualLanguageCode, onChangeBilingualLanguage, modelId, onSelectModel, isTextToSpeechEnabled, onToggleTextToSpeech, isBotSpeaking, setIsBotSpeaking, addSystemMessage, onToggleHistoryPanel, focusRequest }) => {
+  const { t } = useTranslation();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   // FIX: Use the imported ChatInputHandle type for the ref.
   const chatInputRef = useRef<ChatInputHandle>(null);
   const [isScrolledUp, setIsScrolledUp] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+  const [isShortlistOpen, setIsShortlistOpen] = useState(false);
+  const shortlistedHotelIds = useMemo(() => new Set(shortlist.map(hotel => hotel.id)), [shortlist]);
   const shouldAutoScroll = useRef(true);
 
   const scrollToBottom = () => {
@@ -38,6 +76,15 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage,
       chatInputRef.current?.focus();
   };
 
+  const handleAskAboutPlace = (name: string) => {
+      handleSendMessageWithFocus({ text: getLanguagePack(language.code).placeQuestion.replace('{place}', name), files: [] });
+  };
+
+  const handleCommandWithFocus = (command: SlashCommand, payload: { text: string; files: UploadedFile[] }) => {
+      onCommand(command, payload);
+      chatInputRef.current?.focus();
+  };
+
   const handleScroll = () => {
     const container = scrollContainerRef.current;
     if (container) {
@@ -54,6 +101,21 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage,
     }
   }, [messages]);
 
+  // Scroll a search result into view and highlight it briefly.
+  useEffect(() => {
+    if (!focusRequest) return;
+    shouldAutoScroll.current = false;
+    setHighlightedMessageId(focusRequest.messageId);
+    const scrollTimer = setTimeout(() => {
+        document.getElementById(`message-${focusRequest.messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 150);
+    const highlightTimer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => {
+        clearTimeout(scrollTimer);
+        clearTimeout(highlightTimer);
+    };
+  }, [focusRequest]);
+
   const isInitialState = messages.filter(m => !m.isSystem).length <= 1;
   const initialSuggestions = messages.length > 0 && messages[0].isWelcome ? messages[0].suggestions : [];
   const lastSystemMessage = [...messages].reverse().find(m => m.isSystem);
@@ -67,7 +129,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage,
               <button
                 onClick={onToggleHistoryPanel}
                 className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-all duration-300"
-                aria-label="Toggle history panel"
+                aria-label={t('header.toggleHistory')}
               >
                 <MenuIcon />
               </button>
@@ -75,17 +137,48 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage,
                 className="absolute top-full mt-2 whitespace-nowrap bg-black text-white text-sm font-semibold px-3 py-1.5 rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"
                 role="tooltip"
               >
-                History
+                {t('header.history')}
               </div>
             </div>
         </div>
-        <h1 className="text-xl font-semibold text-gray-200">Gokarna Guide</h1>
+        <div className="flex flex-col items-center">
+            <h1 className="text-xl font-semibold text-gray-200">Gokarna Guide</h1>
+            <ModelSelector modelId={modelId} onSelectModel={onSelectModel} disabled={isGenerating} />
+        </div>
         <div className="flex items-center gap-2">
+            <LanguageSelector languageCode={language.code} onSelectLanguage={onChangeLanguage} disabled={isGenerating} />
+            <LanguageSelector
+              languageCode={bilingualLanguageCode}
+              onSelectLanguage={onChangeBilingualLanguage}
+              onTurnOff={() => onChangeBilingualLanguage(undefined)}
+              excludeCode={language.code}
+              label={t('header.bilingual')}
+              offLabel={t('header.bilingualOff')}
+              icon={<TranslateIcon />}
+            />
+            <div className="relative group flex justify-center">
+              <button
+                onClick={() => setIsShortlistOpen(true)}
+                className="relative p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-all duration-300"
+                aria-label={t('header.shortlistLabel', { count: shortlist.length })}
+              >
+                <BookmarkIcon filled={shortlist.length > 0} />
+                {shortlist.length > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-blue-600 text-white text-[0.65rem] font-semibold flex items-center justify-center">{shortlist.length}</span>
+                )}
+              </button>
+              <div 
+                className="absolute top-full mt-2 whitespace-nowrap bg-black text-white text-sm font-semibold px-3 py-1.5 rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"
+                role="tooltip"
+              >
+                {t('header.shortlist')}
+              </div>
+            </div>
             <div className="relative group flex justify-center">
               <button
                 onClick={onToggleTextToSpeech}
                 className={`p-2 rounded-lg transition-all duration-300 ${isTextToSpeechEnabled ? 'text-white bg-blue-600' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
-                aria-label={isTextToSpeechEnabled ? 'Mute bot voice' : 'Unmute bot voice'}
+                aria-label={t(isTextToSpeechEnabled ? 'header.mute' : 'header.unmute')}
               >
                 {isTextToSpeechEnabled ? <SpeakerOnIcon /> : <SpeakerOffIcon />}
               </button>
@@ -93,7 +186,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage,
                 className="absolute top-full mt-2 whitespace-nowrap bg-black text-white text-sm font-semibold px-3 py-1.5 rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"
                 role="tooltip"
               >
-                {isTextToSpeechEnabled ? 'Mute Bot Voice' : 'Unmute Bot Voice'}
+                {t(isTextToSpeechEnabled ? 'header.mute' : 'header.unmute')}
               </div>
             </div>
         </div>
@@ -103,16 +196,19 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage,
           <div className="flex-1 flex flex-col justify-center items-center p-6 overflow-y-auto">
               <div className="text-center mb-8">
                 <h1 className="text-4xl sm:text-5xl font-bold text-gray-300">
-                    <span className="text-5xl sm:text-6xl">🌴</span> Your Gokarna Companion <span className="text-5xl sm:text-6xl">🌅</span>
+                    <span className="text-5xl sm:text-6xl">🌴</span> {t('welcome.title')} <span className="text-5xl sm:text-6xl">🌅</span>
                 </h1>
-                <p className="text-gray-400 mt-3 max-w-lg mx-auto">Ask me anything about local sights, food, hotels, or get a real-time daily briefing.</p>
+                <p className="text-gray-400 mt-3 max-w-lg mx-auto">{getLanguagePack(language.code).welcome}</p>
               </div>
               <div className="w-full max-w-2xl mx-auto mb-6">
                  <ChatInput 
                     ref={chatInputRef}
                     onSendMessage={handleSendMessageWithFocus} 
+                    onCommand={handleCommandWithFocus}
                     onGenerateVideo={onGenerateVideo}
                     isLoading={isLoading} 
+                    isGenerating={isGenerating}
+                    onStop={onStopGeneration}
                     languageCode={language.code} 
                     isBotSpeaking={isBotSpeaking}
                     addSystemMessage={addSystemMessage}
@@ -132,16 +228,37 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage,
       ) : (
         <main ref={scrollContainerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-6">
             <div className="space-y-8">
-              {messages.map((msg, index) => (
-                <MessageBubble 
-                  key={msg.id} 
-                  message={msg} 
-                  isTextToSpeechEnabled={isTextToSpeechEnabled} 
-                  language={language}
-                  setIsBotSpeaking={setIsBotSpeaking}
-                  onSummarize={onSummarize}
-                  isLastMessage={index === messages.length - 1}
-                />
+              {messages.map((msg, index) => msg.isWelcome ? null : (
+                <div
+                  key={msg.id}
+                  id={`message-${msg.id}`}
+                  className={`rounded-xl transition-shadow duration-500 ${highlightedMessageId === msg.id ? 'ring-2 ring-blue-500/60 ring-offset-8 ring-offset-[#131314]' : ''}`}
+                >
+                  <MessageBubble 
+                    message={msg} 
+                    isTextToSpeechEnabled={isTextToSpeechEnabled} 
+                    language={language}
+                    setIsBotSpeaking={setIsBotSpeaking}
+                    onSummarize={onSummarize}
+                    onTranslate={onTranslateMessage}
+                    bilingualLanguageCode={bilingualLanguageCode}
+                    onRetry={onRetry}
+                    onEditMessage={onEditMessage}
+                    onRegenerate={onRegenerate}
+                    onSwitchVersion={onSwitchVersion}
+                    version={messageVersions?.get(msg.id)}
+                    isGenerating={isGenerating}
+                    onCancelVideo={onCancelVideo}
+                    isLastMessage={index === messages.length - 1}
+                    isCurrentItinerary={msg.id === itineraryMessageId}
+                    onChangeItinerary={onChangeItinerary}
+                    onRefineItinerary={onRefineItinerary}
+                    shortlistedHotelIds={shortlistedHotelIds}
+                    onToggleShortlist={onToggleShortlist}
+                    userLocation={userLocation}
+                    onAskAboutPlace={handleAskAboutPlace}
+                  />
+                </div>
               ))}
             </div>
             <div ref={messagesEndRef} />
@@ -152,7 +269,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage,
           <button
               onClick={scrollToBottom}
               className="absolute bottom-28 right-8 z-20 p-3 bg-blue-600 text-white rounded-full shadow-lg hover:bg-blue-700 transition-all animate-fade-in"
-              aria-label="Scroll to bottom"
+              aria-label={t('chat.scrollToBottom')}
           >
               <ChevronDownIcon />
           </button>
@@ -171,8 +288,11 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage,
               <ChatInput 
                 ref={chatInputRef}
                 onSendMessage={handleSendMessageWithFocus}
+                onCommand={handleCommandWithFocus}
                 onGenerateVideo={onGenerateVideo}
                 isLoading={isLoading} 
+                isGenerating={isGenerating}
+                onStop={onStopGeneration}
                 languageCode={language.code} 
                 isBotSpeaking={isBotSpeaking}
                 addSystemMessage={addSystemMessage}
@@ -180,6 +300,10 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, onSendMessage,
             </div>
           </footer>
       )}
+
+      {isShortlistOpen && (
+          <HotelShortlist hotels={shortlist} onRemove={onToggleShortlist} onClose={() => setIsShortlistOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import App from '../App';
+import { UnlockScreen } from './UnlockScreen';
+import { HistoryLockSettings } from './HistoryLockSettings';
+import { AUTO_LOCK_MINUTES, DEFAULT_AUTO_LOCK_MINUTES, type LanguageCode } from '../constants';
+import type { ChatProvider } from '../services/chatProvider';
+import { DEFAULT_LANGUAGE, LocaleContext, isLanguageCode } from '../services/i18n';
+import { eraseHistory, isHistoryEncrypted, lockHistory, setHistoryPassphrase, unlockHistory, verifyHistoryPassphrase } from '../services/chatStore';
+import { broadcast, onSyncMessage } from '../services/tabSync';
+
+interface HistoryLockGateProps {
+  provider: ChatProvider;
+}
+
+type LockStatus = 'checking' | 'locked' | 'unlocked';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const AUTO_LOCK_CHECK_MS = 15 * 1000;
+
+// Shows the unlock screen instead of the app while a passphrase-locked history is locked.
+// Locking unmounts App, so no chat stays in memory behind the lock screen.
+export const HistoryLockGate: React.FC<HistoryLockGateProps> = ({ provider }) => {
+  const [status, setStatus] = useState<LockStatus>('checking');
+  const [isEncrypted, setIsEncrypted] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutes] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('gokarna-auto-lock-minutes'));
+    return (AUTO_LOCK_MINUTES as readonly number[]).includes(saved) ? saved : DEFAULT_AUTO_LOCK_MINUTES;
+  });
+  // Kept here so the unlock screen is localized too. App reports the open chat's language, and
+  // new chats start in this one.
+  const [uiLanguage, setUiLanguage] = useState<LanguageCode>(() => {
+    const saved = localStorage.getItem('gokarna-ui-language');
+    return isLanguageCode(saved) ? saved : DEFAULT_LANGUAGE;
+  });
+  // Unlocking waits for a lock in progress, so the key is never forgotten right after it was set.
+  const lockingRef = useRef<Promise<void>>(Promise.resolve());
+  const lastActivityRef = useRef(Date.now());
+
+  const checkStatus = useCallback(() => {
+    setStatus('checking');
+    lockingRef.current
+      .then(isHistoryEncrypted)
+      .then(encrypted => {
+        setIsEncrypted(encrypted);
+        setStatus(encrypted ? 'locked' : 'unlocked');
+      })
+      .catch(e => {
+        // App reports storage problems itself once it tries to load.
+        console.error('Failed to read the history lock', e);
+        setStatus('unlocked');
+      });
+  }, []);
+
+  useEffect(() => {
+    checkStatus();
+  }, [checkStatus]);
+
+  useEffect(() => {
+    localStorage.setItem('gokarna-auto-lock-minutes', String(autoLockMinutes));
+  }, [autoLockMinutes]);
+
+  useEffect(() => {
+    localStorage.setItem('gokarna-ui-language', uiLanguage);
+    document.documentElement.lang = uiLanguage;
+  }, [uiLanguage]);
+
+  const handleLanguageChange = useCallback((languageCode: string) => {
+    if (isLanguageCode(languageCode)) setUiLanguage(languageCode);
+  }, []);
+
+  const lock = useCallback(() => {
+    setIsSettingsOpen(false);
+    setStatus('locked');
+    lockingRef.current = lockingRef.current.then(lockHistory);
+  }, []);
+
+  const handleLockNow = useCallback(() => {
+    lock();
+    broadcast({ type: 'history-locked' });
+  }, [lock]);
+
+  const handleUnlock = useCallback(async (passphrase: string) => {
+    await lockingRef.current;
+    const unlocked = await unlockHistory(passphrase);
+    if (unlocked) {
+      lastActivityRef.current = Date.now();
+      setStatus('unlocked');
+    }
+    return unlocked;
+  }, []);
+
+  const handleErase = useCallback(async () => {
+    await lockingRef.current;
+    await eraseHistory();
+    checkStatus();
+  }, [checkStatus]);
+
+  const handleSetPassphrase = useCallback(async (passphrase: string | null, currentPassphrase: string) => {
+    if (!(await verifyHistoryPassphrase(currentPassphrase))) return false;
+    await setHistoryPassphrase(passphrase);
+    setIsEncrypted(passphrase !== null);
+    return true;
+  }, []);
+
+  // Another tab that changes the lock re-encrypts everything, so this tab's key is stale.
+  useEffect(() => onSyncMessage(message => {
+    if (message.type === 'history-lock-changed') {
+      setIsSettingsOpen(false);
+      lockingRef.current = lockingRef.current.then(lockHistory);
+      checkStatus();
+    } else if (message.type === 'history-locked' && isEncrypted) {
+      lock();
+    }
+  }), [checkStatus, lock, isEncrypted]);
+
+  // Background tabs see no activity, so each one locks itself once it has been idle long enough.
+  useEffect(() => {
+    if (!isEncrypted || status !== 'unlocked') return;
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    const checkIdle = () => {
+      if (Date.now() - lastActivityRef.current >= autoLockMinutes * 60 * 1000) lock();
+    };
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, markActive, { passive: true }));
+    // Timers are throttled in hidden tabs, so also check when the tab comes back.
+    document.addEventListener('visibilitychange', checkIdle);
+    const interval = setInterval(checkIdle, AUTO_LOCK_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, markActive));
+      document.removeEventListener('visibilitychange', checkIdle);
+      clearInterval(interval);
+    };
+  }, [isEncrypted, status, autoLockMinutes, lock]);
+
+  if (status === 'checking') return <div className="bg-[#131314] h-screen w-full" />;
+
+  return (
+    <LocaleContext.Provider value={uiLanguage}>
+      {status === 'locked' ? <UnlockScreen onUnlock={handleUnlock} onErase={handleErase} /> : (
+        <App
+          provider={provider}
+          languageCode={uiLanguage}
+          onLanguageChange={handleLanguageChange}
+          onOpenHistoryLock={() => setIsSettingsOpen(true)}
+          onLockHistory={isEncrypted ? handleLockNow : undefined}
+        />
+      )}
+      {status === 'unlocked' && isSettingsOpen && (
+        <HistoryLockSettings
+          isEncrypted={isEncrypted}
+          autoLockMinutes={autoLockMinutes}
+          onChangeAutoLock={setAutoLockMinutes}
+          onSetPassphrase={handleSetPassphrase}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+    </LocaleContext.Provider>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { AUTO_LOCK_MINUTES, MIN_PASSPHRASE_LENGTH } from '../constants';
+import { useTranslation } from '../services/i18n';
+import { LockIcon } from './Icons';
+
+interface HistoryLockSettingsProps {
+  isEncrypted: boolean;
+  autoLockMinutes: number;
+  onChangeAutoLock: (minutes: number) => void;
+  // Resolves to false when `currentPassphrase` is wrong. A null `passphrase` turns the lock off.
+  onSetPassphrase: (passphrase: string | null, currentPassphrase: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg bg-[#2a2a2a] text-sm text-gray-200 placeholder-gray-500 outline-none focus:ring-2 focus:ring-blue-500';
+
+export const HistoryLockSettings: React.FC<HistoryLockSettingsProps> = ({ isEncrypted, autoLockMinutes, onChangeAutoLock, onSetPassphrase, onClose }) => {
+  const { t } = useTranslation();
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const apply = async (next: string | null) => {
+    if (next !== null) {
+      if (next.length < MIN_PASSPHRASE_LENGTH) {
+        setError(t('lock.tooShort', { count: MIN_PASSPHRASE_LENGTH }));
+        return;
+      }
+      if (next !== confirmation) {
+        setError(t('lock.mismatch'));
+        return;
+      }
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (await onSetPassphrase(next, currentPassphrase)) {
+        onClose();
+        return;
+      }
+      setError(t('lock.wrongCurrent'));
+    } catch (e) {
+      console.error('Failed to re-encrypt history', e);
+      setError(t('lock.reencryptFailed'));
+    }
+    setIsBusy(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in">
+      <form
+        onSubmit={(e) => { e.preventDefault(); apply(passphrase); }}
+        className="bg-[#1E1F20] rounded-xl shadow-2xl p-6 m-4 max-w-sm w-full border border-gray-700/50"
+      >
+        <h3 className="flex items-center gap-2 text-lg font-bold text-white">
+          <LockIcon className="w-5 h-5" /> {t('history.lock')}
+        </h3>
+        <p className="text-gray-400 mt-2 text-sm">
+          {isEncrypted ? t('lock.isOn') : t('lock.intro')}
+        </p>
+        <div className="flex flex-col gap-2 mt-4">
+          {isEncrypted && (
+            <input type="password" value={currentPassphrase} onChange={(e) => setCurrentPassphrase(e.target.value)} disabled={isBusy} autoComplete="current-password" placeholder={t('lock.currentPassphrase')} aria-label={t('lock.currentPassphrase')} className={inputClassName} />
+          )}
+          <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} disabled={isBusy} autoComplete="new-password" placeholder={t(isEncrypted ? 'lock.newPassphrase' : 'lock.passphrase')} aria-label={t(isEncrypted ? 'lock.newPassphrase' : 'lock.passphrase')} className={inputClassName} />
+          <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} disabled={isBusy} autoComplete="new-password" placeholder={t('lock.repeatPassphrase')} aria-label={t('lock.repeatPassphrase')} className={inputClassName} />
+          {!isEncrypted && <p className="text-xs text-gray-500">{t('lock.noRecovery')}</p>}
+          {error && <p className="text-red-400 text-sm" role="alert">{error}</p>}
+          <button
+            type="submit"
+            disabled={isBusy || !passphrase || (isEncrypted && !currentPassphrase)}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-50"
+          >
+            {isBusy ? t('lock.encrypting') : isEncrypted ? t('lock.change') : t('lock.turnOn')}
+          </button>
+          {isEncrypted && (
+            <>
+              <label className="flex items-center justify-between gap-2 py-2 text-xs text-gray-400">
+                {t('lock.idleFor')}
+                <select
+                  value={autoLockMinutes}
+                  onChange={(e) => onChangeAutoLock(Number(e.target.value))}
+                  className="bg-[#2a2a2a] text-gray-200 rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {AUTO_LOCK_MINUTES.map(minutes => <option key={minutes} value={minutes}>{t('common.minutes', { count: minutes })}</option>)}
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={() => apply(null)}
+                disabled={isBusy || !currentPassphrase}
+                className="px-4 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+              >
+                {t('lock.turnOff')}
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isBusy}
+            className="px-4 py-2 rounded-lg text-gray-400 hover:text-white transition-colors"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,26 +1,99 @@
-import React, { useState, useRef, useEffect } from 'react';
-import type { ChatSession, GeneratedImage } from '../types';
-import { NewChatIcon, TrashIcon, HistoryIcon, PencilIcon, LibraryIcon, DownloadIcon } from './Icons';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { ChatFolder, ChatSession, GeneratedImage } from '../types';
+import { SESSION_TAGS, TRASH_RETENTION_DAYS, type SessionTag } from '../constants';
+import { exportSessions, type ExportFormat } from '../services/chatExport';
+import { SearchIndex } from '../services/searchIndex';
+import { isInTrash, purgeDate, sortByActivity } from '../services/sessionList';
+import { useTranslation } from '../services/i18n';
+import { NewChatIcon, TrashIcon, HistoryIcon, PencilIcon, LibraryIcon, DownloadIcon, UploadIcon, SearchIcon, BookmarkIcon, FolderIcon, ChevronDownIcon, RetryIcon, LockIcon } from './Icons';
 
 interface HistoryPanelProps {
+  // Every session, including the ones in the trash.
   sessions: ChatSession[];
+  folders: ChatFolder[];
   activeSessionId: string | null;
   onSelectSession: (id: string) => void;
+  onSelectMessage: (sessionId: string, messageId: number) => void;
   onNewChat: () => void;
   onDeleteSession: (id: string) => void;
   onRenameSession: (id: string, newTitle: string) => void;
   onClearAllSessions: () => void;
+  onImportSessions: (json: string) => void;
+  onTogglePin: (id: string) => void;
+  onMoveSession: (id: string, folderId?: string) => void;
+  onCreateFolder: (name: string) => string;
+  onRenameFolder: (id: string, name: string) => void;
+  onDeleteFolder: (id: string) => void;
+  onRestoreSession: (id: string) => void;
+  onDeleteSessionsForever: (ids: string[]) => void;
+  trashRetentionDays: number;
+  onChangeTrashRetention: (days: number) => void;
   isOpen: boolean;
   onToggle: () => void;
   allGeneratedImages: GeneratedImage[];
+  onOpenHistoryLock: () => void;
+  onLockHistory?: () => void;
 }
 
-export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, activeSessionId, onSelectSession, onNewChat, onDeleteSession, onRenameSession, onClearAllSessions, isOpen, onToggle, allGeneratedImages }) => {
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, folders, activeSessionId, onSelectSession, onSelectMessage, onNewChat, onDeleteSession, onRenameSession, onClearAllSessions, onImportSessions, onTogglePin, onMoveSession, onCreateFolder, onRenameFolder, onDeleteFolder, onRestoreSession, onDeleteSessionsForever, trashRetentionDays, onChangeTrashRetention, isOpen, onToggle, allGeneratedImages, onOpenHistoryLock, onLockHistory }) => {
+  const { t, languageCode } = useTranslation();
   const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
   const [newTitle, setNewTitle] = useState('');
   const [isConfirmingClear, setIsConfirmingClear] = useState(false);
-  const [activeTab, setActiveTab] = useState<'history' | 'library'>('history');
+  const [isConfirmingEmptyTrash, setIsConfirmingEmptyTrash] = useState(false);
+  const [activeTab, setActiveTab] = useState<'history' | 'library' | 'trash'>('history');
+  // Sessions waiting for the user to pick an export format.
+  const [exportTarget, setExportTarget] = useState<ChatSession[] | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  // Kept across renders and updated incrementally, so streamed replies are searchable straight away.
+  const searchIndexRef = useRef(new SearchIndex());
+  const [activeTag, setActiveTag] = useState<SessionTag | null>(null);
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<Set<string>>(new Set());
+  const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
+  // Shared by the folder rename input and the "new folder" field of the move dialog.
+  const [newFolderName, setNewFolderName] = useState('');
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // The session waiting for the user to pick a folder.
+  const [moveTarget, setMoveTarget] = useState<ChatSession | null>(null);
+
+  const liveSessions = useMemo(() => sessions.filter(s => !isInTrash(s)), [sessions]);
+  const trashedSessions = useMemo(() => sessions.filter(isInTrash).sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0)), [sessions]);
+
+  // Only offer tags some chat actually has, in the canonical order.
+  const availableTags = useMemo(() => SESSION_TAGS.filter(tag => liveSessions.some(s => s.tags?.includes(tag))), [liveSessions]);
+  const visibleSessions = useMemo(
+    () => sortByActivity(activeTag && availableTags.includes(activeTag) ? liveSessions.filter(s => s.tags?.includes(activeTag)) : liveSessions),
+    [liveSessions, activeTag, availableTags],
+  );
+
+  // Pinned chats are listed on their own, whatever folder they are in.
+  const { pinnedSessions, folderSections, unfiledSessions } = useMemo(() => {
+    const unpinned = visibleSessions.filter(s => !s.isPinned);
+    const folderIds = new Set(folders.map(f => f.id));
+    return {
+      pinnedSessions: visibleSessions.filter(s => s.isPinned),
+      // While filtering by tag, folders without a match are left out.
+      folderSections: folders
+        .map(folder => ({ folder, sessions: unpinned.filter(s => s.folderId === folder.id) }))
+        .filter(section => !activeTag || section.sessions.length > 0),
+      unfiledSessions: unpinned.filter(s => !s.folderId || !folderIds.has(s.folderId)),
+    };
+  }, [visibleSessions, folders, activeTag]);
+
+  const searchResults = useMemo(() => {
+    searchIndexRef.current.update(liveSessions);
+    return searchQuery.trim() ? searchIndexRef.current.search(searchQuery) : null;
+  }, [liveSessions, searchQuery]);
+
+  useEffect(() => {
+    if (editingFolderId && folderInputRef.current) {
+      folderInputRef.current.focus();
+      folderInputRef.current.select();
+    }
+  }, [editingFolderId]);
 
   useEffect(() => {
     if (editingSessionId && inputRef.current) {
@@ -51,11 +124,63 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, activeSess
     }
   };
 
+  const handleFinishFolderEditing = () => {
+    if (editingFolderId && newFolderName.trim()) onRenameFolder(editingFolderId, newFolderName);
+    setEditingFolderId(null);
+    setNewFolderName('');
+  };
+
+  const toggleFolder = (folderId: string) => {
+    setCollapsedFolderIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(folderId)) next.add(folderId);
+      return next;
+    });
+  };
+
+  const handleMove = (folderId?: string) => {
+    if (moveTarget) onMoveSession(moveTarget.id, folderId);
+    setMoveTarget(null);
+  };
+
+  const handleMoveToNewFolder = () => {
+    if (!newFolderName.trim()) return;
+    handleMove(onCreateFolder(newFolderName));
+    setNewFolderName('');
+  };
+
   const handleConfirmClear = () => {
     onClearAllSessions();
     setIsConfirmingClear(false);
   };
 
+  const handleExport = async (format: ExportFormat) => {
+    if (!exportTarget) return;
+    setIsExporting(true);
+    try {
+      const { filename, blob } = await exportSessions(exportTarget, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export failed:', error);
+    } finally {
+      setIsExporting(false);
+      setExportTarget(null);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImportSessions(await file.text());
+  };
+
   const handleDownload = (image: GeneratedImage, index: number) => {
     const link = document.createElement('a');
     link.href = image.src;
@@ -65,6 +190,121 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, activeSess
     document.body.removeChild(link);
   };
 
+  const renderSessionRow = (session: ChatSession, index: number) => (
+    <li 
+      key={session.id}
+      className="animate-history-item"
+      style={{ animationDelay: `${index * 50}ms` }}
+    >
+       {editingSessionId === session.id ? (
+        <input
+          ref={inputRef}
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onBlur={handleFinishEditing}
+          onKeyDown={handleKeyDown}
+          className="w-full text-left px-4 py-3 rounded-lg bg-white/20 text-white outline-none ring-2 ring-blue-500"
+        />
+      ) : (
+        <button
+            onClick={() => onSelectSession(session.id)}
+            className={`w-full text-left px-4 py-3 rounded-lg flex items-center justify-between group transition-colors duration-200 ${
+            activeSessionId === session.id
+                ? 'bg-white/10 text-white animate-subtle-glow'
+                : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+            }`}
+        >
+            <span className="flex-1 min-w-0 pr-2">
+                <span className="block truncate">{session.title}</span>
+                {session.tags && session.tags.length > 0 && (
+                    <span className="block truncate text-xs text-gray-500 ">{session.tags.map(tag => t(`tag.${tag}`)).join(' · ')}</span>
+                )}
+            </span>
+            <div className={`flex items-center transition-opacity space-x-0.5 ${activeSessionId === session.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                {/* FIX: Replaced Tooltip component with inline implementation using named groups to prevent hover conflicts */}
+                <div className="relative group/pin flex justify-center">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onTogglePin(session.id); }}
+                        className={`p-1.5 rounded-md hover:text-white hover:bg-white/10 ${session.isPinned ? 'text-blue-400' : 'text-gray-400'}`}
+                        aria-label={t(session.isPinned ? 'history.unpinLabel' : 'history.pinLabel', { title: session.title })}
+                        aria-pressed={!!session.isPinned}
+                    >
+                        <BookmarkIcon filled={session.isPinned} />
+                    </button>
+                    <div 
+                        className="absolute top-full mt-2 left-1/2 -translate-x-1/2 whitespace-nowrap bg-black text-white text-xs font-semibold px-2 py-1 rounded-md shadow-lg opacity-0 group-hover/pin:opacity-100 transition-opacity duration-300 pointer-events-none"
+                        role="tooltip"
+                    >
+                        {t(session.isPinned ? 'history.unpin' : 'history.pin')}
+                    </div>
+                </div>
+                <div className="relative group/move flex justify-center">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setMoveTarget(session); setNewFolderName(''); }}
+                        className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10"
+                        aria-label={t('history.moveLabel', { title: session.title })}
+                    >
+                        <FolderIcon />
+                    </button>
+                    <div 
+                        className="absolute top-full mt-2 left-1/2 -translate-x-1/2 whitespace-nowrap bg-black text-white text-xs font-semibold px-2 py-1 rounded-md shadow-lg opacity-0 group-hover/move:opacity-100 transition-opacity duration-300 pointer-events-none"
+                        role="tooltip"
+                    >
+                        {t('history.move')}
+                    </div>
+                </div>
+                <div className="relative group/rename flex justify-center">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); handleStartEditing(session); }}
+                        className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10"
+                        aria-label={t('history.renameLabel', { title: session.title })}
+                    >
+                        <PencilIcon />
+                    </button>
+                    <div 
+                        className="absolute top-full mt-2 left-1/2 -translate-x-1/2 whitespace-nowrap bg-black text-white text-xs font-semibold px-2 py-1 rounded-md shadow-lg opacity-0 group-hover/rename:opacity-100 transition-opacity duration-300 pointer-events-none"
+                        role="tooltip"
+                    >
+                        {t('history.rename')}
+                    </div>
+                </div>
+                <div className="relative group/export flex justify-center">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setExportTarget([session]); }}
+                        className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10"
+                        aria-label={t('history.exportLabel', { title: session.title })}
+                    >
+                        <DownloadIcon className="h-5 w-5" />
+                    </button>
+                    <div 
+                        className="absolute top-full mt-2 left-1/2 -translate-x-1/2 whitespace-nowrap bg-black text-white text-xs font-semibold px-2 py-1 rounded-md shadow-lg opacity-0 group-hover/export:opacity-100 transition-opacity duration-300 pointer-events-none"
+                        role="tooltip"
+                    >
+                        {t('history.export')}
+                    </div>
+                </div>
+                <div className="relative group/delete flex justify-center">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onDeleteSession(session.id); }}
+                        className="p-1.5 rounded-md text-gray-400 hover:text-red-400 hover:bg-red-500/10"
+                        aria-label={t('history.deleteLabel', { title: session.title })}
+                    >
+                        <TrashIcon />
+                    </button>
+                    <div 
+                        className="absolute top-full mt-2 left-1/2 -translate-x-1/2 whitespace-nowrap bg-black text-white text-xs font-semibold px-2 py-1 rounded-md shadow-lg opacity-0 group-hover/delete:opacity-100 transition-opacity duration-300 pointer-events-none"
+                        role="tooltip"
+                    >
+                        {t('history.delete')}
+                    </div>
+                </div>
+            </div>
+        </button>
+      )}
+    </li>
+  );
+
   const TabButton: React.FC<{isActive: boolean, onClick: () => void, children: React.ReactNode, 'aria-label': string}> = ({ isActive, onClick, children, 'aria-label': ariaLabel }) => (
     <button
       onClick={onClick}
@@ -86,7 +326,7 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, activeSess
              <button
                 onClick={onNewChat}
                 className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-all duration-300"
-                aria-label="Start new chat"
+                aria-label={t('history.startNewChat')}
               >
                 <NewChatIcon className="h-6 w-6"/>
               </button>
@@ -94,93 +334,161 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, activeSess
                 className="absolute top-full mt-2 whitespace-nowrap bg-black text-white text-sm font-semibold px-3 py-1.5 rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"
                 role="tooltip"
               >
-                New Chat
+                {t('history.newChat')}
               </div>
           </div>
         </div>
 
         <div className="p-2 border-b border-gray-700/50">
             <div className="flex bg-[#2a2a2a] rounded-md p-1 space-x-1">
-                <TabButton isActive={activeTab === 'history'} onClick={() => setActiveTab('history')} aria-label="View chat history">
-                    <HistoryIcon className="w-5 h-5"/> History
+                <TabButton isActive={activeTab === 'history'} onClick={() => setActiveTab('history')} aria-label={t('history.viewHistory')}>
+                    <HistoryIcon className="w-5 h-5"/> {t('header.history')}
                 </TabButton>
-                <TabButton isActive={activeTab === 'library'} onClick={() => setActiveTab('library')} aria-label="View image library">
-                    <LibraryIcon className="w-5 h-5"/> Library
+                <TabButton isActive={activeTab === 'library'} onClick={() => setActiveTab('library')} aria-label={t('history.viewLibrary')}>
+                    <LibraryIcon className="w-5 h-5"/> {t('history.library')}
+                </TabButton>
+                <TabButton isActive={activeTab === 'trash'} onClick={() => setActiveTab('trash')} aria-label={t('history.viewTrash')}>
+                    <TrashIcon className="w-5 h-5"/> {trashedSessions.length > 0 ? t('history.trashCount', { count: trashedSessions.length }) : t('history.trash')}
                 </TabButton>
             </div>
+            {activeTab === 'history' && (
+              <div className="relative mt-2">
+                <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none" />
+                <input
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Escape') setSearchQuery(''); }}
+                  placeholder={t('history.search')}
+                  aria-label={t('history.search')}
+                  className="w-full pl-9 pr-3 py-2 rounded-md bg-[#2a2a2a] text-sm text-gray-200 placeholder-gray-500 outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+            {activeTab === 'history' && !searchQuery.trim() && availableTags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-2" role="group" aria-label={t('history.filterByTopic')}>
+                {[null, ...availableTags].map(tag => (
+                  <button
+                    key={tag ?? 'all'}
+                    onClick={() => setActiveTag(tag)}
+                    aria-pressed={activeTag === tag}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                      activeTag === tag ? 'bg-blue-600 text-white' : 'bg-[#2a2a2a] text-gray-400 hover:text-white hover:bg-white/10'
+                    }`}
+                  >
+                    {tag ? t(`tag.${tag}`) : t('history.allTopics')}
+                  </button>
+                ))}
+              </div>
+            )}
         </div>
 
         <div className="flex-1 overflow-y-auto p-2">
-          {activeTab === 'history' && (
-            sessions.length > 0 ? (
+          {activeTab === 'history' && searchResults && (
+            searchResults.length > 0 ? (
               <ul className="space-y-1">
-                {sessions.map((session, index) => (
-                  <li 
-                    key={session.id}
-                    className="animate-history-item"
-                    style={{ animationDelay: `${index * 50}ms` }}
-                  >
-                     {editingSessionId === session.id ? (
+                {searchResults.map(result => (
+                  <li key={`${result.sessionId}-${result.messageId}`}>
+                    <button
+                      onClick={() => onSelectMessage(result.sessionId, result.messageId)}
+                      className="w-full text-left px-4 py-3 rounded-lg text-gray-400 hover:bg-white/5 hover:text-gray-200 transition-colors duration-200"
+                    >
+                      <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                        <span className="truncate pr-2">{result.sessionTitle}</span>
+                        <span className="flex-shrink-0">{t(result.sender === 'user' ? 'common.you' : 'common.guide')}</span>
+                      </div>
+                      <p className="text-sm line-clamp-3 break-words">
+                        {result.snippet.map((part, index) => part.isMatch
+                          ? <mark key={index} className="bg-yellow-500/30 text-white rounded-sm">{part.text}</mark>
+                          : <React.Fragment key={index}>{part.text}</React.Fragment>)}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-center text-gray-500 p-4 mt-4">
+                {t('history.noMatches', { query: searchQuery.trim() })}
+              </div>
+            )
+          )}
+
+          {activeTab === 'history' && !searchResults && (
+            visibleSessions.length > 0 ? (
+              <div className="space-y-3">
+                {pinnedSessions.length > 0 && (
+                  <section>
+                    <h3 className="flex items-center gap-2 px-4 py-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      <BookmarkIcon className="w-3.5 h-3.5" /> {t('history.pinned')}
+                    </h3>
+                    <ul className="space-y-1">{pinnedSessions.map(renderSessionRow)}</ul>
+                  </section>
+                )}
+                {folderSections.map(({ folder, sessions: folderSessions }) => (
+                  <section key={folder.id}>
+                    {editingFolderId === folder.id ? (
                       <input
-                        ref={inputRef}
+                        ref={folderInputRef}
                         type="text"
-                        value={newTitle}
-                        onChange={(e) => setNewTitle(e.target.value)}
-                        onBlur={handleFinishEditing}
-                        onKeyDown={handleKeyDown}
-                        className="w-full text-left px-4 py-3 rounded-lg bg-white/20 text-white outline-none ring-2 ring-blue-500"
+                        value={newFolderName}
+                        onChange={(e) => setNewFolderName(e.target.value)}
+                        onBlur={handleFinishFolderEditing}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleFinishFolderEditing();
+                          else if (e.key === 'Escape') setEditingFolderId(null);
+                        }}
+                        className="w-full px-4 py-1 rounded-md bg-white/20 text-sm text-white outline-none ring-2 ring-blue-500"
+                        aria-label={t('history.folderName')}
                       />
                     ) : (
-                      <button
-                          onClick={() => onSelectSession(session.id)}
-                          className={`w-full text-left px-4 py-3 rounded-lg flex items-center justify-between group transition-colors duration-200 ${
-                          activeSessionId === session.id
-                              ? 'bg-white/10 text-white animate-subtle-glow'
-                              : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
-                          }`}
-                      >
-                          <span className="truncate flex-1 pr-2">{session.title}</span>
-                          <div className={`flex items-center transition-opacity space-x-0.5 ${activeSessionId === session.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
-                              {/* FIX: Replaced Tooltip component with inline implementation using named groups to prevent hover conflicts */}
-                              <div className="relative group/rename flex justify-center">
-                                  <button
-                                      onClick={(e) => { e.stopPropagation(); handleStartEditing(session); }}
-                                      className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10"
-                                      aria-label={`Rename chat: ${session.title}`}
-                                  >
-                                      <PencilIcon />
-                                  </button>
-                                  <div 
-                                      className="absolute top-full mt-2 left-1/2 -translate-x-1/2 whitespace-nowrap bg-black text-white text-xs font-semibold px-2 py-1 rounded-md shadow-lg opacity-0 group-hover/rename:opacity-100 transition-opacity duration-300 pointer-events-none"
-                                      role="tooltip"
-                                  >
-                                      Rename
-                                  </div>
-                              </div>
-                              <div className="relative group/delete flex justify-center">
-                                  <button
-                                      onClick={(e) => { e.stopPropagation(); onDeleteSession(session.id); }}
-                                      className="p-1.5 rounded-md text-gray-400 hover:text-red-400 hover:bg-red-500/10"
-                                      aria-label={`Delete chat: ${session.title}`}
-                                  >
-                                      <TrashIcon />
-                                  </button>
-                                  <div 
-                                      className="absolute top-full mt-2 left-1/2 -translate-x-1/2 whitespace-nowrap bg-black text-white text-xs font-semibold px-2 py-1 rounded-md shadow-lg opacity-0 group-hover/delete:opacity-100 transition-opacity duration-300 pointer-events-none"
-                                      role="tooltip"
-                                  >
-                                      Delete
-                                  </div>
-                              </div>
-                          </div>
-                      </button>
+                      <div className="flex items-center group/folder">
+                        <button
+                          onClick={() => toggleFolder(folder.id)}
+                          aria-expanded={!collapsedFolderIds.has(folder.id)}
+                          className="flex-1 min-w-0 flex items-center gap-2 px-4 py-1 text-xs font-semibold uppercase tracking-wide text-gray-500 hover:text-gray-300"
+                        >
+                          <ChevronDownIcon className={`w-3.5 h-3.5 flex-shrink-0 transition-transform ${collapsedFolderIds.has(folder.id) ? '-rotate-90' : ''}`} />
+                          <FolderIcon className="w-3.5 h-3.5 flex-shrink-0" />
+                          <span className="truncate normal-case">{folder.name}</span>
+                          <span className="font-normal">{folderSessions.length}</span>
+                        </button>
+                        <div className="flex items-center opacity-0 group-hover/folder:opacity-100 transition-opacity pr-2">
+                          <button
+                            onClick={() => { setEditingFolderId(folder.id); setNewFolderName(folder.name); }}
+                            className="p-1 rounded-md text-gray-500 hover:text-white hover:bg-white/10"
+                            aria-label={t('history.renameFolder', { name: folder.name })}
+                          >
+                            <PencilIcon className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => onDeleteFolder(folder.id)}
+                            className="p-1 rounded-md text-gray-500 hover:text-red-400 hover:bg-red-500/10"
+                            aria-label={t('history.deleteFolder', { name: folder.name })}
+                          >
+                            <TrashIcon className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      </div>
                     )}
-                  </li>
+                    {!collapsedFolderIds.has(folder.id) && (
+                      folderSessions.length > 0
+                        ? <ul className="space-y-1 mt-1">{folderSessions.map(renderSessionRow)}</ul>
+                        : <p className="px-4 py-2 text-xs text-gray-600">{t('history.emptyFolder')}</p>
+                    )}
+                  </section>
                 ))}
-              </ul>
+                {unfiledSessions.length > 0 && (
+                  <section>
+                    {(pinnedSessions.length > 0 || folderSections.length > 0) && (
+                      <h3 className="px-4 py-1 text-xs font-semibold uppercase tracking-wide text-gray-500">{t('history.chats')}</h3>
+                    )}
+                    <ul className="space-y-1">{unfiledSessions.map(renderSessionRow)}</ul>
+                  </section>
+                )}
+              </div>
             ) : (
               <div className="text-center text-gray-500 p-4 mt-4">
-                No past conversations.
+                {t('history.noChats')}
               </div>
             )
           )}
@@ -191,12 +499,12 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, activeSess
                     {allGeneratedImages.map((image, index) => (
                          <div key={`${image.sessionId}-${image.messageId}-${index}`} className="relative group aspect-square bg-[#2a2a2a] rounded-md overflow-hidden">
                             <button onClick={() => onSelectSession(image.sessionId)} className="w-full h-full">
-                                <img src={image.src} alt="Generated art" className="w-full h-full object-cover group-hover:opacity-75 transition-opacity"/>
+                                <img src={image.src} alt={t('history.generatedArt')} className="w-full h-full object-cover group-hover:opacity-75 transition-opacity"/>
                             </button>
                             <button
                                 onClick={(e) => { e.stopPropagation(); handleDownload(image, index); }}
                                 className="absolute bottom-1.5 right-1.5 p-2 bg-black/60 text-white rounded-full invisible group-hover:visible hover:bg-black/80 transition-all duration-300"
-                                aria-label="Download image"
+                                aria-label={t('message.downloadImage')}
                             >
                                 <DownloadIcon className="h-5 w-5" />
                             </button>
@@ -205,48 +513,251 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, activeSess
                 </div>
             ) : (
                 <div className="text-center text-gray-500 p-4 mt-4">
-                    No images generated yet.
+                    {t('history.noImages')}
                 </div>
             )
           )}
+
+          {activeTab === 'trash' && (
+            <>
+              <label className="flex items-center justify-between gap-2 px-4 py-2 text-xs text-gray-400">
+                {t('history.retention')}
+                <select
+                  value={trashRetentionDays}
+                  onChange={(e) => onChangeTrashRetention(Number(e.target.value))}
+                  className="bg-[#2a2a2a] text-gray-200 rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {TRASH_RETENTION_DAYS.map(days => <option key={days} value={days}>{t('history.days', { count: days })}</option>)}
+                </select>
+              </label>
+              {trashedSessions.length > 0 ? (
+                <ul className="space-y-1">
+                  {trashedSessions.map(session => (
+                    <li key={session.id} className="flex items-center gap-2 px-4 py-3 rounded-lg text-gray-400 hover:bg-white/5">
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate text-gray-300">{session.title}</p>
+                        <p className="text-xs text-gray-500">{t('history.purgeDate', { date: new Date(purgeDate(session, trashRetentionDays)).toLocaleDateString(languageCode) })}</p>
+                      </div>
+                      <button
+                        onClick={() => onRestoreSession(session.id)}
+                        className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10"
+                        aria-label={t('history.restoreLabel', { title: session.title })}
+                        title={t('history.restore')}
+                      >
+                        <RetryIcon className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => onDeleteSessionsForever([session.id])}
+                        className="p-1.5 rounded-md text-gray-400 hover:text-red-400 hover:bg-red-500/10"
+                        aria-label={t('history.deleteForeverLabel', { title: session.title })}
+                        title={t('history.deleteForever')}
+                      >
+                        <TrashIcon />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-center text-gray-500 p-4 mt-4">
+                  {t('history.trashEmpty')}
+                </div>
+              )}
+            </>
+          )}
         </div>
 
-        {activeTab === 'history' && sessions.length > 0 && (
+        {activeTab === 'trash' && trashedSessions.length > 0 && (
           <div className="p-4 border-t border-gray-700/50">
             <button
-              onClick={() => setIsConfirmingClear(true)}
+              onClick={() => setIsConfirmingEmptyTrash(true)}
               className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors"
             >
               <TrashIcon className="w-4 h-4" />
-              Clear all chats
+              {t('history.emptyTrash')}
             </button>
           </div>
         )}
+
+        {activeTab === 'history' && (
+          <div className="p-4 border-t border-gray-700/50 space-y-1">
+            <input type="file" ref={importInputRef} onChange={handleImportFile} accept=".json,application/json" className="hidden" />
+            <div className="flex gap-1">
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+              >
+                <UploadIcon className="w-4 h-4" />
+                {t('history.import')}
+              </button>
+              {liveSessions.length > 0 && (
+                <button
+                  onClick={() => setExportTarget(liveSessions)}
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                  <DownloadIcon className="w-4 h-4" />
+                  {t('history.exportAll')}
+                </button>
+              )}
+            </div>
+            {liveSessions.length > 0 && (
+              <button
+                onClick={() => setIsConfirmingClear(true)}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors"
+              >
+                <TrashIcon className="w-4 h-4" />
+                {t('history.clearAll')}
+              </button>
+            )}
+            <div className="flex gap-1">
+              <button
+                onClick={onOpenHistoryLock}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+              >
+                <LockIcon className="w-4 h-4" />
+                {t('history.lock')}
+              </button>
+              {onLockHistory && (
+                <button
+                  onClick={onLockHistory}
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                  {t('history.lockNow')}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
       </aside>
 
       {isConfirmingClear && (
         <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in">
           <div className="bg-[#1E1F20] rounded-xl shadow-2xl p-6 m-4 max-w-sm w-full border border-gray-700/50">
-            <h3 className="text-lg font-bold text-white">Clear all conversations?</h3>
-            <p className="text-gray-400 mt-2 text-sm">This cannot be undone. All your chat history will be permanently deleted.</p>
+            <h3 className="text-lg font-bold text-white">{t('history.clearTitle')}</h3>
+            <p className="text-gray-400 mt-2 text-sm">{t('history.clearBody', { days: trashRetentionDays })}</p>
             <div className="flex justify-end gap-3 mt-6">
               <button
                 onClick={() => setIsConfirmingClear(false)}
                 className="px-4 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors"
               >
-                Cancel
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handleConfirmClear}
                 className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors"
               >
-                Confirm Delete
+                {t('history.confirmDelete')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isConfirmingEmptyTrash && (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in">
+          <div className="bg-[#1E1F20] rounded-xl shadow-2xl p-6 m-4 max-w-sm w-full border border-gray-700/50">
+            <h3 className="text-lg font-bold text-white">{t('history.emptyTrashTitle')}</h3>
+            <p className="text-gray-400 mt-2 text-sm">{t('history.emptyTrashBody', { count: trashedSessions.length })}</p>
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={() => setIsConfirmingEmptyTrash(false)}
+                className="px-4 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={() => { onDeleteSessionsForever(trashedSessions.map(s => s.id)); setIsConfirmingEmptyTrash(false); }}
+                className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors"
+              >
+                {t('history.deleteForever')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {moveTarget && (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in">
+          <div className="bg-[#1E1F20] rounded-xl shadow-2xl p-6 m-4 max-w-sm w-full border border-gray-700/50">
+            <h3 className="text-lg font-bold text-white truncate">{t('history.moveTitle', { title: moveTarget.title })}</h3>
+            <div className="flex flex-col gap-2 mt-6">
+              {folders.map(folder => (
+                <button
+                  key={folder.id}
+                  onClick={() => handleMove(folder.id)}
+                  disabled={moveTarget.folderId === folder.id}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-50"
+                >
+                  <FolderIcon className="w-4 h-4" />
+                  <span className="truncate">{folder.name}</span>
+                </button>
+              ))}
+              {moveTarget.folderId && (
+                <button
+                  onClick={() => handleMove(undefined)}
+                  className="px-4 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors"
+                >
+                  {t('history.removeFromFolder')}
+                </button>
+              )}
+              <div className="flex gap-2 mt-2">
+                <input
+                  type="text"
+                  value={newFolderName}
+                  onChange={(e) => setNewFolderName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleMoveToNewFolder(); }}
+                  placeholder={t('history.newFolderPlaceholder')}
+                  aria-label={t('history.newFolderLabel')}
+                  className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-[#2a2a2a] text-sm text-gray-200 placeholder-gray-500 outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleMoveToNewFolder}
+                  disabled={!newFolderName.trim()}
+                  className="px-3 py-2 rounded-lg bg-blue-600 text-sm text-white hover:bg-blue-500 transition-colors disabled:opacity-50"
+                >
+                  {t('history.createFolder')}
+                </button>
+              </div>
+              <button
+                onClick={() => setMoveTarget(null)}
+                className="px-4 py-2 rounded-lg text-gray-400 hover:text-white transition-colors"
+              >
+                {t('common.cancel')}
               </button>
             </div>
           </div>
         </div>
       )}
       
+      {exportTarget && (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in">
+          <div className="bg-[#1E1F20] rounded-xl shadow-2xl p-6 m-4 max-w-sm w-full border border-gray-700/50">
+            <h3 className="text-lg font-bold text-white truncate">
+              {exportTarget.length === 1 ? t('history.exportOne', { title: exportTarget[0].title }) : t('history.exportMany', { count: exportTarget.length })}
+            </h3>
+            <p className="text-gray-400 mt-2 text-sm">{t('history.exportHint')}</p>
+            <div className="flex flex-col gap-2 mt-6">
+              {([['json', 'JSON'], ['markdown', 'Markdown'], ['html', t('history.exportHtml')]] as [ExportFormat, string][]).map(([format, label]) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={isExporting}
+                  className="px-4 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-wait"
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => setExportTarget(null)}
+                disabled={isExporting}
+                className="px-4 py-2 rounded-lg text-gray-400 hover:text-white transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {isOpen && <div onClick={onToggle} className="fixed inset-0 bg-black/50 z-20 md:hidden"></div>}
       <style>{`
         @keyframes fade-in {
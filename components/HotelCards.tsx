@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import type { HotelOption } from '../types';
+import { formatHotelPrice } from '../services/hotels';
+import { useTranslation, type MessageKey } from '../services/i18n';
+import { BookmarkIcon, HotelIcon } from './Icons';
+
+interface HotelCardsProps {
+  hotels: HotelOption[];
+  shortlistedIds: Set<string>;
+  onToggleShortlist?: (hotel: HotelOption) => void;
+}
+
+const Rating: React.FC<{ rating?: number }> = ({ rating }) => {
+  const { t } = useTranslation();
+  return rating === undefined ? <span className="text-gray-500">—</span> : <span className="text-yellow-300" aria-label={t('hotels.rated', { rating })}>★ {rating.toFixed(1)}</span>;
+};
+
+const BookingLink: React.FC<{ hotel: HotelOption }> = ({ hotel }) => {
+  const { t } = useTranslation();
+  return hotel.bookingUrl ? (
+    <a href={hotel.bookingUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">{t('hotels.book')}</a>
+  ) : null;
+};
+
+// Side by side, one column per hotel. Also used for the shortlist.
+export const HotelComparison: React.FC<{ hotels: HotelOption[] }> = ({ hotels }) => {
+  const { t } = useTranslation();
+  const rows: { label: MessageKey; render: (hotel: HotelOption) => React.ReactNode }[] = [
+    { label: 'hotels.area', render: hotel => hotel.area ?? '—' },
+    { label: 'hotels.perNight', render: hotel => hotel.pricePerNight ? formatHotelPrice(hotel.pricePerNight) : '—' },
+    { label: 'hotels.rating', render: hotel => <Rating rating={hotel.rating} /> },
+    { label: 'hotels.amenities', render: hotel => hotel.amenities.join(', ') || '—' },
+    { label: 'hotels.pros', render: hotel => hotel.pros.join('; ') || '—' },
+    { label: 'hotels.cons', render: hotel => hotel.cons.join('; ') || '—' },
+    { label: 'hotels.booking', render: hotel => hotel.bookingUrl ? <BookingLink hotel={hotel} /> : '—' },
+  ];
+  return (
+    <div className="overflow-x-auto rounded-xl border border-gray-700/50">
+      <table className="w-full text-sm text-left text-gray-300">
+        <thead className="bg-[#252525] text-gray-200">
+          <tr>
+            <th scope="col" className="px-3 py-2"><span className="sr-only">{t('hotels.detail')}</span></th>
+            {hotels.map(hotel => <th key={hotel.id} scope="col" className="px-3 py-2 font-semibold">{hotel.name}</th>)}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-800 bg-[#1E1F20]">
+          {rows.map(row => (
+            <tr key={row.label}>
+              <th scope="row" className="px-3 py-2 text-xs font-medium text-gray-400 whitespace-nowrap">{t(row.label)}</th>
+              {hotels.map(hotel => <td key={hotel.id} className="px-3 py-2 align-top">{row.render(hotel)}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export const HotelCards: React.FC<HotelCardsProps> = ({ hotels, shortlistedIds, onToggleShortlist }) => {
+  const { t } = useTranslation();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isComparing, setIsComparing] = useState(false);
+  const selected = hotels.filter(hotel => selectedIds.has(hotel.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="mt-3 w-full max-w-xl flex flex-col gap-3">
+      {hotels.map(hotel => {
+        const isShortlisted = shortlistedIds.has(hotel.id);
+        return (
+          <section key={hotel.id} className="bg-[#1E1F20] rounded-xl border border-gray-700/50 p-4 text-sm">
+            <header className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <h3 className="flex items-center gap-2 font-semibold text-white">
+                  <HotelIcon className="w-4 h-4 text-blue-400 flex-shrink-0" /> {hotel.name}
+                </h3>
+                <p className="text-xs text-gray-400 mt-0.5">
+                  {[hotel.area, hotel.pricePerNight && t('hotels.aNight', { price: formatHotelPrice(hotel.pricePerNight) })].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Rating rating={hotel.rating} />
+                {onToggleShortlist && (
+                  <button
+                    onClick={() => onToggleShortlist(hotel)}
+                    className={`p-1 rounded-md hover:bg-white/10 transition-colors duration-200 ${isShortlisted ? 'text-blue-400' : 'text-gray-500 hover:text-white'}`}
+                    aria-label={t(isShortlisted ? 'hotels.removeFromShortlist' : 'hotels.addToShortlist', { name: hotel.name })}
+                    aria-pressed={isShortlisted}
+                  >
+                    <BookmarkIcon className="h-4 w-4" filled={isShortlisted} />
+                  </button>
+                )}
+              </div>
+            </header>
+            {hotel.amenities.length > 0 && (
+              <ul className="flex flex-wrap gap-1.5 mt-3" aria-label={t('hotels.amenities')}>
+                {hotel.amenities.map(amenity => <li key={amenity} className="px-2 py-0.5 rounded-full bg-[#2a2a2a] text-xs text-gray-300">{amenity}</li>)}
+              </ul>
+            )}
+            {(hotel.pros.length > 0 || hotel.cons.length > 0) && (
+              <div className="grid sm:grid-cols-2 gap-2 mt-3 text-gray-300">
+                {hotel.pros.length > 0 && <ul aria-label={t('hotels.pros')}>{hotel.pros.map(pro => <li key={pro}>👍 {pro}</li>)}</ul>}
+                {hotel.cons.length > 0 && <ul aria-label={t('hotels.cons')}>{hotel.cons.map(con => <li key={con}>👎 {con}</li>)}</ul>}
+              </div>
+            )}
+            <footer className="flex items-center justify-between mt-3">
+              <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                <input type="checkbox" checked={selectedIds.has(hotel.id)} onChange={() => toggleSelected(hotel.id)} className="accent-blue-500" />
+                {t('hotels.compare')}
+              </label>
+              <BookingLink hotel={hotel} />
+            </footer>
+          </section>
+        );
+      })}
+
+      {hotels.length > 1 && (
+        <button
+          onClick={() => setIsComparing(prev => !prev)}
+          disabled={selected.length < 2}
+          className="self-start px-3 py-2 rounded-lg text-sm text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 transition-colors duration-200"
+        >
+          {isComparing && selected.length >= 2 ? t('hotels.hideComparison') : t('hotels.compareSelected', { count: selected.length })}
+        </button>
+      )}
+      {isComparing && selected.length >= 2 && <HotelComparison hotels={selected} />}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import type { HotelOption } from '../types';
+import { HotelComparison } from './HotelCards';
+import { useTranslation } from '../services/i18n';
+import { BookmarkIcon, TrashIcon } from './Icons';
+
+interface HotelShortlistProps {
+  hotels: HotelOption[];
+  onRemove: (hotel: HotelOption) => void;
+  onClose: () => void;
+}
+
+// The hotels saved in this chat, compared side by side.
+export const HotelShortlist: React.FC<HotelShortlistProps> = ({ hotels, onRemove, onClose }) => {
+  const { t } = useTranslation();
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="hotel-shortlist-title"
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[#1E1F20] rounded-xl shadow-2xl p-6 m-4 max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-gray-700/50"
+      >
+        <h3 id="hotel-shortlist-title" className="flex items-center gap-2 text-lg font-bold text-white">
+          <BookmarkIcon className="w-5 h-5" filled /> {t('hotels.shortlistTitle')}
+        </h3>
+        {hotels.length === 0 ? (
+          <p className="text-gray-400 mt-2 text-sm">{t('hotels.shortlistEmpty')}</p>
+        ) : (
+          <>
+            <ul className="flex flex-wrap gap-2 mt-4">
+              {hotels.map(hotel => (
+                <li key={hotel.id} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-[#2a2a2a] text-sm text-gray-200">
+                  {hotel.name}
+                  <button
+                    onClick={() => onRemove(hotel)}
+                    className="p-1 rounded-full text-gray-500 hover:text-white hover:bg-white/10 transition-colors duration-200"
+                    aria-label={t('hotels.removeFromShortlist', { name: hotel.name })}
+                  >
+                    <TrashIcon className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="mt-4">
+              <HotelComparison hotels={hotels} />
+            </div>
+          </>
+        )}
+        <div className="flex justify-end mt-4">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-gray-400 hover:text-white transition-colors">
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
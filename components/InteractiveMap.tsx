@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { COASTLINE, LAND, type LatLng, type MapRoute } from '../services/mapData';
+import type { MapPlace } from '../services/mapPlaces';
+import { useTranslation, type MessageKey } from '../services/i18n';
+
+interface InteractiveMapProps {
+  places: MapPlace[];
+  routes: MapRoute[];
+  unplotted?: { name: string; uri?: string }[];
+  userLocation?: { latitude: number; longitude: number } | null;
+  // Clicking a marker asks about the place.
+  onSelectPlace?: (place: MapPlace) => void;
+  disabled?: boolean;
+}
+
+// Drawn from the bundled outline in services/mapData.ts, so it needs no tile server and no key.
+const WIDTH = 400;
+const HEIGHT = 300;
+const PADDING = 0.15; // Of the span, on each side.
+const MIN_SPAN = 0.012; // Degrees of latitude, about 1.3 km, so a single place is not zoomed in to nothing.
+// Further away than this the traveler is shown as a note rather than stretching the map.
+const MAX_USER_DISTANCE_KM = 25;
+
+const KIND_STYLES: { [kind in MapPlace['kind']]: { fill: string; label: MessageKey } } = {
+  stop: { fill: '#3b82f6', label: 'map.stop' },
+  place: { fill: '#ef4444', label: 'map.place' },
+  poi: { fill: '#f59e0b', label: 'map.poi' },
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+const distanceKm = ([lat1, lng1]: LatLng, [lat2, lng2]: LatLng): number => {
+  const a = Math.sin(toRadians(lat2 - lat1) / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(toRadians(lng2 - lng1) / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+};
+
+// Fits the points into the viewBox at a uniform scale, east-west distances shrunk by the
+// cosine of the latitude so that the coastline keeps its shape.
+function createProjection(points: LatLng[]) {
+  const lats = points.map(([lat]) => lat);
+  const lngs = points.map(([, lng]) => lng);
+  const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const xScale = Math.cos(toRadians(midLat));
+  let height = Math.max(Math.max(...lats) - Math.min(...lats), MIN_SPAN);
+  let width = Math.max((Math.max(...lngs) - Math.min(...lngs)) * xScale, MIN_SPAN);
+  // Grow the narrower side to the viewBox's aspect ratio.
+  if (width / height > WIDTH / HEIGHT) height = width * HEIGHT / WIDTH;
+  else width = height * WIDTH / HEIGHT;
+  height *= 1 + PADDING * 2;
+  width *= 1 + PADDING * 2;
+  const north = (Math.min(...lats) + Math.max(...lats)) / 2 + height / 2;
+  const west = (Math.min(...lngs) + Math.max(...lngs)) / 2 - width / xScale / 2;
+  const scale = WIDTH / width;
+  return ([lat, lng]: LatLng): [number, number] => [(lng - west) * xScale * scale, (north - lat) * scale];
+}
+
+const toPath = (points: [number, number][]) => points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+export const InteractiveMap: React.FC<InteractiveMapProps> = ({ places, routes, unplotted = [], userLocation, onSelectPlace, disabled }) => {
+  const { t } = useTranslation();
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const { project, userPoint, userDistance } = useMemo(() => {
+    const points: LatLng[] = [...places.map((p): LatLng => [p.lat, p.lng]), ...routes.flatMap(r => r.points)];
+    const user: LatLng | null = userLocation ? [userLocation.latitude, userLocation.longitude] : null;
+    const center: LatLng | null = points.length > 0
+      ? [points.reduce((sum, [lat]) => sum + lat, 0) / points.length, points.reduce((sum, [, lng]) => sum + lng, 0) / points.length]
+      : null;
+    const distance = user && center ? distanceKm(user, center) : null;
+    const showUser = user && (distance === null || distance <= MAX_USER_DISTANCE_KM);
+    if (showUser) points.push(user);
+    return { project: points.length > 0 ? createProjection(points) : null, userPoint: showUser ? user : null, userDistance: showUser ? null : distance };
+  }, [places, routes, userLocation]);
+
+  if (!project) return null;
+
+  const stopNumbers = new Map(places.filter(p => p.kind === 'stop').map((p, i) => [p.entryId, i + 1]));
+  const kinds = (Object.keys(KIND_STYLES) as MapPlace['kind'][]).filter(kind => places.some(p => p.kind === kind));
+
+  const stopLabel = (place: MapPlace) => place.stop && [t('itinerary.day', { number: place.stop.day }), place.stop.time].filter(Boolean).join(' · ');
+
+  const select = (place: MapPlace) => {
+    if (!disabled) onSelectPlace?.(place);
+  };
+
+  return (
+    <figure className="mt-3 w-full max-w-xl">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full rounded-xl border border-gray-700/50 bg-[#12324a] overflow-hidden"
+        role="img"
+        aria-label={t('map.label', { places: places.map(p => p.name).join(', ') })}
+      >
+        <path d={`${toPath(LAND.map(project))} Z`} fill="#2a3a2a" />
+        <path d={toPath(COASTLINE.map(project))} fill="none" stroke="#e8d9a8" strokeWidth="2" strokeOpacity="0.6" />
+
+        {routes.map(route => {
+          const points = route.points.map(project);
+          const [labelX, labelY] = points[Math.floor(points.length / 2)];
+          return (
+            <g key={route.id}>
+              <path d={toPath(points)} fill="none" stroke="#34d399" strokeWidth="2.5" strokeDasharray="6 4" strokeLinecap="round" />
+              <text x={labelX + 6} y={labelY} fontSize="10" fill="#a7f3d0" stroke="#12324a" strokeWidth="3" paintOrder="stroke">
+                🚶 {t('common.minutes', { count: route.minutes })}
+              </text>
+            </g>
+          );
+        })}
+
+        {userPoint && (() => {
+          const [x, y] = project(userPoint);
+          return (
+            <g aria-label={t('map.yourLocation')}>
+              <circle cx={x} cy={y} r="12" fill="#60a5fa" fillOpacity="0.25" className="animate-pulse" />
+              <circle cx={x} cy={y} r="5" fill="#60a5fa" stroke="white" strokeWidth="2" />
+              <title>{t('map.youAreHere')}</title>
+            </g>
+          );
+        })()}
+
+        {places.map(place => {
+          const [x, y] = project([place.lat, place.lng]);
+          const isActive = activeId === place.entryId;
+          const number = stopNumbers.get(place.entryId);
+          const label = stopLabel(place);
+          return (
+            <g
+              key={place.entryId}
+              role="button"
+              tabIndex={disabled ? -1 : 0}
+              aria-label={t('map.askAbout', { place: label ? `${place.name}, ${label}` : place.name })}
+              aria-disabled={disabled}
+              onClick={() => select(place)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  select(place);
+                }
+              }}
+              onMouseEnter={() => setActiveId(place.entryId)}
+              onMouseLeave={() => setActiveId(null)}
+              onFocus={() => setActiveId(place.entryId)}
+              onBlur={() => setActiveId(null)}
+              className={disabled ? 'cursor-default' : 'cursor-pointer focus:outline-none'}
+            >
+              <circle cx={x} cy={y} r={isActive ? 9 : 7} fill={KIND_STYLES[place.kind].fill} stroke="white" strokeWidth={isActive ? 2.5 : 1.5} />
+              {number !== undefined && <text x={x} y={y + 3.5} fontSize="9" fontWeight="bold" textAnchor="middle" fill="white">{number}</text>}
+              <text x={x + 11} y={y + 4} fontSize="11" fill="white" stroke="#12324a" strokeWidth="3" paintOrder="stroke" fontWeight={isActive ? 'bold' : 'normal'}>
+                {place.name}
+              </text>
+              <title>{[place.name, label].filter(Boolean).join(' · ')}</title>
+            </g>
+          );
+        })}
+      </svg>
+
+      <figcaption className="mt-1.5 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+        {kinds.map(kind => (
+          <span key={kind} className="flex items-center gap-1">
+            <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: KIND_STYLES[kind].fill }} /> {t(KIND_STYLES[kind].label)}
+          </span>
+        ))}
+        {routes.length > 0 && <span className="text-emerald-300/80">- - {t('map.walkingPath')}</span>}
+        {userDistance !== null && <span>{t('map.distance', { distance: Math.round(userDistance) })}</span>}
+        <span className="ml-auto">{t('map.schematic')}</span>
+      </figcaption>
+      {unplotted.length > 0 && (
+        <p className="mt-1 text-xs text-gray-500">
+          {t('map.notOnMap')}{' '}
+          {unplotted.map((place, index) => (
+            <React.Fragment key={place.name}>
+              {index > 0 && ', '}
+              {place.uri ? <a href={place.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">{place.name}</a> : place.name}
+            </React.Fragment>
+          ))}
+        </p>
+      )}
+    </figure>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import type { Itinerary } from '../types';
+import { dayCost, moveStop, removeStop, totalCost } from '../services/itinerary';
+import { useTranslation } from '../services/i18n';
+import { ChevronDownIcon, TrashIcon, TripPlanIcon } from './Icons';
+
+interface ItineraryCardProps {
+  itinerary: Itinerary;
+  // Only the plan the chat is working on is editable; earlier versions are shown as they were.
+  onChange?: (itinerary: Itinerary) => void;
+  onRefine?: (request: string) => void;
+  disabled?: boolean;
+}
+
+const formatRupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const iconButtonClass = 'p-1 rounded-md text-gray-500 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-500 transition-colors duration-200';
+
+export const ItineraryCard: React.FC<ItineraryCardProps> = ({ itinerary, onChange, onRefine, disabled }) => {
+  const { t } = useTranslation();
+  const [request, setRequest] = useState('');
+  const total = totalCost(itinerary);
+  const lastDay = itinerary.days.length - 1;
+
+  const handleRefine = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!request.trim() || !onRefine) return;
+    onRefine(request.trim());
+    setRequest('');
+  };
+
+  return (
+    <div className="mt-3 w-full max-w-xl flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="flex items-center gap-2 font-semibold text-white">
+          <TripPlanIcon className="w-5 h-5 text-blue-400" /> {itinerary.title}
+        </h3>
+        {total > 0 && <span className="text-xs text-gray-400">{t('itinerary.perPerson', { amount: formatRupees(total) })}</span>}
+      </div>
+
+      {itinerary.days.map((day, dayIndex) => (
+        <section key={dayIndex} className="bg-[#1E1F20] rounded-xl border border-gray-700/50 overflow-hidden">
+          <header className="flex items-center justify-between px-4 py-2 bg-[#252525] text-sm">
+            <span className="font-semibold text-gray-200">{t('itinerary.day', { number: dayIndex + 1 })} · {day.title}</span>
+            {dayCost(day) > 0 && <span className="text-xs text-gray-400">{formatRupees(dayCost(day))}</span>}
+          </header>
+          {day.stops.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">{t('itinerary.nothingPlanned')}</p>
+          ) : (
+            <ol className="divide-y divide-gray-800">
+              {day.stops.map((stop, stopIndex) => (
+                <li key={stop.id} className="flex gap-3 px-4 py-3">
+                  <span className="w-12 flex-shrink-0 text-sm font-medium text-blue-300">{stop.time}</span>
+                  <div className="flex-1 min-w-0 text-sm">
+                    {stop.travel && (
+                      <p className="text-xs text-gray-500 mb-0.5">{stop.travel.mode} · {t('common.minutes', { count: stop.travel.minutes })}</p>
+                    )}
+                    <p className="text-gray-200"><span className="font-semibold">{stop.place}</span>{stop.activity && ` — ${stop.activity}`}</p>
+                    {(stop.cost !== undefined || stop.notes) && (
+                      <p className="text-xs text-gray-400 mt-0.5">
+                        {stop.cost !== undefined && (stop.cost > 0 ? formatRupees(stop.cost) : t('itinerary.free'))}
+                        {stop.cost !== undefined && stop.notes && ' · '}
+                        {stop.notes}
+                      </p>
+                    )}
+                  </div>
+                  {onChange && (
+                    <div className="flex flex-col sm:flex-row items-center gap-0.5 flex-shrink-0">
+                      <button
+                        onClick={() => onChange(moveStop(itinerary, dayIndex, stopIndex, -1))}
+                        disabled={disabled || (dayIndex === 0 && stopIndex === 0)}
+                        className={iconButtonClass}
+                        aria-label={t('itinerary.moveEarlier', { place: stop.place })}
+                      >
+                        <ChevronDownIcon className="h-4 w-4 rotate-180" />
+                      </button>
+                      <button
+                        onClick={() => onChange(moveStop(itinerary, dayIndex, stopIndex, 1))}
+                        disabled={disabled || (dayIndex === lastDay && stopIndex === day.stops.length - 1)}
+                        className={iconButtonClass}
+                        aria-label={t('itinerary.moveLater', { place: stop.place })}
+                      >
+                        <ChevronDownIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => onChange(removeStop(itinerary, dayIndex, stopIndex))}
+                        disabled={disabled}
+                        className={iconButtonClass}
+                        aria-label={t('itinerary.remove', { place: stop.place })}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      ))}
+
+      {itinerary.notes && <p className="text-xs text-gray-400">{itinerary.notes}</p>}
+
+      {onRefine && (
+        <form onSubmit={handleRefine} className="flex gap-2">
+          <input
+            type="text"
+            value={request}
+            onChange={(e) => setRequest(e.target.value)}
+            disabled={disabled}
+            placeholder={t('itinerary.refinePlaceholder')}
+            aria-label={t('itinerary.refineLabel')}
+            className="flex-1 px-3 py-2 rounded-lg bg-[#252525] text-sm text-gray-200 placeholder-gray-500 border border-gray-700/50 outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={disabled || !request.trim()}
+            className="px-3 py-2 rounded-lg text-sm text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 transition-colors duration-200"
+          >
+            {t('itinerary.refine')}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
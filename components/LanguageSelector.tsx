@@ -0,0 +1,104 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { LANGUAGES } from '../constants';
+import { useTranslation } from '../services/i18n';
+import { CheckIcon, GlobeIcon } from './Icons';
+
+interface LanguageSelectorProps {
+  languageCode?: string;
+  // Switches the UI, speech recognition and the bot's replies together.
+  onSelectLanguage: (languageCode: string) => void;
+  disabled?: boolean;
+  // The header also uses this for the bilingual view, which has its own label and icon, can be
+  // turned off, and leaves out the chat's own language.
+  label?: string;
+  icon?: React.ReactNode;
+  offLabel?: string;
+  onTurnOff?: () => void;
+  excludeCode?: string;
+}
+
+export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ languageCode, onSelectLanguage, disabled, label, icon, offLabel, onTurnOff, excludeCode }) => {
+  const { t } = useTranslation();
+  const title = label ?? t('language.label');
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+        if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+            setIsOpen(false);
+        }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleSelect = (code: string) => {
+    setIsOpen(false);
+    if (code !== languageCode) onSelectLanguage(code);
+  };
+
+  const handleTurnOff = () => {
+    setIsOpen(false);
+    if (languageCode !== undefined) onTurnOff?.();
+  };
+
+  return (
+    <div ref={containerRef} className="relative group flex justify-center">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        onKeyDown={(e) => { if (e.key === 'Escape') setIsOpen(false); }}
+        disabled={disabled}
+        className={`p-2 rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${onTurnOff && languageCode !== undefined ? 'text-white bg-blue-600' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        aria-label={title}
+      >
+        {icon ?? <GlobeIcon />}
+      </button>
+      {!isOpen && (
+        <div
+          className="absolute top-full mt-2 whitespace-nowrap bg-black text-white text-sm font-semibold px-3 py-1.5 rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none"
+          role="tooltip"
+        >
+          {title}
+        </div>
+      )}
+      {isOpen && (
+        <div
+          className="absolute top-full mt-2 right-0 w-48 bg-[#2a2a2a] text-white rounded-xl shadow-lg animate-fade-in-up overflow-hidden border border-gray-700/50 z-20"
+          role="listbox"
+          aria-label={title}
+        >
+          {onTurnOff && (
+            <button
+              onClick={handleTurnOff}
+              className="flex items-center w-full px-4 py-2.5 text-left hover:bg-[#333] transition-colors"
+              role="option"
+              aria-selected={languageCode === undefined}
+            >
+              <p className="flex-1 text-sm font-semibold">{offLabel}</p>
+              {languageCode === undefined && <CheckIcon className="w-5 h-5 text-blue-400 ml-2 flex-shrink-0" />}
+            </button>
+          )}
+          {LANGUAGES.filter(language => language.code !== excludeCode).map(language => (
+            <button
+              key={language.code}
+              lang={language.code}
+              onClick={() => handleSelect(language.code)}
+              className="flex items-center w-full px-4 py-2.5 text-left hover:bg-[#333] transition-colors"
+              role="option"
+              aria-selected={language.code === languageCode}
+            >
+              <div className="flex-1">
+                <p className="text-sm font-semibold">{language.nativeName}</p>
+                {language.nativeName !== language.name && <p className="text-xs text-gray-400">{language.name}</p>}
+              </div>
+              {language.code === languageCode && <CheckIcon className="w-5 h-5 text-blue-400 ml-2 flex-shrink-0" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,12 @@
 
 
 import React, { useState, useEffect, useRef } from 'react';
-// FIX: Removed LiveSession as it is not an exported member of the library.
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
 import { BackIcon, MicIcon, WaveformIcon } from './Icons';
+import type { ChatProvider, LiveEvent, LiveSession } from '../services/chatProvider';
+import { useTranslation } from '../services/i18n';
 
 interface LiveChatViewProps {
+  provider: ChatProvider;
   onGoBack: () => void;
 }
 
@@ -48,19 +49,12 @@ async function decodeAudioData(
   return buffer;
 }
 
-
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-export const LiveChatView: React.FC<LiveChatViewProps> = ({ onGoBack }) => {
+export const LiveChatView: React.FC<LiveChatViewProps> = ({ provider, onGoBack }) => {
+  const { t } = useTranslation();
   const [status, setStatus] = useState<'idle' | 'connecting' | 'connected' | 'error' | 'closed'>('idle');
   const [transcription, setTranscription] = useState<{ user: string, bot: string, isFinal: boolean }[]>([]);
   
-  // FIX: Inferred session type from the `ai.live.connect` method since LiveSession is not exported.
-  const sessionRef = useRef<Awaited<ReturnType<typeof ai.live.connect>> | null>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
@@ -84,10 +78,8 @@ export const LiveChatView: React.FC<LiveChatViewProps> = ({ onGoBack }) => {
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
         mediaStreamRef.current = stream;
 
-        const sessionPromise = ai.live.connect({
-          model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-          callbacks: {
-            onopen: () => {
+        const sessionPromise = provider.connectLive({
+            onOpen: () => {
               setStatus('connected');
               const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
               inputAudioContextRef.current = inputAudioContext;
@@ -101,20 +93,20 @@ export const LiveChatView: React.FC<LiveChatViewProps> = ({ onGoBack }) => {
                 for (let i = 0; i < inputData.length; i++) {
                   int16[i] = inputData[i] * 32768;
                 }
-                const pcmBlob: Blob = {
+                const pcmBlob = {
                   data: encode(new Uint8Array(int16.buffer)),
                   mimeType: 'audio/pcm;rate=16000',
                 };
                 sessionPromise.then((session) => {
-                  session.sendRealtimeInput({ media: pcmBlob });
+                  session.sendAudio(pcmBlob);
                 });
               };
               source.connect(scriptProcessor);
               scriptProcessor.connect(inputAudioContext.destination);
             },
-            onmessage: async (message: LiveServerMessage) => {
-                if (message.serverContent?.inputTranscription) {
-                    currentInputTranscription.current = message.serverContent.inputTranscription.text;
+            onEvent: async (event: LiveEvent) => {
+                if (event.inputTranscription) {
+                    currentInputTranscription.current = event.inputTranscription;
                     setTranscription(prev => {
                         const newTranscription = [...prev];
                         const last = newTranscription[newTranscription.length - 1];
@@ -126,8 +118,8 @@ export const LiveChatView: React.FC<LiveChatViewProps> = ({ onGoBack }) => {
                         return newTranscription;
                     });
                 }
-                if (message.serverContent?.outputTranscription) {
-                    currentOutputTranscription.current += message.serverContent.outputTranscription.text;
+                if (event.outputTranscription) {
+                    currentOutputTranscription.current += event.outputTranscription;
                     setTranscription(prev => {
                         const newTranscription = [...prev];
                         const last = newTranscription[newTranscription.length - 1];
@@ -135,7 +127,7 @@ export const LiveChatView: React.FC<LiveChatViewProps> = ({ onGoBack }) => {
                         return newTranscription;
                     });
                 }
-                if (message.serverContent?.turnComplete) {
+                if (event.turnComplete) {
                     setTranscription(prev => {
                         const newTranscription = [...prev];
                         const last = newTranscription[newTranscription.length - 1];
@@ -147,7 +139,7 @@ export const LiveChatView: React.FC<LiveChatViewProps> = ({ onGoBack }) => {
                 }
 
                 // --- Handle Audio Output ---
-                const base64EncodedAudioString = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+                const base64EncodedAudioString = event.audio;
                 if (base64EncodedAudioString) {
                     nextStartTimeRef.current = Math.max(
                         nextStartTimeRef.current,
@@ -171,7 +163,7 @@ export const LiveChatView: React.FC<LiveChatViewProps> = ({ onGoBack }) => {
                     sourcesRef.current.add(source);
                 }
 
-                const interrupted = message.serverContent?.interrupted;
+                const interrupted = event.interrupted;
                 if (interrupted) {
                     for (const source of sourcesRef.current.values()) {
                         source.stop();
@@ -180,24 +172,14 @@ export const LiveChatView: React.FC<LiveChatViewProps> = ({ onGoBack }) => {
                     nextStartTimeRef.current = 0;
                 }
             },
-            onerror: (e: ErrorEvent) => {
+            onError: (e: unknown) => {
               console.error('Live session error:', e);
               setStatus('error');
             },
-            onclose: () => {
+            onClose: () => {
               setStatus('closed');
             },
-          },
-          config: {
-            responseModalities: [Modality.AUDIO],
-            inputAudioTranscription: {},
-            outputAudioTranscription: {},
-            speechConfig: {
-              voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-            },
-            systemInstruction: "You are a helpful travel assistant for Gokarna. Keep your answers concise and friendly.",
-          },
-        });
+        }, "You are a helpful travel assistant for Gokarna. Keep your answers concise and friendly.");
         sessionRef.current = await sessionPromise;
       } catch (err) {
         console.error('Failed to get media devices or connect:', err);
@@ -215,15 +197,15 @@ export const LiveChatView: React.FC<LiveChatViewProps> = ({ onGoBack }) => {
       outputAudioContextRef.current?.close();
       sourcesRef.current.forEach(source => source.stop());
     };
-  }, []);
+  }, [provider]);
 
   const getStatusIndicator = () => {
     switch (status) {
-      case 'connecting': return <p className="text-yellow-400">Connecting...</p>;
-      case 'connected': return <p className="text-green-400">Connected</p>;
-      case 'error': return <p className="text-red-400">Connection Error</p>;
-      case 'closed': return <p className="text-gray-400">Connection Closed</p>;
-      default: return <p className="text-gray-500">Idle</p>;
+      case 'connecting': return <p className="text-yellow-400">{t('live.connecting')}</p>;
+      case 'connected': return <p className="text-green-400">{t('live.connected')}</p>;
+      case 'error': return <p className="text-red-400">{t('live.error')}</p>;
+      case 'closed': return <p className="text-gray-400">{t('live.closed')}</p>;
+      default: return <p className="text-gray-500">{t('live.idle')}</p>;
     }
   };
 
@@ -233,18 +215,19 @@ export const LiveChatView: React.FC<LiveChatViewProps> = ({ onGoBack }) => {
         <button
           onClick={onGoBack}
           className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10"
+          aria-label={t('live.back')}
         >
           <BackIcon />
         </button>
-        <h1 className="text-xl font-bold">Live Conversation</h1>
+        <h1 className="text-xl font-bold">{t('live.title')}</h1>
         <div className="w-10"></div>
       </header>
       
       <main className="flex-1 overflow-y-auto p-6 pt-24 text-2xl font-medium leading-relaxed">
         {transcription.map((turn, index) => (
             <div key={index} className="mb-6 animate-fade-in">
-                <p><span className="font-bold text-gray-400">You: </span>{turn.user}</p>
-                {turn.bot && <p className="mt-2"><span className="font-bold text-blue-400">Bot: </span>{turn.bot}</p>}
+                <p><span className="font-bold text-gray-400">{t('common.you')}: </span>{turn.user}</p>
+                {turn.bot && <p className="mt-2"><span className="font-bold text-blue-400">{t('live.bot')}: </span>{turn.bot}</p>}
             </div>
         ))}
       </main>
@@ -1,7 +1,18 @@
 // FIX: Corrected the React import to include useState and useEffect hooks.
-import React, { useState, useEffect } from 'react';
-import type { ChatMessage, Language } from '../types';
-import { FileTextIcon, ShareIcon, CheckIcon, CopyIcon, DownloadIcon, SummarizeIcon } from './Icons';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { ChatMessage, HotelOption, Itinerary, KnowledgeCitation, Language } from '../types';
+import { ItineraryCard } from './ItineraryCard';
+import { HotelCards } from './HotelCards';
+import { BriefingCard } from './BriefingCard';
+import { InteractiveMap } from './InteractiveMap';
+import { mapContentForMessage } from '../services/mapPlaces';
+import { entryToText, getKnowledgeEntry } from '../services/knowledgeBase';
+import { KNOWLEDGE_UPDATED, KNOWLEDGE_VERSION } from '../services/knowledgeData';
+import { DEFAULT_LANGUAGE, useTranslation } from '../services/i18n';
+import { pickVoice } from '../services/languagePacks';
+import { classifyError, getErrorMessage } from '../services/errors';
+import { LANGUAGES } from '../constants';
+import { FileTextIcon, PinIcon, ShareIcon, CheckIcon, CopyIcon, DownloadIcon, SummarizeIcon, RetryIcon, PencilIcon, ChevronDownIcon, TranslateIcon } from './Icons';
 
 interface MessageBubbleProps {
   message: ChatMessage;
@@ -9,9 +20,57 @@ interface MessageBubbleProps {
   language?: Language;
   setIsBotSpeaking?: (isSpeaking: boolean) => void;
   onSummarize?: (text: string) => void;
+  // Resolves once the translation is cached on the message.
+  onTranslate?: (messageId: number, languageCode: string) => Promise<string>;
+  // Set when the chat shows bot replies in a second language, next to the original.
+  bilingualLanguageCode?: string;
+  onRetry?: (messageId: number) => void;
+  onEditMessage?: (messageId: number, text: string) => void;
+  onRegenerate?: (messageId: number) => void;
+  onSwitchVersion?: (messageId: number, delta: number) => void;
+  // Set when the message has siblings from an edit or a regeneration.
+  version?: { index: number; total: number };
+  isGenerating?: boolean;
+  onCancelVideo?: (messageId: number) => void;
   isLastMessage?: boolean;
+  // Set on the reply whose plan the chat is working on, which is the only one that can be edited.
+  isCurrentItinerary?: boolean;
+  onChangeItinerary?: (messageId: number, itinerary: Itinerary) => void;
+  onRefineItinerary?: (request: string) => void;
+  shortlistedHotelIds?: Set<string>;
+  onToggleShortlist?: (hotel: HotelOption) => void;
+  userLocation?: { latitude: number; longitude: number } | null;
+  onAskAboutPlace?: (name: string) => void;
 }
 
+// A dataset entry the reply was grounded on; opens to show the entry itself. Entries removed
+// from a later dataset version are still listed by name.
+const KnowledgeCitationItem: React.FC<{ citation: KnowledgeCitation }> = ({ citation }) => {
+  const { t } = useTranslation();
+  const entry = getKnowledgeEntry(citation.id);
+  if (!entry) return <li>📘 {citation.name} <span className="text-gray-600">· {t('message.dataset')}</span></li>;
+  return (
+    <li className="list-none -ml-3">
+      <details>
+        <summary className="cursor-pointer text-blue-400 hover:underline">📘 {entry.name} <span className="text-gray-500">· {t('message.datasetVersion', { version: KNOWLEDGE_VERSION, date: KNOWLEDGE_UPDATED })}</span></summary>
+        <div className="mt-1 ml-5 p-2 rounded-lg bg-[#1E1F20] border border-gray-700/50 text-gray-300 whitespace-pre-line">
+          {entryToText(entry)}
+          {entry.coordinates && (
+            <a
+              href={`https://www.google.com/maps/search/?api=1&query=${entry.coordinates.lat},${entry.coordinates.lng}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block mt-1 text-blue-400 hover:underline"
+            >
+              {t('message.openInMaps')}
+            </a>
+          )}
+        </div>
+      </details>
+    </li>
+  );
+};
+
 const TypingIndicator: React.FC = () => (
   <div className="flex items-center space-x-1.5">
     <div className="w-2.5 h-2.5 bg-gray-500 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
@@ -20,14 +79,51 @@ const TypingIndicator: React.FC = () => (
   </div>
 );
 
-const VideoGeneratingIndicator: React.FC = () => (
-  <div className="flex items-center space-x-2 text-gray-400">
-    <div className="w-4 h-4 border-2 border-dashed rounded-full animate-spin border-gray-500"></div>
-    <span>Generating video... this may take a few minutes.</span>
-  </div>
-);
+const VideoGeneratingIndicator: React.FC<{ onCancel?: () => void }> = ({ onCancel }) => {
+  const { t } = useTranslation();
+  return (
+    <div className="flex items-center space-x-2 text-gray-400">
+      <div className="w-4 h-4 border-2 border-dashed rounded-full animate-spin border-gray-500"></div>
+      <span>{t('message.generatingVideo')}</span>
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="text-xs font-medium text-gray-400 hover:text-white transition-colors duration-200 bg-[#252525] hover:bg-[#333] px-2 py-1 rounded-md border border-gray-700/50"
+          aria-label={t('message.cancelVideo')}
+        >
+          {t('common.cancel')}
+        </button>
+      )}
+    </div>
+  );
+};
 
 
+const VersionSwitcher: React.FC<{ version: { index: number; total: number }; disabled?: boolean; onSwitch: (delta: number) => void }> = ({ version, disabled, onSwitch }) => {
+  const { t } = useTranslation();
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500">
+      <button
+        onClick={() => onSwitch(-1)}
+        disabled={disabled || version.index === 0}
+        className="p-1 rounded-md hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500 transition-colors duration-200"
+        aria-label={t('message.previousVersion')}
+      >
+        <ChevronDownIcon className="h-3.5 w-3.5 rotate-90" />
+      </button>
+      <span>{version.index + 1}/{version.total}</span>
+      <button
+        onClick={() => onSwitch(1)}
+        disabled={disabled || version.index === version.total - 1}
+        className="p-1 rounded-md hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500 transition-colors duration-200"
+        aria-label={t('message.nextVersion')}
+      >
+        <ChevronDownIcon className="h-3.5 w-3.5 -rotate-90" />
+      </button>
+    </div>
+  );
+};
+
 const cleanTextForSpeech = (text: string) => {
   return text
     .replace(/\*\*/g, '')
@@ -82,12 +178,22 @@ const MarkdownRenderer: React.FC<{ text: string }> = ({ text }) => {
 };
 
 
-export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isTextToSpeechEnabled, language, setIsBotSpeaking, onSummarize, isLastMessage }) => {
-  const { text, sender, isLoading, videoState, videoUrl } = message;
+export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isTextToSpeechEnabled, language, setIsBotSpeaking, onSummarize, onTranslate, bilingualLanguageCode, onRetry, onEditMessage, onRegenerate, onSwitchVersion, version, isGenerating, onCancelVideo, isLastMessage, isCurrentItinerary, onChangeItinerary, onRefineItinerary, shortlistedHotelIds, onToggleShortlist, userLocation, onAskAboutPlace }) => {
+  const { text, sender, isLoading, videoState, videoUrl, error } = message;
   const isUser = sender === 'user';
+  const { t, languageCode: uiLanguage } = useTranslation();
   
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [isCopied, setIsCopied] = useState(false);
+  const [editText, setEditText] = useState<string | null>(null);
+  const [isMapOpen, setIsMapOpen] = useState(false);
+  const [isTranslateMenuOpen, setIsTranslateMenuOpen] = useState(false);
+  // The translation shown under the text, and the one being fetched.
+  const [translationCode, setTranslationCode] = useState<string | null>(null);
+  const [pendingTranslation, setPendingTranslation] = useState<string | null>(null);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  const bilingualRequestRef = useRef<string | null>(null);
+  const mapContent = useMemo(() => !isUser && !isLoading && !message.isSystem ? mapContentForMessage(message) : null, [message, isUser, isLoading]);
 
   useEffect(() => {
     const loadVoices = () => {
@@ -104,16 +210,13 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isTextToS
   }, []);
   
   useEffect(() => {
-    if (isTextToSpeechEnabled && sender === 'bot' && !isLoading && text && voices.length > 0 && setIsBotSpeaking) {
+    if (isTextToSpeechEnabled && sender === 'bot' && !isLoading && !error && text && voices.length > 0 && setIsBotSpeaking) {
       window.speechSynthesis.cancel();
       
       const textToSpeak = cleanTextForSpeech(text);
       const utterance = new SpeechSynthesisUtterance(textToSpeak);
       
-      let voiceToUse = voices.find(v => v.lang === language?.code);
-      if (!voiceToUse) voiceToUse = voices.find(v => v.lang.startsWith(language?.code.split('-')[0] || 'en'));
-      if (!voiceToUse) voiceToUse = voices.find(v => v.lang.startsWith('en'));
-
+      const voiceToUse = pickVoice(voices, language?.code ?? DEFAULT_LANGUAGE);
       if (voiceToUse) utterance.voice = voiceToUse;
       
       utterance.rate = 1;
@@ -127,11 +230,46 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isTextToS
     }
   }, [isTextToSpeechEnabled, sender, isLoading, text, language, voices, setIsBotSpeaking]);
 
+  const requestTranslation = async (code: string) => {
+    if (!onTranslate || message.translations?.[code]) return;
+    setTranslationError(null);
+    setPendingTranslation(code);
+    try {
+      await onTranslate(message.id, code);
+    } catch (error) {
+      console.error('Translation error:', error);
+      setTranslationError(getErrorMessage(classifyError(error).kind, uiLanguage));
+    } finally {
+      setPendingTranslation(null);
+    }
+  };
+
+  const handleTranslateTo = (code: string) => {
+    setIsTranslateMenuOpen(false);
+    setTranslationCode(code);
+    requestTranslation(code);
+  };
+
+  // In the bilingual view a finished reply is translated as soon as it is on screen, once per
+  // language, so a failed translation is not retried on every render.
+  const sideBySideCode = bilingualLanguageCode && bilingualLanguageCode !== language?.code && !isUser && !message.isSystem && !isLoading && !error && text ? bilingualLanguageCode : null;
+  useEffect(() => {
+    if (!sideBySideCode || message.translations?.[sideBySideCode] || bilingualRequestRef.current === sideBySideCode) return;
+    bilingualRequestRef.current = sideBySideCode;
+    requestTranslation(sideBySideCode);
+  }, [sideBySideCode, message.translations]);
+
+  const languageName = (code: string) => LANGUAGES.find(l => l.code === code)?.nativeName ?? code;
+
+  const translationStatus = (code: string) => pendingTranslation === code
+    ? <p className="text-sm italic text-gray-500">{t('message.translating')}</p>
+    : translationError && <p className="text-sm text-red-300">{translationError}</p>;
+
   const handleShare = async () => {
     const cleanText = text.replace(/\*\*/g, '');
     if (navigator.share) {
         try {
-            await navigator.share({ title: 'Gokarna Guide Tip', text: cleanText });
+            await navigator.share({ title: t('message.shareTitle'), text: cleanText });
         } catch (error) {
             console.error('Error sharing:', error);
         }
@@ -153,6 +291,12 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isTextToS
     }, (err) => console.error('Failed to copy text: ', err));
   };
   
+  const handleSaveEdit = () => {
+    if (editText === null || !editText.trim() || !onEditMessage) return;
+    onEditMessage(message.id, editText);
+    setEditText(null);
+  };
+
   const handleDownload = (src: string, index: number) => {
     const link = document.createElement('a');
     link.href = src;
@@ -166,7 +310,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isTextToS
   const userBubbleClasses = 'bg-[#252525] text-gray-200 self-end px-6 py-4 rounded-[20px] shadow-md border border-white/5 transition-all duration-300 ease-in-out hover:bg-[#333] hover:shadow-lg';
   const botBubbleClasses = '';
 
-  const bubbleClass = isUser ? userBubbleClasses : botBubbleClasses;
+  const bubbleClass = isUser ? userBubbleClasses : (error ? 'text-red-300' : botBubbleClasses);
   const alignmentClass = isUser ? 'items-end' : (message.isWelcome ? 'items-center text-center' : 'items-start');
   
   if (message.isWelcome) return null;
@@ -200,49 +344,226 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isTextToS
             </div>
         )}
         
-        {videoState === 'generating' && <VideoGeneratingIndicator />}
+        {videoState === 'generating' && <VideoGeneratingIndicator onCancel={onCancelVideo ? () => onCancelVideo(message.id) : undefined} />}
         
         {videoState === 'done' && videoUrl && (
              <video src={videoUrl} controls className="mt-3 rounded-xl max-w-xl w-full" />
         )}
 
-        {(text || (isLoading && videoState !== 'generating')) && (
+        {editText !== null ? (
+            <div className="w-full max-w-xl flex flex-col gap-2">
+                <textarea
+                    value={editText}
+                    onChange={e => setEditText(e.target.value)}
+                    onKeyDown={e => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleSaveEdit();
+                        } else if (e.key === 'Escape') {
+                            setEditText(null);
+                        }
+                    }}
+                    rows={3}
+                    autoFocus
+                    className="w-full bg-[#252525] text-gray-200 px-4 py-3 rounded-2xl border border-gray-700 focus:outline-none focus:border-blue-500 resize-none"
+                    aria-label={t('message.edit')}
+                />
+                <div className="flex justify-end gap-2">
+                    <button
+                        onClick={() => setEditText(null)}
+                        className="text-xs font-medium text-gray-400 hover:text-white transition-colors duration-200 bg-[#252525] hover:bg-[#333] px-3 py-1.5 rounded-md border border-gray-700/50"
+                    >
+                        {t('common.cancel')}
+                    </button>
+                    <button
+                        onClick={handleSaveEdit}
+                        disabled={!editText.trim() || isGenerating}
+                        className="text-xs font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 px-3 py-1.5 rounded-md transition-colors duration-200"
+                    >
+                        {t('message.saveAndSend')}
+                    </button>
+                </div>
+            </div>
+        ) : sideBySideCode ? (
+            <div className="grid sm:grid-cols-2 gap-6 w-full text-base leading-relaxed">
+                <div lang={language?.code}>
+                    <p className="mb-1 text-xs text-gray-500">{language?.nativeName}</p>
+                    <MarkdownRenderer text={text} />
+                </div>
+                <div lang={sideBySideCode} className="sm:border-l sm:border-gray-800 sm:pl-6">
+                    <p className="mb-1 text-xs text-gray-500">{languageName(sideBySideCode)}</p>
+                    {message.translations?.[sideBySideCode] ? <MarkdownRenderer text={message.translations[sideBySideCode]} /> : translationStatus(sideBySideCode)}
+                </div>
+            </div>
+        ) : (text || (isLoading && videoState !== 'generating')) && (
             <div className={`max-w-xl transition-opacity duration-500 text-base md:text-lg leading-relaxed ${bubbleClass}`}>
                 {isLoading && !text ? <TypingIndicator /> : <MarkdownRenderer text={text} />}
             </div>
         )}
 
-        {!isUser && !isLoading && text && (
+        {translationCode && translationCode !== sideBySideCode && editText === null && (
+            <div lang={translationCode} className="mt-2 w-full max-w-xl border-l-2 border-blue-500/50 pl-4 text-gray-300 leading-relaxed">
+                <div className="flex items-center justify-between gap-4 mb-1 text-xs text-gray-500">
+                    <span>{t('message.translatedTo', { language: languageName(translationCode) })}</span>
+                    <button onClick={() => setTranslationCode(null)} className="hover:text-white transition-colors duration-200">
+                        {t('message.hideTranslation')}
+                    </button>
+                </div>
+                {message.translations?.[translationCode] ? <MarkdownRenderer text={message.translations[translationCode]} /> : translationStatus(translationCode)}
+            </div>
+        )}
+
+        {!isLoading && message.itinerary && (
+            <ItineraryCard
+                itinerary={message.itinerary}
+                onChange={isCurrentItinerary && onChangeItinerary ? itinerary => onChangeItinerary(message.id, itinerary) : undefined}
+                onRefine={isCurrentItinerary ? onRefineItinerary : undefined}
+                disabled={isGenerating}
+            />
+        )}
+
+        {!isLoading && message.briefing && <BriefingCard briefing={message.briefing} />}
+
+        {!isLoading && message.hotels && (
+            <HotelCards hotels={message.hotels} shortlistedIds={shortlistedHotelIds ?? new Set()} onToggleShortlist={onToggleShortlist} />
+        )}
+
+        {mapContent && mapContent.places.length > 0 && (
+            <>
+                <button
+                    onClick={() => setIsMapOpen(prev => !prev)}
+                    aria-expanded={isMapOpen}
+                    className="mt-3 flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-300 bg-[#1E1F20] border border-gray-700/50 hover:bg-white/10 transition-colors duration-200"
+                >
+                    <PinIcon className="h-4 w-4" /> {isMapOpen ? t('message.hideMap') : t('message.showMap', { count: mapContent.places.length })}
+                </button>
+                {isMapOpen && (
+                    <InteractiveMap
+                        places={mapContent.places}
+                        routes={mapContent.routes}
+                        unplotted={mapContent.unplotted}
+                        userLocation={userLocation}
+                        onSelectPlace={onAskAboutPlace && (place => onAskAboutPlace(place.name))}
+                        disabled={isGenerating}
+                    />
+                )}
+            </>
+        )}
+
+        {isUser && editText === null && (onEditMessage || version || onTranslate) && (
+            <div className="flex items-center gap-2 mt-1.5">
+                {version && onSwitchVersion && <VersionSwitcher version={version} disabled={isGenerating} onSwitch={delta => onSwitchVersion(message.id, delta)} />}
+                {onTranslate && text && (
+                    <button
+                        onClick={() => setIsTranslateMenuOpen(prev => !prev)}
+                        className="p-1 rounded-md text-gray-500 hover:text-white hover:bg-white/10 transition-colors duration-200"
+                        aria-label={t('message.translateLabel')}
+                        aria-expanded={isTranslateMenuOpen}
+                    >
+                        <TranslateIcon className="h-3.5 w-3.5" />
+                    </button>
+                )}
+                {onEditMessage && (
+                    <button
+                        onClick={() => setEditText(text)}
+                        disabled={isGenerating}
+                        className="p-1 rounded-md text-gray-500 hover:text-white hover:bg-white/10 disabled:opacity-40 transition-colors duration-200"
+                        aria-label={t('message.edit')}
+                    >
+                        <PencilIcon className="h-3.5 w-3.5" />
+                    </button>
+                )}
+            </div>
+        )}
+
+        {message.isInterrupted && (
+            <p className="mt-2 max-w-xl text-xs italic text-gray-500">{t('message.stopped')}</p>
+        )}
+
+        {!isUser && !isLoading && error?.retry && onRetry && (
+            <div className="flex items-center gap-2 mt-3 max-w-xl">
+                <button
+                    onClick={() => onRetry(message.id)}
+                    className="flex items-center gap-1.5 text-xs font-medium text-gray-400 hover:text-white transition-colors duration-200 bg-[#252525] hover:bg-[#333] px-2 py-1 rounded-md border border-gray-700/50"
+                    aria-label={t('message.retryLabel')}
+                >
+                    <RetryIcon className="h-4 w-4" />
+                    <span>{t('message.retry')}</span>
+                </button>
+            </div>
+        )}
+
+        {!isUser && !isLoading && !error && text && (
             <div className="flex items-center gap-2 mt-3 max-w-xl">
                  <button
                     onClick={handleShare}
                     className="flex items-center gap-1.5 text-xs font-medium text-gray-400 hover:text-white transition-colors duration-200 bg-[#252525] hover:bg-[#333] px-2 py-1 rounded-md border border-gray-700/50"
-                    aria-label="Share message"
+                    aria-label={t('message.shareLabel')}
                 >
                     <ShareIcon className="h-4 w-4" />
-                    <span>Share</span>
+                    <span>{t('message.share')}</span>
                 </button>
                 <button
                     onClick={handleCopy}
                     className="flex items-center gap-1.5 text-xs font-medium text-gray-400 hover:text-white transition-colors duration-200 bg-[#252525] hover:bg-[#333] px-2 py-1 rounded-md border border-gray-700/50"
-                    aria-label="Copy message text"
+                    aria-label={t('message.copyLabel')}
                 >
                     {isCopied ? (
-                        <><CheckIcon className="h-4 w-4 text-green-500" /><span>Copied!</span></>
+                        <><CheckIcon className="h-4 w-4 text-green-500" /><span>{t('message.copied')}</span></>
                     ) : (
-                        <><CopyIcon className="h-4 w-4" /><span>Copy</span></>
+                        <><CopyIcon className="h-4 w-4" /><span>{t('message.copy')}</span></>
                     )}
                 </button>
                 {onSummarize && text.length > 500 && (
                      <button
                         onClick={() => onSummarize(text)}
                         className="flex items-center gap-1.5 text-xs font-medium text-gray-400 hover:text-white transition-colors duration-200 bg-[#252525] hover:bg-[#333] px-2 py-1 rounded-md border border-gray-700/50"
-                        aria-label="Summarize text"
+                        aria-label={t('message.summarizeLabel')}
                     >
                         <SummarizeIcon className="h-4 w-4" />
-                        <span>Summarize</span>
+                        <span>{t('message.summarize')}</span>
+                    </button>
+                )}
+                {onRegenerate && !message.images?.length && !videoState && (
+                     <button
+                        onClick={() => onRegenerate(message.id)}
+                        disabled={isGenerating}
+                        className="flex items-center gap-1.5 text-xs font-medium text-gray-400 hover:text-white transition-colors duration-200 bg-[#252525] hover:bg-[#333] disabled:opacity-50 px-2 py-1 rounded-md border border-gray-700/50"
+                        aria-label={t('message.regenerateLabel')}
+                    >
+                        <RetryIcon className="h-4 w-4" />
+                        <span>{t('message.regenerate')}</span>
                     </button>
                 )}
+                {onTranslate && (
+                    <button
+                        onClick={() => setIsTranslateMenuOpen(prev => !prev)}
+                        className="flex items-center gap-1.5 text-xs font-medium text-gray-400 hover:text-white transition-colors duration-200 bg-[#252525] hover:bg-[#333] px-2 py-1 rounded-md border border-gray-700/50"
+                        aria-label={t('message.translateLabel')}
+                        aria-expanded={isTranslateMenuOpen}
+                    >
+                        <TranslateIcon className="h-4 w-4" />
+                        <span>{t('message.translate')}</span>
+                    </button>
+                )}
+                {version && onSwitchVersion && <VersionSwitcher version={version} disabled={isGenerating} onSwitch={delta => onSwitchVersion(message.id, delta)} />}
+            </div>
+        )}
+
+        {isTranslateMenuOpen && (
+            <div className="flex flex-wrap items-center gap-1.5 mt-2 max-w-xl" role="menu" aria-label={t('message.translateTo')}>
+                <span className="text-xs text-gray-500 mr-1">{t('message.translateTo')}</span>
+                {LANGUAGES.filter(l => isUser || l.code !== language?.code).map(l => (
+                    <button
+                        key={l.code}
+                        lang={l.code}
+                        onClick={() => handleTranslateTo(l.code)}
+                        className="text-xs font-medium text-gray-400 hover:text-white transition-colors duration-200 bg-[#252525] hover:bg-[#333] px-2 py-1 rounded-md border border-gray-700/50"
+                        role="menuitem"
+                    >
+                        {l.nativeName}
+                    </button>
+                ))}
             </div>
         )}
         
@@ -251,12 +572,12 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isTextToS
                 {message.images.map((src, index) => (
                     <div key={index} className="relative group">
                         <a href={src} target="_blank" rel="noopener noreferrer">
-                            <img src={src} alt={`Gokarna image ${index + 1}`} className="rounded-xl object-cover aspect-square hover:opacity-80 transition-opacity" />
+                            <img src={src} alt={t('message.image', { number: index + 1 })} className="rounded-xl object-cover aspect-square hover:opacity-80 transition-opacity" />
                         </a>
                         <button 
                             onClick={() => handleDownload(src, index)}
                             className="absolute bottom-2 right-2 p-2 bg-black/60 text-white rounded-full invisible group-hover:visible hover:bg-black/80 transition-all duration-300"
-                            aria-label="Download image"
+                            aria-label={t('message.downloadImage')}
                         >
                             <DownloadIcon className="h-5 w-5" />
                         </button>
@@ -265,14 +586,15 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isTextToS
             </div>
         )}
         
-        {!isLoading && message.sources && message.sources.length > 0 && (
+        {!isLoading && ((message.sources && message.sources.length > 0) || (message.citations && message.citations.length > 0)) && (
             <div className="mt-3 max-w-xl text-xs text-gray-500">
-                <h4 className="font-semibold mb-1 text-gray-400">Sources:</h4>
+                <h4 className="font-semibold mb-1 text-gray-400">{t('message.sources')}</h4>
                 <ul className="list-disc list-inside space-y-1">
-                    {message.sources.map((source, index) => (
+                    {message.citations?.map(citation => <KnowledgeCitationItem key={citation.id} citation={citation} />)}
+                    {message.sources?.map((source, index) => (
                         <li key={index} className="truncate">
                            <a href={source.uri} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-400">
-                                {source.title || new URL(source.uri).hostname}
+                                {source.isPlace && '📍 '}{source.title || new URL(source.uri).hostname}
                            </a>
                         </li>
                     ))}
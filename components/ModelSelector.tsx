@@ -0,0 +1,79 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { getModelsWith, resolveChatModel, type ModelInfo } from '../services/models';
+import { isMessageKey, useTranslation } from '../services/i18n';
+import { ChevronDownIcon, CheckIcon } from './Icons';
+
+interface ModelSelectorProps {
+  modelId?: string;
+  onSelectModel: (modelId: string) => void;
+  disabled?: boolean;
+}
+
+// Only chat-capable models are offered here; image and video requests always use their own models.
+const CHAT_MODELS = getModelsWith('text');
+
+export const ModelSelector: React.FC<ModelSelectorProps> = ({ modelId, onSelectModel, disabled }) => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeModel = resolveChatModel(modelId);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+        if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+            setIsOpen(false);
+        }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  // Models without a translated description keep the registry's English one.
+  const describe = (model: ModelInfo) => {
+    const key = `model.${model.id}`;
+    return isMessageKey(key) ? t(key) : model.description;
+  };
+
+  const handleSelect = (id: string) => {
+    setIsOpen(false);
+    if (id !== activeModel.id) onSelectModel(id);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/10 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        aria-label={t('header.selectModel')}
+      >
+        {activeModel.label}
+        <ChevronDownIcon className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div
+          className="absolute top-full mt-2 left-1/2 -translate-x-1/2 w-72 bg-[#2a2a2a] text-white rounded-xl shadow-lg animate-fade-in-up overflow-hidden border border-gray-700/50 z-20"
+          role="listbox"
+        >
+          {CHAT_MODELS.map(model => (
+            <button
+              key={model.id}
+              onClick={() => handleSelect(model.id)}
+              className="flex items-start w-full px-4 py-3 text-left hover:bg-[#333] transition-colors"
+              role="option"
+              aria-selected={model.id === activeModel.id}
+            >
+              <div className="flex-1">
+                <p className="font-semibold text-sm">{model.label}</p>
+                <p className="text-xs text-gray-400 mt-0.5">{describe(model)}</p>
+              </div>
+              {model.id === activeModel.id && <CheckIcon className="w-5 h-5 text-blue-400 ml-2 flex-shrink-0" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useTranslation } from '../services/i18n';
+import { LockIcon } from './Icons';
+
+interface UnlockScreenProps {
+  // Resolves to false when the passphrase is wrong.
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onErase: () => Promise<void>;
+}
+
+export const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlock, onErase }) => {
+  const { t } = useTranslation();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isConfirmingErase, setIsConfirmingErase] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase || isBusy) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (!(await onUnlock(passphrase))) {
+        setError(t('unlock.wrong'));
+        setPassphrase('');
+        inputRef.current?.focus();
+      }
+    } catch (e) {
+      console.error('Failed to unlock history', e);
+      setError(t('unlock.failed'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleErase = async () => {
+    setIsBusy(true);
+    try {
+      await onErase();
+    } catch (e) {
+      console.error('Failed to erase history', e);
+      setError(t('unlock.eraseFailed'));
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-[#131314] text-gray-200 h-screen w-full font-sans flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-[#1E1F20] rounded-xl shadow-2xl p-6 max-w-sm w-full border border-gray-700/50">
+        <div className="flex items-center gap-3">
+          <LockIcon className="w-6 h-6 text-blue-400" />
+          <h1 className="text-lg font-bold text-white">{t('unlock.title')}</h1>
+        </div>
+        <p className="text-gray-400 mt-2 text-sm">{t('unlock.body')}</p>
+        <input
+          ref={inputRef}
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          disabled={isBusy}
+          autoComplete="current-password"
+          aria-label={t('lock.passphrase')}
+          placeholder={t('lock.passphrase')}
+          className="w-full mt-4 px-3 py-2 rounded-lg bg-[#2a2a2a] text-gray-200 placeholder-gray-500 outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {error && <p className="text-red-400 text-sm mt-2" role="alert">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || isBusy}
+          className="w-full mt-4 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-50 disabled:cursor-wait"
+        >
+          {isBusy ? t('unlock.unlocking') : t('unlock.unlock')}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsConfirmingErase(true)}
+          disabled={isBusy}
+          className="w-full mt-2 px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          {t('unlock.forgot')}
+        </button>
+      </form>
+
+      {isConfirmingErase && (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in">
+          <div className="bg-[#1E1F20] rounded-xl shadow-2xl p-6 m-4 max-w-sm w-full border border-gray-700/50">
+            <h3 className="text-lg font-bold text-white">{t('unlock.eraseTitle')}</h3>
+            <p className="text-gray-400 mt-2 text-sm">{t('unlock.eraseBody')}</p>
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={() => setIsConfirmingErase(false)}
+                disabled={isBusy}
+                className="px-4 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleErase}
+                disabled={isBusy}
+                className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                {t('unlock.erase')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
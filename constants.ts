@@ -1,18 +1,36 @@
 
 import type { Language } from './types';
 
-export const LANGUAGES: Language[] = [
+export const LANGUAGES = [
   { code: 'en-US', name: 'English', nativeName: 'English' },
   { code: 'hi-IN', name: 'Hindi', nativeName: 'हिन्दी' },
   { code: 'kn-IN', name: 'Kannada', nativeName: 'ಕನ್ನಡ' },
   { code: 'ta-IN', name: 'Tamil', nativeName: 'தமிழ்' },
   { code: 'te-IN', name: 'Telugu', nativeName: 'తెలుగు' },
   { code: 'ml-IN', name: 'Malayalam', nativeName: 'മലയാളം' },
-];
+  { code: 'kok-IN', name: 'Konkani', nativeName: 'कोंकणी' },
+  { code: 'mr-IN', name: 'Marathi', nativeName: 'मराठी' },
+] as const satisfies readonly Language[];
+// Tables keyed by this type (such as the language packs in services/languagePacks.ts) must cover every language.
+export type LanguageCode = (typeof LANGUAGES)[number]['code'];
 
 export const ART_STYLES = ['Photorealistic', 'Cartoon', 'Oil Painting', 'Watercolor', 'Cyberpunk', 'Fantasy Art'] as const;
 export type ArtStyle = (typeof ART_STYLES)[number];
 
+// Topics a chat can be tagged with, for grouping and filtering the history.
+export const SESSION_TAGS = ['beaches', 'hotels', 'food', 'temples', 'itinerary', 'transport', 'weather', 'shopping'] as const;
+export type SessionTag = (typeof SESSION_TAGS)[number];
+
+// How long deleted chats stay in the trash before they are purged for good.
+export const TRASH_RETENTION_DAYS = [7, 30, 90] as const;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Idle time after which a passphrase-locked history locks itself again.
+export const AUTO_LOCK_MINUTES = [1, 5, 15, 60] as const;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+// Short passphrases are too easy to guess offline against the stored data.
+export const MIN_PASSPHRASE_LENGTH = 8;
+
 export const SYSTEM_PROMPT = `You are “Gokarna Guide” — an intelligent, multilingual AI travel companion for Gokarna, Karnataka.
 Your personality is warm, calm, respectful, and professional. You can now generate original images and edit photos. To generate an image, ask "create an image of..." or something similar.
 
@@ -30,8 +48,9 @@ Your personality is warm, calm, respectful, and professional. You can now genera
 - Safety First: Always remind users about weather, swimming conditions, and respectful behavior near temples.
 - Sustainability: Encourage sustainable travel.
 - Web & Maps Search: Use your search tools for live, up-to-date information and accurate location details.
-- Hotel Information: When asked for hotel info, perform thorough research to find highly-rated hotels. For each, display its name, amenities, price range, and a user review summary. In the review summary, extract the most common positive (👍) and negative (👎) points. Crucially, you MUST find and include a direct booking URL for the hotel, formatted exactly like this: \`**Booking:** [Book Here](URL_HERE)\`. After listing hotels, ask if the user needs help with booking or directions.
-- Language: Always respond in the language of the user's last prompt.
+- Guide Notes: A message may start with "Guide notes", entries from the app's own checked dataset. Treat them as reliable for names, locations, timings, fees and phone numbers, and prefer them when search results disagree. Do not mention the notes themselves; the app cites them.
+- Hotel Information: When asked for hotel info, perform thorough research to find highly-rated hotels. The app shows them as cards, so do not describe them in your text. Instead, after a short introduction, list them in one code block tagged \`hotels\` holding a JSON array, one object per hotel: \`{"name": string, "area": string, "pricePerNight": {"min": number, "max": number}, "rating": number, "amenities": string[], "pros": string[], "cons": string[], "bookingUrl": string}\`. Prices are in rupees and the rating is out of 5. "pros" and "cons" are the most common positive and negative points from user reviews. Crucially, you MUST find a direct booking URL for each hotel. After the block, ask if the user needs help with booking or directions.
+- Language: Always respond in the chat's language, even when the user writes in another language or mixes languages; they can translate any message in the app.
 - Endings: End each message gracefully, inviting the user to continue the conversation.
 - Identity: Do not start your response with "Gokarna Guide:".
 
@@ -48,135 +67,3 @@ Om Beach is one of Gokarna's most famous and picturesque beaches, known for its
 **Getting There:**
 It's located about 6 km from Gokarna town. You can easily reach it by auto-rickshaw (around ₹150) or by taking a scenic 20-minute walk from the neighboring Kudle Beach.
 `;
-
-export const WELCOME_MESSAGES: { [key: string]: string } = {
-  'en-US': "I’m your friendly local companion. Would you like to explore beaches, find nearby cafés, or plan a short trip itinerary?",
-  'hi-IN': "मैं आपका मित्रवत स्थानीय साथी हूं। क्या आप समुद्र तटों का पता लगाना चाहेंगे, आस-पास के कैफे ढूंढना चाहेंगे, या एक छोटी यात्रा की योजना बनाना चाहेंगे?",
-  'kn-IN': "ನಾನು ನಿಮ್ಮ ಸ್ನೇಹಪರ ಸ್ಥಳೀಯ ಸಂಗಾತಿ. ನೀವು ಕಡಲತೀರಗಳನ್ನು ಅನ್ವೇಷಿಸಲು, ಹತ್ತಿರದ ಕೆಫೆಗಳನ್ನು ಹುಡುಕಲು ಅಥವಾ ಸಣ್ಣ ಪ್ರವಾಸದ ಯೋಜನೆಯನ್ನು ಮಾಡಲು ಬಯಸುವಿರಾ?",
-  'ta-IN': "நான் உங்கள் நட்பு உள்ளூர் துணை. நீங்கள் கடற்கரைகளை ஆராய விரும்புகிறீர்களா, அருகிலுள்ள கஃபேக்களைக் கண்டுபிடிக்க விரும்புகிறீர்களா, அல்லது ஒரு சிறிய பயணத் திட்டத்தைத் திட்டமிட விரும்புகிறீர்களா?",
-  'te-IN': "నేను మీ స్నేహపూర్వక స్థానిక సహచరుడిని. మీరు బీచ్‌లను అన్వేషించాలనుకుంటున్నారా, సమీపంలోని కేఫ్‌లను కనుగొనాలా లేదా ఒక చిన్న పర్యటన ప్రణాళికను రూపొందించాలనుకుంటున్నారా?",
-  'ml-IN': "ഞാൻ നിങ്ങളുടെ സൗഹൃദപരമായ പ്രാദേശിക കൂട്ടാളിയാണ്. നിങ്ങൾ ബീച്ചുകൾ പര്യവേക്ഷണം ചെയ്യാനോ, അടുത്തുള്ള കഫേകൾ കണ്ടെത്താനോ, അല്ലെങ്കിൽ ഒരു ചെറിയ യാത്രാവിവരണം ആസൂത്രണം ചെയ്യാനോ ആഗ്രഹിക്കുന്നുണ്ടോ?",
-};
-
-export const SUSTAINABILITY_TIPS: { [key: string]: string } = {
-    'en-US': "Just a gentle reminder to help keep Gokarna beautiful: consider using a reusable water bottle and supporting our wonderful local shops. Every little bit helps! 💚",
-    'hi-IN': "गोकर्ण को सुंदर बनाए रखने में मदद करने के लिए एक छोटी सी याद دہانی: पुन: प्रयोज्य पानी की बोतल का उपयोग करने और हमारी अद्भुत स्थानीय दुकानों का समर्थन करने पर विचार करें। हर छोटी मदद मायने रखती है! 💚",
-    'kn-IN': "ಗೋಕರ್ಣವನ್ನು ಸುಂದರವಾಗಿಡಲು ಸಹಾಯ ಮಾಡಲು ಒಂದು ಸಣ್ಣ ಜ್ಞಾಪನೆ: ದಯವಿಟ್ಟು ಮರುಬಳಕೆ ಮಾಡಬಹುದಾದ ನೀರಿನ ಬಾಟಲಿಯನ್ನು ಬಳಸಿ ಮತ್ತು ನಮ್ಮ ಅದ್ಭುತ ಸ್ಥಳೀಯ ಅಂಗಡಿಗಳನ್ನು ಬೆಂಬಲಿಸಿ. ಪ್ರತಿಯೊಂದು ಸಣ್ಣ ಸಹಾಯವೂ ಮುಖ್ಯ! 💚",
-    'ta-IN': "கோகர்ணத்தை அழகாக வைத்திருக்க ஒரு சிறிய நினைவூட்டல்: மீண்டும் பயன்படுத்தக்கூடிய தண்ணீர் பாட்டிலைப் பயன்படுத்தவும் மற்றும் நமது அற்புதமான உள்ளூர் கடைகளுக்கு ஆதரவளிக்கவும். ஒவ்வொரு சிறிய உதவியும் முக்கியம்! 💚",
-    'te-IN': "గోకర్ణను అందంగా ఉంచడంలో సహాయపడటానికి ఒక చిన్న రిమైండర్: పునర్వినియోగ నీటి సీసాను ఉపయోగించడం మరియు మా అద్భుతమైన స్థానిక దుకాణాలకు మద్దతు ఇవ్వడం పరిగణించండి. ప్రతి చిన్న సహాయం కూడా ముఖ్యమైనదే! 💚",
-    'ml-IN': "ഗോകർണയെ മനോഹരമായി സംരക്ഷിക്കാൻ ഒരു ചെറിയ ഓർമ്മപ്പെടുത്തൽ: പുനരുപയോഗിക്കാവുന്ന വെള്ളക്കുപ്പി ഉപയോഗിക്കുന്നതും ഞങ്ങളുടെ അത്ഭുതകരമായ പ്രാദേശിക കടകളെ പിന്തുണയ്ക്കുന്നതും പരിഗണിക്കുക. ഓരോ ചെറിയ സഹായവും പ്രധാനമാണ്! 💚",
-};
-
-export const TRIP_PLAN_PROMPT: { [key: string]: string } = {
-    'en-US': "Of course! To create the perfect itinerary for you, I just need a couple of details. How many days will you be staying, and what are your main interests (e.g., beaches, temples, adventure, relaxation)?",
-    'hi-IN': "बिल्कुल! आपके लिए सही यात्रा कार्यक्रम बनाने के लिए, मुझे बस कुछ विवरण चाहिए। आप कितने दिन रुकेंगे, और आपकी मुख्य रुचियां क्या हैं (जैसे, समुद्र तट, मंदिर, रोमांच, विश्राम)?",
-    'kn-IN': "ಖಂಡಿತ! ನಿಮಗಾಗಿ ಪರಿಪೂರ್ಣ ಪ್ರವಾಸವನ್ನು ರಚಿಸಲು, ನನಗೆ ಕೆಲವು ವಿವರಗಳು ಬೇಕು. ನೀವು ಎಷ್ಟು ದಿನ ಇರುತ್ತೀರಿ, ಮತ್ತು ನಿಮ್ಮ ಮುಖ್ಯ ಆಸಕ್ತಿಗಳು ಯಾವುವು (ಉದಾಹರಣೆಗೆ, ಕಡಲತೀರಗಳು, ದೇವಾಲಯಗಳು, ಸಾಹಸ, ವಿಶ್ರಾಂತಿ)?",
-    'ta-IN': "நிச்சயமாக! உங்களுக்காக சரியான பயணத்திட்டத்தை உருவாக்க, எனக்கு சில விவரங்கள் தேவை. நீங்கள் எத்தனை நாட்கள் தங்குவீர்கள், உங்கள் முக்கிய ஆர்வங்கள் என்ன (எ.கா., கடற்கரைகள், கோவில்கள், சாகசம், தளர்வு)?",
-    'te-IN': "తప్పకుండా! మీ కోసం సరైన ప్రయాణ ప్రణాళికను రూపొందించడానికి, నాకు కొన్ని వివరాలు కావాలి. మీరు ఎన్ని రోజులు ఉంటారు మరియు మీ ప్రధాన ఆసక్తులు ఏమిటి (ఉదా., బీచ్‌లు, దేవాలయాలు, సాహసం, విశ్రాంతి)?",
-    'ml-IN': "തീർച്ചയായും! നിങ്ങൾക്കായി சரியான യാത്രാവിവരണം തയ്യാറാക്കാൻ, എനിക്ക് കുറച്ച് വിവരങ്ങൾ ആവശ്യമുണ്ട്. നിങ്ങൾ എത്ര ദിവസം താമസിക്കും, നിങ്ങളുടെ പ്രധാന താൽപ്പര്യങ്ങൾ എന്തൊക്കെയാണ് (ഉദാഹരണത്തിന്, ബീച്ചുകൾ, ക്ഷേത്രങ്ങൾ, സാഹസികത, വിശ്രമം)?",
-};
-
-export const TODAYS_BRIEFING_PROMPT: { [key: string]: string } = {
-    'en-US': `Generate a "Today's Briefing for Gokarna". You MUST use your search tool to find the current, real-time information for today.
-
-Follow this structure exactly, using the specified emojis and markdown formatting:
-
-☀️ **Today's Briefing for Gokarna**
-
-A concise, welcoming sentence about the day.
-
-**Weather & Tides:**
-- **Forecast:** Use search to find today's weather (e.g., Sunny, Partly Cloudy) and temperature in Celsius.
-- **Tides:** Use search to find today's high and low tide times. This is critical for beach safety and activities.
-
-💎 **Gem of the Day:**
-Provide a unique, insightful tip for today. This could be a specific, less-common local dish to try at a shack, a suggestion to visit a lesser-known viewpoint for the sunset, or a cultural etiquette tip. Be creative and specific.
-
-💡 **Safety Tip:**
-A short, relevant safety tip for the day (e.g., "Stay hydrated," "Be mindful of currents at Half Moon Beach," "Bargain respectfully at the market").`,
-    'hi-IN': `"गोकर्ण के लिए आज की ब्रीफिंग" जेनरेट करें। आज के लिए वर्तमान, वास्तविक समय की जानकारी खोजने के लिए आपको अपने खोज टूल का उपयोग करना होगा।
-
-निर्दिष्ट इमोजी और मार्कडाउन स्वरूपण का उपयोग करके इस संरचना का ठीक से पालन करें:
-
-☀️ **गोकर्ण के लिए आज की ब्रीफिंग**
-
-दिन के बारे में एक संक्षिप्त, स्वागत योग्य वाक्य।
-
-**मौसम और ज्वार:**
-- **पूर्वानुमान:** आज का मौसम (जैसे, धूप, आंशिक रूप से बादल) और सेल्सियस में तापमान खोजने के लिए खोज का उपयोग करें।
-- **ज्वार:** आज के उच्च और निम्न ज्वार के समय को खोजने के लिए खोज का उपयोग करें। यह समुद्र तट सुरक्षा और गतिविधियों के लिए महत्वपूर्ण है।
-
-💎 **आज का रत्न:**
-आज के लिए एक अनूठी, व्यावहारिक टिप प्रदान करें। यह एक विशिष्ट, कम-आम स्थानीय व्यंजन हो सकता है जिसे किसी झोंपड़ी में आज़माया जा सकता है, सूर्यास्त के लिए कम-ज्ञात दृष्टिकोण पर जाने का सुझाव, या एक सांस्कृतिक शिष्टाचार टिप। रचनात्मक और विशिष्ट बनें।
-
-💡 **सुरक्षा टिप:**
-दिन के लिए एक छोटी, प्रासंगिक सुरक्षा टिप (जैसे, "हाइड्रेटेड रहें," "हाफ मून बीच पर धाराओं से सावधान रहें," "बाजार में सम्मानपूर्वक मोलभाव करें")।`,
-    'kn-IN': `"ಗೋಕರ್ಣಕ್ಕಾಗಿ ಇಂದಿನ ಬ್ರೀಫಿಂಗ್" ಅನ್ನು ರಚಿಸಿ. ಇಂದಿನ ಪ್ರಸ್ತುತ, ನೈಜ-ಸಮಯದ ಮಾಹಿತಿಯನ್ನು ಹುಡುಕಲು ನೀವು ನಿಮ್ಮ ಹುಡುಕಾಟ ಸಾಧನವನ್ನು ಬಳಸಬೇಕು.
-
-ನಿರ್ದಿಷ್ಟಪಡಿಸಿದ ಎಮೋಜಿಗಳು ಮತ್ತು ಮಾರ್ಕ್‌ಡೌನ್ ಫಾರ್ಮ್ಯಾಟಿಂಗ್ ಬಳಸಿ, ಈ ರಚನೆಯನ್ನು ನಿಖರವಾಗಿ ಅನುಸರಿಸಿ:
-
-☀️ **ಗೋಕರ್ಣಕ್ಕಾಗಿ ಇಂದಿನ ಬ್ರೀಫಿಂಗ್**
-
-ದಿನದ ಬಗ್ಗೆ ಸಂಕ್ಷಿಪ್ತ, ಸ್ವಾಗತಾರ್ಹ ವಾಕ್ಯ.
-
-**ಹವಾಮಾನ ಮತ್ತು ಅಲೆಗಳು:**
-- **ಮುನ್ಸೂಚನೆ:** ಇಂದಿನ ಹವಾಮಾನ (ಉದಾಹರಣೆಗೆ, ಬಿಸಿಲು, ಭಾಗಶಃ ಮೋಡ) ಮತ್ತು ಸೆಲ್ಸಿಯಸ್‌ನಲ್ಲಿನ ತಾಪಮಾನವನ್ನು ಹುಡುಕಲು ಹುಡುಕಾಟವನ್ನು ಬಳಸಿ.
-- **ಅಲೆಗಳು:** ಇಂದಿನ ಹೆಚ್ಚಿನ ಮತ್ತು ಕಡಿಮೆ ಅಲೆಗಳ ಸಮಯವನ್ನು ಹುಡುಕಲು ಹುಡುಕಾಟವನ್ನು ಬಳಸಿ. ಇದು ಕಡಲತೀರದ ಸುರಕ್ಷತೆ ಮತ್ತು ಚಟುವಟಿಕೆಗಳಿಗೆ ನಿರ್ಣಾಯಕವಾಗಿದೆ.
-
-💎 **ದಿನದ ರತ್ನ:**
-ಇಂದಿಗೆ ಒಂದು ಅನನ್ಯ, ಒಳನೋಟವುಳ್ಳ ಸಲಹೆಯನ್ನು ನೀಡಿ. ಇದು ಶ್ಯಾಕ್‌ನಲ್ಲಿ ಪ್ರಯತ್ನಿಸಲು ಒಂದು ನಿರ್ದಿಷ್ಟ, ಕಡಿಮೆ-ಸಾಮಾನ್ಯ ಸ್ಥಳೀಯ ಭಕ್ಷ್ಯವಾಗಿರಬಹುದು, ಸೂರ್ಯಾಸ್ತಕ್ಕಾಗಿ ಕಡಿಮೆ-ತಿಳಿದಿರುವ ದೃಷ್ಟಿಕೋನವನ್ನು ಭೇಟಿ ಮಾಡಲು ಸಲಹೆ, ಅಥವಾ ಸಾಂಸ್ಕೃತಿಕ ಶಿಷ್ಟಾಚಾರದ ಸಲಹೆ. ಸೃಜನಶೀಲ ಮತ್ತು ನಿರ್ದಿಷ್ಟವಾಗಿರಿ.
-
-💡 **ಸುರಕ್ಷತಾ ಸಲಹೆ:**
-ದಿನಕ್ಕೆ ಒಂದು ಸಣ್ಣ, ಸಂಬಂಧಿತ ಸುರಕ್ಷತಾ ಸಲಹೆ (ಉದಾಹರಣೆಗೆ, "ಹೈಡ್ರೀಕರಿಸಿ," "ಹಾಫ್ ಮೂನ್ ಬೀಚ್‌ನಲ್ಲಿನ ಪ್ರವಾಹಗಳ ಬಗ್ಗೆ ಗಮನವಿರಲಿ," "ಮಾರುಕಟ್ಟೆಯಲ್ಲಿ ಗೌರವಯುತವಾಗಿ ಚೌಕಾಶಿ ಮಾಡಿ").`,
-    'ta-IN': `"கோகர்ணாவுக்கான இன்றைய சுருக்கம்" உருவாக்கவும். இன்றைய தற்போதைய, நிகழ்நேர தகவலைக் கண்டுபிடிக்க உங்கள் தேடல் கருவியைப் பயன்படுத்த வேண்டும்.
-
-குறிப்பிட்ட ஈமோஜிகள் மற்றும் மார்க்டவுன் வடிவமைப்பைப் பயன்படுத்தி, இந்த கட்டமைப்பை சரியாகப் பின்பற்றவும்:
-
-☀️ **கோகர்ணாவுக்கான இன்றைய சுருக்கம்**
-
-நாளைப் பற்றிய ஒரு சுருக்கமான, வரவேற்கத்தக்க வாக்கியம்.
-
-**வானிலை மற்றும் அலைகள்:**
-- **முன்னறிவிப்பு:** இன்றைய வானிலை (எ.கா., வெயில், பகுதி மேகமூட்டம்) மற்றும் செல்சியஸ் வெப்பநிலையைக் கண்டுபிடிக்க தேடலைப் பயன்படுத்தவும்.
-- **அலைகள்:** இன்றைய உயர் மற்றும் குறைந்த அலை நேரங்களைக் கண்டுபிடிக்க தேடலைப் பயன்படுத்தவும். இது கடற்கரை பாதுகாப்பு மற்றும் நடவடிக்கைகளுக்கு முக்கியமானது.
-
-💎 **இன்றைய ரத்தினம்:**
-இன்றைய ஒரு தனித்துவமான, நுண்ணறிவுமிக்க உதவிக்குறிப்பை வழங்கவும். இது ஒரு குறிப்பிட்ட, குறைந்த பொதுவான உள்ளூர் உணவை ஒரு குடிசையில் முயற்சிப்பதாக இருக்கலாம், சூரிய அஸ்தமனத்திற்காக குறைவாக அறியப்பட்ட ஒரு பார்வையைப் பார்வையிட ஒரு பரிந்துரை, அல்லது ஒரு கலாச்சார savoir-faire உதவிக்குறிப்பு. படைப்பாற்றல் மற்றும் குறிப்பிட்டதாக இருங்கள்.
-
-💡 **பாதுகாப்பு உதவிக்குறிப்பு:**
-நாளுக்கு ஒரு குறுகிய, பொருத்தமான பாதுகாப்பு உதவிக்குறிப்பு (எ.கா., "நீரேற்றமாக இருங்கள்," "ஹாஃப் மூன் கடற்கரையில் நீரோட்டங்களைக் கவனியுங்கள்," "சந்தையில் மரியாதையுடன் பேரம் பேசுங்கள்").`,
-    'te-IN': `"గోకర్ణ కోసం నేటి బ్రీఫింగ్"ను రూపొందించండి. నేటి ప్రస్తుత, వాస్తవ-సమయ సమాచారాన్ని కనుగొనడానికి మీరు మీ శోధన సాధనాన్ని తప్పనిసరిగా ఉపయోగించాలి.
-
-పేర్కొన్న ఎమోజీలు మరియు మార్క్‌డౌన్ ఫార్మాటింగ్‌ను ఉపయోగించి, ఈ నిర్మాణాన్ని ఖచ్చితంగా అనుసరించండి:
-
-☀️ **గోకర్ణ కోసం నేటి బ్రీఫింగ్**
-
-రోజు గురించి సంక్షిప్త, స్వాగత వాక్యం.
-
-**వాతావరణం & అలలు:**
-- **పూర్వాంచన:** నేటి వాతావరణం (ఉదా., ఎండ, పాక్షికంగా మేఘావృతం) మరియు సెల్సియస్‌లో ఉష్ణోగ్రతను కనుగొనడానికి శోధనను ఉపయోగించండి.
-- **అలలు:** నేటి అధిక మరియు తక్కువ అలల సమయాలను కనుగొనడానికి శోధనను ఉపయోగించండి. ఇది బీచ్ భద్రత మరియు కార్యకలాపాలకు కీలకం.
-
-💎 **రోజు రత్నం:**
-నేటి కోసం ఒక ప్రత్యేకమైన, లోతైన చిట్కాను అందించండి. ఇది ఒక గుడిసెలో ప్రయత్నించడానికి ఒక నిర్దిష్ట, తక్కువ-సాధారణ స్థానిక వంటకం కావచ్చు, సూర్యాస్తమయం కోసం తక్కువ-తెలిసిన వీక్షణ కేంద్రాన్ని సందర్శించడానికి ఒక సూచన, లేదా ఒక సాంస్కృతిక savoir-faire చిట్కా. సృజనాత్మకంగా మరియు నిర్దిష్టంగా ఉండండి.
-
-💡 **భద్రతా చిట్కా:**
-రోజు కోసం ఒక చిన్న, సంబంధిత భద్రతా చిట్కా (ఉదా., "హైడ్రేట్‌గా ఉండండి," "హాఫ్ మూన్ బీచ్ వద్ద ప్రవాహాల పట్ల கவனంగా ఉండండి," "మార్కెట్లో గౌరవంగా బేరం చేయండి").`,
-    'ml-IN': `"ഗോകർണ്ണത്തിനായുള്ള ഇന്നത്തെ ബ്രീഫിംഗ്" സൃഷ്ടിക്കുക. ഇന്നത്തെ നിലവിലുള്ളതും തത്സമയവുമായ വിവരങ്ങൾ കണ്ടെത്താൻ നിങ്ങളുടെ തിരയൽ ഉപകരണം ഉപയോഗിക്കണം.
-
-നിർദ്ദിഷ്ട ഇമോജികളും മാർക്ക്ഡൗൺ ഫോർമാറ്റിംഗും ഉപയോഗിച്ച് ഈ ഘടന കൃത്യമായി പിന്തുടരുക:
-
-☀️ **ഗോകർണ്ണത്തിനായുള്ള ഇന്നത്തെ ബ്രീഫിംഗ്**
-
-ദിവസത്തെക്കുറിച്ചുള്ള ഒരു സംക്ഷിപ്തവും സ്വാഗതാർഹവുമായ വാചകം.
-
-**കാലാവസ്ഥയും വേലിയേറ്റങ്ങളും:**
-- **പ്രവചനം:** ഇന്നത്തെ കാലാവസ്ഥയും (ഉദാഹരണത്തിന്, വെയിൽ, ഭാഗികമായി മേഘാവൃതം) സെൽഷ്യസിലെ താപനിലയും കണ്ടെത്താൻ തിരയൽ ഉപയോഗിക്കുക.
-- **വേലിയേറ്റങ്ങൾ:** ഇന്നത്തെ ഉയർന്നതും താഴ്ന്നതുമായ വേലിയേറ്റ സമയം കണ്ടെത്താൻ തിരയൽ ഉപയോഗിക്കുക. കടൽത്തീര സുരക്ഷയ്ക്കും പ്രവർത്തനങ്ങൾക്കും ഇത് നിർണ്ണായകമാണ്.
-
-💎 **ദിവസത്തെ രത്നം:**
-ഇന്നത്തേക്കുള്ള ഒരു സവിശേഷവും ഉൾക്കാഴ്ചയുള്ളതുമായ നുറുങ്ങ് നൽകുക. ഇത് ഒരു ഷാക്കിൽ പരീക്ഷിക്കാൻ കഴിയുന്ന ഒരു പ്രത്യേകവും സാധാരണയല്ലാത്തതുമായ പ്രാദേശിക വിഭവമാകാം, സൂര്യാസ്തമയത്തിനായി അത്രയൊന്നും അറിയപ്പെടാത്ത ഒരു വ്യൂപോയിന്റ് സന്ദർശിക്കാനുള്ള നിർദ്ദേശം, അല്ലെങ്കിൽ ഒരു സാംസ്കാരിക savoir-faire നുറുങ്ങ്. സൃഷ്ടിപരവും നിർദ്ദിഷ്ടവുമായിരിക്കുക.
-
-💡 **സുരക്ഷാ നുറുങ്ങ്:**
-ദിവസത്തേക്കുള്ള ഒരു ചെറിയ, പ്രസക്തമായ സുരക്ഷാ നുറുങ്ങ് (ഉദാഹരണത്തിന്, "ജലാംശം നിലനിർത്തുക," "അർദ്ധചന്ദ്ര ബീച്ചിലെ течения ശ്രദ്ധിക്കുക," "ചന്തയിൽ ബഹുമാനത്തോടെ വിലപേശുക").`,
-};
@@ -1,7 +1,8 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import App from './App';
+import { HistoryLockGate } from './components/HistoryLockGate';
+import { getChatProvider } from './services/providers';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +12,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <HistoryLockGate provider={getChatProvider()} />
   </React.StrictMode>
 );
@@ -0,0 +1,306 @@
+import type { LanguagePack } from '../services/languagePacks';
+
+// The English UI strings. Every other pack's messages are typed against these, so a key missing
+// from any language fails the type-check (and with it `npm run build`). `{name}` marks a parameter.
+export const MESSAGES = {
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.minutes': '{count} min',
+  'common.you': 'You',
+  'common.guide': 'Guide',
+
+  'language.label': 'Language',
+  'language.switched': 'Certainly! I will now respond in {language}.',
+
+  'header.toggleHistory': 'Toggle history panel',
+  'header.history': 'History',
+  'header.shortlist': 'Hotel Shortlist',
+  'header.shortlistLabel': 'Hotel shortlist, {count} saved',
+  'header.mute': 'Mute bot voice',
+  'header.unmute': 'Unmute bot voice',
+  'header.selectModel': 'Select model',
+  'header.bilingual': 'Bilingual replies',
+  'header.bilingualOff': 'Off',
+  'welcome.title': 'Your Gokarna Companion',
+  'chat.scrollToBottom': 'Scroll to bottom',
+
+  'model.gemini-2.5-pro': 'Most capable. Best for itinerary planning and detailed research.',
+  'model.gemini-2.5-flash': 'Fast and inexpensive. Great for quick questions.',
+
+  'input.placeholder': 'Ask about Gokarna, or type / for commands',
+  'input.addFiles': 'Add files',
+  'input.uploadImage': 'Upload Image',
+  'input.uploadText': 'Upload text file',
+  'input.generateVideo': 'Generate Video',
+  'input.commands': 'Commands',
+  'input.attachOnePhoto': '(attach one photo)',
+  'input.removeFile': 'Remove {name}',
+  'input.stop': 'Stop',
+  'input.stopListening': 'Stop listening',
+  'input.stopGenerating': 'Stop generating',
+  'input.send': 'Send message',
+  'input.voiceMode': 'Use voice mode',
+  'input.videoPrompt': 'Enter a prompt for the video:',
+  'input.videoLandscape': 'Generate in landscape (16:9)? Cancel for portrait (9:16).',
+  'input.needOneImage': 'Please upload exactly one image to use /{command}.',
+  'input.needOneImageForVideo': 'Please upload exactly one image to generate a video.',
+  'input.voiceUnsupported': 'Voice input is not supported by your browser.',
+  'input.readFileFailed': 'Could not read file. Please try again.',
+  'mic.denied': 'Microphone access denied. Please allow mic permission in your browser or device settings.',
+  'mic.noSpeech': 'No speech was detected. Please tap the mic again to speak.',
+  'mic.busy': 'Microphone error. Another app might be using it. Please check and try again.',
+  'mic.failed': 'A microphone error occurred. Please check your connection and try again.',
+
+  'command.image': 'Generate an image. Styles: {styles}',
+  'command.edit': 'Edit the attached photo',
+  'command.video': 'Animate the attached photo into a video',
+  'command.summarize': 'Summarize this chat, an attached text file or the given text',
+  'command.lang': 'Reply in another language: {languages}',
+  'command.briefing': "Today's weather, tides and events in Gokarna",
+  'command.plan': 'Plan a trip, e.g. /plan 3 days',
+  'command.new': 'Start a new chat',
+  'command.needImagePrompt': 'Tell me what to draw, e.g. /image Om Beach at sunset --style Watercolor',
+  'command.unknownStyle': 'Unknown style. Pick one of: {styles}',
+  'command.needEditPrompt': 'Tell me how to change the photo, e.g. /edit make the sky pink',
+  'command.unknownLanguage': 'Unknown language. Pick one of: {languages}',
+  'command.unknown': 'Unknown command "/{name}". Type / to see the list.',
+
+  'message.generatingVideo': 'Generating video... this may take a few minutes.',
+  'message.cancelVideo': 'Cancel video generation',
+  'message.previousVersion': 'Previous version',
+  'message.nextVersion': 'Next version',
+  'message.edit': 'Edit message',
+  'message.saveAndSend': 'Save & Send',
+  'message.stopped': 'Response stopped.',
+  'message.retry': 'Retry',
+  'message.retryLabel': 'Retry request',
+  'message.share': 'Share',
+  'message.shareLabel': 'Share message',
+  'message.shareTitle': 'Gokarna Guide Tip',
+  'message.copy': 'Copy',
+  'message.copyLabel': 'Copy message text',
+  'message.copied': 'Copied!',
+  'message.summarize': 'Summarize',
+  'message.summarizeLabel': 'Summarize text',
+  'message.regenerate': 'Regenerate',
+  'message.regenerateLabel': 'Regenerate response',
+  'message.translate': 'Translate',
+  'message.translateLabel': 'Translate message',
+  'message.translateTo': 'Translate to…',
+  'message.translating': 'Translating…',
+  'message.translatedTo': 'Translated to {language}',
+  'message.hideTranslation': 'Hide translation',
+  'message.image': 'Gokarna image {number}',
+  'message.downloadImage': 'Download image',
+  'message.sources': 'Sources:',
+  'message.showMap': 'Show on map ({count})',
+  'message.hideMap': 'Hide map',
+  'message.dataset': 'Gokarna Guide dataset',
+  'message.datasetVersion': 'Gokarna Guide dataset v{version}, checked {date}',
+  'message.openInMaps': 'Open in Maps',
+  'message.editPrompt': '(Edit Prompt: {prompt})',
+  'message.videoPrompt': '(Video Prompt: {prompt})',
+  'briefing.highLow': 'High {high}° · Low {low}°',
+  'briefing.sunset': 'Sunset',
+  'briefing.tides': 'Tides',
+  'briefing.highTide': 'High tide at {time}',
+  'briefing.lowTide': 'Low tide at {time}',
+  'briefing.noTides': 'No tide times were found for today.',
+  'briefing.now': 'Now',
+  'briefing.gem': 'Gem of the Day',
+  'briefing.safetyTip': 'Safety Tip',
+
+  'itinerary.perPerson': 'about {amount} per person',
+  'itinerary.day': 'Day {number}',
+  'itinerary.nothingPlanned': 'Nothing planned yet.',
+  'itinerary.free': 'Free',
+  'itinerary.moveEarlier': 'Move {place} earlier',
+  'itinerary.moveLater': 'Move {place} later',
+  'itinerary.remove': 'Remove {place}',
+  'itinerary.refinePlaceholder': 'Ask for a change, e.g. add a boat ride on day 2',
+  'itinerary.refineLabel': 'Ask for a change to the plan',
+  'itinerary.refine': 'Refine',
+
+  'hotels.rated': 'Rated {rating} out of 5',
+  'hotels.book': 'Book',
+  'hotels.detail': 'Detail',
+  'hotels.area': 'Area',
+  'hotels.perNight': 'Per night',
+  'hotels.rating': 'Rating',
+  'hotels.amenities': 'Amenities',
+  'hotels.pros': 'Pros',
+  'hotels.cons': 'Cons',
+  'hotels.booking': 'Booking',
+  'hotels.aNight': '{price} a night',
+  'hotels.addToShortlist': 'Add {name} to the shortlist',
+  'hotels.removeFromShortlist': 'Remove {name} from the shortlist',
+  'hotels.compare': 'Compare',
+  'hotels.compareSelected': 'Compare selected ({count})',
+  'hotels.hideComparison': 'Hide comparison',
+  'hotels.shortlistTitle': 'Hotel shortlist',
+  'hotels.shortlistEmpty': 'Nothing saved yet. Use the bookmark on a hotel card to add it here.',
+
+  'map.stop': 'Trip plan stop',
+  'map.place': 'From Google Maps',
+  'map.poi': 'From the guide',
+  'map.label': 'Map of {places}',
+  'map.askAbout': '{place}. Ask about it',
+  'map.yourLocation': 'Your location',
+  'map.youAreHere': 'You are here',
+  'map.walkingPath': 'Walking path',
+  'map.distance': 'You are about {distance} km away',
+  'map.schematic': 'Schematic map; not for navigation',
+  'map.notOnMap': 'Not on this map:',
+
+  'history.newChat': 'New Chat',
+  'history.startNewChat': 'Start new chat',
+  'history.library': 'Library',
+  'history.trash': 'Trash',
+  'history.trashCount': 'Trash ({count})',
+  'history.viewHistory': 'View chat history',
+  'history.viewLibrary': 'View image library',
+  'history.viewTrash': 'View deleted chats',
+  'history.search': 'Search all chats',
+  'history.filterByTopic': 'Filter chats by topic',
+  'history.allTopics': 'All',
+  'history.noMatches': 'No messages match "{query}".',
+  'history.pinned': 'Pinned',
+  'history.chats': 'Chats',
+  'history.noChats': 'No past conversations.',
+  'history.pin': 'Pin',
+  'history.unpin': 'Unpin',
+  'history.pinLabel': 'Pin chat: {title}',
+  'history.unpinLabel': 'Unpin chat: {title}',
+  'history.move': 'Move to folder',
+  'history.moveLabel': 'Move chat to a folder: {title}',
+  'history.rename': 'Rename',
+  'history.renameLabel': 'Rename chat: {title}',
+  'history.export': 'Export',
+  'history.exportLabel': 'Export chat: {title}',
+  'history.delete': 'Delete',
+  'history.deleteLabel': 'Delete chat: {title}',
+  'history.folderName': 'Folder name',
+  'history.renameFolder': 'Rename folder: {name}',
+  'history.deleteFolder': 'Delete folder: {name} (its chats are kept)',
+  'history.emptyFolder': 'No chats in this folder.',
+  'history.generatedArt': 'Generated art',
+  'history.noImages': 'No images generated yet.',
+  'history.retention': 'Delete chats in the trash after',
+  'history.days': '{count} days',
+  'history.purgeDate': 'Deleted for good on {date}',
+  'history.restore': 'Restore',
+  'history.restoreLabel': 'Restore chat: {title}',
+  'history.deleteForever': 'Delete forever',
+  'history.deleteForeverLabel': 'Delete chat forever: {title}',
+  'history.trashEmpty': 'The trash is empty.',
+  'history.emptyTrash': 'Empty trash',
+  'history.import': 'Import',
+  'history.exportAll': 'Export all',
+  'history.clearAll': 'Clear all chats',
+  'history.lock': 'History lock',
+  'history.lockNow': 'Lock now',
+  'history.clearTitle': 'Clear all conversations?',
+  'history.clearBody': 'All chats move to the trash, where you can restore them for {days} days.',
+  'history.confirmDelete': 'Confirm Delete',
+  'history.emptyTrashTitle': 'Empty the trash?',
+  'history.emptyTrashBody': 'This cannot be undone. {count} chat(s) will be permanently deleted.',
+  'history.moveTitle': 'Move "{title}"',
+  'history.removeFromFolder': 'Remove from folder',
+  'history.newFolderPlaceholder': 'New folder, e.g. Dec 2026 trip',
+  'history.newFolderLabel': 'New folder name',
+  'history.createFolder': 'Create',
+  'history.exportOne': 'Export "{title}"',
+  'history.exportMany': 'Export {count} chats',
+  'history.exportHint': 'JSON can be imported again on any device. Markdown and HTML are for reading and sharing.',
+  'history.exportHtml': 'Web page (HTML)',
+
+  'tag.beaches': 'Beaches',
+  'tag.hotels': 'Hotels',
+  'tag.food': 'Food',
+  'tag.temples': 'Temples',
+  'tag.itinerary': 'Itinerary',
+  'tag.transport': 'Transport',
+  'tag.weather': 'Weather',
+  'tag.shopping': 'Shopping',
+
+  'lock.passphrase': 'Passphrase',
+  'lock.currentPassphrase': 'Current passphrase',
+  'lock.newPassphrase': 'New passphrase',
+  'lock.repeatPassphrase': 'Repeat passphrase',
+  'lock.tooShort': 'Use at least {count} characters.',
+  'lock.mismatch': 'The passphrases do not match.',
+  'lock.wrongCurrent': 'Your current passphrase is not right.',
+  'lock.reencryptFailed': 'Could not re-encrypt the chat history. Nothing was changed.',
+  'lock.isOn': 'Your chats, uploads and folders are encrypted on this device.',
+  'lock.intro': 'Encrypt your chats, uploads and folders on this device, and ask for a passphrase before showing them. Useful on shared or family devices.',
+  'lock.noRecovery': 'There is no way to recover a forgotten passphrase; the history can only be erased.',
+  'lock.encrypting': 'Encrypting…',
+  'lock.change': 'Change passphrase',
+  'lock.turnOn': 'Turn on lock',
+  'lock.idleFor': 'Lock after being idle for',
+  'lock.turnOff': 'Turn off lock and decrypt history',
+  'unlock.title': 'Chat history is locked',
+  'unlock.body': 'Enter your passphrase to open your Gokarna Guide chats.',
+  'unlock.unlock': 'Unlock',
+  'unlock.unlocking': 'Unlocking…',
+  'unlock.forgot': 'Forgot your passphrase?',
+  'unlock.wrong': 'That passphrase is not right.',
+  'unlock.failed': 'Could not open the chat history. Please try again.',
+  'unlock.eraseFailed': 'Could not erase the chat history. Please try again.',
+  'unlock.eraseTitle': 'Erase all chat history?',
+  'unlock.eraseBody': 'Without the passphrase your chats cannot be decrypted. Erasing deletes every chat, folder and attachment on this device and turns the lock off.',
+  'unlock.erase': 'Erase History',
+
+  'live.title': 'Live Conversation',
+  'live.back': 'Back to chat',
+  'live.bot': 'Bot',
+  'live.connecting': 'Connecting...',
+  'live.connected': 'Connected',
+  'live.error': 'Connection Error',
+  'live.closed': 'Connection Closed',
+  'live.idle': 'Idle',
+
+  'notice.unreadable': '⚠️ Some saved history could not be read ({sessions} chat(s), {messages} message(s)). It was set aside instead of being deleted; everything else was restored.',
+  'notice.locationFailed': '⚠️ Could not access your location. Nearby search will be less accurate.',
+  'notice.geolocationUnsupported': '⚠️ Geolocation is not supported by your browser.',
+  'notice.imported': '📥 Imported {count} chat(s).',
+  'notice.importSkipped': '{count} could not be read and were skipped.',
+  'notice.importFailed': '⚠️ Import failed: {error}',
+  'notice.modelSwitched': 'Switched to {model}.',
+  'notice.busyElsewhere': '⚠️ This chat is already replying in another tab. Wait for it to finish, or stop it there.',
+  'notice.summarizing': 'Summarizing...',
+  'notice.nothingToSummarize': 'There is nothing to summarize yet.',
+  'reply.image': 'Here is the image I generated for you:',
+  'reply.editedImage': "Here's the edited image:",
+  'reply.video': 'Here is the generated video:',
+  'reply.videoCancelled': 'Video generation was cancelled.',
+  'reply.artStyle': 'Sounds creative! Which art style would you like?',
+  'reply.summary': 'Summary',
+};
+
+export const EN_US: LanguagePack = {
+  voiceFallbacks: [],
+  welcome: "I’m your friendly local companion. Would you like to explore beaches, find nearby cafés, or plan a short trip itinerary?",
+  suggestions: [
+    { text: 'Explore Beaches', icon: 'beach' },
+    { text: 'Find Hotels', icon: 'hotel' },
+    { text: 'Local Food', icon: 'food' },
+    { text: 'Temple Visits', icon: 'temple' },
+  ],
+  briefingLabel: "Today's Briefing",
+  tripPlanLabel: 'Trip Plan',
+  tripPlanPrompt: "Of course! To create the perfect itinerary for you, I just need a couple of details. How many days will you be staying, and what are your main interests (e.g., beaches, temples, adventure, relaxation)?",
+  clarifyIntentPrompt: 'Just to be sure, what would you like me to do?',
+  intentLabels: { 'chat': 'Just answer', 'generate-image': 'Create an image', 'edit-image': 'Edit my photo', 'change-language': 'Switch language', 'trip-plan': 'Plan my trip', 'update-itinerary': 'Update my plan' },
+  placeQuestion: 'Tell me more about {place}',
+  sustainabilityTip: "Just a gentle reminder to help keep Gokarna beautiful: consider using a reusable water bottle and supporting our wonderful local shops. Every little bit helps! 💚",
+  errors: {
+    'safety': "I can't help with that request because it was flagged by the safety filters. Could you try rephrasing it or asking for something different?",
+    'quota': "I'm getting a lot of requests right now and hit a usage limit. Please wait a moment and try again.",
+    'network': "I couldn't reach the server. Please check your internet connection and try again.",
+    'invalid-input': "I couldn't work with that request. Please try a different prompt, image or file.",
+    'model-unavailable': "The AI model is temporarily unavailable. Please try again in a little while.",
+    'unknown': "Sorry, something went wrong on my side. Please try again.",
+  },
+  messages: MESSAGES,
+};
@@ -0,0 +1,305 @@
+import type { Catalog } from '../services/i18n';
+import type { LanguagePack } from '../services/languagePacks';
+
+const MESSAGES: Catalog = {
+  'common.cancel': 'रद्द करें',
+  'common.close': 'बंद करें',
+  'common.minutes': '{count} मिनट',
+  'common.you': 'आप',
+  'common.guide': 'गाइड',
+
+  'language.label': 'भाषा',
+  'language.switched': 'ज़रूर! अब मैं {language} में जवाब दूँगा।',
+
+  'header.toggleHistory': 'इतिहास पैनल दिखाएँ या छिपाएँ',
+  'header.history': 'इतिहास',
+  'header.shortlist': 'होटल शॉर्टलिस्ट',
+  'header.shortlistLabel': 'होटल शॉर्टलिस्ट, {count} सहेजे गए',
+  'header.mute': 'बॉट की आवाज़ बंद करें',
+  'header.unmute': 'बॉट की आवाज़ चालू करें',
+  'header.selectModel': 'मॉडल चुनें',
+  'header.bilingual': 'दो भाषाओं में जवाब',
+  'header.bilingualOff': 'बंद',
+  'welcome.title': 'आपका गोकर्ण साथी',
+  'chat.scrollToBottom': 'नीचे जाएँ',
+
+  'model.gemini-2.5-pro': 'सबसे सक्षम। यात्रा योजना और विस्तृत खोज के लिए सबसे अच्छा।',
+  'model.gemini-2.5-flash': 'तेज़ और किफ़ायती। छोटे सवालों के लिए बढ़िया।',
+
+  'input.placeholder': 'गोकर्ण के बारे में पूछें, या कमांड के लिए / लिखें',
+  'input.addFiles': 'फ़ाइलें जोड़ें',
+  'input.uploadImage': 'चित्र अपलोड करें',
+  'input.uploadText': 'टेक्स्ट फ़ाइल अपलोड करें',
+  'input.generateVideo': 'वीडियो बनाएँ',
+  'input.commands': 'कमांड',
+  'input.attachOnePhoto': '(एक फ़ोटो जोड़ें)',
+  'input.removeFile': '{name} हटाएँ',
+  'input.stop': 'रोकें',
+  'input.stopListening': 'सुनना बंद करें',
+  'input.stopGenerating': 'जवाब रोकें',
+  'input.send': 'संदेश भेजें',
+  'input.voiceMode': 'वॉइस मोड इस्तेमाल करें',
+  'input.videoPrompt': 'वीडियो के लिए विवरण लिखें:',
+  'input.videoLandscape': 'लैंडस्केप (16:9) में बनाएँ? पोर्ट्रेट (9:16) के लिए रद्द करें।',
+  'input.needOneImage': '/{command} के लिए ठीक एक चित्र अपलोड करें।',
+  'input.needOneImageForVideo': 'वीडियो बनाने के लिए ठीक एक चित्र अपलोड करें।',
+  'input.voiceUnsupported': 'आपका ब्राउज़र वॉइस इनपुट का समर्थन नहीं करता।',
+  'input.readFileFailed': 'फ़ाइल पढ़ी नहीं जा सकी। कृपया फिर से कोशिश करें।',
+  'mic.denied': 'माइक्रोफ़ोन की अनुमति नहीं मिली। कृपया ब्राउज़र या डिवाइस की सेटिंग में माइक की अनुमति दें।',
+  'mic.noSpeech': 'कोई आवाज़ नहीं सुनाई दी। बोलने के लिए माइक फिर से दबाएँ।',
+  'mic.busy': 'माइक्रोफ़ोन में त्रुटि। शायद कोई और ऐप इसे इस्तेमाल कर रहा है। जाँचकर फिर से कोशिश करें।',
+  'mic.failed': 'माइक्रोफ़ोन में त्रुटि हुई। अपना कनेक्शन जाँचकर फिर से कोशिश करें।',
+
+  'command.image': 'चित्र बनाएँ। शैलियाँ: {styles}',
+  'command.edit': 'जोड़ी गई फ़ोटो बदलें',
+  'command.video': 'जोड़ी गई फ़ोटो से वीडियो बनाएँ',
+  'command.summarize': 'इस चैट, जोड़ी गई टेक्स्ट फ़ाइल या दिए गए टेक्स्ट का सारांश',
+  'command.lang': 'दूसरी भाषा में जवाब: {languages}',
+  'command.briefing': 'गोकर्ण में आज का मौसम, ज्वार और कार्यक्रम',
+  'command.plan': 'यात्रा की योजना बनाएँ, जैसे /plan 3 days',
+  'command.new': 'नई चैट शुरू करें',
+  'command.needImagePrompt': 'बताइए क्या बनाना है, जैसे /image Om Beach at sunset --style Watercolor',
+  'command.unknownStyle': 'अज्ञात शैली। इनमें से चुनें: {styles}',
+  'command.needEditPrompt': 'बताइए फ़ोटो में क्या बदलना है, जैसे /edit make the sky pink',
+  'command.unknownLanguage': 'अज्ञात भाषा। इनमें से चुनें: {languages}',
+  'command.unknown': 'अज्ञात कमांड "/{name}"। सूची देखने के लिए / लिखें।',
+
+  'message.generatingVideo': 'वीडियो बन रहा है... इसमें कुछ मिनट लग सकते हैं।',
+  'message.cancelVideo': 'वीडियो बनाना रद्द करें',
+  'message.previousVersion': 'पिछला संस्करण',
+  'message.nextVersion': 'अगला संस्करण',
+  'message.edit': 'संदेश संपादित करें',
+  'message.saveAndSend': 'सहेजें और भेजें',
+  'message.stopped': 'जवाब रोक दिया गया।',
+  'message.retry': 'फिर से कोशिश करें',
+  'message.retryLabel': 'अनुरोध फिर से भेजें',
+  'message.share': 'साझा करें',
+  'message.shareLabel': 'संदेश साझा करें',
+  'message.shareTitle': 'गोकर्ण गाइड सुझाव',
+  'message.copy': 'कॉपी करें',
+  'message.copyLabel': 'संदेश का टेक्स्ट कॉपी करें',
+  'message.copied': 'कॉपी हो गया!',
+  'message.summarize': 'सारांश',
+  'message.summarizeLabel': 'टेक्स्ट का सारांश बनाएँ',
+  'message.regenerate': 'फिर से बनाएँ',
+  'message.regenerateLabel': 'जवाब फिर से बनाएँ',
+  'message.translate': 'अनुवाद',
+  'message.translateLabel': 'संदेश का अनुवाद करें',
+  'message.translateTo': 'इसमें अनुवाद करें…',
+  'message.translating': 'अनुवाद हो रहा है…',
+  'message.translatedTo': '{language} में अनुवाद',
+  'message.hideTranslation': 'अनुवाद छिपाएँ',
+  'message.image': 'गोकर्ण चित्र {number}',
+  'message.downloadImage': 'चित्र डाउनलोड करें',
+  'message.sources': 'स्रोत:',
+  'message.showMap': 'नक्शे पर देखें ({count})',
+  'message.hideMap': 'नक्शा छिपाएँ',
+  'message.dataset': 'गोकर्ण गाइड डेटासेट',
+  'message.datasetVersion': 'गोकर्ण गाइड डेटासेट v{version}, {date} को जाँचा गया',
+  'message.openInMaps': 'मैप्स में खोलें',
+  'message.editPrompt': '(संपादन निर्देश: {prompt})',
+  'message.videoPrompt': '(वीडियो निर्देश: {prompt})',
+  'briefing.highLow': 'अधिकतम {high}° · न्यूनतम {low}°',
+  'briefing.sunset': 'सूर्यास्त',
+  'briefing.tides': 'ज्वार-भाटा',
+  'briefing.highTide': '{time} बजे ज्वार',
+  'briefing.lowTide': '{time} बजे भाटा',
+  'briefing.noTides': 'आज के ज्वार-भाटे का समय नहीं मिला।',
+  'briefing.now': 'अभी',
+  'briefing.gem': 'आज का खास सुझाव',
+  'briefing.safetyTip': 'सुरक्षा सुझाव',
+
+  'itinerary.perPerson': 'प्रति व्यक्ति लगभग {amount}',
+  'itinerary.day': 'दिन {number}',
+  'itinerary.nothingPlanned': 'अभी कुछ तय नहीं है।',
+  'itinerary.free': 'मुफ़्त',
+  'itinerary.moveEarlier': '{place} पहले करें',
+  'itinerary.moveLater': '{place} बाद में करें',
+  'itinerary.remove': '{place} हटाएँ',
+  'itinerary.refinePlaceholder': 'बदलाव माँगें, जैसे दिन 2 पर नाव की सैर जोड़ें',
+  'itinerary.refineLabel': 'योजना में बदलाव माँगें',
+  'itinerary.refine': 'बदलें',
+
+  'hotels.rated': '5 में से {rating} रेटिंग',
+  'hotels.book': 'बुक करें',
+  'hotels.detail': 'विवरण',
+  'hotels.area': 'इलाका',
+  'hotels.perNight': 'प्रति रात',
+  'hotels.rating': 'रेटिंग',
+  'hotels.amenities': 'सुविधाएँ',
+  'hotels.pros': 'खूबियाँ',
+  'hotels.cons': 'कमियाँ',
+  'hotels.booking': 'बुकिंग',
+  'hotels.aNight': '{price} प्रति रात',
+  'hotels.addToShortlist': '{name} को शॉर्टलिस्ट में जोड़ें',
+  'hotels.removeFromShortlist': '{name} को शॉर्टलिस्ट से हटाएँ',
+  'hotels.compare': 'तुलना करें',
+  'hotels.compareSelected': 'चुने गए होटलों की तुलना ({count})',
+  'hotels.hideComparison': 'तुलना छिपाएँ',
+  'hotels.shortlistTitle': 'होटल शॉर्टलिस्ट',
+  'hotels.shortlistEmpty': 'अभी कुछ सहेजा नहीं गया। होटल कार्ड पर बुकमार्क दबाकर यहाँ जोड़ें।',
+
+  'map.stop': 'यात्रा योजना का पड़ाव',
+  'map.place': 'Google Maps से',
+  'map.poi': 'गाइड से',
+  'map.label': '{places} का नक्शा',
+  'map.askAbout': '{place}. इसके बारे में पूछें',
+  'map.yourLocation': 'आपकी जगह',
+  'map.youAreHere': 'आप यहाँ हैं',
+  'map.walkingPath': 'पैदल रास्ता',
+  'map.distance': 'आप लगभग {distance} किमी दूर हैं',
+  'map.schematic': 'रेखाचित्र नक्शा; रास्ता खोजने के लिए नहीं',
+  'map.notOnMap': 'इस नक्शे पर नहीं:',
+
+  'history.newChat': 'नई चैट',
+  'history.startNewChat': 'नई चैट शुरू करें',
+  'history.library': 'लाइब्रेरी',
+  'history.trash': 'ट्रैश',
+  'history.trashCount': 'ट्रैश ({count})',
+  'history.viewHistory': 'चैट इतिहास देखें',
+  'history.viewLibrary': 'चित्र लाइब्रेरी देखें',
+  'history.viewTrash': 'हटाई गई चैट देखें',
+  'history.search': 'सभी चैट में खोजें',
+  'history.filterByTopic': 'विषय के अनुसार चैट छाँटें',
+  'history.allTopics': 'सभी',
+  'history.noMatches': '"{query}" से कोई संदेश नहीं मिला।',
+  'history.pinned': 'पिन की गई',
+  'history.chats': 'चैट',
+  'history.noChats': 'कोई पुरानी बातचीत नहीं।',
+  'history.pin': 'पिन करें',
+  'history.unpin': 'पिन हटाएँ',
+  'history.pinLabel': 'चैट पिन करें: {title}',
+  'history.unpinLabel': 'चैट से पिन हटाएँ: {title}',
+  'history.move': 'फ़ोल्डर में ले जाएँ',
+  'history.moveLabel': 'चैट को फ़ोल्डर में ले जाएँ: {title}',
+  'history.rename': 'नाम बदलें',
+  'history.renameLabel': 'चैट का नाम बदलें: {title}',
+  'history.export': 'एक्सपोर्ट',
+  'history.exportLabel': 'चैट एक्सपोर्ट करें: {title}',
+  'history.delete': 'हटाएँ',
+  'history.deleteLabel': 'चैट हटाएँ: {title}',
+  'history.folderName': 'फ़ोल्डर का नाम',
+  'history.renameFolder': 'फ़ोल्डर का नाम बदलें: {name}',
+  'history.deleteFolder': 'फ़ोल्डर हटाएँ: {name} (इसकी चैट बनी रहेंगी)',
+  'history.emptyFolder': 'इस फ़ोल्डर में कोई चैट नहीं।',
+  'history.generatedArt': 'बनाया गया चित्र',
+  'history.noImages': 'अभी तक कोई चित्र नहीं बना।',
+  'history.retention': 'ट्रैश की चैट इतने समय बाद हटाएँ',
+  'history.days': '{count} दिन',
+  'history.purgeDate': '{date} को हमेशा के लिए हट जाएगी',
+  'history.restore': 'वापस लाएँ',
+  'history.restoreLabel': 'चैट वापस लाएँ: {title}',
+  'history.deleteForever': 'हमेशा के लिए हटाएँ',
+  'history.deleteForeverLabel': 'चैट हमेशा के लिए हटाएँ: {title}',
+  'history.trashEmpty': 'ट्रैश खाली है।',
+  'history.emptyTrash': 'ट्रैश खाली करें',
+  'history.import': 'इंपोर्ट',
+  'history.exportAll': 'सब एक्सपोर्ट करें',
+  'history.clearAll': 'सभी चैट मिटाएँ',
+  'history.lock': 'इतिहास लॉक',
+  'history.lockNow': 'अभी लॉक करें',
+  'history.clearTitle': 'सभी बातचीत मिटाएँ?',
+  'history.clearBody': 'सभी चैट ट्रैश में चली जाएँगी, जहाँ से आप उन्हें {days} दिनों तक वापस ला सकते हैं।',
+  'history.confirmDelete': 'हटाने की पुष्टि करें',
+  'history.emptyTrashTitle': 'ट्रैश खाली करें?',
+  'history.emptyTrashBody': 'इसे पलटा नहीं जा सकता। {count} चैट हमेशा के लिए हट जाएँगी।',
+  'history.moveTitle': '"{title}" ले जाएँ',
+  'history.removeFromFolder': 'फ़ोल्डर से निकालें',
+  'history.newFolderPlaceholder': 'नया फ़ोल्डर, जैसे दिसंबर 2026 यात्रा',
+  'history.newFolderLabel': 'नए फ़ोल्डर का नाम',
+  'history.createFolder': 'बनाएँ',
+  'history.exportOne': '"{title}" एक्सपोर्ट करें',
+  'history.exportMany': '{count} चैट एक्सपोर्ट करें',
+  'history.exportHint': 'JSON को किसी भी डिवाइस पर फिर से इंपोर्ट किया जा सकता है। Markdown और HTML पढ़ने और साझा करने के लिए हैं।',
+  'history.exportHtml': 'वेब पेज (HTML)',
+
+  'tag.beaches': 'समुद्र तट',
+  'tag.hotels': 'होटल',
+  'tag.food': 'भोजन',
+  'tag.temples': 'मंदिर',
+  'tag.itinerary': 'यात्रा योजना',
+  'tag.transport': 'परिवहन',
+  'tag.weather': 'मौसम',
+  'tag.shopping': 'खरीदारी',
+
+  'lock.passphrase': 'पासफ़्रेज़',
+  'lock.currentPassphrase': 'मौजूदा पासफ़्रेज़',
+  'lock.newPassphrase': 'नया पासफ़्रेज़',
+  'lock.repeatPassphrase': 'पासफ़्रेज़ दोबारा लिखें',
+  'lock.tooShort': 'कम से कम {count} अक्षर इस्तेमाल करें।',
+  'lock.mismatch': 'दोनों पासफ़्रेज़ मेल नहीं खाते।',
+  'lock.wrongCurrent': 'आपका मौजूदा पासफ़्रेज़ सही नहीं है।',
+  'lock.reencryptFailed': 'चैट इतिहास दोबारा एन्क्रिप्ट नहीं हो सका। कुछ नहीं बदला गया।',
+  'lock.isOn': 'आपकी चैट, अपलोड और फ़ोल्डर इस डिवाइस पर एन्क्रिप्ट हैं।',
+  'lock.intro': 'इस डिवाइस पर अपनी चैट, अपलोड और फ़ोल्डर एन्क्रिप्ट करें, और उन्हें दिखाने से पहले पासफ़्रेज़ माँगें। साझा या परिवार के डिवाइस पर उपयोगी।',
+  'lock.noRecovery': 'भूला हुआ पासफ़्रेज़ वापस पाने का कोई तरीका नहीं है; इतिहास केवल मिटाया जा सकता है।',
+  'lock.encrypting': 'एन्क्रिप्ट हो रहा है…',
+  'lock.change': 'पासफ़्रेज़ बदलें',
+  'lock.turnOn': 'लॉक चालू करें',
+  'lock.idleFor': 'इतनी देर निष्क्रिय रहने पर लॉक करें',
+  'lock.turnOff': 'लॉक बंद करें और इतिहास डिक्रिप्ट करें',
+  'unlock.title': 'चैट इतिहास लॉक है',
+  'unlock.body': 'अपनी गोकर्ण गाइड चैट खोलने के लिए पासफ़्रेज़ लिखें।',
+  'unlock.unlock': 'अनलॉक करें',
+  'unlock.unlocking': 'अनलॉक हो रहा है…',
+  'unlock.forgot': 'पासफ़्रेज़ भूल गए?',
+  'unlock.wrong': 'यह पासफ़्रेज़ सही नहीं है।',
+  'unlock.failed': 'चैट इतिहास नहीं खुल सका। कृपया फिर से कोशिश करें।',
+  'unlock.eraseFailed': 'चैट इतिहास मिटाया नहीं जा सका। कृपया फिर से कोशिश करें।',
+  'unlock.eraseTitle': 'पूरा चैट इतिहास मिटाएँ?',
+  'unlock.eraseBody': 'पासफ़्रेज़ के बिना आपकी चैट डिक्रिप्ट नहीं हो सकतीं। मिटाने से इस डिवाइस की हर चैट, फ़ोल्डर और अटैचमेंट हट जाएगी और लॉक बंद हो जाएगा।',
+  'unlock.erase': 'इतिहास मिटाएँ',
+
+  'live.title': 'लाइव बातचीत',
+  'live.back': 'चैट पर वापस',
+  'live.bot': 'बॉट',
+  'live.connecting': 'जुड़ रहा है...',
+  'live.connected': 'जुड़ गया',
+  'live.error': 'कनेक्शन में त्रुटि',
+  'live.closed': 'कनेक्शन बंद',
+  'live.idle': 'निष्क्रिय',
+
+  'notice.unreadable': '⚠️ कुछ सहेजा हुआ इतिहास पढ़ा नहीं जा सका ({sessions} चैट, {messages} संदेश)। उसे हटाने के बजाय अलग रख दिया गया है; बाकी सब वापस आ गया।',
+  'notice.locationFailed': '⚠️ आपकी जगह का पता नहीं चल सका। आसपास की खोज कम सटीक होगी।',
+  'notice.geolocationUnsupported': '⚠️ आपका ब्राउज़र जियोलोकेशन का समर्थन नहीं करता।',
+  'notice.imported': '📥 {count} चैट इंपोर्ट की गईं।',
+  'notice.importSkipped': '{count} पढ़ी नहीं जा सकीं और छोड़ दी गईं।',
+  'notice.importFailed': '⚠️ इंपोर्ट विफल: {error}',
+  'notice.modelSwitched': '{model} पर बदल दिया गया।',
+  'notice.busyElsewhere': '⚠️ यह चैट दूसरे टैब में पहले से जवाब दे रही है। उसके पूरा होने का इंतज़ार करें, या उसे वहीं रोकें।',
+  'notice.summarizing': 'सारांश बन रहा है...',
+  'notice.nothingToSummarize': 'अभी सारांश के लिए कुछ नहीं है।',
+  'reply.image': 'यह रहा आपके लिए बनाया गया चित्र:',
+  'reply.editedImage': 'यह रहा बदला हुआ चित्र:',
+  'reply.video': 'यह रहा बनाया गया वीडियो:',
+  'reply.videoCancelled': 'वीडियो बनाना रद्द कर दिया गया।',
+  'reply.artStyle': 'बढ़िया विचार! आप कौन-सी कला शैली चाहेंगे?',
+  'reply.summary': 'सारांश',
+};
+
+export const HI_IN: LanguagePack = {
+  voiceFallbacks: [],
+  welcome: "मैं आपका मित्रवत स्थानीय साथी हूं। क्या आप समुद्र तटों का पता लगाना चाहेंगे, आस-पास के कैफे ढूंढना चाहेंगे, या एक छोटी यात्रा की योजना बनाना चाहेंगे?",
+  suggestions: [
+    { text: 'समुद्र तट', icon: 'beach' },
+    { text: 'होटल खोजें', icon: 'hotel' },
+    { text: 'स्थानीय भोजन', icon: 'food' },
+    { text: 'मंदिर दर्शन', icon: 'temple' },
+  ],
+  briefingLabel: 'आज की ब्रीफिंग',
+  tripPlanLabel: 'यात्रा योजना',
+  tripPlanPrompt: "बिल्कुल! आपके लिए सही यात्रा कार्यक्रम बनाने के लिए, मुझे बस कुछ विवरण चाहिए। आप कितने दिन रुकेंगे, और आपकी मुख्य रुचियां क्या हैं (जैसे, समुद्र तट, मंदिर, रोमांच, विश्राम)?",
+  clarifyIntentPrompt: 'बस पक्का करने के लिए, आप मुझसे क्या करवाना चाहेंगे?',
+  intentLabels: { 'chat': 'बस जवाब दें', 'generate-image': 'तस्वीर बनाएं', 'edit-image': 'मेरी फोटो एडिट करें', 'change-language': 'भाषा बदलें', 'trip-plan': 'मेरी यात्रा की योजना बनाएं', 'update-itinerary': 'मेरी योजना बदलें' },
+  placeQuestion: '{place} के बारे में और बताइए',
+  sustainabilityTip: "गोकर्ण को सुंदर बनाए रखने में मदद करने के लिए एक छोटी सी याद दिहानी: पुन: प्रयोज्य पानी की बोतल का उपयोग करने और हमारी अद्भुत स्थानीय दुकानों का समर्थन करने पर विचार करें। हर छोटी मदद मायने रखती है! 💚",
+  errors: {
+    'safety': "मैं इस अनुरोध में मदद नहीं कर सकता क्योंकि इसे सुरक्षा फ़िल्टर ने रोक दिया है। क्या आप इसे दूसरे शब्दों में पूछ सकते हैं या कुछ और माँग सकते हैं?",
+    'quota': "अभी बहुत सारे अनुरोध आ रहे हैं और उपयोग सीमा पूरी हो गई है। कृपया थोड़ी देर रुककर फिर से प्रयास करें।",
+    'network': "मैं सर्वर तक नहीं पहुँच सका। कृपया अपना इंटरनेट कनेक्शन जाँचें और फिर से प्रयास करें।",
+    'invalid-input': "मैं इस अनुरोध पर काम नहीं कर सका। कृपया कोई दूसरा संकेत, चित्र या फ़ाइल आज़माएँ।",
+    'model-unavailable': "AI मॉडल अभी अस्थायी रूप से उपलब्ध नहीं है। कृपया थोड़ी देर बाद फिर से प्रयास करें।",
+    'unknown': "क्षमा करें, मेरी ओर से कुछ गड़बड़ हो गई। कृपया फिर से प्रयास करें।",
+  },
+  messages: MESSAGES,
+};
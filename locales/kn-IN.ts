@@ -0,0 +1,305 @@
+import type { Catalog } from '../services/i18n';
+import type { LanguagePack } from '../services/languagePacks';
+
+const MESSAGES: Catalog = {
+  'common.cancel': 'ರದ್ದುಮಾಡಿ',
+  'common.close': 'ಮುಚ್ಚಿ',
+  'common.minutes': '{count} ನಿಮಿಷ',
+  'common.you': 'ನೀವು',
+  'common.guide': 'ಮಾರ್ಗದರ್ಶಿ',
+
+  'language.label': 'ಭಾಷೆ',
+  'language.switched': 'ಖಂಡಿತ! ಇನ್ನು ಮುಂದೆ ನಾನು {language}ದಲ್ಲಿ ಉತ್ತರಿಸುತ್ತೇನೆ.',
+
+  'header.toggleHistory': 'ಇತಿಹಾಸ ಫಲಕ ತೋರಿಸಿ ಅಥವಾ ಮರೆಮಾಡಿ',
+  'header.history': 'ಇತಿಹಾಸ',
+  'header.shortlist': 'ಹೋಟೆಲ್ ಕಿರುಪಟ್ಟಿ',
+  'header.shortlistLabel': 'ಹೋಟೆಲ್ ಕಿರುಪಟ್ಟಿ, {count} ಉಳಿಸಲಾಗಿದೆ',
+  'header.mute': 'ಬಾಟ್ ಧ್ವನಿ ನಿಲ್ಲಿಸಿ',
+  'header.unmute': 'ಬಾಟ್ ಧ್ವನಿ ಆನ್ ಮಾಡಿ',
+  'header.selectModel': 'ಮಾದರಿ ಆಯ್ಕೆಮಾಡಿ',
+  'header.bilingual': 'ಎರಡು ಭಾಷೆಗಳಲ್ಲಿ ಉತ್ತರ',
+  'header.bilingualOff': 'ಆಫ್',
+  'welcome.title': 'ನಿಮ್ಮ ಗೋಕರ್ಣ ಸಂಗಾತಿ',
+  'chat.scrollToBottom': 'ಕೆಳಗೆ ಹೋಗಿ',
+
+  'model.gemini-2.5-pro': 'ಅತ್ಯಂತ ಸಮರ್ಥ. ಪ್ರವಾಸ ಯೋಜನೆ ಮತ್ತು ವಿವರವಾದ ಹುಡುಕಾಟಕ್ಕೆ ಉತ್ತಮ.',
+  'model.gemini-2.5-flash': 'ವೇಗ ಮತ್ತು ಕಡಿಮೆ ವೆಚ್ಚ. ಸಣ್ಣ ಪ್ರಶ್ನೆಗಳಿಗೆ ಉತ್ತಮ.',
+
+  'input.placeholder': 'ಗೋಕರ್ಣದ ಬಗ್ಗೆ ಕೇಳಿ, ಅಥವಾ ಆಜ್ಞೆಗಳಿಗೆ / ಟೈಪ್ ಮಾಡಿ',
+  'input.addFiles': 'ಫೈಲ್‌ಗಳನ್ನು ಸೇರಿಸಿ',
+  'input.uploadImage': 'ಚಿತ್ರ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ',
+  'input.uploadText': 'ಪಠ್ಯ ಫೈಲ್ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ',
+  'input.generateVideo': 'ವೀಡಿಯೊ ರಚಿಸಿ',
+  'input.commands': 'ಆಜ್ಞೆಗಳು',
+  'input.attachOnePhoto': '(ಒಂದು ಫೋಟೋ ಲಗತ್ತಿಸಿ)',
+  'input.removeFile': '{name} ತೆಗೆದುಹಾಕಿ',
+  'input.stop': 'ನಿಲ್ಲಿಸಿ',
+  'input.stopListening': 'ಕೇಳುವುದನ್ನು ನಿಲ್ಲಿಸಿ',
+  'input.stopGenerating': 'ಉತ್ತರ ನಿಲ್ಲಿಸಿ',
+  'input.send': 'ಸಂದೇಶ ಕಳುಹಿಸಿ',
+  'input.voiceMode': 'ಧ್ವನಿ ಮೋಡ್ ಬಳಸಿ',
+  'input.videoPrompt': 'ವೀಡಿಯೊಗೆ ವಿವರಣೆ ನೀಡಿ:',
+  'input.videoLandscape': 'ಲ್ಯಾಂಡ್‌ಸ್ಕೇಪ್ (16:9) ನಲ್ಲಿ ರಚಿಸಬೇಕೇ? ಪೋರ್ಟ್ರೇಟ್ (9:16) ಗಾಗಿ ರದ್ದುಮಾಡಿ.',
+  'input.needOneImage': '/{command} ಬಳಸಲು ನಿಖರವಾಗಿ ಒಂದು ಚಿತ್ರ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+  'input.needOneImageForVideo': 'ವೀಡಿಯೊ ರಚಿಸಲು ನಿಖರವಾಗಿ ಒಂದು ಚಿತ್ರ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+  'input.voiceUnsupported': 'ನಿಮ್ಮ ಬ್ರೌಸರ್ ಧ್ವನಿ ಇನ್‌ಪುಟ್ ಬೆಂಬಲಿಸುವುದಿಲ್ಲ.',
+  'input.readFileFailed': 'ಫೈಲ್ ಓದಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'mic.denied': 'ಮೈಕ್ರೊಫೋನ್ ಅನುಮತಿ ನಿರಾಕರಿಸಲಾಗಿದೆ. ಬ್ರೌಸರ್ ಅಥವಾ ಸಾಧನದ ಸೆಟ್ಟಿಂಗ್‌ಗಳಲ್ಲಿ ಮೈಕ್ ಅನುಮತಿ ನೀಡಿ.',
+  'mic.noSpeech': 'ಯಾವುದೇ ಮಾತು ಕೇಳಿಸಲಿಲ್ಲ. ಮಾತನಾಡಲು ಮೈಕ್ ಅನ್ನು ಮತ್ತೆ ಒತ್ತಿ.',
+  'mic.busy': 'ಮೈಕ್ರೊಫೋನ್ ದೋಷ. ಬೇರೆ ಆ್ಯಪ್ ಅದನ್ನು ಬಳಸುತ್ತಿರಬಹುದು. ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'mic.failed': 'ಮೈಕ್ರೊಫೋನ್ ದೋಷ ಸಂಭವಿಸಿದೆ. ನಿಮ್ಮ ಸಂಪರ್ಕ ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+
+  'command.image': 'ಚಿತ್ರ ರಚಿಸಿ. ಶೈಲಿಗಳು: {styles}',
+  'command.edit': 'ಲಗತ್ತಿಸಿದ ಫೋಟೋ ಸಂಪಾದಿಸಿ',
+  'command.video': 'ಲಗತ್ತಿಸಿದ ಫೋಟೋವನ್ನು ವೀಡಿಯೊ ಆಗಿಸಿ',
+  'command.summarize': 'ಈ ಚಾಟ್, ಲಗತ್ತಿಸಿದ ಪಠ್ಯ ಫೈಲ್ ಅಥವಾ ನೀಡಿದ ಪಠ್ಯದ ಸಾರಾಂಶ',
+  'command.lang': 'ಬೇರೆ ಭಾಷೆಯಲ್ಲಿ ಉತ್ತರ: {languages}',
+  'command.briefing': 'ಗೋಕರ್ಣದಲ್ಲಿ ಇಂದಿನ ಹವಾಮಾನ, ಉಬ್ಬರವಿಳಿತ ಮತ್ತು ಕಾರ್ಯಕ್ರಮಗಳು',
+  'command.plan': 'ಪ್ರವಾಸ ಯೋಜಿಸಿ, ಉದಾ. /plan 3 days',
+  'command.new': 'ಹೊಸ ಚಾಟ್ ಪ್ರಾರಂಭಿಸಿ',
+  'command.needImagePrompt': 'ಏನು ಬಿಡಿಸಬೇಕೆಂದು ಹೇಳಿ, ಉದಾ. /image Om Beach at sunset --style Watercolor',
+  'command.unknownStyle': 'ಅಪರಿಚಿತ ಶೈಲಿ. ಇವುಗಳಲ್ಲಿ ಒಂದನ್ನು ಆರಿಸಿ: {styles}',
+  'command.needEditPrompt': 'ಫೋಟೋವನ್ನು ಹೇಗೆ ಬದಲಾಯಿಸಬೇಕೆಂದು ಹೇಳಿ, ಉದಾ. /edit make the sky pink',
+  'command.unknownLanguage': 'ಅಪರಿಚಿತ ಭಾಷೆ. ಇವುಗಳಲ್ಲಿ ಒಂದನ್ನು ಆರಿಸಿ: {languages}',
+  'command.unknown': 'ಅಪರಿಚಿತ ಆಜ್ಞೆ "/{name}". ಪಟ್ಟಿ ನೋಡಲು / ಟೈಪ್ ಮಾಡಿ.',
+
+  'message.generatingVideo': 'ವೀಡಿಯೊ ರಚನೆಯಾಗುತ್ತಿದೆ... ಇದಕ್ಕೆ ಕೆಲವು ನಿಮಿಷಗಳು ಬೇಕಾಗಬಹುದು.',
+  'message.cancelVideo': 'ವೀಡಿಯೊ ರಚನೆ ರದ್ದುಮಾಡಿ',
+  'message.previousVersion': 'ಹಿಂದಿನ ಆವೃತ್ತಿ',
+  'message.nextVersion': 'ಮುಂದಿನ ಆವೃತ್ತಿ',
+  'message.edit': 'ಸಂದೇಶ ಸಂಪಾದಿಸಿ',
+  'message.saveAndSend': 'ಉಳಿಸಿ ಮತ್ತು ಕಳುಹಿಸಿ',
+  'message.stopped': 'ಉತ್ತರ ನಿಲ್ಲಿಸಲಾಗಿದೆ.',
+  'message.retry': 'ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ',
+  'message.retryLabel': 'ವಿನಂತಿಯನ್ನು ಮತ್ತೆ ಕಳುಹಿಸಿ',
+  'message.share': 'ಹಂಚಿಕೊಳ್ಳಿ',
+  'message.shareLabel': 'ಸಂದೇಶ ಹಂಚಿಕೊಳ್ಳಿ',
+  'message.shareTitle': 'ಗೋಕರ್ಣ ಗೈಡ್ ಸಲಹೆ',
+  'message.copy': 'ನಕಲಿಸಿ',
+  'message.copyLabel': 'ಸಂದೇಶದ ಪಠ್ಯ ನಕಲಿಸಿ',
+  'message.copied': 'ನಕಲಿಸಲಾಗಿದೆ!',
+  'message.summarize': 'ಸಾರಾಂಶ',
+  'message.summarizeLabel': 'ಪಠ್ಯದ ಸಾರಾಂಶ ಮಾಡಿ',
+  'message.regenerate': 'ಮತ್ತೆ ರಚಿಸಿ',
+  'message.regenerateLabel': 'ಉತ್ತರವನ್ನು ಮತ್ತೆ ರಚಿಸಿ',
+  'message.translate': 'ಅನುವಾದಿಸಿ',
+  'message.translateLabel': 'ಸಂದೇಶವನ್ನು ಅನುವಾದಿಸಿ',
+  'message.translateTo': 'ಈ ಭಾಷೆಗೆ ಅನುವಾದಿಸಿ…',
+  'message.translating': 'ಅನುವಾದಿಸಲಾಗುತ್ತಿದೆ…',
+  'message.translatedTo': '{language} ಗೆ ಅನುವಾದ',
+  'message.hideTranslation': 'ಅನುವಾದ ಮರೆಮಾಡಿ',
+  'message.image': 'ಗೋಕರ್ಣ ಚಿತ್ರ {number}',
+  'message.downloadImage': 'ಚಿತ್ರ ಡೌನ್‌ಲೋಡ್ ಮಾಡಿ',
+  'message.sources': 'ಮೂಲಗಳು:',
+  'message.showMap': 'ನಕ್ಷೆಯಲ್ಲಿ ತೋರಿಸಿ ({count})',
+  'message.hideMap': 'ನಕ್ಷೆ ಮರೆಮಾಡಿ',
+  'message.dataset': 'ಗೋಕರ್ಣ ಗೈಡ್ ಡೇಟಾಸೆಟ್',
+  'message.datasetVersion': 'ಗೋಕರ್ಣ ಗೈಡ್ ಡೇಟಾಸೆಟ್ v{version}, {date} ರಂದು ಪರಿಶೀಲಿಸಲಾಗಿದೆ',
+  'message.openInMaps': 'ಮ್ಯಾಪ್ಸ್‌ನಲ್ಲಿ ತೆರೆಯಿರಿ',
+  'message.editPrompt': '(ಸಂಪಾದನೆ ಸೂಚನೆ: {prompt})',
+  'message.videoPrompt': '(ವೀಡಿಯೊ ಸೂಚನೆ: {prompt})',
+  'briefing.highLow': 'ಗರಿಷ್ಠ {high}° · ಕನಿಷ್ಠ {low}°',
+  'briefing.sunset': 'ಸೂರ್ಯಾಸ್ತ',
+  'briefing.tides': 'ಉಬ್ಬರ-ಇಳಿತ',
+  'briefing.highTide': '{time} ಕ್ಕೆ ಉಬ್ಬರ',
+  'briefing.lowTide': '{time} ಕ್ಕೆ ಇಳಿತ',
+  'briefing.noTides': 'ಇಂದಿನ ಉಬ್ಬರ-ಇಳಿತದ ಸಮಯ ಸಿಗಲಿಲ್ಲ.',
+  'briefing.now': 'ಈಗ',
+  'briefing.gem': 'ಇಂದಿನ ರತ್ನ',
+  'briefing.safetyTip': 'ಸುರಕ್ಷತಾ ಸಲಹೆ',
+
+  'itinerary.perPerson': 'ಪ್ರತಿ ವ್ಯಕ್ತಿಗೆ ಸುಮಾರು {amount}',
+  'itinerary.day': 'ದಿನ {number}',
+  'itinerary.nothingPlanned': 'ಇನ್ನೂ ಏನೂ ಯೋಜಿಸಿಲ್ಲ.',
+  'itinerary.free': 'ಉಚಿತ',
+  'itinerary.moveEarlier': '{place} ಅನ್ನು ಮುಂಚೆ ಇಡಿ',
+  'itinerary.moveLater': '{place} ಅನ್ನು ನಂತರ ಇಡಿ',
+  'itinerary.remove': '{place} ತೆಗೆದುಹಾಕಿ',
+  'itinerary.refinePlaceholder': 'ಬದಲಾವಣೆ ಕೇಳಿ, ಉದಾ. ದಿನ 2 ರಲ್ಲಿ ದೋಣಿ ವಿಹಾರ ಸೇರಿಸಿ',
+  'itinerary.refineLabel': 'ಯೋಜನೆಯಲ್ಲಿ ಬದಲಾವಣೆ ಕೇಳಿ',
+  'itinerary.refine': 'ಬದಲಾಯಿಸಿ',
+
+  'hotels.rated': '5 ರಲ್ಲಿ {rating} ರೇಟಿಂಗ್',
+  'hotels.book': 'ಬುಕ್ ಮಾಡಿ',
+  'hotels.detail': 'ವಿವರ',
+  'hotels.area': 'ಪ್ರದೇಶ',
+  'hotels.perNight': 'ಪ್ರತಿ ರಾತ್ರಿ',
+  'hotels.rating': 'ರೇಟಿಂಗ್',
+  'hotels.amenities': 'ಸೌಲಭ್ಯಗಳು',
+  'hotels.pros': 'ಅನುಕೂಲಗಳು',
+  'hotels.cons': 'ಅನಾನುಕೂಲಗಳು',
+  'hotels.booking': 'ಬುಕಿಂಗ್',
+  'hotels.aNight': 'ರಾತ್ರಿಗೆ {price}',
+  'hotels.addToShortlist': '{name} ಅನ್ನು ಕಿರುಪಟ್ಟಿಗೆ ಸೇರಿಸಿ',
+  'hotels.removeFromShortlist': '{name} ಅನ್ನು ಕಿರುಪಟ್ಟಿಯಿಂದ ತೆಗೆದುಹಾಕಿ',
+  'hotels.compare': 'ಹೋಲಿಸಿ',
+  'hotels.compareSelected': 'ಆಯ್ಕೆಮಾಡಿದವುಗಳನ್ನು ಹೋಲಿಸಿ ({count})',
+  'hotels.hideComparison': 'ಹೋಲಿಕೆ ಮರೆಮಾಡಿ',
+  'hotels.shortlistTitle': 'ಹೋಟೆಲ್ ಕಿರುಪಟ್ಟಿ',
+  'hotels.shortlistEmpty': 'ಇನ್ನೂ ಏನೂ ಉಳಿಸಿಲ್ಲ. ಹೋಟೆಲ್ ಕಾರ್ಡ್‌ನಲ್ಲಿರುವ ಬುಕ್‌ಮಾರ್ಕ್ ಬಳಸಿ ಇಲ್ಲಿ ಸೇರಿಸಿ.',
+
+  'map.stop': 'ಪ್ರವಾಸ ಯೋಜನೆಯ ನಿಲುಗಡೆ',
+  'map.place': 'Google Maps ನಿಂದ',
+  'map.poi': 'ಮಾರ್ಗದರ್ಶಿಯಿಂದ',
+  'map.label': '{places} ನ ನಕ್ಷೆ',
+  'map.askAbout': '{place}. ಇದರ ಬಗ್ಗೆ ಕೇಳಿ',
+  'map.yourLocation': 'ನಿಮ್ಮ ಸ್ಥಳ',
+  'map.youAreHere': 'ನೀವು ಇಲ್ಲಿದ್ದೀರಿ',
+  'map.walkingPath': 'ಕಾಲ್ನಡಿಗೆ ದಾರಿ',
+  'map.distance': 'ನೀವು ಸುಮಾರು {distance} ಕಿ.ಮೀ ದೂರದಲ್ಲಿದ್ದೀರಿ',
+  'map.schematic': 'ರೇಖಾ ನಕ್ಷೆ; ದಾರಿ ಹುಡುಕಲು ಅಲ್ಲ',
+  'map.notOnMap': 'ಈ ನಕ್ಷೆಯಲ್ಲಿ ಇಲ್ಲ:',
+
+  'history.newChat': 'ಹೊಸ ಚಾಟ್',
+  'history.startNewChat': 'ಹೊಸ ಚಾಟ್ ಪ್ರಾರಂಭಿಸಿ',
+  'history.library': 'ಗ್ರಂಥಾಲಯ',
+  'history.trash': 'ಕಸದ ಬುಟ್ಟಿ',
+  'history.trashCount': 'ಕಸದ ಬುಟ್ಟಿ ({count})',
+  'history.viewHistory': 'ಚಾಟ್ ಇತಿಹಾಸ ನೋಡಿ',
+  'history.viewLibrary': 'ಚಿತ್ರ ಗ್ರಂಥಾಲಯ ನೋಡಿ',
+  'history.viewTrash': 'ಅಳಿಸಿದ ಚಾಟ್‌ಗಳನ್ನು ನೋಡಿ',
+  'history.search': 'ಎಲ್ಲ ಚಾಟ್‌ಗಳಲ್ಲಿ ಹುಡುಕಿ',
+  'history.filterByTopic': 'ವಿಷಯದ ಪ್ರಕಾರ ಚಾಟ್‌ಗಳನ್ನು ಸೋಸಿ',
+  'history.allTopics': 'ಎಲ್ಲಾ',
+  'history.noMatches': '"{query}" ಗೆ ಹೊಂದುವ ಸಂದೇಶಗಳಿಲ್ಲ.',
+  'history.pinned': 'ಪಿನ್ ಮಾಡಿದವು',
+  'history.chats': 'ಚಾಟ್‌ಗಳು',
+  'history.noChats': 'ಹಿಂದಿನ ಸಂಭಾಷಣೆಗಳಿಲ್ಲ.',
+  'history.pin': 'ಪಿನ್ ಮಾಡಿ',
+  'history.unpin': 'ಪಿನ್ ತೆಗೆಯಿರಿ',
+  'history.pinLabel': 'ಚಾಟ್ ಪಿನ್ ಮಾಡಿ: {title}',
+  'history.unpinLabel': 'ಚಾಟ್ ಪಿನ್ ತೆಗೆಯಿರಿ: {title}',
+  'history.move': 'ಫೋಲ್ಡರ್‌ಗೆ ಸರಿಸಿ',
+  'history.moveLabel': 'ಚಾಟ್ ಅನ್ನು ಫೋಲ್ಡರ್‌ಗೆ ಸರಿಸಿ: {title}',
+  'history.rename': 'ಮರುಹೆಸರಿಸಿ',
+  'history.renameLabel': 'ಚಾಟ್ ಮರುಹೆಸರಿಸಿ: {title}',
+  'history.export': 'ರಫ್ತು',
+  'history.exportLabel': 'ಚಾಟ್ ರಫ್ತು ಮಾಡಿ: {title}',
+  'history.delete': 'ಅಳಿಸಿ',
+  'history.deleteLabel': 'ಚಾಟ್ ಅಳಿಸಿ: {title}',
+  'history.folderName': 'ಫೋಲ್ಡರ್ ಹೆಸರು',
+  'history.renameFolder': 'ಫೋಲ್ಡರ್ ಮರುಹೆಸರಿಸಿ: {name}',
+  'history.deleteFolder': 'ಫೋಲ್ಡರ್ ಅಳಿಸಿ: {name} (ಅದರ ಚಾಟ್‌ಗಳು ಉಳಿಯುತ್ತವೆ)',
+  'history.emptyFolder': 'ಈ ಫೋಲ್ಡರ್‌ನಲ್ಲಿ ಚಾಟ್‌ಗಳಿಲ್ಲ.',
+  'history.generatedArt': 'ರಚಿಸಿದ ಚಿತ್ರ',
+  'history.noImages': 'ಇನ್ನೂ ಯಾವುದೇ ಚಿತ್ರ ರಚಿಸಿಲ್ಲ.',
+  'history.retention': 'ಕಸದ ಬುಟ್ಟಿಯ ಚಾಟ್‌ಗಳನ್ನು ಇಷ್ಟು ಸಮಯದ ನಂತರ ಅಳಿಸಿ',
+  'history.days': '{count} ದಿನಗಳು',
+  'history.purgeDate': '{date} ರಂದು ಶಾಶ್ವತವಾಗಿ ಅಳಿಸಲಾಗುತ್ತದೆ',
+  'history.restore': 'ಮರುಸ್ಥಾಪಿಸಿ',
+  'history.restoreLabel': 'ಚಾಟ್ ಮರುಸ್ಥಾಪಿಸಿ: {title}',
+  'history.deleteForever': 'ಶಾಶ್ವತವಾಗಿ ಅಳಿಸಿ',
+  'history.deleteForeverLabel': 'ಚಾಟ್ ಅನ್ನು ಶಾಶ್ವತವಾಗಿ ಅಳಿಸಿ: {title}',
+  'history.trashEmpty': 'ಕಸದ ಬುಟ್ಟಿ ಖಾಲಿಯಾಗಿದೆ.',
+  'history.emptyTrash': 'ಕಸದ ಬುಟ್ಟಿ ಖಾಲಿಮಾಡಿ',
+  'history.import': 'ಆಮದು',
+  'history.exportAll': 'ಎಲ್ಲವನ್ನೂ ರಫ್ತು ಮಾಡಿ',
+  'history.clearAll': 'ಎಲ್ಲ ಚಾಟ್‌ಗಳನ್ನು ತೆರವುಗೊಳಿಸಿ',
+  'history.lock': 'ಇತಿಹಾಸ ಲಾಕ್',
+  'history.lockNow': 'ಈಗ ಲಾಕ್ ಮಾಡಿ',
+  'history.clearTitle': 'ಎಲ್ಲ ಸಂಭಾಷಣೆಗಳನ್ನು ತೆರವುಗೊಳಿಸಬೇಕೇ?',
+  'history.clearBody': 'ಎಲ್ಲ ಚಾಟ್‌ಗಳು ಕಸದ ಬುಟ್ಟಿಗೆ ಹೋಗುತ್ತವೆ, ಅಲ್ಲಿಂದ {days} ದಿನಗಳವರೆಗೆ ಮರುಸ್ಥಾಪಿಸಬಹುದು.',
+  'history.confirmDelete': 'ಅಳಿಸುವಿಕೆ ದೃಢೀಕರಿಸಿ',
+  'history.emptyTrashTitle': 'ಕಸದ ಬುಟ್ಟಿ ಖಾಲಿಮಾಡಬೇಕೇ?',
+  'history.emptyTrashBody': 'ಇದನ್ನು ಹಿಂತೆಗೆಯಲಾಗದು. {count} ಚಾಟ್(ಗಳು) ಶಾಶ್ವತವಾಗಿ ಅಳಿಸಲ್ಪಡುತ್ತವೆ.',
+  'history.moveTitle': '"{title}" ಸರಿಸಿ',
+  'history.removeFromFolder': 'ಫೋಲ್ಡರ್‌ನಿಂದ ತೆಗೆದುಹಾಕಿ',
+  'history.newFolderPlaceholder': 'ಹೊಸ ಫೋಲ್ಡರ್, ಉದಾ. ಡಿಸೆಂಬರ್ 2026 ಪ್ರವಾಸ',
+  'history.newFolderLabel': 'ಹೊಸ ಫೋಲ್ಡರ್ ಹೆಸರು',
+  'history.createFolder': 'ರಚಿಸಿ',
+  'history.exportOne': '"{title}" ರಫ್ತು ಮಾಡಿ',
+  'history.exportMany': '{count} ಚಾಟ್‌ಗಳನ್ನು ರಫ್ತು ಮಾಡಿ',
+  'history.exportHint': 'JSON ಅನ್ನು ಯಾವುದೇ ಸಾಧನದಲ್ಲಿ ಮತ್ತೆ ಆಮದು ಮಾಡಬಹುದು. Markdown ಮತ್ತು HTML ಓದಲು ಮತ್ತು ಹಂಚಿಕೊಳ್ಳಲು.',
+  'history.exportHtml': 'ವೆಬ್ ಪುಟ (HTML)',
+
+  'tag.beaches': 'ಕಡಲತೀರಗಳು',
+  'tag.hotels': 'ಹೋಟೆಲ್‌ಗಳು',
+  'tag.food': 'ಆಹಾರ',
+  'tag.temples': 'ದೇವಾಲಯಗಳು',
+  'tag.itinerary': 'ಪ್ರವಾಸ ಯೋಜನೆ',
+  'tag.transport': 'ಸಾರಿಗೆ',
+  'tag.weather': 'ಹವಾಮಾನ',
+  'tag.shopping': 'ಶಾಪಿಂಗ್',
+
+  'lock.passphrase': 'ಪಾಸ್‌ಫ್ರೇಸ್',
+  'lock.currentPassphrase': 'ಈಗಿನ ಪಾಸ್‌ಫ್ರೇಸ್',
+  'lock.newPassphrase': 'ಹೊಸ ಪಾಸ್‌ಫ್ರೇಸ್',
+  'lock.repeatPassphrase': 'ಪಾಸ್‌ಫ್ರೇಸ್ ಮತ್ತೆ ಬರೆಯಿರಿ',
+  'lock.tooShort': 'ಕನಿಷ್ಠ {count} ಅಕ್ಷರಗಳನ್ನು ಬಳಸಿ.',
+  'lock.mismatch': 'ಪಾಸ್‌ಫ್ರೇಸ್‌ಗಳು ಹೊಂದುತ್ತಿಲ್ಲ.',
+  'lock.wrongCurrent': 'ನಿಮ್ಮ ಈಗಿನ ಪಾಸ್‌ಫ್ರೇಸ್ ಸರಿಯಿಲ್ಲ.',
+  'lock.reencryptFailed': 'ಚಾಟ್ ಇತಿಹಾಸವನ್ನು ಮತ್ತೆ ಎನ್‌ಕ್ರಿಪ್ಟ್ ಮಾಡಲಾಗಲಿಲ್ಲ. ಏನೂ ಬದಲಾಗಿಲ್ಲ.',
+  'lock.isOn': 'ನಿಮ್ಮ ಚಾಟ್‌ಗಳು, ಅಪ್‌ಲೋಡ್‌ಗಳು ಮತ್ತು ಫೋಲ್ಡರ್‌ಗಳು ಈ ಸಾಧನದಲ್ಲಿ ಎನ್‌ಕ್ರಿಪ್ಟ್ ಆಗಿವೆ.',
+  'lock.intro': 'ಈ ಸಾಧನದಲ್ಲಿ ನಿಮ್ಮ ಚಾಟ್‌ಗಳು, ಅಪ್‌ಲೋಡ್‌ಗಳು ಮತ್ತು ಫೋಲ್ಡರ್‌ಗಳನ್ನು ಎನ್‌ಕ್ರಿಪ್ಟ್ ಮಾಡಿ, ತೋರಿಸುವ ಮೊದಲು ಪಾಸ್‌ಫ್ರೇಸ್ ಕೇಳಿ. ಹಂಚಿಕೊಂಡ ಅಥವಾ ಕುಟುಂಬದ ಸಾಧನಗಳಲ್ಲಿ ಉಪಯುಕ್ತ.',
+  'lock.noRecovery': 'ಮರೆತ ಪಾಸ್‌ಫ್ರೇಸ್ ಅನ್ನು ಮರಳಿ ಪಡೆಯಲು ದಾರಿಯಿಲ್ಲ; ಇತಿಹಾಸವನ್ನು ಅಳಿಸಲು ಮಾತ್ರ ಸಾಧ್ಯ.',
+  'lock.encrypting': 'ಎನ್‌ಕ್ರಿಪ್ಟ್ ಆಗುತ್ತಿದೆ…',
+  'lock.change': 'ಪಾಸ್‌ಫ್ರೇಸ್ ಬದಲಾಯಿಸಿ',
+  'lock.turnOn': 'ಲಾಕ್ ಆನ್ ಮಾಡಿ',
+  'lock.idleFor': 'ಇಷ್ಟು ಸಮಯ ನಿಷ್ಕ್ರಿಯವಾಗಿದ್ದರೆ ಲಾಕ್ ಮಾಡಿ',
+  'lock.turnOff': 'ಲಾಕ್ ಆಫ್ ಮಾಡಿ ಮತ್ತು ಇತಿಹಾಸವನ್ನು ಡಿಕ್ರಿಪ್ಟ್ ಮಾಡಿ',
+  'unlock.title': 'ಚಾಟ್ ಇತಿಹಾಸ ಲಾಕ್ ಆಗಿದೆ',
+  'unlock.body': 'ನಿಮ್ಮ ಗೋಕರ್ಣ ಗೈಡ್ ಚಾಟ್‌ಗಳನ್ನು ತೆರೆಯಲು ಪಾಸ್‌ಫ್ರೇಸ್ ನಮೂದಿಸಿ.',
+  'unlock.unlock': 'ಅನ್‌ಲಾಕ್ ಮಾಡಿ',
+  'unlock.unlocking': 'ಅನ್‌ಲಾಕ್ ಆಗುತ್ತಿದೆ…',
+  'unlock.forgot': 'ಪಾಸ್‌ಫ್ರೇಸ್ ಮರೆತಿರಾ?',
+  'unlock.wrong': 'ಆ ಪಾಸ್‌ಫ್ರೇಸ್ ಸರಿಯಿಲ್ಲ.',
+  'unlock.failed': 'ಚಾಟ್ ಇತಿಹಾಸ ತೆರೆಯಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'unlock.eraseFailed': 'ಚಾಟ್ ಇತಿಹಾಸ ಅಳಿಸಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'unlock.eraseTitle': 'ಎಲ್ಲ ಚಾಟ್ ಇತಿಹಾಸ ಅಳಿಸಬೇಕೇ?',
+  'unlock.eraseBody': 'ಪಾಸ್‌ಫ್ರೇಸ್ ಇಲ್ಲದೆ ನಿಮ್ಮ ಚಾಟ್‌ಗಳನ್ನು ಡಿಕ್ರಿಪ್ಟ್ ಮಾಡಲಾಗದು. ಅಳಿಸಿದರೆ ಈ ಸಾಧನದ ಪ್ರತಿಯೊಂದು ಚಾಟ್, ಫೋಲ್ಡರ್ ಮತ್ತು ಲಗತ್ತು ಹೋಗುತ್ತದೆ ಮತ್ತು ಲಾಕ್ ಆಫ್ ಆಗುತ್ತದೆ.',
+  'unlock.erase': 'ಇತಿಹಾಸ ಅಳಿಸಿ',
+
+  'live.title': 'ನೇರ ಸಂಭಾಷಣೆ',
+  'live.back': 'ಚಾಟ್‌ಗೆ ಹಿಂತಿರುಗಿ',
+  'live.bot': 'ಬಾಟ್',
+  'live.connecting': 'ಸಂಪರ್ಕಿಸಲಾಗುತ್ತಿದೆ...',
+  'live.connected': 'ಸಂಪರ್ಕಗೊಂಡಿದೆ',
+  'live.error': 'ಸಂಪರ್ಕ ದೋಷ',
+  'live.closed': 'ಸಂಪರ್ಕ ಮುಚ್ಚಲಾಗಿದೆ',
+  'live.idle': 'ನಿಷ್ಕ್ರಿಯ',
+
+  'notice.unreadable': '⚠️ ಉಳಿಸಿದ ಕೆಲವು ಇತಿಹಾಸವನ್ನು ಓದಲಾಗಲಿಲ್ಲ ({sessions} ಚಾಟ್, {messages} ಸಂದೇಶ). ಅದನ್ನು ಅಳಿಸುವ ಬದಲು ಪ್ರತ್ಯೇಕವಾಗಿ ಇಡಲಾಗಿದೆ; ಉಳಿದೆಲ್ಲವನ್ನೂ ಮರುಸ್ಥಾಪಿಸಲಾಗಿದೆ.',
+  'notice.locationFailed': '⚠️ ನಿಮ್ಮ ಸ್ಥಳ ಪಡೆಯಲಾಗಲಿಲ್ಲ. ಹತ್ತಿರದ ಹುಡುಕಾಟ ಕಡಿಮೆ ನಿಖರವಾಗಿರುತ್ತದೆ.',
+  'notice.geolocationUnsupported': '⚠️ ನಿಮ್ಮ ಬ್ರೌಸರ್ ಜಿಯೋಲೊಕೇಶನ್ ಬೆಂಬಲಿಸುವುದಿಲ್ಲ.',
+  'notice.imported': '📥 {count} ಚಾಟ್(ಗಳನ್ನು) ಆಮದು ಮಾಡಲಾಗಿದೆ.',
+  'notice.importSkipped': '{count} ಓದಲಾಗಲಿಲ್ಲ ಮತ್ತು ಬಿಡಲಾಗಿದೆ.',
+  'notice.importFailed': '⚠️ ಆಮದು ವಿಫಲವಾಗಿದೆ: {error}',
+  'notice.modelSwitched': '{model} ಗೆ ಬದಲಾಯಿಸಲಾಗಿದೆ.',
+  'notice.busyElsewhere': '⚠️ ಈ ಚಾಟ್ ಈಗಾಗಲೇ ಇನ್ನೊಂದು ಟ್ಯಾಬ್‌ನಲ್ಲಿ ಉತ್ತರಿಸುತ್ತಿದೆ. ಅದು ಮುಗಿಯುವವರೆಗೆ ಕಾಯಿರಿ, ಅಥವಾ ಅಲ್ಲೇ ನಿಲ್ಲಿಸಿ.',
+  'notice.summarizing': 'ಸಾರಾಂಶ ಮಾಡಲಾಗುತ್ತಿದೆ...',
+  'notice.nothingToSummarize': 'ಸಾರಾಂಶ ಮಾಡಲು ಇನ್ನೂ ಏನೂ ಇಲ್ಲ.',
+  'reply.image': 'ನಿಮಗಾಗಿ ರಚಿಸಿದ ಚಿತ್ರ ಇಲ್ಲಿದೆ:',
+  'reply.editedImage': 'ಸಂಪಾದಿಸಿದ ಚಿತ್ರ ಇಲ್ಲಿದೆ:',
+  'reply.video': 'ರಚಿಸಿದ ವೀಡಿಯೊ ಇಲ್ಲಿದೆ:',
+  'reply.videoCancelled': 'ವೀಡಿಯೊ ರಚನೆ ರದ್ದಾಗಿದೆ.',
+  'reply.artStyle': 'ಸೃಜನಶೀಲ ಆಲೋಚನೆ! ನಿಮಗೆ ಯಾವ ಕಲಾ ಶೈಲಿ ಬೇಕು?',
+  'reply.summary': 'ಸಾರಾಂಶ',
+};
+
+export const KN_IN: LanguagePack = {
+  voiceFallbacks: [],
+  welcome: "ನಾನು ನಿಮ್ಮ ಸ್ನೇಹಪರ ಸ್ಥಳೀಯ ಸಂಗಾತಿ. ನೀವು ಕಡಲತೀರಗಳನ್ನು ಅನ್ವೇಷಿಸಲು, ಹತ್ತಿರದ ಕೆಫೆಗಳನ್ನು ಹುಡುಕಲು ಅಥವಾ ಸಣ್ಣ ಪ್ರವಾಸದ ಯೋಜನೆಯನ್ನು ಮಾಡಲು ಬಯಸುವಿರಾ?",
+  suggestions: [
+    { text: 'ಕಡಲತೀರಗಳು', icon: 'beach' },
+    { text: 'ಹೋಟೆಲ್‌ಗಳು', icon: 'hotel' },
+    { text: 'ಸ್ಥಳೀಯ ಆಹಾರ', icon: 'food' },
+    { text: 'ದೇವಾಲಯ ಭೇಟಿಗಳು', icon: 'temple' },
+  ],
+  briefingLabel: 'ಇಂದಿನ ಬ್ರೀಫಿಂಗ್',
+  tripPlanLabel: 'ಪ್ರವಾಸ ಯೋಜನೆ',
+  tripPlanPrompt: "ಖಂಡಿತ! ನಿಮಗಾಗಿ ಪರಿಪೂರ್ಣ ಪ್ರವಾಸವನ್ನು ರಚಿಸಲು, ನನಗೆ ಕೆಲವು ವಿವರಗಳು ಬೇಕು. ನೀವು ಎಷ್ಟು ದಿನ ಇರುತ್ತೀರಿ, ಮತ್ತು ನಿಮ್ಮ ಮುಖ್ಯ ಆಸಕ್ತಿಗಳು ಯಾವುವು (ಉದಾಹರಣೆಗೆ, ಕಡಲತೀರಗಳು, ದೇವಾಲಯಗಳು, ಸಾಹಸ, ವಿಶ್ರಾಂತಿ)?",
+  clarifyIntentPrompt: 'ಖಚಿತಪಡಿಸಿಕೊಳ್ಳಲು, ನಾನು ಏನು ಮಾಡಬೇಕೆಂದು ನೀವು ಬಯಸುತ್ತೀರಿ?',
+  intentLabels: { 'chat': 'ಉತ್ತರ ನೀಡಿ', 'generate-image': 'ಚಿತ್ರ ರಚಿಸಿ', 'edit-image': 'ನನ್ನ ಫೋಟೋ ಸಂಪಾದಿಸಿ', 'change-language': 'ಭಾಷೆ ಬದಲಿಸಿ', 'trip-plan': 'ನನ್ನ ಪ್ರವಾಸ ಯೋಜಿಸಿ', 'update-itinerary': 'ನನ್ನ ಯೋಜನೆ ಬದಲಿಸಿ' },
+  placeQuestion: '{place} ಬಗ್ಗೆ ಇನ್ನಷ್ಟು ತಿಳಿಸಿ',
+  sustainabilityTip: "ಗೋಕರ್ಣವನ್ನು ಸುಂದರವಾಗಿಡಲು ಸಹಾಯ ಮಾಡಲು ಒಂದು ಸಣ್ಣ ಜ್ಞಾಪನೆ: ದಯವಿಟ್ಟು ಮರುಬಳಕೆ ಮಾಡಬಹುದಾದ ನೀರಿನ ಬಾಟಲಿಯನ್ನು ಬಳಸಿ ಮತ್ತು ನಮ್ಮ ಅದ್ಭುತ ಸ್ಥಳೀಯ ಅಂಗಡಿಗಳನ್ನು ಬೆಂಬಲಿಸಿ. ಪ್ರತಿಯೊಂದು ಸಣ್ಣ ಸಹಾಯವೂ ಮುಖ್ಯ! 💚",
+  errors: {
+    'safety': "ಸುರಕ್ಷತಾ ಫಿಲ್ಟರ್‌ಗಳು ಈ ವಿನಂತಿಯನ್ನು ತಡೆದಿರುವುದರಿಂದ ನಾನು ಸಹಾಯ ಮಾಡಲು ಸಾಧ್ಯವಿಲ್ಲ. ದಯವಿಟ್ಟು ಬೇರೆ ರೀತಿಯಲ್ಲಿ ಕೇಳಬಹುದೇ ಅಥವಾ ಬೇರೆ ಏನಾದರೂ ಕೇಳಬಹುದೇ?",
+    'quota': "ಈಗ ತುಂಬಾ ವಿನಂತಿಗಳು ಬರುತ್ತಿವೆ ಮತ್ತು ಬಳಕೆಯ ಮಿತಿ ತಲುಪಿದೆ. ದಯವಿಟ್ಟು ಸ್ವಲ್ಪ ಸಮಯದ ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+    'network': "ಸರ್ವರ್ ಅನ್ನು ತಲುಪಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ನಿಮ್ಮ ಇಂಟರ್ನೆಟ್ ಸಂಪರ್ಕವನ್ನು ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+    'invalid-input': "ಈ ವಿನಂತಿಯನ್ನು ನಿರ್ವಹಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಬೇರೆ ಪ್ರಾಂಪ್ಟ್, ಚಿತ್ರ ಅಥವಾ ಫೈಲ್ ಪ್ರಯತ್ನಿಸಿ.",
+    'model-unavailable': "AI ಮಾದರಿ ತಾತ್ಕಾಲಿಕವಾಗಿ ಲಭ್ಯವಿಲ್ಲ. ದಯವಿಟ್ಟು ಸ್ವಲ್ಪ ಸಮಯದ ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+    'unknown': "ಕ್ಷಮಿಸಿ, ನನ್ನ ಕಡೆಯಿಂದ ಏನೋ ತಪ್ಪಾಗಿದೆ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  },
+  messages: MESSAGES,
+};
@@ -0,0 +1,305 @@
+import type { Catalog } from '../services/i18n';
+import type { LanguagePack } from '../services/languagePacks';
+
+const MESSAGES: Catalog = {
+  'common.cancel': 'रद्द करात',
+  'common.close': 'बंद करात',
+  'common.minutes': '{count} मिण्टां',
+  'common.you': 'तुमी',
+  'common.guide': 'मार्गदर्शक',
+
+  'language.label': 'भास',
+  'language.switched': 'खंडीत! आतां हांव {language} भाशेंत जाप दितलों.',
+
+  'header.toggleHistory': 'इतिहास पॅनल दाखयात वा लिपयात',
+  'header.history': 'इतिहास',
+  'header.shortlist': 'हॉटेल शॉर्टलिस्ट',
+  'header.shortlistLabel': 'हॉटेल शॉर्टलिस्ट, {count} सांबाळ्ळ्यात',
+  'header.mute': 'बॉटचो आवाज बंद करात',
+  'header.unmute': 'बॉटचो आवाज सुरू करात',
+  'header.selectModel': 'मॉडेल वेंचात',
+  'header.bilingual': 'दोन भासांनी जाप',
+  'header.bilingualOff': 'बंद',
+  'welcome.title': 'तुमचो गोकर्ण सांगाती',
+  'chat.scrollToBottom': 'सकयल वचात',
+
+  'model.gemini-2.5-pro': 'सगळ्यांत सक्षम. भोंवडेची येवजण आनी तपशीलवार सोदासाठी बरें.',
+  'model.gemini-2.5-flash': 'बेगीन आनी उणो खर्च. ल्हान प्रस्नांक बरें.',
+
+  'input.placeholder': 'गोकर्णाविशीं विचारात, वा आदेशां खातीर / टायप करात',
+  'input.addFiles': 'फायली जोडात',
+  'input.uploadImage': 'चित्र अपलोड करात',
+  'input.uploadText': 'मजकूर फायल अपलोड करात',
+  'input.generateVideo': 'व्हिडियो तयार करात',
+  'input.commands': 'आदेश',
+  'input.attachOnePhoto': '(एक फोटो जोडात)',
+  'input.removeFile': '{name} काडात',
+  'input.stop': 'थांबयात',
+  'input.stopListening': 'आयकप थांबयात',
+  'input.stopGenerating': 'जाप थांबयात',
+  'input.send': 'संदेश धाडात',
+  'input.voiceMode': 'व्हॉयस मोड वापरात',
+  'input.videoPrompt': 'व्हिडियो खातीर वर्णन दियात:',
+  'input.videoLandscape': 'लँडस्केप (16:9) मेरेन तयार करूंक जाय? पोर्ट्रेट (9:16) खातीर रद्द करात.',
+  'input.needOneImage': '/{command} वापरूंक फकत एक चित्र अपलोड करात.',
+  'input.needOneImageForVideo': 'व्हिडियो तयार करूंक फकत एक चित्र अपलोड करात.',
+  'input.voiceUnsupported': 'तुमचो ब्राउझर व्हॉयस इनपुटाक तेंको दिना.',
+  'input.readFileFailed': 'फायल वाचूंक जायना. उपकार करून परत यत्न करात.',
+  'mic.denied': 'मायक्रोफोनाची परवानगी न्हयकारली. ब्राउझर वा डिव्हायस सेटिंगांनी मायकाक परवानगी दियात.',
+  'mic.noSpeech': 'कांयच उलोवप आयकूंक आयलें ना. उलोवंक मायक परत टॅप करात.',
+  'mic.busy': 'मायक्रोफोनांत चूक. दुसरें ॲप तो वापरता आसत. तपासून परत यत्न करात.',
+  'mic.failed': 'मायक्रोफोनांत चूक जाली. तुमचें कनेक्शन तपासून परत यत्न करात.',
+
+  'command.image': 'चित्र तयार करात. शैली: {styles}',
+  'command.edit': 'जोडिल्लो फोटो बदलात',
+  'command.video': 'जोडिल्ल्या फोटोचो व्हिडियो करात',
+  'command.summarize': 'हो चॅट, जोडिल्ली मजकूर फायल वा दिल्ल्या मजकुराचो सारांश',
+  'command.lang': 'दुसऱ्या भाशेंत जाप: {languages}',
+  'command.briefing': 'गोकर्णांतलें आयचें हवामान, भरती-ओहोटी आनी कार्यक्रम',
+  'command.plan': 'भोंवडेची येवजण करात, देखीक /plan 3 days',
+  'command.new': 'नवो चॅट सुरू करात',
+  'command.needImagePrompt': 'कितें काडूंक जाय तें सांगात, देखीक /image Om Beach at sunset --style Watercolor',
+  'command.unknownStyle': 'खबर नाशिल्ली शैली. हातूंतली एक वेंचात: {styles}',
+  'command.needEditPrompt': 'फोटोंत कितें बदलूंक जाय तें सांगात, देखीक /edit make the sky pink',
+  'command.unknownLanguage': 'खबर नाशिल्ली भास. हातूंतली एक वेंचात: {languages}',
+  'command.unknown': 'खबर नाशिल्लो आदेश "/{name}". वळेरे खातीर / टायप करात.',
+
+  'message.generatingVideo': 'व्हिडियो तयार जाता... हाका कांय मिण्टां लागूं येतात.',
+  'message.cancelVideo': 'व्हिडियो तयार करप रद्द करात',
+  'message.previousVersion': 'आदली आवृत्ती',
+  'message.nextVersion': 'फुडली आवृत्ती',
+  'message.edit': 'संदेश बदलात',
+  'message.saveAndSend': 'सांबाळून धाडात',
+  'message.stopped': 'जाप थांबयली.',
+  'message.retry': 'परत यत्न करात',
+  'message.retryLabel': 'मागणी परत धाडात',
+  'message.share': 'शेअर करात',
+  'message.shareLabel': 'संदेश शेअर करात',
+  'message.shareTitle': 'गोकर्ण गायड सुचोवणी',
+  'message.copy': 'कॉपी करात',
+  'message.copyLabel': 'संदेशाचो मजकूर कॉपी करात',
+  'message.copied': 'कॉपी जालें!',
+  'message.summarize': 'सारांश',
+  'message.summarizeLabel': 'मजकुराचो सारांश करात',
+  'message.regenerate': 'परत तयार करात',
+  'message.regenerateLabel': 'जाप परत तयार करात',
+  'message.translate': 'अणकार',
+  'message.translateLabel': 'संदेशाचो अणकार करात',
+  'message.translateTo': 'हे भाशेंत अणकार…',
+  'message.translating': 'अणकार जाता…',
+  'message.translatedTo': '{language} अणकार',
+  'message.hideTranslation': 'अणकार लिपयात',
+  'message.image': 'गोकर्ण चित्र {number}',
+  'message.downloadImage': 'चित्र डावनलोड करात',
+  'message.sources': 'स्रोत:',
+  'message.showMap': 'नकाशाचेर दाखयात ({count})',
+  'message.hideMap': 'नकासो लिपयात',
+  'message.dataset': 'गोकर्ण गायड डेटासेट',
+  'message.datasetVersion': 'गोकर्ण गायड डेटासेट v{version}, {date} दिसा तपासला',
+  'message.openInMaps': 'नकाशांत उगडात',
+  'message.editPrompt': '(बदलाची सुचोवणी: {prompt})',
+  'message.videoPrompt': '(व्हिडियोची सुचोवणी: {prompt})',
+  'briefing.highLow': 'चड {high}° · उणें {low}°',
+  'briefing.sunset': 'सुर्यास्त',
+  'briefing.tides': 'भरती-ओहटी',
+  'briefing.highTide': '{time} वरां भरती',
+  'briefing.lowTide': '{time} वरां ओहटी',
+  'briefing.noTides': 'आयच्या भरती-ओहटेचो वेळ मेळ्ळो ना.',
+  'briefing.now': 'आतां',
+  'briefing.gem': 'आयचो खाशेलो सुचोवणी',
+  'briefing.safetyTip': 'सुरक्षा सुचोवणी',
+
+  'itinerary.perPerson': 'दर मनशाक सुमार {amount}',
+  'itinerary.day': 'दीस {number}',
+  'itinerary.nothingPlanned': 'अजून कांयच थारायल्लें ना.',
+  'itinerary.free': 'फुकट',
+  'itinerary.moveEarlier': '{place} आदीं घेयात',
+  'itinerary.moveLater': '{place} उपरांत घेयात',
+  'itinerary.remove': '{place} काडात',
+  'itinerary.refinePlaceholder': 'बदल सुचयात, देखीक दीस 2 दिसा बोटीची भोंवडी जोडात',
+  'itinerary.refineLabel': 'येवजणेंत बदल सुचयात',
+  'itinerary.refine': 'बदलात',
+
+  'hotels.rated': '5 मदल्यान {rating} रेटिंग',
+  'hotels.book': 'बुक करात',
+  'hotels.detail': 'तपशील',
+  'hotels.area': 'वाठार',
+  'hotels.perNight': 'दर रातीक',
+  'hotels.rating': 'रेटिंग',
+  'hotels.amenities': 'सुविधा',
+  'hotels.pros': 'फायदे',
+  'hotels.cons': 'उणावां',
+  'hotels.booking': 'बुकिंग',
+  'hotels.aNight': 'दर रातीक {price}',
+  'hotels.addToShortlist': '{name} शॉर्टलिस्टींत जोडात',
+  'hotels.removeFromShortlist': '{name} शॉर्टलिस्टींतल्यान काडात',
+  'hotels.compare': 'तुळा करात',
+  'hotels.compareSelected': 'वेंचिल्ल्यांची तुळा करात ({count})',
+  'hotels.hideComparison': 'तुळा लिपयात',
+  'hotels.shortlistTitle': 'हॉटेल शॉर्टलिस्ट',
+  'hotels.shortlistEmpty': 'अजून कांयच सांबाळूंक ना. हॉटेल कार्डाचेर बुकमार्क वापरून हांगा जोडात.',
+
+  'map.stop': 'भोंवडे येवजणेंतलो थांबो',
+  'map.place': 'Google Maps वयल्यान',
+  'map.poi': 'मार्गदर्शका कडल्यान',
+  'map.label': '{places} हांचो नकासो',
+  'map.askAbout': '{place}. हाचेविशीं विचारात',
+  'map.yourLocation': 'तुमची सुवात',
+  'map.youAreHere': 'तुमी हांगा आसात',
+  'map.walkingPath': 'पांयवाट',
+  'map.distance': 'तुमी सुमार {distance} किमी पयस आसात',
+  'map.schematic': 'आराखडो नकासो; वाट दाखोवपा खातीर न्हय',
+  'map.notOnMap': 'ह्या नकाशाचेर ना:',
+
+  'history.newChat': 'नवो चॅट',
+  'history.startNewChat': 'नवो चॅट सुरू करात',
+  'history.library': 'संग्रह',
+  'history.trash': 'कोयर',
+  'history.trashCount': 'कोयर ({count})',
+  'history.viewHistory': 'चॅट इतिहास पळयात',
+  'history.viewLibrary': 'चित्र संग्रह पळयात',
+  'history.viewTrash': 'काडून उडयल्ले चॅट पळयात',
+  'history.search': 'सगळ्या चॅटांनी सोदात',
+  'history.filterByTopic': 'विशया प्रमाण चॅट गाळात',
+  'history.allTopics': 'सगळे',
+  'history.noMatches': '"{query}" कडेन जुळपी संदेश नात.',
+  'history.pinned': 'पिन केल्ले',
+  'history.chats': 'चॅट',
+  'history.noChats': 'आदलीं उलोवणीं नात.',
+  'history.pin': 'पिन करात',
+  'history.unpin': 'पिन काडात',
+  'history.pinLabel': 'चॅट पिन करात: {title}',
+  'history.unpinLabel': 'चॅटाची पिन काडात: {title}',
+  'history.move': 'फोल्डरांत हालयात',
+  'history.moveLabel': 'चॅट फोल्डरांत हालयात: {title}',
+  'history.rename': 'नांव बदलात',
+  'history.renameLabel': 'चॅटाचें नांव बदलात: {title}',
+  'history.export': 'निर्यात',
+  'history.exportLabel': 'चॅट निर्यात करात: {title}',
+  'history.delete': 'काडून उडयात',
+  'history.deleteLabel': 'चॅट काडून उडयात: {title}',
+  'history.folderName': 'फोल्डराचें नांव',
+  'history.renameFolder': 'फोल्डराचें नांव बदलात: {name}',
+  'history.deleteFolder': 'फोल्डर काडून उडयात: {name} (तातले चॅट उरतले)',
+  'history.emptyFolder': 'ह्या फोल्डरांत चॅट नात.',
+  'history.generatedArt': 'तयार केल्लें चित्र',
+  'history.noImages': 'अजून एकूय चित्र तयार केल्लें ना.',
+  'history.retention': 'कोयरांतले चॅट इतल्या वेळान काडून उडयात',
+  'history.days': '{count} दीस',
+  'history.purgeDate': '{date} दिसा सदांखातीर काडून उडयतले',
+  'history.restore': 'परत हाडात',
+  'history.restoreLabel': 'चॅट परत हाडात: {title}',
+  'history.deleteForever': 'सदांखातीर काडून उडयात',
+  'history.deleteForeverLabel': 'चॅट सदांखातीर काडून उडयात: {title}',
+  'history.trashEmpty': 'कोयर रिकामो आसा.',
+  'history.emptyTrash': 'कोयर रिकामो करात',
+  'history.import': 'आयात',
+  'history.exportAll': 'सगळें निर्यात करात',
+  'history.clearAll': 'सगळे चॅट पुसात',
+  'history.lock': 'इतिहास कुलूप',
+  'history.lockNow': 'आतांच कुलूप लायात',
+  'history.clearTitle': 'सगळीं उलोवणीं पुसूंक जाय?',
+  'history.clearBody': 'सगळे चॅट कोयरांत वतले, थंयसून ते {days} दीस मेरेन परत हाडूं येतात.',
+  'history.confirmDelete': 'काडून उडोवपाची खात्री करात',
+  'history.emptyTrashTitle': 'कोयर रिकामो करूंक जाय?',
+  'history.emptyTrashBody': 'हें परत घेवंक जावचें ना. {count} चॅट सदांखातीर काडून उडयतले.',
+  'history.moveTitle': '"{title}" हालयात',
+  'history.removeFromFolder': 'फोल्डरांतल्यान काडात',
+  'history.newFolderPlaceholder': 'नवो फोल्डर, देखीक डिसेंबर 2026 भोंवडी',
+  'history.newFolderLabel': 'नव्या फोल्डराचें नांव',
+  'history.createFolder': 'तयार करात',
+  'history.exportOne': '"{title}" निर्यात करात',
+  'history.exportMany': '{count} चॅट निर्यात करात',
+  'history.exportHint': 'JSON खंयच्याय डिव्हायसाचेर परत आयात करूं येता. Markdown आनी HTML वाचपा आनी शेअर करपा खातीर.',
+  'history.exportHtml': 'वेब पान (HTML)',
+
+  'tag.beaches': 'दर्यावेळो',
+  'tag.hotels': 'हॉटेलां',
+  'tag.food': 'जेवण',
+  'tag.temples': 'देवळां',
+  'tag.itinerary': 'भोंवडी येवजण',
+  'tag.transport': 'वाहतूक',
+  'tag.weather': 'हवामान',
+  'tag.shopping': 'खरेदी',
+
+  'lock.passphrase': 'पासफ्रेज',
+  'lock.currentPassphrase': 'सध्याचें पासफ्रेज',
+  'lock.newPassphrase': 'नवें पासफ्रेज',
+  'lock.repeatPassphrase': 'पासफ्रेज परत टायप करात',
+  'lock.tooShort': 'उणेंत उणीं {count} अक्षरां वापरात.',
+  'lock.mismatch': 'पासफ्रेज जुळनात.',
+  'lock.wrongCurrent': 'तुमचें सध्याचें पासफ्रेज चुकीचें.',
+  'lock.reencryptFailed': 'चॅट इतिहास परत एन्क्रिप्ट करूंक जायना. कांयच बदलूंक ना.',
+  'lock.isOn': 'तुमचे चॅट, अपलोड आनी फोल्डर ह्या डिव्हायसाचेर एन्क्रिप्ट केल्ले आसात.',
+  'lock.intro': 'ह्या डिव्हायसाचेर तुमचे चॅट, अपलोड आनी फोल्डर एन्क्रिप्ट करात आनी दाखोवचे आदीं पासफ्रेज मागात. वांटून घेतिल्ल्या वा कुटुंबाच्या डिव्हायसाचेर उपकारी.',
+  'lock.noRecovery': 'विसरिल्लें पासफ्रेज परत मेळोवपाक वाट ना; फकत इतिहास पुसूं येता.',
+  'lock.encrypting': 'एन्क्रिप्ट जाता…',
+  'lock.change': 'पासफ्रेज बदलात',
+  'lock.turnOn': 'कुलूप सुरू करात',
+  'lock.idleFor': 'इतलो वेळ कांय करिनासतना कुलूप लायात',
+  'lock.turnOff': 'कुलूप बंद करून इतिहास डिक्रिप्ट करात',
+  'unlock.title': 'चॅट इतिहासाक कुलूप आसा',
+  'unlock.body': 'तुमचे गोकर्ण गायड चॅट उगडपाक पासफ्रेज घालात.',
+  'unlock.unlock': 'कुलूप काडात',
+  'unlock.unlocking': 'कुलूप काडटा…',
+  'unlock.forgot': 'पासफ्रेज विसरल्यात?',
+  'unlock.wrong': 'तें पासफ्रेज चुकीचें.',
+  'unlock.failed': 'चॅट इतिहास उगडूंक जायना. उपकार करून परत यत्न करात.',
+  'unlock.eraseFailed': 'चॅट इतिहास पुसूंक जायना. उपकार करून परत यत्न करात.',
+  'unlock.eraseTitle': 'सगळो चॅट इतिहास पुसूंक जाय?',
+  'unlock.eraseBody': 'पासफ्रेज बगर तुमचे चॅट डिक्रिप्ट करूंक जायनात. पुसल्यार ह्या डिव्हायसाचेर दर एक चॅट, फोल्डर आनी जोडणी काडून उडयतले आनी कुलूप बंद जातलें.',
+  'unlock.erase': 'इतिहास पुसात',
+
+  'live.title': 'थेट उलोवणी',
+  'live.back': 'चॅटाक परत वचात',
+  'live.bot': 'बॉट',
+  'live.connecting': 'जोडटा...',
+  'live.connected': 'जोडलां',
+  'live.error': 'कनेक्शनांत चूक',
+  'live.closed': 'कनेक्शन बंद जालें',
+  'live.idle': 'निष्क्रीय',
+
+  'notice.unreadable': '⚠️ सांबाळिल्लो कांय इतिहास वाचूंक जायना ({sessions} चॅट, {messages} संदेश). तो काडून उडयनासतना वेगळो दवरला; उरिल्लें सगळें परत हाडलां.',
+  'notice.locationFailed': '⚠️ तुमची सुवात मेळूंक ना. लागसारचो सोद उणो अचूक आसतलो.',
+  'notice.geolocationUnsupported': '⚠️ तुमचो ब्राउझर जियोलोकेशनाक तेंको दिना.',
+  'notice.imported': '📥 {count} चॅट आयात केले.',
+  'notice.importSkipped': '{count} वाचूंक जायनात, ते सोडले.',
+  'notice.importFailed': '⚠️ आयात फसली: {error}',
+  'notice.modelSwitched': '{model} चेर बदललें.',
+  'notice.busyElsewhere': '⚠️ हो चॅट आदींच दुसऱ्या टॅबांत जाप दिता. तें सोंपसर रावात, वा थंयच थांबयात.',
+  'notice.summarizing': 'सारांश तयार जाता...',
+  'notice.nothingToSummarize': 'सारांश करपा सारकें अजून कांय ना.',
+  'reply.image': 'तुमचे खातीर तयार केल्लें चित्र हें:',
+  'reply.editedImage': 'बदलिल्लें चित्र हें:',
+  'reply.video': 'तयार केल्लो व्हिडियो हो:',
+  'reply.videoCancelled': 'व्हिडियो तयार करप रद्द केलें.',
+  'reply.artStyle': 'बरी कल्पना! तुमकां खंयची कलाशैली जाय?',
+  'reply.summary': 'सारांश',
+};
+
+export const KOK_IN: LanguagePack = {
+  voiceFallbacks: ['mr-IN', 'hi-IN'],
+  welcome: "हांव तुमचो मोगाळ स्थानीक सांगाती. तुमकां दर्यावेळो पळोवंक जाय, लागसारचीं कॅफे सोदूंक जाय, वा ल्हान भोंवडेची येवजण करूंक जाय?",
+  suggestions: [
+    { text: 'दर्यावेळो', icon: 'beach' },
+    { text: 'हॉटेलां सोदात', icon: 'hotel' },
+    { text: 'स्थानीक जेवण', icon: 'food' },
+    { text: 'देवळां दर्शन', icon: 'temple' },
+  ],
+  briefingLabel: 'आयची म्हायती',
+  tripPlanLabel: 'भोंवडी येवजण',
+  tripPlanPrompt: "खंडीत! तुमचे खातीर बरी भोंवडी येवजण तयार करपाक म्हाका फकत कांय तपशील जाय. तुमी कितले दीस रावतले, आनी तुमच्यो मुखेल आवडी कितल्यो (देखीक, दर्यावेळो, देवळां, साहस, विसव)?",
+  clarifyIntentPrompt: 'खात्री करपाक विचारतां, हांवें कितें करचें अशें तुमकां दिसता?',
+  intentLabels: { 'chat': 'फकत जाप दियात', 'generate-image': 'चित्र तयार करात', 'edit-image': 'म्हजो फोटो बदलात', 'change-language': 'भास बदलात', 'trip-plan': 'म्हजी भोंवडी येवजात', 'update-itinerary': 'म्हजी येवजण बदलात' },
+  placeQuestion: '{place} विशीं आनीक सांगात',
+  sustainabilityTip: "गोकर्ण सुंदर दवरपाक एक ल्हानशी याद: परत वापरूं येता अशी उदकाची बाटली वापरात आनी आमच्या बऱ्या स्थानीक दुकानांक तेंको दियात. दर एक ल्हान मदत म्हत्वाची! 💚",
+  errors: {
+    'safety': "सुरक्षा फिल्टरांनी ही मागणी आडायल्ल्यान हांव मदत करूंक शकना. तुमी ती वेगळ्या उतरांनी विचारतले, वा कांय वेगळें विचारतले?",
+    'quota': "सध्या खूब मागण्यो येतात आनी वापराची मर्यादा पावल्या. उपकार करून कांय वेळ रावून परत यत्न करात.",
+    'network': "सर्व्हरा मेरेन पावूंक जायना. उपकार करून तुमचें इंटरनेट कनेक्शन तपासून परत यत्न करात.",
+    'invalid-input': "ह्या मागणेचेर काम करूंक जायना. उपकार करून वेगळी सुचोवणी, चित्र वा फायल वापरून पळयात.",
+    'model-unavailable': "AI मॉडेल थोडो वेळ मेळना. उपकार करून थोड्या वेळान परत यत्न करात.",
+    'unknown': "माफ करात, म्हजे वटेन कितें तरी चुकलें. उपकार करून परत यत्न करात.",
+  },
+  messages: MESSAGES,
+};
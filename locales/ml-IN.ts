@@ -0,0 +1,305 @@
+import type { Catalog } from '../services/i18n';
+import type { LanguagePack } from '../services/languagePacks';
+
+const MESSAGES: Catalog = {
+  'common.cancel': 'റദ്ദാക്കുക',
+  'common.close': 'അടയ്ക്കുക',
+  'common.minutes': '{count} മിനിറ്റ്',
+  'common.you': 'നിങ്ങൾ',
+  'common.guide': 'ഗൈഡ്',
+
+  'language.label': 'ഭാഷ',
+  'language.switched': 'തീർച്ചയായും! ഇനി ഞാൻ {language}യിൽ മറുപടി നൽകാം.',
+
+  'header.toggleHistory': 'ചരിത്ര പാനൽ കാണിക്കുക അല്ലെങ്കിൽ മറയ്ക്കുക',
+  'header.history': 'ചരിത്രം',
+  'header.shortlist': 'ഹോട്ടൽ ഷോർട്ട്‌ലിസ്റ്റ്',
+  'header.shortlistLabel': 'ഹോട്ടൽ ഷോർട്ട്‌ലിസ്റ്റ്, {count} സംരക്ഷിച്ചു',
+  'header.mute': 'ബോട്ടിന്റെ ശബ്ദം നിർത്തുക',
+  'header.unmute': 'ബോട്ടിന്റെ ശബ്ദം ഓണാക്കുക',
+  'header.selectModel': 'മോഡൽ തിരഞ്ഞെടുക്കുക',
+  'header.bilingual': 'രണ്ട് ഭാഷകളിൽ മറുപടി',
+  'header.bilingualOff': 'ഓഫ്',
+  'welcome.title': 'നിങ്ങളുടെ ഗോകർണ കൂട്ടുകാരൻ',
+  'chat.scrollToBottom': 'താഴേക്ക് പോകുക',
+
+  'model.gemini-2.5-pro': 'ഏറ്റവും കഴിവുള്ളത്. യാത്രാ ആസൂത്രണത്തിനും വിശദമായ ഗവേഷണത്തിനും മികച്ചത്.',
+  'model.gemini-2.5-flash': 'വേഗമേറിയതും ചെലവ് കുറഞ്ഞതും. ചെറിയ ചോദ്യങ്ങൾക്ക് ഉത്തമം.',
+
+  'input.placeholder': 'ഗോകർണയെക്കുറിച്ച് ചോദിക്കൂ, അല്ലെങ്കിൽ കമാൻഡുകൾക്കായി / ടൈപ്പ് ചെയ്യൂ',
+  'input.addFiles': 'ഫയലുകൾ ചേർക്കുക',
+  'input.uploadImage': 'ചിത്രം അപ്‌ലോഡ് ചെയ്യുക',
+  'input.uploadText': 'ടെക്സ്റ്റ് ഫയൽ അപ്‌ലോഡ് ചെയ്യുക',
+  'input.generateVideo': 'വീഡിയോ സൃഷ്ടിക്കുക',
+  'input.commands': 'കമാൻഡുകൾ',
+  'input.attachOnePhoto': '(ഒരു ഫോട്ടോ ചേർക്കുക)',
+  'input.removeFile': '{name} നീക്കം ചെയ്യുക',
+  'input.stop': 'നിർത്തുക',
+  'input.stopListening': 'കേൾക്കുന്നത് നിർത്തുക',
+  'input.stopGenerating': 'മറുപടി നിർത്തുക',
+  'input.send': 'സന്ദേശം അയയ്ക്കുക',
+  'input.voiceMode': 'വോയ്‌സ് മോഡ് ഉപയോഗിക്കുക',
+  'input.videoPrompt': 'വീഡിയോയ്ക്കുള്ള വിവരണം നൽകുക:',
+  'input.videoLandscape': 'ലാൻഡ്‌സ്‌കേപ്പിൽ (16:9) സൃഷ്ടിക്കണോ? പോർട്രെയ്റ്റിനായി (9:16) റദ്ദാക്കുക.',
+  'input.needOneImage': '/{command} ഉപയോഗിക്കാൻ കൃത്യം ഒരു ചിത്രം അപ്‌ലോഡ് ചെയ്യുക.',
+  'input.needOneImageForVideo': 'വീഡിയോ സൃഷ്ടിക്കാൻ കൃത്യം ഒരു ചിത്രം അപ്‌ലോഡ് ചെയ്യുക.',
+  'input.voiceUnsupported': 'നിങ്ങളുടെ ബ്രൗസർ വോയ്‌സ് ഇൻപുട്ട് പിന്തുണയ്ക്കുന്നില്ല.',
+  'input.readFileFailed': 'ഫയൽ വായിക്കാനായില്ല. വീണ്ടും ശ്രമിക്കുക.',
+  'mic.denied': 'മൈക്രോഫോൺ അനുമതി നിഷേധിച്ചു. ബ്രൗസറിലോ ഉപകരണ ക്രമീകരണങ്ങളിലോ മൈക്ക് അനുമതി നൽകുക.',
+  'mic.noSpeech': 'സംസാരം ഒന്നും കേട്ടില്ല. സംസാരിക്കാൻ മൈക്ക് വീണ്ടും ടാപ്പ് ചെയ്യുക.',
+  'mic.busy': 'മൈക്രോഫോൺ പിശക്. മറ്റൊരു ആപ്പ് അത് ഉപയോഗിക്കുന്നുണ്ടാകാം. പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.',
+  'mic.failed': 'മൈക്രോഫോൺ പിശക് സംഭവിച്ചു. കണക്ഷൻ പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.',
+
+  'command.image': 'ചിത്രം സൃഷ്ടിക്കുക. ശൈലികൾ: {styles}',
+  'command.edit': 'ചേർത്ത ഫോട്ടോ എഡിറ്റ് ചെയ്യുക',
+  'command.video': 'ചേർത്ത ഫോട്ടോ വീഡിയോ ആക്കുക',
+  'command.summarize': 'ഈ ചാറ്റ്, ചേർത്ത ടെക്സ്റ്റ് ഫയൽ അല്ലെങ്കിൽ നൽകിയ വാചകം സംഗ്രഹിക്കുക',
+  'command.lang': 'മറ്റൊരു ഭാഷയിൽ മറുപടി: {languages}',
+  'command.briefing': 'ഗോകർണയിലെ ഇന്നത്തെ കാലാവസ്ഥ, വേലിയേറ്റം, പരിപാടികൾ',
+  'command.plan': 'യാത്ര ആസൂത്രണം ചെയ്യുക, ഉദാ. /plan 3 days',
+  'command.new': 'പുതിയ ചാറ്റ് ആരംഭിക്കുക',
+  'command.needImagePrompt': 'എന്ത് വരയ്ക്കണമെന്ന് പറയൂ, ഉദാ. /image Om Beach at sunset --style Watercolor',
+  'command.unknownStyle': 'അറിയാത്ത ശൈലി. ഇവയിൽ ഒന്ന് തിരഞ്ഞെടുക്കുക: {styles}',
+  'command.needEditPrompt': 'ഫോട്ടോ എങ്ങനെ മാറ്റണമെന്ന് പറയൂ, ഉദാ. /edit make the sky pink',
+  'command.unknownLanguage': 'അറിയാത്ത ഭാഷ. ഇവയിൽ ഒന്ന് തിരഞ്ഞെടുക്കുക: {languages}',
+  'command.unknown': 'അറിയാത്ത കമാൻഡ് "/{name}". പട്ടിക കാണാൻ / ടൈപ്പ് ചെയ്യുക.',
+
+  'message.generatingVideo': 'വീഡിയോ സൃഷ്ടിക്കുന്നു... ഇതിന് കുറച്ച് മിനിറ്റുകൾ എടുത്തേക്കാം.',
+  'message.cancelVideo': 'വീഡിയോ സൃഷ്ടിക്കൽ റദ്ദാക്കുക',
+  'message.previousVersion': 'മുൻ പതിപ്പ്',
+  'message.nextVersion': 'അടുത്ത പതിപ്പ്',
+  'message.edit': 'സന്ദേശം എഡിറ്റ് ചെയ്യുക',
+  'message.saveAndSend': 'സംരക്ഷിച്ച് അയയ്ക്കുക',
+  'message.stopped': 'മറുപടി നിർത്തി.',
+  'message.retry': 'വീണ്ടും ശ്രമിക്കുക',
+  'message.retryLabel': 'അഭ്യർത്ഥന വീണ്ടും അയയ്ക്കുക',
+  'message.share': 'പങ്കിടുക',
+  'message.shareLabel': 'സന്ദേശം പങ്കിടുക',
+  'message.shareTitle': 'ഗോകർണ ഗൈഡ് നുറുങ്ങ്',
+  'message.copy': 'പകർത്തുക',
+  'message.copyLabel': 'സന്ദേശത്തിന്റെ വാചകം പകർത്തുക',
+  'message.copied': 'പകർത്തി!',
+  'message.summarize': 'സംഗ്രഹം',
+  'message.summarizeLabel': 'വാചകം സംഗ്രഹിക്കുക',
+  'message.regenerate': 'വീണ്ടും സൃഷ്ടിക്കുക',
+  'message.regenerateLabel': 'മറുപടി വീണ്ടും സൃഷ്ടിക്കുക',
+  'message.translate': 'വിവർത്തനം',
+  'message.translateLabel': 'സന്ദേശം വിവർത്തനം ചെയ്യുക',
+  'message.translateTo': 'ഈ ഭാഷയിലേക്ക് വിവർത്തനം…',
+  'message.translating': 'വിവർത്തനം ചെയ്യുന്നു…',
+  'message.translatedTo': '{language} വിവർത്തനം',
+  'message.hideTranslation': 'വിവർത്തനം മറയ്ക്കുക',
+  'message.image': 'ഗോകർണ ചിത്രം {number}',
+  'message.downloadImage': 'ചിത്രം ഡൗൺലോഡ് ചെയ്യുക',
+  'message.sources': 'ഉറവിടങ്ങൾ:',
+  'message.showMap': 'മാപ്പിൽ കാണിക്കുക ({count})',
+  'message.hideMap': 'മാപ്പ് മറയ്ക്കുക',
+  'message.dataset': 'ഗോകർണ ഗൈഡ് ഡാറ്റാസെറ്റ്',
+  'message.datasetVersion': 'ഗോകർണ ഗൈഡ് ഡാറ്റാസെറ്റ് v{version}, {date}ന് പരിശോധിച്ചത്',
+  'message.openInMaps': 'മാപ്സിൽ തുറക്കുക',
+  'message.editPrompt': '(എഡിറ്റ് നിർദ്ദേശം: {prompt})',
+  'message.videoPrompt': '(വീഡിയോ നിർദ്ദേശം: {prompt})',
+  'briefing.highLow': 'കൂടിയത് {high}° · കുറഞ്ഞത് {low}°',
+  'briefing.sunset': 'സൂര്യാസ്തമയം',
+  'briefing.tides': 'വേലിയേറ്റവും ഇറക്കവും',
+  'briefing.highTide': '{time}-ന് വേലിയേറ്റം',
+  'briefing.lowTide': '{time}-ന് വേലിയിറക്കം',
+  'briefing.noTides': 'ഇന്നത്തെ വേലിയേറ്റ സമയങ്ങൾ കണ്ടെത്തിയില്ല.',
+  'briefing.now': 'ഇപ്പോൾ',
+  'briefing.gem': 'ഇന്നത്തെ രത്നം',
+  'briefing.safetyTip': 'സുരക്ഷാ നിർദ്ദേശം',
+
+  'itinerary.perPerson': 'ഒരാൾക്ക് ഏകദേശം {amount}',
+  'itinerary.day': 'ദിവസം {number}',
+  'itinerary.nothingPlanned': 'ഇതുവരെ ഒന്നും ആസൂത്രണം ചെയ്തിട്ടില്ല.',
+  'itinerary.free': 'സൗജന്യം',
+  'itinerary.moveEarlier': '{place} നേരത്തെയാക്കുക',
+  'itinerary.moveLater': '{place} പിന്നീടാക്കുക',
+  'itinerary.remove': '{place} നീക്കം ചെയ്യുക',
+  'itinerary.refinePlaceholder': 'മാറ്റം ആവശ്യപ്പെടുക, ഉദാ. ദിവസം 2-ൽ ബോട്ട് യാത്ര ചേർക്കുക',
+  'itinerary.refineLabel': 'പദ്ധതിയിൽ മാറ്റം ആവശ്യപ്പെടുക',
+  'itinerary.refine': 'മാറ്റുക',
+
+  'hotels.rated': '5-ൽ {rating} റേറ്റിംഗ്',
+  'hotels.book': 'ബുക്ക് ചെയ്യുക',
+  'hotels.detail': 'വിശദാംശം',
+  'hotels.area': 'പ്രദേശം',
+  'hotels.perNight': 'ഒരു രാത്രിക്ക്',
+  'hotels.rating': 'റേറ്റിംഗ്',
+  'hotels.amenities': 'സൗകര്യങ്ങൾ',
+  'hotels.pros': 'ഗുണങ്ങൾ',
+  'hotels.cons': 'ദോഷങ്ങൾ',
+  'hotels.booking': 'ബുക്കിംഗ്',
+  'hotels.aNight': 'രാത്രിക്ക് {price}',
+  'hotels.addToShortlist': '{name} ഷോർട്ട്‌ലിസ്റ്റിൽ ചേർക്കുക',
+  'hotels.removeFromShortlist': '{name} ഷോർട്ട്‌ലിസ്റ്റിൽ നിന്ന് നീക്കുക',
+  'hotels.compare': 'താരതമ്യം ചെയ്യുക',
+  'hotels.compareSelected': 'തിരഞ്ഞെടുത്തവ താരതമ്യം ചെയ്യുക ({count})',
+  'hotels.hideComparison': 'താരതമ്യം മറയ്ക്കുക',
+  'hotels.shortlistTitle': 'ഹോട്ടൽ ഷോർട്ട്‌ലിസ്റ്റ്',
+  'hotels.shortlistEmpty': 'ഇതുവരെ ഒന്നും സംരക്ഷിച്ചിട്ടില്ല. ഹോട്ടൽ കാർഡിലെ ബുക്ക്‌മാർക്ക് ഉപയോഗിച്ച് ഇവിടെ ചേർക്കുക.',
+
+  'map.stop': 'യാത്രാ പദ്ധതിയിലെ സ്റ്റോപ്പ്',
+  'map.place': 'Google Maps-ൽ നിന്ന്',
+  'map.poi': 'ഗൈഡിൽ നിന്ന്',
+  'map.label': '{places} മാപ്പ്',
+  'map.askAbout': '{place}. ഇതിനെക്കുറിച്ച് ചോദിക്കുക',
+  'map.yourLocation': 'നിങ്ങളുടെ സ്ഥാനം',
+  'map.youAreHere': 'നിങ്ങൾ ഇവിടെയാണ്',
+  'map.walkingPath': 'നടപ്പാത',
+  'map.distance': 'നിങ്ങൾ ഏകദേശം {distance} കി.മീ അകലെയാണ്',
+  'map.schematic': 'രേഖാചിത്ര മാപ്പ്; വഴി കാണിക്കാനുള്ളതല്ല',
+  'map.notOnMap': 'ഈ മാപ്പിൽ ഇല്ല:',
+
+  'history.newChat': 'പുതിയ ചാറ്റ്',
+  'history.startNewChat': 'പുതിയ ചാറ്റ് ആരംഭിക്കുക',
+  'history.library': 'ലൈബ്രറി',
+  'history.trash': 'ട്രാഷ്',
+  'history.trashCount': 'ട്രാഷ് ({count})',
+  'history.viewHistory': 'ചാറ്റ് ചരിത്രം കാണുക',
+  'history.viewLibrary': 'ചിത്ര ലൈബ്രറി കാണുക',
+  'history.viewTrash': 'ഇല്ലാതാക്കിയ ചാറ്റുകൾ കാണുക',
+  'history.search': 'എല്ലാ ചാറ്റുകളിലും തിരയുക',
+  'history.filterByTopic': 'വിഷയം അനുസരിച്ച് ചാറ്റുകൾ ഫിൽട്ടർ ചെയ്യുക',
+  'history.allTopics': 'എല്ലാം',
+  'history.noMatches': '"{query}" എന്നതുമായി പൊരുത്തപ്പെടുന്ന സന്ദേശങ്ങളില്ല.',
+  'history.pinned': 'പിൻ ചെയ്തവ',
+  'history.chats': 'ചാറ്റുകൾ',
+  'history.noChats': 'മുൻ സംഭാഷണങ്ങളില്ല.',
+  'history.pin': 'പിൻ ചെയ്യുക',
+  'history.unpin': 'പിൻ നീക്കുക',
+  'history.pinLabel': 'ചാറ്റ് പിൻ ചെയ്യുക: {title}',
+  'history.unpinLabel': 'ചാറ്റിന്റെ പിൻ നീക്കുക: {title}',
+  'history.move': 'ഫോൾഡറിലേക്ക് മാറ്റുക',
+  'history.moveLabel': 'ചാറ്റ് ഫോൾഡറിലേക്ക് മാറ്റുക: {title}',
+  'history.rename': 'പേരുമാറ്റുക',
+  'history.renameLabel': 'ചാറ്റിന്റെ പേരുമാറ്റുക: {title}',
+  'history.export': 'എക്സ്പോർട്ട്',
+  'history.exportLabel': 'ചാറ്റ് എക്സ്പോർട്ട് ചെയ്യുക: {title}',
+  'history.delete': 'ഇല്ലാതാക്കുക',
+  'history.deleteLabel': 'ചാറ്റ് ഇല്ലാതാക്കുക: {title}',
+  'history.folderName': 'ഫോൾഡറിന്റെ പേര്',
+  'history.renameFolder': 'ഫോൾഡറിന്റെ പേരുമാറ്റുക: {name}',
+  'history.deleteFolder': 'ഫോൾഡർ ഇല്ലാതാക്കുക: {name} (അതിലെ ചാറ്റുകൾ നിലനിൽക്കും)',
+  'history.emptyFolder': 'ഈ ഫോൾഡറിൽ ചാറ്റുകളില്ല.',
+  'history.generatedArt': 'സൃഷ്ടിച്ച ചിത്രം',
+  'history.noImages': 'ഇതുവരെ ചിത്രങ്ങളൊന്നും സൃഷ്ടിച്ചിട്ടില്ല.',
+  'history.retention': 'ട്രാഷിലെ ചാറ്റുകൾ ഇത്ര കഴിഞ്ഞ് ഇല്ലാതാക്കുക',
+  'history.days': '{count} ദിവസം',
+  'history.purgeDate': '{date}ന് എന്നേക്കുമായി ഇല്ലാതാകും',
+  'history.restore': 'പുനഃസ്ഥാപിക്കുക',
+  'history.restoreLabel': 'ചാറ്റ് പുനഃസ്ഥാപിക്കുക: {title}',
+  'history.deleteForever': 'എന്നേക്കുമായി ഇല്ലാതാക്കുക',
+  'history.deleteForeverLabel': 'ചാറ്റ് എന്നേക്കുമായി ഇല്ലാതാക്കുക: {title}',
+  'history.trashEmpty': 'ട്രാഷ് ശൂന്യമാണ്.',
+  'history.emptyTrash': 'ട്രാഷ് ശൂന്യമാക്കുക',
+  'history.import': 'ഇംപോർട്ട്',
+  'history.exportAll': 'എല്ലാം എക്സ്പോർട്ട് ചെയ്യുക',
+  'history.clearAll': 'എല്ലാ ചാറ്റുകളും മായ്ക്കുക',
+  'history.lock': 'ചരിത്ര ലോക്ക്',
+  'history.lockNow': 'ഇപ്പോൾ ലോക്ക് ചെയ്യുക',
+  'history.clearTitle': 'എല്ലാ സംഭാഷണങ്ങളും മായ്ക്കണോ?',
+  'history.clearBody': 'എല്ലാ ചാറ്റുകളും ട്രാഷിലേക്ക് പോകും, അവിടെ നിന്ന് {days} ദിവസം വരെ പുനഃസ്ഥാപിക്കാം.',
+  'history.confirmDelete': 'ഇല്ലാതാക്കൽ സ്ഥിരീകരിക്കുക',
+  'history.emptyTrashTitle': 'ട്രാഷ് ശൂന്യമാക്കണോ?',
+  'history.emptyTrashBody': 'ഇത് പഴയപടിയാക്കാനാവില്ല. {count} ചാറ്റ്(കൾ) എന്നേക്കുമായി ഇല്ലാതാകും.',
+  'history.moveTitle': '"{title}" മാറ്റുക',
+  'history.removeFromFolder': 'ഫോൾഡറിൽ നിന്ന് നീക്കുക',
+  'history.newFolderPlaceholder': 'പുതിയ ഫോൾഡർ, ഉദാ. ഡിസംബർ 2026 യാത്ര',
+  'history.newFolderLabel': 'പുതിയ ഫോൾഡറിന്റെ പേര്',
+  'history.createFolder': 'സൃഷ്ടിക്കുക',
+  'history.exportOne': '"{title}" എക്സ്പോർട്ട് ചെയ്യുക',
+  'history.exportMany': '{count} ചാറ്റുകൾ എക്സ്പോർട്ട് ചെയ്യുക',
+  'history.exportHint': 'JSON ഏത് ഉപകരണത്തിലും വീണ്ടും ഇംപോർട്ട് ചെയ്യാം. Markdown, HTML എന്നിവ വായിക്കാനും പങ്കിടാനുമുള്ളതാണ്.',
+  'history.exportHtml': 'വെബ് പേജ് (HTML)',
+
+  'tag.beaches': 'ബീച്ചുകൾ',
+  'tag.hotels': 'ഹോട്ടലുകൾ',
+  'tag.food': 'ഭക്ഷണം',
+  'tag.temples': 'ക്ഷേത്രങ്ങൾ',
+  'tag.itinerary': 'യാത്രാ പദ്ധതി',
+  'tag.transport': 'യാത്രാസൗകര്യം',
+  'tag.weather': 'കാലാവസ്ഥ',
+  'tag.shopping': 'ഷോപ്പിംഗ്',
+
+  'lock.passphrase': 'പാസ്‌ഫ്രേസ്',
+  'lock.currentPassphrase': 'നിലവിലെ പാസ്‌ഫ്രേസ്',
+  'lock.newPassphrase': 'പുതിയ പാസ്‌ഫ്രേസ്',
+  'lock.repeatPassphrase': 'പാസ്‌ഫ്രേസ് വീണ്ടും നൽകുക',
+  'lock.tooShort': 'കുറഞ്ഞത് {count} അക്ഷരങ്ങൾ ഉപയോഗിക്കുക.',
+  'lock.mismatch': 'പാസ്‌ഫ്രേസുകൾ പൊരുത്തപ്പെടുന്നില്ല.',
+  'lock.wrongCurrent': 'നിങ്ങളുടെ നിലവിലെ പാസ്‌ഫ്രേസ് ശരിയല്ല.',
+  'lock.reencryptFailed': 'ചാറ്റ് ചരിത്രം വീണ്ടും എൻക്രിപ്റ്റ് ചെയ്യാനായില്ല. ഒന്നും മാറ്റിയിട്ടില്ല.',
+  'lock.isOn': 'നിങ്ങളുടെ ചാറ്റുകൾ, അപ്‌ലോഡുകൾ, ഫോൾഡറുകൾ ഈ ഉപകരണത്തിൽ എൻക്രിപ്റ്റ് ചെയ്തിരിക്കുന്നു.',
+  'lock.intro': 'ഈ ഉപകരണത്തിൽ നിങ്ങളുടെ ചാറ്റുകൾ, അപ്‌ലോഡുകൾ, ഫോൾഡറുകൾ എൻക്രിപ്റ്റ് ചെയ്ത്, കാണിക്കുന്നതിന് മുമ്പ് പാസ്‌ഫ്രേസ് ചോദിക്കുക. പങ്കിട്ടതോ കുടുംബത്തിന്റെയോ ഉപകരണങ്ങളിൽ ഉപകാരപ്രദം.',
+  'lock.noRecovery': 'മറന്ന പാസ്‌ഫ്രേസ് വീണ്ടെടുക്കാൻ വഴിയില്ല; ചരിത്രം മായ്ക്കാൻ മാത്രമേ കഴിയൂ.',
+  'lock.encrypting': 'എൻക്രിപ്റ്റ് ചെയ്യുന്നു…',
+  'lock.change': 'പാസ്‌ഫ്രേസ് മാറ്റുക',
+  'lock.turnOn': 'ലോക്ക് ഓണാക്കുക',
+  'lock.idleFor': 'ഇത്രയും നേരം നിഷ്‌ക്രിയമായാൽ ലോക്ക് ചെയ്യുക',
+  'lock.turnOff': 'ലോക്ക് ഓഫാക്കി ചരിത്രം ഡീക്രിപ്റ്റ് ചെയ്യുക',
+  'unlock.title': 'ചാറ്റ് ചരിത്രം ലോക്ക് ചെയ്തിരിക്കുന്നു',
+  'unlock.body': 'നിങ്ങളുടെ ഗോകർണ ഗൈഡ് ചാറ്റുകൾ തുറക്കാൻ പാസ്‌ഫ്രേസ് നൽകുക.',
+  'unlock.unlock': 'അൺലോക്ക് ചെയ്യുക',
+  'unlock.unlocking': 'അൺലോക്ക് ചെയ്യുന്നു…',
+  'unlock.forgot': 'പാസ്‌ഫ്രേസ് മറന്നോ?',
+  'unlock.wrong': 'ആ പാസ്‌ഫ്രേസ് ശരിയല്ല.',
+  'unlock.failed': 'ചാറ്റ് ചരിത്രം തുറക്കാനായില്ല. വീണ്ടും ശ്രമിക്കുക.',
+  'unlock.eraseFailed': 'ചാറ്റ് ചരിത്രം മായ്ക്കാനായില്ല. വീണ്ടും ശ്രമിക്കുക.',
+  'unlock.eraseTitle': 'മുഴുവൻ ചാറ്റ് ചരിത്രവും മായ്ക്കണോ?',
+  'unlock.eraseBody': 'പാസ്‌ഫ്രേസ് ഇല്ലാതെ നിങ്ങളുടെ ചാറ്റുകൾ ഡീക്രിപ്റ്റ് ചെയ്യാനാവില്ല. മായ്ച്ചാൽ ഈ ഉപകരണത്തിലെ എല്ലാ ചാറ്റും ഫോൾഡറും അറ്റാച്ച്‌മെന്റും ഇല്ലാതാകുകയും ലോക്ക് ഓഫാകുകയും ചെയ്യും.',
+  'unlock.erase': 'ചരിത്രം മായ്ക്കുക',
+
+  'live.title': 'തത്സമയ സംഭാഷണം',
+  'live.back': 'ചാറ്റിലേക്ക് മടങ്ങുക',
+  'live.bot': 'ബോട്ട്',
+  'live.connecting': 'കണക്റ്റ് ചെയ്യുന്നു...',
+  'live.connected': 'കണക്റ്റ് ചെയ്തു',
+  'live.error': 'കണക്ഷൻ പിശക്',
+  'live.closed': 'കണക്ഷൻ അടച്ചു',
+  'live.idle': 'നിഷ്‌ക്രിയം',
+
+  'notice.unreadable': '⚠️ സംരക്ഷിച്ച ചില ചരിത്രം വായിക്കാനായില്ല ({sessions} ചാറ്റ്, {messages} സന്ദേശം). അത് ഇല്ലാതാക്കാതെ മാറ്റിവെച്ചു; ബാക്കിയെല്ലാം പുനഃസ്ഥാപിച്ചു.',
+  'notice.locationFailed': '⚠️ നിങ്ങളുടെ സ്ഥാനം ലഭ്യമായില്ല. സമീപ തിരയൽ കൃത്യത കുറഞ്ഞതായിരിക്കും.',
+  'notice.geolocationUnsupported': '⚠️ നിങ്ങളുടെ ബ്രൗസർ ജിയോലൊക്കേഷൻ പിന്തുണയ്ക്കുന്നില്ല.',
+  'notice.imported': '📥 {count} ചാറ്റ്(കൾ) ഇംപോർട്ട് ചെയ്തു.',
+  'notice.importSkipped': '{count} എണ്ണം വായിക്കാനാകാത്തതിനാൽ ഒഴിവാക്കി.',
+  'notice.importFailed': '⚠️ ഇംപോർട്ട് പരാജയപ്പെട്ടു: {error}',
+  'notice.modelSwitched': '{model}ലേക്ക് മാറ്റി.',
+  'notice.busyElsewhere': '⚠️ ഈ ചാറ്റ് ഇതിനകം മറ്റൊരു ടാബിൽ മറുപടി നൽകുന്നുണ്ട്. അത് പൂർത്തിയാകും വരെ കാത്തിരിക്കുക, അല്ലെങ്കിൽ അവിടെ നിർത്തുക.',
+  'notice.summarizing': 'സംഗ്രഹിക്കുന്നു...',
+  'notice.nothingToSummarize': 'സംഗ്രഹിക്കാൻ ഇതുവരെ ഒന്നുമില്ല.',
+  'reply.image': 'നിങ്ങൾക്കായി സൃഷ്ടിച്ച ചിത്രം ഇതാ:',
+  'reply.editedImage': 'എഡിറ്റ് ചെയ്ത ചിത്രം ഇതാ:',
+  'reply.video': 'സൃഷ്ടിച്ച വീഡിയോ ഇതാ:',
+  'reply.videoCancelled': 'വീഡിയോ സൃഷ്ടിക്കൽ റദ്ദാക്കി.',
+  'reply.artStyle': 'സർഗ്ഗാത്മകമായ ആശയം! ഏത് കലാ ശൈലിയാണ് വേണ്ടത്?',
+  'reply.summary': 'സംഗ്രഹം',
+};
+
+export const ML_IN: LanguagePack = {
+  voiceFallbacks: [],
+  welcome: "ഞാൻ നിങ്ങളുടെ സൗഹൃദപരമായ പ്രാദേശിക കൂട്ടാളിയാണ്. നിങ്ങൾ ബീച്ചുകൾ പര്യവേക്ഷണം ചെയ്യാനോ, അടുത്തുള്ള കഫേകൾ കണ്ടെത്താനോ, അല്ലെങ്കിൽ ഒരു ചെറിയ യാത്രാവിവരണം ആസൂത്രണം ചെയ്യാനോ ആഗ്രഹിക്കുന്നുണ്ടോ?",
+  suggestions: [
+    { text: 'ബീച്ചുകൾ', icon: 'beach' },
+    { text: 'ഹോട്ടലുകൾ', icon: 'hotel' },
+    { text: 'പ്രാദേശിക ഭക്ഷണം', icon: 'food' },
+    { text: 'ക്ഷേത്ര സന്ദർശനം', icon: 'temple' },
+  ],
+  briefingLabel: 'ഇന്നത്തെ ബ്രീഫിംഗ്',
+  tripPlanLabel: 'യാത്രാ പദ്ധതി',
+  tripPlanPrompt: "തീർച്ചയായും! നിങ്ങൾക്കായി ശരിയായ യാത്രാവിവരണം തയ്യാറാക്കാൻ, എനിക്ക് കുറച്ച് വിവരങ്ങൾ ആവശ്യമുണ്ട്. നിങ്ങൾ എത്ര ദിവസം താമസിക്കും, നിങ്ങളുടെ പ്രധാന താൽപ്പര്യങ്ങൾ എന്തൊക്കെയാണ് (ഉദാഹരണത്തിന്, ബീച്ചുകൾ, ക്ഷേത്രങ്ങൾ, സാഹസികത, വിശ്രമം)?",
+  clarifyIntentPrompt: 'ഉറപ്പാക്കാൻ, ഞാൻ എന്താണ് ചെയ്യേണ്ടതെന്ന് നിങ്ങൾ ആഗ്രഹിക്കുന്നത്?',
+  intentLabels: { 'chat': 'മറുപടി മാത്രം മതി', 'generate-image': 'ചിത്രം സൃഷ്ടിക്കുക', 'edit-image': 'എന്റെ ഫോട്ടോ എഡിറ്റ് ചെയ്യുക', 'change-language': 'ഭാഷ മാറ്റുക', 'trip-plan': 'എന്റെ യാത്ര പ്ലാൻ ചെയ്യുക', 'update-itinerary': 'എന്റെ പ്ലാൻ മാറ്റുക' },
+  placeQuestion: '{place} നെക്കുറിച്ച് കൂടുതൽ പറയൂ',
+  sustainabilityTip: "ഗോകർണയെ മനോഹരമായി സംരക്ഷിക്കാൻ ഒരു ചെറിയ ഓർമ്മപ്പെടുത്തൽ: പുനരുപയോഗിക്കാവുന്ന വെള്ളക്കുപ്പി ഉപയോഗിക്കുന്നതും ഞങ്ങളുടെ അത്ഭുതകരമായ പ്രാദേശിക കടകളെ പിന്തുണയ്ക്കുന്നതും പരിഗണിക്കുക. ഓരോ ചെറിയ സഹായവും പ്രധാനമാണ്! 💚",
+  errors: {
+    'safety': "സുരക്ഷാ ഫിൽട്ടറുകൾ ഈ അഭ്യർത്ഥന തടഞ്ഞതിനാൽ എനിക്ക് സഹായിക്കാനാവില്ല. ദയവായി മറ്റൊരു രീതിയിൽ ചോദിക്കാമോ അല്ലെങ്കിൽ മറ്റെന്തെങ്കിലും ചോദിക്കാമോ?",
+    'quota': "ഇപ്പോൾ ധാരാളം അഭ്യർത്ഥനകൾ വരുന്നു, ഉപയോഗ പരിധിയിൽ എത്തി. ദയവായി അൽപ്പസമയം കഴിഞ്ഞ് വീണ്ടും ശ്രമിക്കുക.",
+    'network': "സെർവറിൽ എത്താൻ കഴിഞ്ഞില്ല. ദയവായി നിങ്ങളുടെ ഇന്റർനെറ്റ് കണക്ഷൻ പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.",
+    'invalid-input': "ഈ അഭ്യർത്ഥന കൈകാര്യം ചെയ്യാൻ കഴിഞ്ഞില്ല. ദയവായി മറ്റൊരു പ്രോംപ്റ്റ്, ചിത്രം അല്ലെങ്കിൽ ഫയൽ പരീക്ഷിക്കുക.",
+    'model-unavailable': "AI മോഡൽ താൽക്കാലികമായി ലഭ്യമല്ല. ദയവായി അൽപ്പസമയത്തിന് ശേഷം വീണ്ടും ശ്രമിക്കുക.",
+    'unknown': "ക്ഷമിക്കണം, എന്റെ ഭാഗത്ത് എന്തോ പിഴവ് സംഭവിച്ചു. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  },
+  messages: MESSAGES,
+};
@@ -0,0 +1,305 @@
+import type { Catalog } from '../services/i18n';
+import type { LanguagePack } from '../services/languagePacks';
+
+const MESSAGES: Catalog = {
+  'common.cancel': 'रद्द करा',
+  'common.close': 'बंद करा',
+  'common.minutes': '{count} मिनिटे',
+  'common.you': 'तुम्ही',
+  'common.guide': 'मार्गदर्शक',
+
+  'language.label': 'भाषा',
+  'language.switched': 'नक्कीच! आता मी {language} मध्ये उत्तर देईन.',
+
+  'header.toggleHistory': 'इतिहास पॅनेल दाखवा किंवा लपवा',
+  'header.history': 'इतिहास',
+  'header.shortlist': 'हॉटेल शॉर्टलिस्ट',
+  'header.shortlistLabel': 'हॉटेल शॉर्टलिस्ट, {count} जतन केली',
+  'header.mute': 'बॉटचा आवाज बंद करा',
+  'header.unmute': 'बॉटचा आवाज चालू करा',
+  'header.selectModel': 'मॉडेल निवडा',
+  'header.bilingual': 'दोन भाषांत उत्तरे',
+  'header.bilingualOff': 'बंद',
+  'welcome.title': 'तुमचा गोकर्ण सोबती',
+  'chat.scrollToBottom': 'खाली जा',
+
+  'model.gemini-2.5-pro': 'सर्वात सक्षम. प्रवासाचे नियोजन आणि सविस्तर शोधासाठी उत्तम.',
+  'model.gemini-2.5-flash': 'जलद आणि किफायतशीर. छोट्या प्रश्नांसाठी उत्तम.',
+
+  'input.placeholder': 'गोकर्णबद्दल विचारा, किंवा आदेशांसाठी / टाइप करा',
+  'input.addFiles': 'फाइल जोडा',
+  'input.uploadImage': 'चित्र अपलोड करा',
+  'input.uploadText': 'मजकूर फाइल अपलोड करा',
+  'input.generateVideo': 'व्हिडिओ तयार करा',
+  'input.commands': 'आदेश',
+  'input.attachOnePhoto': '(एक फोटो जोडा)',
+  'input.removeFile': '{name} काढा',
+  'input.stop': 'थांबवा',
+  'input.stopListening': 'ऐकणे थांबवा',
+  'input.stopGenerating': 'उत्तर थांबवा',
+  'input.send': 'संदेश पाठवा',
+  'input.voiceMode': 'व्हॉइस मोड वापरा',
+  'input.videoPrompt': 'व्हिडिओसाठी वर्णन द्या:',
+  'input.videoLandscape': 'लँडस्केप (16:9) मध्ये तयार करायचा? पोर्ट्रेट (9:16) साठी रद्द करा.',
+  'input.needOneImage': '/{command} वापरण्यासाठी नेमके एक चित्र अपलोड करा.',
+  'input.needOneImageForVideo': 'व्हिडिओ तयार करण्यासाठी नेमके एक चित्र अपलोड करा.',
+  'input.voiceUnsupported': 'तुमचा ब्राउझर व्हॉइस इनपुटला समर्थन देत नाही.',
+  'input.readFileFailed': 'फाइल वाचता आली नाही. कृपया पुन्हा प्रयत्न करा.',
+  'mic.denied': 'मायक्रोफोनची परवानगी नाकारली. ब्राउझर किंवा डिव्हाइस सेटिंग्जमध्ये माइकला परवानगी द्या.',
+  'mic.noSpeech': 'काहीच बोलणे ऐकू आले नाही. बोलण्यासाठी माइक पुन्हा टॅप करा.',
+  'mic.busy': 'मायक्रोफोन त्रुटी. दुसरे ॲप तो वापरत असेल. तपासून पुन्हा प्रयत्न करा.',
+  'mic.failed': 'मायक्रोफोन त्रुटी आली. तुमचे कनेक्शन तपासून पुन्हा प्रयत्न करा.',
+
+  'command.image': 'चित्र तयार करा. शैली: {styles}',
+  'command.edit': 'जोडलेला फोटो संपादित करा',
+  'command.video': 'जोडलेल्या फोटोचा व्हिडिओ करा',
+  'command.summarize': 'हा चॅट, जोडलेली मजकूर फाइल किंवा दिलेल्या मजकुराचा सारांश',
+  'command.lang': 'दुसऱ्या भाषेत उत्तर: {languages}',
+  'command.briefing': 'गोकर्णमधील आजचे हवामान, भरती-ओहोटी आणि कार्यक्रम',
+  'command.plan': 'सहलीचे नियोजन करा, उदा. /plan 3 days',
+  'command.new': 'नवीन चॅट सुरू करा',
+  'command.needImagePrompt': 'काय काढायचे ते सांगा, उदा. /image Om Beach at sunset --style Watercolor',
+  'command.unknownStyle': 'अज्ञात शैली. यापैकी एक निवडा: {styles}',
+  'command.needEditPrompt': 'फोटोत काय बदलायचे ते सांगा, उदा. /edit make the sky pink',
+  'command.unknownLanguage': 'अज्ञात भाषा. यापैकी एक निवडा: {languages}',
+  'command.unknown': 'अज्ञात आदेश "/{name}". यादीसाठी / टाइप करा.',
+
+  'message.generatingVideo': 'व्हिडिओ तयार होत आहे... याला काही मिनिटे लागू शकतात.',
+  'message.cancelVideo': 'व्हिडिओ तयार करणे रद्द करा',
+  'message.previousVersion': 'मागील आवृत्ती',
+  'message.nextVersion': 'पुढील आवृत्ती',
+  'message.edit': 'संदेश संपादित करा',
+  'message.saveAndSend': 'जतन करून पाठवा',
+  'message.stopped': 'उत्तर थांबवले.',
+  'message.retry': 'पुन्हा प्रयत्न करा',
+  'message.retryLabel': 'विनंती पुन्हा पाठवा',
+  'message.share': 'शेअर करा',
+  'message.shareLabel': 'संदेश शेअर करा',
+  'message.shareTitle': 'गोकर्ण गाइड टीप',
+  'message.copy': 'कॉपी करा',
+  'message.copyLabel': 'संदेशाचा मजकूर कॉपी करा',
+  'message.copied': 'कॉपी झाले!',
+  'message.summarize': 'सारांश',
+  'message.summarizeLabel': 'मजकुराचा सारांश करा',
+  'message.regenerate': 'पुन्हा तयार करा',
+  'message.regenerateLabel': 'उत्तर पुन्हा तयार करा',
+  'message.translate': 'भाषांतर',
+  'message.translateLabel': 'संदेशाचे भाषांतर करा',
+  'message.translateTo': 'या भाषेत भाषांतर…',
+  'message.translating': 'भाषांतर होत आहे…',
+  'message.translatedTo': '{language} मध्ये भाषांतर',
+  'message.hideTranslation': 'भाषांतर लपवा',
+  'message.image': 'गोकर्ण चित्र {number}',
+  'message.downloadImage': 'चित्र डाउनलोड करा',
+  'message.sources': 'स्रोत:',
+  'message.showMap': 'नकाशावर दाखवा ({count})',
+  'message.hideMap': 'नकाशा लपवा',
+  'message.dataset': 'गोकर्ण गाइड डेटासेट',
+  'message.datasetVersion': 'गोकर्ण गाइड डेटासेट v{version}, {date} रोजी तपासलेला',
+  'message.openInMaps': 'नकाशात उघडा',
+  'message.editPrompt': '(संपादन सूचना: {prompt})',
+  'message.videoPrompt': '(व्हिडिओ सूचना: {prompt})',
+  'briefing.highLow': 'कमाल {high}° · किमान {low}°',
+  'briefing.sunset': 'सूर्यास्त',
+  'briefing.tides': 'भरती-ओहोटी',
+  'briefing.highTide': '{time} वाजता भरती',
+  'briefing.lowTide': '{time} वाजता ओहोटी',
+  'briefing.noTides': 'आजच्या भरती-ओहोटीच्या वेळा सापडल्या नाहीत.',
+  'briefing.now': 'आता',
+  'briefing.gem': 'आजचे खास रत्न',
+  'briefing.safetyTip': 'सुरक्षा सूचना',
+
+  'itinerary.perPerson': 'प्रति व्यक्ती सुमारे {amount}',
+  'itinerary.day': 'दिवस {number}',
+  'itinerary.nothingPlanned': 'अजून काहीही ठरवलेले नाही.',
+  'itinerary.free': 'मोफत',
+  'itinerary.moveEarlier': '{place} आधी घ्या',
+  'itinerary.moveLater': '{place} नंतर घ्या',
+  'itinerary.remove': '{place} काढा',
+  'itinerary.refinePlaceholder': 'बदल सुचवा, उदा. दिवस 2 ला बोटीची सफर जोडा',
+  'itinerary.refineLabel': 'योजनेत बदल सुचवा',
+  'itinerary.refine': 'बदला',
+
+  'hotels.rated': '5 पैकी {rating} रेटिंग',
+  'hotels.book': 'बुक करा',
+  'hotels.detail': 'तपशील',
+  'hotels.area': 'परिसर',
+  'hotels.perNight': 'प्रति रात्र',
+  'hotels.rating': 'रेटिंग',
+  'hotels.amenities': 'सुविधा',
+  'hotels.pros': 'फायदे',
+  'hotels.cons': 'तोटे',
+  'hotels.booking': 'बुकिंग',
+  'hotels.aNight': '{price} प्रति रात्र',
+  'hotels.addToShortlist': '{name} शॉर्टलिस्टमध्ये जोडा',
+  'hotels.removeFromShortlist': '{name} शॉर्टलिस्टमधून काढा',
+  'hotels.compare': 'तुलना करा',
+  'hotels.compareSelected': 'निवडलेल्यांची तुलना करा ({count})',
+  'hotels.hideComparison': 'तुलना लपवा',
+  'hotels.shortlistTitle': 'हॉटेल शॉर्टलिस्ट',
+  'hotels.shortlistEmpty': 'अजून काहीही जतन केलेले नाही. हॉटेल कार्डवरील बुकमार्क वापरून येथे जोडा.',
+
+  'map.stop': 'प्रवास योजनेतील थांबा',
+  'map.place': 'Google Maps वरून',
+  'map.poi': 'मार्गदर्शकाकडून',
+  'map.label': '{places} चा नकाशा',
+  'map.askAbout': '{place}. याबद्दल विचारा',
+  'map.yourLocation': 'तुमचे स्थान',
+  'map.youAreHere': 'तुम्ही येथे आहात',
+  'map.walkingPath': 'पायवाट',
+  'map.distance': 'तुम्ही सुमारे {distance} किमी दूर आहात',
+  'map.schematic': 'आराखडा नकाशा; मार्गदर्शनासाठी नाही',
+  'map.notOnMap': 'या नकाशावर नाही:',
+
+  'history.newChat': 'नवीन चॅट',
+  'history.startNewChat': 'नवीन चॅट सुरू करा',
+  'history.library': 'संग्रह',
+  'history.trash': 'कचरापेटी',
+  'history.trashCount': 'कचरापेटी ({count})',
+  'history.viewHistory': 'चॅट इतिहास पहा',
+  'history.viewLibrary': 'चित्र संग्रह पहा',
+  'history.viewTrash': 'हटवलेले चॅट पहा',
+  'history.search': 'सर्व चॅटमध्ये शोधा',
+  'history.filterByTopic': 'विषयानुसार चॅट गाळा',
+  'history.allTopics': 'सर्व',
+  'history.noMatches': '"{query}" शी जुळणारे संदेश नाहीत.',
+  'history.pinned': 'पिन केलेले',
+  'history.chats': 'चॅट',
+  'history.noChats': 'मागील संभाषणे नाहीत.',
+  'history.pin': 'पिन करा',
+  'history.unpin': 'पिन काढा',
+  'history.pinLabel': 'चॅट पिन करा: {title}',
+  'history.unpinLabel': 'चॅटची पिन काढा: {title}',
+  'history.move': 'फोल्डरमध्ये हलवा',
+  'history.moveLabel': 'चॅट फोल्डरमध्ये हलवा: {title}',
+  'history.rename': 'नाव बदला',
+  'history.renameLabel': 'चॅटचे नाव बदला: {title}',
+  'history.export': 'निर्यात',
+  'history.exportLabel': 'चॅट निर्यात करा: {title}',
+  'history.delete': 'हटवा',
+  'history.deleteLabel': 'चॅट हटवा: {title}',
+  'history.folderName': 'फोल्डरचे नाव',
+  'history.renameFolder': 'फोल्डरचे नाव बदला: {name}',
+  'history.deleteFolder': 'फोल्डर हटवा: {name} (त्यातील चॅट राहतील)',
+  'history.emptyFolder': 'या फोल्डरमध्ये चॅट नाहीत.',
+  'history.generatedArt': 'तयार केलेले चित्र',
+  'history.noImages': 'अजून एकही चित्र तयार केलेले नाही.',
+  'history.retention': 'कचरापेटीतील चॅट इतक्या दिवसांनी हटवा',
+  'history.days': '{count} दिवस',
+  'history.purgeDate': '{date} रोजी कायमचे हटवले जाईल',
+  'history.restore': 'पुनर्संचयित करा',
+  'history.restoreLabel': 'चॅट पुनर्संचयित करा: {title}',
+  'history.deleteForever': 'कायमचे हटवा',
+  'history.deleteForeverLabel': 'चॅट कायमचे हटवा: {title}',
+  'history.trashEmpty': 'कचरापेटी रिकामी आहे.',
+  'history.emptyTrash': 'कचरापेटी रिकामी करा',
+  'history.import': 'आयात',
+  'history.exportAll': 'सर्व निर्यात करा',
+  'history.clearAll': 'सर्व चॅट साफ करा',
+  'history.lock': 'इतिहास लॉक',
+  'history.lockNow': 'आत्ता लॉक करा',
+  'history.clearTitle': 'सर्व संभाषणे साफ करायची?',
+  'history.clearBody': 'सर्व चॅट कचरापेटीत जातील, तिथून ते {days} दिवसांपर्यंत पुनर्संचयित करता येतील.',
+  'history.confirmDelete': 'हटवण्याची खात्री करा',
+  'history.emptyTrashTitle': 'कचरापेटी रिकामी करायची?',
+  'history.emptyTrashBody': 'हे परत घेता येणार नाही. {count} चॅट कायमचे हटवले जातील.',
+  'history.moveTitle': '"{title}" हलवा',
+  'history.removeFromFolder': 'फोल्डरमधून काढा',
+  'history.newFolderPlaceholder': 'नवीन फोल्डर, उदा. डिसेंबर 2026 सहल',
+  'history.newFolderLabel': 'नवीन फोल्डरचे नाव',
+  'history.createFolder': 'तयार करा',
+  'history.exportOne': '"{title}" निर्यात करा',
+  'history.exportMany': '{count} चॅट निर्यात करा',
+  'history.exportHint': 'JSON कोणत्याही डिव्हाइसवर पुन्हा आयात करता येते. Markdown आणि HTML वाचण्यासाठी व शेअर करण्यासाठी आहेत.',
+  'history.exportHtml': 'वेब पेज (HTML)',
+
+  'tag.beaches': 'समुद्रकिनारे',
+  'tag.hotels': 'हॉटेल',
+  'tag.food': 'खाद्यपदार्थ',
+  'tag.temples': 'मंदिरे',
+  'tag.itinerary': 'प्रवास योजना',
+  'tag.transport': 'वाहतूक',
+  'tag.weather': 'हवामान',
+  'tag.shopping': 'खरेदी',
+
+  'lock.passphrase': 'पासफ्रेज',
+  'lock.currentPassphrase': 'सध्याचा पासफ्रेज',
+  'lock.newPassphrase': 'नवीन पासफ्रेज',
+  'lock.repeatPassphrase': 'पासफ्रेज पुन्हा टाइप करा',
+  'lock.tooShort': 'किमान {count} अक्षरे वापरा.',
+  'lock.mismatch': 'पासफ्रेज जुळत नाहीत.',
+  'lock.wrongCurrent': 'तुमचा सध्याचा पासफ्रेज चुकीचा आहे.',
+  'lock.reencryptFailed': 'चॅट इतिहास पुन्हा एन्क्रिप्ट करता आला नाही. काहीही बदलले नाही.',
+  'lock.isOn': 'तुमचे चॅट, अपलोड आणि फोल्डर या डिव्हाइसवर एन्क्रिप्ट केलेले आहेत.',
+  'lock.intro': 'या डिव्हाइसवर तुमचे चॅट, अपलोड आणि फोल्डर एन्क्रिप्ट करा आणि ते दाखवण्यापूर्वी पासफ्रेज विचारा. शेअर केलेल्या किंवा कुटुंबाच्या डिव्हाइसवर उपयोगी.',
+  'lock.noRecovery': 'विसरलेला पासफ्रेज परत मिळवण्याचा मार्ग नाही; फक्त इतिहास पुसता येतो.',
+  'lock.encrypting': 'एन्क्रिप्ट होत आहे…',
+  'lock.change': 'पासफ्रेज बदला',
+  'lock.turnOn': 'लॉक चालू करा',
+  'lock.idleFor': 'इतका वेळ निष्क्रिय राहिल्यास लॉक करा',
+  'lock.turnOff': 'लॉक बंद करून इतिहास डिक्रिप्ट करा',
+  'unlock.title': 'चॅट इतिहास लॉक आहे',
+  'unlock.body': 'तुमचे गोकर्ण गाइड चॅट उघडण्यासाठी पासफ्रेज टाका.',
+  'unlock.unlock': 'अनलॉक करा',
+  'unlock.unlocking': 'अनलॉक होत आहे…',
+  'unlock.forgot': 'पासफ्रेज विसरलात?',
+  'unlock.wrong': 'तो पासफ्रेज चुकीचा आहे.',
+  'unlock.failed': 'चॅट इतिहास उघडता आला नाही. कृपया पुन्हा प्रयत्न करा.',
+  'unlock.eraseFailed': 'चॅट इतिहास पुसता आला नाही. कृपया पुन्हा प्रयत्न करा.',
+  'unlock.eraseTitle': 'संपूर्ण चॅट इतिहास पुसायचा?',
+  'unlock.eraseBody': 'पासफ्रेजशिवाय तुमचे चॅट डिक्रिप्ट करता येत नाहीत. पुसल्यास या डिव्हाइसवरील प्रत्येक चॅट, फोल्डर आणि जोडणी हटवली जाईल आणि लॉक बंद होईल.',
+  'unlock.erase': 'इतिहास पुसा',
+
+  'live.title': 'थेट संभाषण',
+  'live.back': 'चॅटकडे परत जा',
+  'live.bot': 'बॉट',
+  'live.connecting': 'जोडत आहे...',
+  'live.connected': 'जोडले',
+  'live.error': 'कनेक्शन त्रुटी',
+  'live.closed': 'कनेक्शन बंद झाले',
+  'live.idle': 'निष्क्रिय',
+
+  'notice.unreadable': '⚠️ जतन केलेला काही इतिहास वाचता आला नाही ({sessions} चॅट, {messages} संदेश). तो हटवण्याऐवजी बाजूला ठेवला आहे; बाकी सर्व पुनर्संचयित केले.',
+  'notice.locationFailed': '⚠️ तुमचे स्थान मिळाले नाही. जवळपासचा शोध कमी अचूक असेल.',
+  'notice.geolocationUnsupported': '⚠️ तुमचा ब्राउझर जिओलोकेशनला समर्थन देत नाही.',
+  'notice.imported': '📥 {count} चॅट आयात केले.',
+  'notice.importSkipped': '{count} वाचता आले नाहीत, ते वगळले.',
+  'notice.importFailed': '⚠️ आयात अयशस्वी: {error}',
+  'notice.modelSwitched': '{model} वर बदलले.',
+  'notice.busyElsewhere': '⚠️ हा चॅट आधीच दुसऱ्या टॅबमध्ये उत्तर देत आहे. ते पूर्ण होईपर्यंत थांबा, किंवा तिथेच थांबवा.',
+  'notice.summarizing': 'सारांश तयार होत आहे...',
+  'notice.nothingToSummarize': 'सारांश करण्यासारखे अजून काही नाही.',
+  'reply.image': 'तुमच्यासाठी तयार केलेले चित्र हे आहे:',
+  'reply.editedImage': 'संपादित केलेले चित्र हे आहे:',
+  'reply.video': 'तयार केलेला व्हिडिओ हा आहे:',
+  'reply.videoCancelled': 'व्हिडिओ तयार करणे रद्द केले.',
+  'reply.artStyle': 'छान कल्पना! तुम्हाला कोणती कलाशैली हवी आहे?',
+  'reply.summary': 'सारांश',
+};
+
+export const MR_IN: LanguagePack = {
+  voiceFallbacks: ['hi-IN'],
+  welcome: "मी तुमचा स्नेही स्थानिक सोबती आहे. तुम्हाला समुद्रकिनारे पाहायचे आहेत, जवळपासचे कॅफे शोधायचे आहेत, की छोट्या सहलीचे नियोजन करायचे आहे?",
+  suggestions: [
+    { text: 'समुद्रकिनारे', icon: 'beach' },
+    { text: 'हॉटेल शोधा', icon: 'hotel' },
+    { text: 'स्थानिक खाद्यपदार्थ', icon: 'food' },
+    { text: 'मंदिर दर्शन', icon: 'temple' },
+  ],
+  briefingLabel: 'आजची माहिती',
+  tripPlanLabel: 'सहल नियोजन',
+  tripPlanPrompt: "नक्कीच! तुमच्यासाठी उत्तम प्रवास योजना तयार करण्यासाठी मला फक्त काही तपशील हवे आहेत. तुम्ही किती दिवस राहणार आहात, आणि तुमच्या मुख्य आवडी कोणत्या आहेत (उदा. समुद्रकिनारे, मंदिरे, साहस, विश्रांती)?",
+  clarifyIntentPrompt: 'खात्री करण्यासाठी विचारतो, मी काय करावे अशी तुमची इच्छा आहे?',
+  intentLabels: { 'chat': 'फक्त उत्तर द्या', 'generate-image': 'चित्र तयार करा', 'edit-image': 'माझा फोटो संपादित करा', 'change-language': 'भाषा बदला', 'trip-plan': 'माझ्या सहलीचे नियोजन करा', 'update-itinerary': 'माझी योजना बदला' },
+  placeQuestion: '{place} बद्दल आणखी सांगा',
+  sustainabilityTip: "गोकर्ण सुंदर ठेवण्यासाठी एक छोटीशी आठवण: पुन्हा वापरता येणारी पाण्याची बाटली वापरा आणि आपल्या उत्तम स्थानिक दुकानांना पाठिंबा द्या. प्रत्येक छोटी मदत महत्त्वाची आहे! 💚",
+  errors: {
+    'safety': "सुरक्षा फिल्टरने ही विनंती रोखल्यामुळे मी मदत करू शकत नाही. तुम्ही ती वेगळ्या शब्दांत विचाराल का, किंवा काही वेगळे विचाराल का?",
+    'quota': "सध्या खूप विनंत्या येत आहेत आणि वापराची मर्यादा गाठली आहे. कृपया थोडा वेळ थांबून पुन्हा प्रयत्न करा.",
+    'network': "सर्व्हरपर्यंत पोहोचता आले नाही. कृपया तुमचे इंटरनेट कनेक्शन तपासून पुन्हा प्रयत्न करा.",
+    'invalid-input': "या विनंतीवर काम करता आले नाही. कृपया वेगळी सूचना, चित्र किंवा फाइल वापरून पहा.",
+    'model-unavailable': "AI मॉडेल तात्पुरते उपलब्ध नाही. कृपया थोड्या वेळाने पुन्हा प्रयत्न करा.",
+    'unknown': "माफ करा, माझ्याकडून काहीतरी चूक झाली. कृपया पुन्हा प्रयत्न करा.",
+  },
+  messages: MESSAGES,
+};
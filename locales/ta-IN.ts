@@ -0,0 +1,305 @@
+import type { Catalog } from '../services/i18n';
+import type { LanguagePack } from '../services/languagePacks';
+
+const MESSAGES: Catalog = {
+  'common.cancel': 'ரத்துசெய்',
+  'common.close': 'மூடு',
+  'common.minutes': '{count} நிமிடம்',
+  'common.you': 'நீங்கள்',
+  'common.guide': 'வழிகாட்டி',
+
+  'language.label': 'மொழி',
+  'language.switched': 'நிச்சயமாக! இனி நான் {language} மொழியில் பதிலளிப்பேன்.',
+
+  'header.toggleHistory': 'வரலாற்றுப் பலகத்தைக் காட்டு அல்லது மறை',
+  'header.history': 'வரலாறு',
+  'header.shortlist': 'ஹோட்டல் தேர்வுப் பட்டியல்',
+  'header.shortlistLabel': 'ஹோட்டல் தேர்வுப் பட்டியல், {count} சேமிக்கப்பட்டது',
+  'header.mute': 'பாட் குரலை அணை',
+  'header.unmute': 'பாட் குரலை இயக்கு',
+  'header.selectModel': 'மாடலைத் தேர்ந்தெடு',
+  'header.bilingual': 'இரு மொழிகளில் பதில்கள்',
+  'header.bilingualOff': 'அணை',
+  'welcome.title': 'உங்கள் கோகர்ணா துணை',
+  'chat.scrollToBottom': 'கீழே செல்',
+
+  'model.gemini-2.5-pro': 'மிகத் திறமையானது. பயணத் திட்டமிடல் மற்றும் விரிவான ஆய்வுக்குச் சிறந்தது.',
+  'model.gemini-2.5-flash': 'வேகமானது, செலவு குறைவு. சிறு கேள்விகளுக்கு ஏற்றது.',
+
+  'input.placeholder': 'கோகர்ணா பற்றிக் கேளுங்கள், அல்லது கட்டளைகளுக்கு / தட்டச்சு செய்யுங்கள்',
+  'input.addFiles': 'கோப்புகளைச் சேர்',
+  'input.uploadImage': 'படத்தைப் பதிவேற்று',
+  'input.uploadText': 'உரைக் கோப்பைப் பதிவேற்று',
+  'input.generateVideo': 'வீடியோ உருவாக்கு',
+  'input.commands': 'கட்டளைகள்',
+  'input.attachOnePhoto': '(ஒரு புகைப்படத்தை இணைக்கவும்)',
+  'input.removeFile': '{name} ஐ நீக்கு',
+  'input.stop': 'நிறுத்து',
+  'input.stopListening': 'கேட்பதை நிறுத்து',
+  'input.stopGenerating': 'பதிலை நிறுத்து',
+  'input.send': 'செய்தியை அனுப்பு',
+  'input.voiceMode': 'குரல் பயன்முறையைப் பயன்படுத்து',
+  'input.videoPrompt': 'வீடியோவுக்கான விளக்கத்தை உள்ளிடவும்:',
+  'input.videoLandscape': 'அகலவாக்கில் (16:9) உருவாக்கவா? நீளவாக்குக்கு (9:16) ரத்துசெய்யவும்.',
+  'input.needOneImage': '/{command} பயன்படுத்த சரியாக ஒரு படத்தைப் பதிவேற்றவும்.',
+  'input.needOneImageForVideo': 'வீடியோ உருவாக்க சரியாக ஒரு படத்தைப் பதிவேற்றவும்.',
+  'input.voiceUnsupported': 'உங்கள் உலாவி குரல் உள்ளீட்டை ஆதரிக்கவில்லை.',
+  'input.readFileFailed': 'கோப்பைப் படிக்க முடியவில்லை. மீண்டும் முயலவும்.',
+  'mic.denied': 'மைக்ரோஃபோன் அனுமதி மறுக்கப்பட்டது. உலாவி அல்லது சாதன அமைப்புகளில் மைக் அனுமதியை வழங்கவும்.',
+  'mic.noSpeech': 'பேச்சு எதுவும் கேட்கவில்லை. பேச மைக்கை மீண்டும் தட்டவும்.',
+  'mic.busy': 'மைக்ரோஃபோன் பிழை. வேறு செயலி அதைப் பயன்படுத்தக்கூடும். சரிபார்த்து மீண்டும் முயலவும்.',
+  'mic.failed': 'மைக்ரோஃபோன் பிழை ஏற்பட்டது. இணைப்பைச் சரிபார்த்து மீண்டும் முயலவும்.',
+
+  'command.image': 'படம் உருவாக்கு. பாணிகள்: {styles}',
+  'command.edit': 'இணைத்த புகைப்படத்தைத் திருத்து',
+  'command.video': 'இணைத்த புகைப்படத்தை வீடியோவாக்கு',
+  'command.summarize': 'இந்த அரட்டை, இணைத்த உரைக் கோப்பு அல்லது கொடுத்த உரையின் சுருக்கம்',
+  'command.lang': 'வேறு மொழியில் பதில்: {languages}',
+  'command.briefing': 'கோகர்ணாவில் இன்றைய வானிலை, அலைகள் மற்றும் நிகழ்வுகள்',
+  'command.plan': 'பயணத்தைத் திட்டமிடு, எ.கா. /plan 3 days',
+  'command.new': 'புதிய அரட்டையைத் தொடங்கு',
+  'command.needImagePrompt': 'என்ன வரைய வேண்டும் என்று சொல்லுங்கள், எ.கா. /image Om Beach at sunset --style Watercolor',
+  'command.unknownStyle': 'தெரியாத பாணி. இவற்றில் ஒன்றைத் தேர்ந்தெடுக்கவும்: {styles}',
+  'command.needEditPrompt': 'புகைப்படத்தை எப்படி மாற்ற வேண்டும் என்று சொல்லுங்கள், எ.கா. /edit make the sky pink',
+  'command.unknownLanguage': 'தெரியாத மொழி. இவற்றில் ஒன்றைத் தேர்ந்தெடுக்கவும்: {languages}',
+  'command.unknown': 'தெரியாத கட்டளை "/{name}". பட்டியலைப் பார்க்க / தட்டச்சு செய்யவும்.',
+
+  'message.generatingVideo': 'வீடியோ உருவாகிறது... இதற்கு சில நிமிடங்கள் ஆகலாம்.',
+  'message.cancelVideo': 'வீடியோ உருவாக்கத்தை ரத்துசெய்',
+  'message.previousVersion': 'முந்தைய பதிப்பு',
+  'message.nextVersion': 'அடுத்த பதிப்பு',
+  'message.edit': 'செய்தியைத் திருத்து',
+  'message.saveAndSend': 'சேமித்து அனுப்பு',
+  'message.stopped': 'பதில் நிறுத்தப்பட்டது.',
+  'message.retry': 'மீண்டும் முயல்',
+  'message.retryLabel': 'கோரிக்கையை மீண்டும் அனுப்பு',
+  'message.share': 'பகிர்',
+  'message.shareLabel': 'செய்தியைப் பகிர்',
+  'message.shareTitle': 'கோகர்ணா கைடு குறிப்பு',
+  'message.copy': 'நகலெடு',
+  'message.copyLabel': 'செய்தி உரையை நகலெடு',
+  'message.copied': 'நகலெடுக்கப்பட்டது!',
+  'message.summarize': 'சுருக்கு',
+  'message.summarizeLabel': 'உரையைச் சுருக்கு',
+  'message.regenerate': 'மீண்டும் உருவாக்கு',
+  'message.regenerateLabel': 'பதிலை மீண்டும் உருவாக்கு',
+  'message.translate': 'மொழிபெயர்',
+  'message.translateLabel': 'செய்தியை மொழிபெயர்',
+  'message.translateTo': 'இதற்கு மொழிபெயர்…',
+  'message.translating': 'மொழிபெயர்க்கப்படுகிறது…',
+  'message.translatedTo': '{language} மொழிபெயர்ப்பு',
+  'message.hideTranslation': 'மொழிபெயர்ப்பை மறை',
+  'message.image': 'கோகர்ணா படம் {number}',
+  'message.downloadImage': 'படத்தைப் பதிவிறக்கு',
+  'message.sources': 'ஆதாரங்கள்:',
+  'message.showMap': 'வரைபடத்தில் காட்டு ({count})',
+  'message.hideMap': 'வரைபடத்தை மறை',
+  'message.dataset': 'கோகர்ணா கைடு தரவுத்தொகுப்பு',
+  'message.datasetVersion': 'கோகர்ணா கைடு தரவுத்தொகுப்பு v{version}, {date} அன்று சரிபார்க்கப்பட்டது',
+  'message.openInMaps': 'மேப்ஸில் திற',
+  'message.editPrompt': '(திருத்த அறிவுறுத்தல்: {prompt})',
+  'message.videoPrompt': '(வீடியோ அறிவுறுத்தல்: {prompt})',
+  'briefing.highLow': 'அதிகபட்சம் {high}° · குறைந்தபட்சம் {low}°',
+  'briefing.sunset': 'சூரிய அஸ்தமனம்',
+  'briefing.tides': 'அலைகள்',
+  'briefing.highTide': '{time} மணிக்கு உயர் அலை',
+  'briefing.lowTide': '{time} மணிக்கு தாழ் அலை',
+  'briefing.noTides': 'இன்றைய அலை நேரங்கள் கிடைக்கவில்லை.',
+  'briefing.now': 'இப்போது',
+  'briefing.gem': 'இன்றைய சிறப்பு',
+  'briefing.safetyTip': 'பாதுகாப்பு குறிப்பு',
+
+  'itinerary.perPerson': 'ஒருவருக்கு சுமார் {amount}',
+  'itinerary.day': 'நாள் {number}',
+  'itinerary.nothingPlanned': 'இன்னும் எதுவும் திட்டமிடவில்லை.',
+  'itinerary.free': 'இலவசம்',
+  'itinerary.moveEarlier': '{place} ஐ முன்னதாக நகர்த்து',
+  'itinerary.moveLater': '{place} ஐ பின்னதாக நகர்த்து',
+  'itinerary.remove': '{place} ஐ நீக்கு',
+  'itinerary.refinePlaceholder': 'மாற்றம் கேளுங்கள், எ.கா. நாள் 2 இல் படகுச் சவாரி சேர்',
+  'itinerary.refineLabel': 'திட்டத்தில் மாற்றம் கேளுங்கள்',
+  'itinerary.refine': 'மாற்று',
+
+  'hotels.rated': '5 இல் {rating} மதிப்பீடு',
+  'hotels.book': 'முன்பதிவு',
+  'hotels.detail': 'விவரம்',
+  'hotels.area': 'பகுதி',
+  'hotels.perNight': 'ஒரு இரவுக்கு',
+  'hotels.rating': 'மதிப்பீடு',
+  'hotels.amenities': 'வசதிகள்',
+  'hotels.pros': 'நிறைகள்',
+  'hotels.cons': 'குறைகள்',
+  'hotels.booking': 'முன்பதிவு',
+  'hotels.aNight': 'இரவுக்கு {price}',
+  'hotels.addToShortlist': '{name} ஐ தேர்வுப் பட்டியலில் சேர்',
+  'hotels.removeFromShortlist': '{name} ஐ தேர்வுப் பட்டியலிலிருந்து நீக்கு',
+  'hotels.compare': 'ஒப்பிடு',
+  'hotels.compareSelected': 'தேர்ந்தெடுத்தவற்றை ஒப்பிடு ({count})',
+  'hotels.hideComparison': 'ஒப்பீட்டை மறை',
+  'hotels.shortlistTitle': 'ஹோட்டல் தேர்வுப் பட்டியல்',
+  'hotels.shortlistEmpty': 'இன்னும் எதுவும் சேமிக்கவில்லை. ஹோட்டல் அட்டையில் உள்ள புக்மார்க்கைப் பயன்படுத்தி இங்கே சேர்க்கவும்.',
+
+  'map.stop': 'பயணத் திட்ட நிறுத்தம்',
+  'map.place': 'Google Maps இலிருந்து',
+  'map.poi': 'வழிகாட்டியிலிருந்து',
+  'map.label': '{places} வரைபடம்',
+  'map.askAbout': '{place}. இதைப் பற்றிக் கேளுங்கள்',
+  'map.yourLocation': 'உங்கள் இருப்பிடம்',
+  'map.youAreHere': 'நீங்கள் இங்கே இருக்கிறீர்கள்',
+  'map.walkingPath': 'நடைபாதை',
+  'map.distance': 'நீங்கள் சுமார் {distance} கி.மீ தொலைவில் இருக்கிறீர்கள்',
+  'map.schematic': 'வரைபட மாதிரி; வழிசெலுத்தலுக்கு அல்ல',
+  'map.notOnMap': 'இந்த வரைபடத்தில் இல்லை:',
+
+  'history.newChat': 'புதிய அரட்டை',
+  'history.startNewChat': 'புதிய அரட்டையைத் தொடங்கு',
+  'history.library': 'நூலகம்',
+  'history.trash': 'குப்பை',
+  'history.trashCount': 'குப்பை ({count})',
+  'history.viewHistory': 'அரட்டை வரலாற்றைப் பார்',
+  'history.viewLibrary': 'பட நூலகத்தைப் பார்',
+  'history.viewTrash': 'நீக்கிய அரட்டைகளைப் பார்',
+  'history.search': 'எல்லா அரட்டைகளிலும் தேடு',
+  'history.filterByTopic': 'தலைப்பின்படி அரட்டைகளை வடிகட்டு',
+  'history.allTopics': 'அனைத்தும்',
+  'history.noMatches': '"{query}" உடன் பொருந்தும் செய்திகள் இல்லை.',
+  'history.pinned': 'பின் செய்தவை',
+  'history.chats': 'அரட்டைகள்',
+  'history.noChats': 'முந்தைய உரையாடல்கள் இல்லை.',
+  'history.pin': 'பின் செய்',
+  'history.unpin': 'பின்னை நீக்கு',
+  'history.pinLabel': 'அரட்டையைப் பின் செய்: {title}',
+  'history.unpinLabel': 'அரட்டையின் பின்னை நீக்கு: {title}',
+  'history.move': 'கோப்புறைக்கு நகர்த்து',
+  'history.moveLabel': 'அரட்டையைக் கோப்புறைக்கு நகர்த்து: {title}',
+  'history.rename': 'மறுபெயரிடு',
+  'history.renameLabel': 'அரட்டைக்கு மறுபெயரிடு: {title}',
+  'history.export': 'ஏற்றுமதி',
+  'history.exportLabel': 'அரட்டையை ஏற்றுமதி செய்: {title}',
+  'history.delete': 'நீக்கு',
+  'history.deleteLabel': 'அரட்டையை நீக்கு: {title}',
+  'history.folderName': 'கோப்புறைப் பெயர்',
+  'history.renameFolder': 'கோப்புறைக்கு மறுபெயரிடு: {name}',
+  'history.deleteFolder': 'கோப்புறையை நீக்கு: {name} (அதன் அரட்டைகள் வைக்கப்படும்)',
+  'history.emptyFolder': 'இந்தக் கோப்புறையில் அரட்டைகள் இல்லை.',
+  'history.generatedArt': 'உருவாக்கிய படம்',
+  'history.noImages': 'இன்னும் படங்கள் உருவாக்கப்படவில்லை.',
+  'history.retention': 'குப்பையில் உள்ள அரட்டைகளை இதற்குப் பின் நீக்கு',
+  'history.days': '{count} நாட்கள்',
+  'history.purgeDate': '{date} அன்று நிரந்தரமாக நீக்கப்படும்',
+  'history.restore': 'மீட்டமை',
+  'history.restoreLabel': 'அரட்டையை மீட்டமை: {title}',
+  'history.deleteForever': 'நிரந்தரமாக நீக்கு',
+  'history.deleteForeverLabel': 'அரட்டையை நிரந்தரமாக நீக்கு: {title}',
+  'history.trashEmpty': 'குப்பை காலியாக உள்ளது.',
+  'history.emptyTrash': 'குப்பையைக் காலிசெய்',
+  'history.import': 'இறக்குமதி',
+  'history.exportAll': 'அனைத்தையும் ஏற்றுமதி செய்',
+  'history.clearAll': 'எல்லா அரட்டைகளையும் அழி',
+  'history.lock': 'வரலாற்றுப் பூட்டு',
+  'history.lockNow': 'இப்போது பூட்டு',
+  'history.clearTitle': 'எல்லா உரையாடல்களையும் அழிக்கவா?',
+  'history.clearBody': 'எல்லா அரட்டைகளும் குப்பைக்குச் செல்லும், அங்கிருந்து {days} நாட்கள் வரை மீட்டமைக்கலாம்.',
+  'history.confirmDelete': 'நீக்குதலை உறுதிசெய்',
+  'history.emptyTrashTitle': 'குப்பையைக் காலிசெய்யவா?',
+  'history.emptyTrashBody': 'இதைத் திரும்பப்பெற முடியாது. {count} அரட்டை(கள்) நிரந்தரமாக நீக்கப்படும்.',
+  'history.moveTitle': '"{title}" ஐ நகர்த்து',
+  'history.removeFromFolder': 'கோப்புறையிலிருந்து நீக்கு',
+  'history.newFolderPlaceholder': 'புதிய கோப்புறை, எ.கா. டிசம்பர் 2026 பயணம்',
+  'history.newFolderLabel': 'புதிய கோப்புறைப் பெயர்',
+  'history.createFolder': 'உருவாக்கு',
+  'history.exportOne': '"{title}" ஐ ஏற்றுமதி செய்',
+  'history.exportMany': '{count} அரட்டைகளை ஏற்றுமதி செய்',
+  'history.exportHint': 'JSON ஐ எந்தச் சாதனத்திலும் மீண்டும் இறக்குமதி செய்யலாம். Markdown மற்றும் HTML படிக்கவும் பகிரவும்.',
+  'history.exportHtml': 'இணையப் பக்கம் (HTML)',
+
+  'tag.beaches': 'கடற்கரைகள்',
+  'tag.hotels': 'ஹோட்டல்கள்',
+  'tag.food': 'உணவு',
+  'tag.temples': 'கோவில்கள்',
+  'tag.itinerary': 'பயணத் திட்டம்',
+  'tag.transport': 'போக்குவரத்து',
+  'tag.weather': 'வானிலை',
+  'tag.shopping': 'ஷாப்பிங்',
+
+  'lock.passphrase': 'கடவுச்சொற்றொடர்',
+  'lock.currentPassphrase': 'தற்போதைய கடவுச்சொற்றொடர்',
+  'lock.newPassphrase': 'புதிய கடவுச்சொற்றொடர்',
+  'lock.repeatPassphrase': 'கடவுச்சொற்றொடரை மீண்டும் உள்ளிடவும்',
+  'lock.tooShort': 'குறைந்தது {count} எழுத்துகளைப் பயன்படுத்தவும்.',
+  'lock.mismatch': 'கடவுச்சொற்றொடர்கள் பொருந்தவில்லை.',
+  'lock.wrongCurrent': 'உங்கள் தற்போதைய கடவுச்சொற்றொடர் சரியில்லை.',
+  'lock.reencryptFailed': 'அரட்டை வரலாற்றை மீண்டும் குறியாக்க முடியவில்லை. எதுவும் மாற்றப்படவில்லை.',
+  'lock.isOn': 'உங்கள் அரட்டைகள், பதிவேற்றங்கள் மற்றும் கோப்புறைகள் இந்தச் சாதனத்தில் குறியாக்கப்பட்டுள்ளன.',
+  'lock.intro': 'இந்தச் சாதனத்தில் உங்கள் அரட்டைகள், பதிவேற்றங்கள் மற்றும் கோப்புறைகளைக் குறியாக்கி, காட்டும் முன் கடவுச்சொற்றொடரைக் கேட்கவும். பகிர்ந்த அல்லது குடும்பச் சாதனங்களில் பயனுள்ளது.',
+  'lock.noRecovery': 'மறந்த கடவுச்சொற்றொடரை மீட்க வழியில்லை; வரலாற்றை அழிக்க மட்டுமே முடியும்.',
+  'lock.encrypting': 'குறியாக்கம் நடக்கிறது…',
+  'lock.change': 'கடவுச்சொற்றொடரை மாற்று',
+  'lock.turnOn': 'பூட்டை இயக்கு',
+  'lock.idleFor': 'இவ்வளவு நேரம் செயலற்றிருந்தால் பூட்டு',
+  'lock.turnOff': 'பூட்டை அணைத்து வரலாற்றை மறைவிலக்கு',
+  'unlock.title': 'அரட்டை வரலாறு பூட்டப்பட்டுள்ளது',
+  'unlock.body': 'உங்கள் கோகர்ணா கைடு அரட்டைகளைத் திறக்க கடவுச்சொற்றொடரை உள்ளிடவும்.',
+  'unlock.unlock': 'திற',
+  'unlock.unlocking': 'திறக்கிறது…',
+  'unlock.forgot': 'கடவுச்சொற்றொடரை மறந்துவிட்டீர்களா?',
+  'unlock.wrong': 'அந்தக் கடவுச்சொற்றொடர் சரியில்லை.',
+  'unlock.failed': 'அரட்டை வரலாற்றைத் திறக்க முடியவில்லை. மீண்டும் முயலவும்.',
+  'unlock.eraseFailed': 'அரட்டை வரலாற்றை அழிக்க முடியவில்லை. மீண்டும் முயலவும்.',
+  'unlock.eraseTitle': 'எல்லா அரட்டை வரலாற்றையும் அழிக்கவா?',
+  'unlock.eraseBody': 'கடவுச்சொற்றொடர் இல்லாமல் உங்கள் அரட்டைகளை மறைவிலக்க முடியாது. அழித்தால் இந்தச் சாதனத்தில் உள்ள ஒவ்வொரு அரட்டை, கோப்புறை மற்றும் இணைப்பும் நீக்கப்பட்டு பூட்டு அணைக்கப்படும்.',
+  'unlock.erase': 'வரலாற்றை அழி',
+
+  'live.title': 'நேரலை உரையாடல்',
+  'live.back': 'அரட்டைக்குத் திரும்பு',
+  'live.bot': 'பாட்',
+  'live.connecting': 'இணைக்கிறது...',
+  'live.connected': 'இணைக்கப்பட்டது',
+  'live.error': 'இணைப்புப் பிழை',
+  'live.closed': 'இணைப்பு மூடப்பட்டது',
+  'live.idle': 'செயலற்றது',
+
+  'notice.unreadable': '⚠️ சேமித்த சில வரலாற்றைப் படிக்க முடியவில்லை ({sessions} அரட்டை, {messages} செய்தி). அது நீக்கப்படாமல் தனியாக வைக்கப்பட்டது; மற்ற அனைத்தும் மீட்டமைக்கப்பட்டன.',
+  'notice.locationFailed': '⚠️ உங்கள் இருப்பிடத்தை அணுக முடியவில்லை. அருகிலுள்ள தேடல் குறைவான துல்லியமாக இருக்கும்.',
+  'notice.geolocationUnsupported': '⚠️ உங்கள் உலாவி புவியிருப்பிடத்தை ஆதரிக்கவில்லை.',
+  'notice.imported': '📥 {count} அரட்டை(கள்) இறக்குமதி செய்யப்பட்டன.',
+  'notice.importSkipped': '{count} படிக்க முடியாததால் தவிர்க்கப்பட்டன.',
+  'notice.importFailed': '⚠️ இறக்குமதி தோல்வியடைந்தது: {error}',
+  'notice.modelSwitched': '{model} க்கு மாற்றப்பட்டது.',
+  'notice.busyElsewhere': '⚠️ இந்த அரட்டை ஏற்கனவே வேறு தாவலில் பதிலளித்துக்கொண்டிருக்கிறது. அது முடியும் வரை காத்திருங்கள், அல்லது அங்கேயே நிறுத்துங்கள்.',
+  'notice.summarizing': 'சுருக்குகிறது...',
+  'notice.nothingToSummarize': 'சுருக்க இன்னும் எதுவும் இல்லை.',
+  'reply.image': 'உங்களுக்காக உருவாக்கிய படம் இதோ:',
+  'reply.editedImage': 'திருத்திய படம் இதோ:',
+  'reply.video': 'உருவாக்கிய வீடியோ இதோ:',
+  'reply.videoCancelled': 'வீடியோ உருவாக்கம் ரத்துசெய்யப்பட்டது.',
+  'reply.artStyle': 'அருமையான யோசனை! எந்தக் கலைப் பாணி வேண்டும்?',
+  'reply.summary': 'சுருக்கம்',
+};
+
+export const TA_IN: LanguagePack = {
+  voiceFallbacks: [],
+  welcome: "நான் உங்கள் நட்பு உள்ளூர் துணை. நீங்கள் கடற்கரைகளை ஆராய விரும்புகிறீர்களா, அருகிலுள்ள கஃபேக்களைக் கண்டுபிடிக்க விரும்புகிறீர்களா, அல்லது ஒரு சிறிய பயணத் திட்டத்தைத் திட்டமிட விரும்புகிறீர்களா?",
+  suggestions: [
+    { text: 'கடற்கரைகள்', icon: 'beach' },
+    { text: 'ஹோட்டல்கள்', icon: 'hotel' },
+    { text: 'உள்ளூர் உணவு', icon: 'food' },
+    { text: 'கோவில் வருகைகள்', icon: 'temple' },
+  ],
+  briefingLabel: 'இன்றைய அறிக்கை',
+  tripPlanLabel: 'பயணத் திட்டம்',
+  tripPlanPrompt: "நிச்சயமாக! உங்களுக்காக சரியான பயணத்திட்டத்தை உருவாக்க, எனக்கு சில விவரங்கள் தேவை. நீங்கள் எத்தனை நாட்கள் தங்குவீர்கள், உங்கள் முக்கிய ஆர்வங்கள் என்ன (எ.கா., கடற்கரைகள், கோவில்கள், சாகசம், தளர்வு)?",
+  clarifyIntentPrompt: 'உறுதி செய்ய, நான் என்ன செய்ய வேண்டும் என்று விரும்புகிறீர்கள்?',
+  intentLabels: { 'chat': 'பதில் மட்டும் சொல்லுங்கள்', 'generate-image': 'படம் உருவாக்கு', 'edit-image': 'என் புகைப்படத்தைத் திருத்து', 'change-language': 'மொழியை மாற்று', 'trip-plan': 'என் பயணத்தைத் திட்டமிடு', 'update-itinerary': 'என் திட்டத்தை மாற்று' },
+  placeQuestion: '{place} பற்றி மேலும் சொல்லுங்கள்',
+  sustainabilityTip: "கோகர்ணத்தை அழகாக வைத்திருக்க ஒரு சிறிய நினைவூட்டல்: மீண்டும் பயன்படுத்தக்கூடிய தண்ணீர் பாட்டிலைப் பயன்படுத்தவும் மற்றும் நமது அற்புதமான உள்ளூர் கடைகளுக்கு ஆதரவளிக்கவும். ஒவ்வொரு சிறிய உதவியும் முக்கியம்! 💚",
+  errors: {
+    'safety': "பாதுகாப்பு வடிகட்டிகள் இந்தக் கோரிக்கையைத் தடுத்ததால் என்னால் உதவ முடியவில்லை. வேறு விதமாகக் கேட்கலாமா அல்லது வேறு ஏதாவது கேட்கலாமா?",
+    'quota': "இப்போது நிறைய கோரிக்கைகள் வருகின்றன, பயன்பாட்டு வரம்பை எட்டிவிட்டது. சிறிது நேரம் கழித்து மீண்டும் முயற்சிக்கவும்.",
+    'network': "சேவையகத்தை அடைய முடியவில்லை. உங்கள் இணைய இணைப்பைச் சரிபார்த்து மீண்டும் முயற்சிக்கவும்.",
+    'invalid-input': "இந்தக் கோரிக்கையைச் செயல்படுத்த முடியவில்லை. வேறு தூண்டுதல், படம் அல்லது கோப்பை முயற்சிக்கவும்.",
+    'model-unavailable': "AI மாதிரி தற்காலிகமாகக் கிடைக்கவில்லை. சிறிது நேரம் கழித்து மீண்டும் முயற்சிக்கவும்.",
+    'unknown': "மன்னிக்கவும், என் பக்கத்தில் ஏதோ தவறு நடந்தது. மீண்டும் முயற்சிக்கவும்.",
+  },
+  messages: MESSAGES,
+};
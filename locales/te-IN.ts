@@ -0,0 +1,305 @@
+import type { Catalog } from '../services/i18n';
+import type { LanguagePack } from '../services/languagePacks';
+
+const MESSAGES: Catalog = {
+  'common.cancel': 'రద్దు చేయి',
+  'common.close': 'మూసివేయి',
+  'common.minutes': '{count} నిమి',
+  'common.you': 'మీరు',
+  'common.guide': 'గైడ్',
+
+  'language.label': 'భాష',
+  'language.switched': 'తప్పకుండా! ఇకపై నేను {language}లో జవాబిస్తాను.',
+
+  'header.toggleHistory': 'చరిత్ర ప్యానెల్‌ను చూపు లేదా దాచు',
+  'header.history': 'చరిత్ర',
+  'header.shortlist': 'హోటల్ షార్ట్‌లిస్ట్',
+  'header.shortlistLabel': 'హోటల్ షార్ట్‌లిస్ట్, {count} సేవ్ చేయబడ్డాయి',
+  'header.mute': 'బాట్ స్వరాన్ని ఆపు',
+  'header.unmute': 'బాట్ స్వరాన్ని ఆన్ చేయి',
+  'header.selectModel': 'మోడల్‌ను ఎంచుకోండి',
+  'header.bilingual': 'రెండు భాషల్లో జవాబులు',
+  'header.bilingualOff': 'ఆఫ్',
+  'welcome.title': 'మీ గోకర్ణ సహచరుడు',
+  'chat.scrollToBottom': 'కిందికి వెళ్ళు',
+
+  'model.gemini-2.5-pro': 'అత్యంత సమర్థమైనది. ప్రయాణ ప్రణాళిక, వివరమైన పరిశోధనకు ఉత్తమం.',
+  'model.gemini-2.5-flash': 'వేగంగా, తక్కువ ఖర్చుతో. చిన్న ప్రశ్నలకు చక్కగా సరిపోతుంది.',
+
+  'input.placeholder': 'గోకర్ణ గురించి అడగండి, లేదా ఆదేశాల కోసం / టైప్ చేయండి',
+  'input.addFiles': 'ఫైళ్లను జోడించు',
+  'input.uploadImage': 'చిత్రాన్ని అప్‌లోడ్ చేయి',
+  'input.uploadText': 'టెక్స్ట్ ఫైల్ అప్‌లోడ్ చేయి',
+  'input.generateVideo': 'వీడియో రూపొందించు',
+  'input.commands': 'ఆదేశాలు',
+  'input.attachOnePhoto': '(ఒక ఫోటో జోడించండి)',
+  'input.removeFile': '{name} తొలగించు',
+  'input.stop': 'ఆపు',
+  'input.stopListening': 'వినడం ఆపు',
+  'input.stopGenerating': 'జవాబు ఆపు',
+  'input.send': 'సందేశం పంపు',
+  'input.voiceMode': 'వాయిస్ మోడ్ వాడు',
+  'input.videoPrompt': 'వీడియో కోసం వివరణ ఇవ్వండి:',
+  'input.videoLandscape': 'ల్యాండ్‌స్కేప్ (16:9)లో రూపొందించాలా? పోర్ట్రెయిట్ (9:16) కోసం రద్దు చేయండి.',
+  'input.needOneImage': '/{command} వాడేందుకు సరిగ్గా ఒక చిత్రాన్ని అప్‌లోడ్ చేయండి.',
+  'input.needOneImageForVideo': 'వీడియో రూపొందించేందుకు సరిగ్గా ఒక చిత్రాన్ని అప్‌లోడ్ చేయండి.',
+  'input.voiceUnsupported': 'మీ బ్రౌజర్ వాయిస్ ఇన్‌పుట్‌కు మద్దతు ఇవ్వదు.',
+  'input.readFileFailed': 'ఫైల్ చదవలేకపోయాం. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'mic.denied': 'మైక్రోఫోన్ అనుమతి నిరాకరించబడింది. బ్రౌజర్ లేదా పరికర సెట్టింగ్‌లలో మైక్ అనుమతి ఇవ్వండి.',
+  'mic.noSpeech': 'ఏ మాటా వినిపించలేదు. మాట్లాడేందుకు మైక్‌ను మళ్లీ నొక్కండి.',
+  'mic.busy': 'మైక్రోఫోన్ లోపం. వేరే యాప్ దాన్ని వాడుతూ ఉండవచ్చు. పరిశీలించి మళ్లీ ప్రయత్నించండి.',
+  'mic.failed': 'మైక్రోఫోన్ లోపం జరిగింది. మీ కనెక్షన్ పరిశీలించి మళ్లీ ప్రయత్నించండి.',
+
+  'command.image': 'చిత్రం రూపొందించు. శైలులు: {styles}',
+  'command.edit': 'జోడించిన ఫోటోను సవరించు',
+  'command.video': 'జోడించిన ఫోటోను వీడియోగా మార్చు',
+  'command.summarize': 'ఈ చాట్, జోడించిన టెక్స్ట్ ఫైల్ లేదా ఇచ్చిన పాఠ్యం సారాంశం',
+  'command.lang': 'వేరే భాషలో జవాబు: {languages}',
+  'command.briefing': 'గోకర్ణలో ఈరోజు వాతావరణం, ఆటుపోట్లు, కార్యక్రమాలు',
+  'command.plan': 'ప్రయాణం ప్లాన్ చేయి, ఉదా. /plan 3 days',
+  'command.new': 'కొత్త చాట్ ప్రారంభించు',
+  'command.needImagePrompt': 'ఏం గీయాలో చెప్పండి, ఉదా. /image Om Beach at sunset --style Watercolor',
+  'command.unknownStyle': 'తెలియని శైలి. వీటిలో ఒకటి ఎంచుకోండి: {styles}',
+  'command.needEditPrompt': 'ఫోటోను ఎలా మార్చాలో చెప్పండి, ఉదా. /edit make the sky pink',
+  'command.unknownLanguage': 'తెలియని భాష. వీటిలో ఒకటి ఎంచుకోండి: {languages}',
+  'command.unknown': 'తెలియని ఆదేశం "/{name}". జాబితా కోసం / టైప్ చేయండి.',
+
+  'message.generatingVideo': 'వీడియో రూపొందుతోంది... దీనికి కొన్ని నిమిషాలు పట్టవచ్చు.',
+  'message.cancelVideo': 'వీడియో రూపకల్పన రద్దు చేయి',
+  'message.previousVersion': 'మునుపటి వెర్షన్',
+  'message.nextVersion': 'తదుపరి వెర్షన్',
+  'message.edit': 'సందేశాన్ని సవరించు',
+  'message.saveAndSend': 'సేవ్ చేసి పంపు',
+  'message.stopped': 'జవాబు ఆపబడింది.',
+  'message.retry': 'మళ్లీ ప్రయత్నించు',
+  'message.retryLabel': 'అభ్యర్థనను మళ్లీ పంపు',
+  'message.share': 'షేర్ చేయి',
+  'message.shareLabel': 'సందేశాన్ని షేర్ చేయి',
+  'message.shareTitle': 'గోకర్ణ గైడ్ చిట్కా',
+  'message.copy': 'కాపీ చేయి',
+  'message.copyLabel': 'సందేశ పాఠ్యాన్ని కాపీ చేయి',
+  'message.copied': 'కాపీ అయింది!',
+  'message.summarize': 'సారాంశం',
+  'message.summarizeLabel': 'పాఠ్యాన్ని సంగ్రహించు',
+  'message.regenerate': 'మళ్లీ రూపొందించు',
+  'message.regenerateLabel': 'జవాబును మళ్లీ రూపొందించు',
+  'message.translate': 'అనువదించు',
+  'message.translateLabel': 'సందేశాన్ని అనువదించు',
+  'message.translateTo': 'ఈ భాషలోకి అనువదించు…',
+  'message.translating': 'అనువదిస్తోంది…',
+  'message.translatedTo': '{language} లోకి అనువాదం',
+  'message.hideTranslation': 'అనువాదాన్ని దాచు',
+  'message.image': 'గోకర్ణ చిత్రం {number}',
+  'message.downloadImage': 'చిత్రాన్ని డౌన్‌లోడ్ చేయి',
+  'message.sources': 'మూలాలు:',
+  'message.showMap': 'మ్యాప్‌లో చూపు ({count})',
+  'message.hideMap': 'మ్యాప్ దాచు',
+  'message.dataset': 'గోకర్ణ గైడ్ డేటాసెట్',
+  'message.datasetVersion': 'గోకర్ణ గైడ్ డేటాసెట్ v{version}, {date}న పరిశీలించబడింది',
+  'message.openInMaps': 'మ్యాప్స్‌లో తెరువు',
+  'message.editPrompt': '(సవరణ సూచన: {prompt})',
+  'message.videoPrompt': '(వీడియో సూచన: {prompt})',
+  'briefing.highLow': 'గరిష్ఠం {high}° · కనిష్ఠం {low}°',
+  'briefing.sunset': 'సూర్యాస్తమయం',
+  'briefing.tides': 'ఆటుపోట్లు',
+  'briefing.highTide': '{time}కి పోటు',
+  'briefing.lowTide': '{time}కి ఆటు',
+  'briefing.noTides': 'ఈ రోజు ఆటుపోట్ల సమయాలు దొరకలేదు.',
+  'briefing.now': 'ఇప్పుడు',
+  'briefing.gem': 'ఈ రోజు రత్నం',
+  'briefing.safetyTip': 'భద్రతా సూచన',
+
+  'itinerary.perPerson': 'ఒక్కొక్కరికి సుమారు {amount}',
+  'itinerary.day': 'రోజు {number}',
+  'itinerary.nothingPlanned': 'ఇంకా ఏమీ ప్లాన్ చేయలేదు.',
+  'itinerary.free': 'ఉచితం',
+  'itinerary.moveEarlier': '{place}ను ముందుకు జరుపు',
+  'itinerary.moveLater': '{place}ను వెనక్కి జరుపు',
+  'itinerary.remove': '{place} తొలగించు',
+  'itinerary.refinePlaceholder': 'మార్పు అడగండి, ఉదా. రోజు 2న పడవ ప్రయాణం జోడించు',
+  'itinerary.refineLabel': 'ప్రణాళికలో మార్పు అడగండి',
+  'itinerary.refine': 'మార్చు',
+
+  'hotels.rated': '5కి {rating} రేటింగ్',
+  'hotels.book': 'బుక్ చేయి',
+  'hotels.detail': 'వివరం',
+  'hotels.area': 'ప్రాంతం',
+  'hotels.perNight': 'ఒక రాత్రికి',
+  'hotels.rating': 'రేటింగ్',
+  'hotels.amenities': 'సౌకర్యాలు',
+  'hotels.pros': 'అనుకూలతలు',
+  'hotels.cons': 'ప్రతికూలతలు',
+  'hotels.booking': 'బుకింగ్',
+  'hotels.aNight': 'రాత్రికి {price}',
+  'hotels.addToShortlist': '{name}ను షార్ట్‌లిస్ట్‌కు జోడించు',
+  'hotels.removeFromShortlist': '{name}ను షార్ట్‌లిస్ట్ నుండి తొలగించు',
+  'hotels.compare': 'పోల్చు',
+  'hotels.compareSelected': 'ఎంచుకున్నవాటిని పోల్చు ({count})',
+  'hotels.hideComparison': 'పోలికను దాచు',
+  'hotels.shortlistTitle': 'హోటల్ షార్ట్‌లిస్ట్',
+  'hotels.shortlistEmpty': 'ఇంకా ఏమీ సేవ్ చేయలేదు. హోటల్ కార్డ్‌పై బుక్‌మార్క్ నొక్కి ఇక్కడ జోడించండి.',
+
+  'map.stop': 'ప్రయాణ ప్రణాళికలో మజిలీ',
+  'map.place': 'Google Maps నుండి',
+  'map.poi': 'గైడ్ నుండి',
+  'map.label': '{places} మ్యాప్',
+  'map.askAbout': '{place}. దీని గురించి అడగండి',
+  'map.yourLocation': 'మీ స్థానం',
+  'map.youAreHere': 'మీరు ఇక్కడ ఉన్నారు',
+  'map.walkingPath': 'కాలిబాట',
+  'map.distance': 'మీరు సుమారు {distance} కి.మీ దూరంలో ఉన్నారు',
+  'map.schematic': 'రేఖాచిత్ర మ్యాప్; దారి చూపడానికి కాదు',
+  'map.notOnMap': 'ఈ మ్యాప్‌లో లేవు:',
+
+  'history.newChat': 'కొత్త చాట్',
+  'history.startNewChat': 'కొత్త చాట్ ప్రారంభించు',
+  'history.library': 'లైబ్రరీ',
+  'history.trash': 'ట్రాష్',
+  'history.trashCount': 'ట్రాష్ ({count})',
+  'history.viewHistory': 'చాట్ చరిత్ర చూడు',
+  'history.viewLibrary': 'చిత్రాల లైబ్రరీ చూడు',
+  'history.viewTrash': 'తొలగించిన చాట్‌లు చూడు',
+  'history.search': 'అన్ని చాట్‌లలో వెతుకు',
+  'history.filterByTopic': 'అంశం ప్రకారం చాట్‌లను వడపోయి',
+  'history.allTopics': 'అన్నీ',
+  'history.noMatches': '"{query}"కి సరిపోయే సందేశాలు లేవు.',
+  'history.pinned': 'పిన్ చేసినవి',
+  'history.chats': 'చాట్‌లు',
+  'history.noChats': 'గత సంభాషణలు లేవు.',
+  'history.pin': 'పిన్ చేయి',
+  'history.unpin': 'పిన్ తీసివేయి',
+  'history.pinLabel': 'చాట్‌ను పిన్ చేయి: {title}',
+  'history.unpinLabel': 'చాట్ పిన్ తీసివేయి: {title}',
+  'history.move': 'ఫోల్డర్‌కు తరలించు',
+  'history.moveLabel': 'చాట్‌ను ఫోల్డర్‌కు తరలించు: {title}',
+  'history.rename': 'పేరు మార్చు',
+  'history.renameLabel': 'చాట్ పేరు మార్చు: {title}',
+  'history.export': 'ఎగుమతి',
+  'history.exportLabel': 'చాట్‌ను ఎగుమతి చేయి: {title}',
+  'history.delete': 'తొలగించు',
+  'history.deleteLabel': 'చాట్‌ను తొలగించు: {title}',
+  'history.folderName': 'ఫోల్డర్ పేరు',
+  'history.renameFolder': 'ఫోల్డర్ పేరు మార్చు: {name}',
+  'history.deleteFolder': 'ఫోల్డర్ తొలగించు: {name} (దాని చాట్‌లు ఉంటాయి)',
+  'history.emptyFolder': 'ఈ ఫోల్డర్‌లో చాట్‌లు లేవు.',
+  'history.generatedArt': 'రూపొందించిన చిత్రం',
+  'history.noImages': 'ఇంకా చిత్రాలేవీ రూపొందించలేదు.',
+  'history.retention': 'ట్రాష్‌లోని చాట్‌లను ఇంత కాలం తర్వాత తొలగించు',
+  'history.days': '{count} రోజులు',
+  'history.purgeDate': '{date}న శాశ్వతంగా తొలగించబడుతుంది',
+  'history.restore': 'పునరుద్ధరించు',
+  'history.restoreLabel': 'చాట్‌ను పునరుద్ధరించు: {title}',
+  'history.deleteForever': 'శాశ్వతంగా తొలగించు',
+  'history.deleteForeverLabel': 'చాట్‌ను శాశ్వతంగా తొలగించు: {title}',
+  'history.trashEmpty': 'ట్రాష్ ఖాళీగా ఉంది.',
+  'history.emptyTrash': 'ట్రాష్ ఖాళీ చేయి',
+  'history.import': 'దిగుమతి',
+  'history.exportAll': 'అన్నీ ఎగుమతి చేయి',
+  'history.clearAll': 'అన్ని చాట్‌లను క్లియర్ చేయి',
+  'history.lock': 'చరిత్ర లాక్',
+  'history.lockNow': 'ఇప్పుడే లాక్ చేయి',
+  'history.clearTitle': 'అన్ని సంభాషణలను క్లియర్ చేయాలా?',
+  'history.clearBody': 'అన్ని చాట్‌లు ట్రాష్‌కు వెళ్తాయి, అక్కడి నుండి {days} రోజుల వరకు పునరుద్ధరించవచ్చు.',
+  'history.confirmDelete': 'తొలగింపును నిర్ధారించు',
+  'history.emptyTrashTitle': 'ట్రాష్ ఖాళీ చేయాలా?',
+  'history.emptyTrashBody': 'దీన్ని వెనక్కి తీసుకోలేరు. {count} చాట్(లు) శాశ్వతంగా తొలగించబడతాయి.',
+  'history.moveTitle': '"{title}"ను తరలించు',
+  'history.removeFromFolder': 'ఫోల్డర్ నుండి తీసివేయి',
+  'history.newFolderPlaceholder': 'కొత్త ఫోల్డర్, ఉదా. డిసెంబర్ 2026 ప్రయాణం',
+  'history.newFolderLabel': 'కొత్త ఫోల్డర్ పేరు',
+  'history.createFolder': 'సృష్టించు',
+  'history.exportOne': '"{title}"ను ఎగుమతి చేయి',
+  'history.exportMany': '{count} చాట్‌లను ఎగుమతి చేయి',
+  'history.exportHint': 'JSONను ఏ పరికరంలోనైనా మళ్లీ దిగుమతి చేయవచ్చు. Markdown, HTML చదవడానికి, షేర్ చేయడానికి.',
+  'history.exportHtml': 'వెబ్ పేజీ (HTML)',
+
+  'tag.beaches': 'బీచ్‌లు',
+  'tag.hotels': 'హోటళ్లు',
+  'tag.food': 'ఆహారం',
+  'tag.temples': 'ఆలయాలు',
+  'tag.itinerary': 'ప్రయాణ ప్రణాళిక',
+  'tag.transport': 'రవాణా',
+  'tag.weather': 'వాతావరణం',
+  'tag.shopping': 'షాపింగ్',
+
+  'lock.passphrase': 'పాస్‌ఫ్రేజ్',
+  'lock.currentPassphrase': 'ప్రస్తుత పాస్‌ఫ్రేజ్',
+  'lock.newPassphrase': 'కొత్త పాస్‌ఫ్రేజ్',
+  'lock.repeatPassphrase': 'పాస్‌ఫ్రేజ్‌ను మళ్లీ టైప్ చేయండి',
+  'lock.tooShort': 'కనీసం {count} అక్షరాలు వాడండి.',
+  'lock.mismatch': 'పాస్‌ఫ్రేజ్‌లు సరిపోలడం లేదు.',
+  'lock.wrongCurrent': 'మీ ప్రస్తుత పాస్‌ఫ్రేజ్ సరైనది కాదు.',
+  'lock.reencryptFailed': 'చాట్ చరిత్రను మళ్లీ ఎన్‌క్రిప్ట్ చేయలేకపోయాం. ఏమీ మారలేదు.',
+  'lock.isOn': 'మీ చాట్‌లు, అప్‌లోడ్‌లు, ఫోల్డర్లు ఈ పరికరంలో ఎన్‌క్రిప్ట్ అయి ఉన్నాయి.',
+  'lock.intro': 'ఈ పరికరంలో మీ చాట్‌లు, అప్‌లోడ్‌లు, ఫోల్డర్లను ఎన్‌క్రిప్ట్ చేసి, చూపించే ముందు పాస్‌ఫ్రేజ్ అడగండి. షేర్ చేసిన లేదా కుటుంబ పరికరాలపై ఉపయోగకరం.',
+  'lock.noRecovery': 'మరచిపోయిన పాస్‌ఫ్రేజ్‌ను తిరిగి పొందే మార్గం లేదు; చరిత్రను చెరిపివేయడం మాత్రమే సాధ్యం.',
+  'lock.encrypting': 'ఎన్‌క్రిప్ట్ అవుతోంది…',
+  'lock.change': 'పాస్‌ఫ్రేజ్ మార్చు',
+  'lock.turnOn': 'లాక్ ఆన్ చేయి',
+  'lock.idleFor': 'ఇంత సేపు నిష్క్రియంగా ఉంటే లాక్ చేయి',
+  'lock.turnOff': 'లాక్ ఆపి చరిత్రను డీక్రిప్ట్ చేయి',
+  'unlock.title': 'చాట్ చరిత్ర లాక్ అయి ఉంది',
+  'unlock.body': 'మీ గోకర్ణ గైడ్ చాట్‌లను తెరవడానికి పాస్‌ఫ్రేజ్ నమోదు చేయండి.',
+  'unlock.unlock': 'అన్‌లాక్ చేయి',
+  'unlock.unlocking': 'అన్‌లాక్ అవుతోంది…',
+  'unlock.forgot': 'పాస్‌ఫ్రేజ్ మర్చిపోయారా?',
+  'unlock.wrong': 'ఆ పాస్‌ఫ్రేజ్ సరైనది కాదు.',
+  'unlock.failed': 'చాట్ చరిత్రను తెరవలేకపోయాం. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'unlock.eraseFailed': 'చాట్ చరిత్రను చెరిపివేయలేకపోయాం. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'unlock.eraseTitle': 'మొత్తం చాట్ చరిత్రను చెరిపివేయాలా?',
+  'unlock.eraseBody': 'పాస్‌ఫ్రేజ్ లేకుండా మీ చాట్‌లను డీక్రిప్ట్ చేయలేము. చెరిపివేస్తే ఈ పరికరంలోని ప్రతి చాట్, ఫోల్డర్, అటాచ్‌మెంట్ తొలగిపోయి లాక్ ఆఫ్ అవుతుంది.',
+  'unlock.erase': 'చరిత్రను చెరిపివేయి',
+
+  'live.title': 'ప్రత్యక్ష సంభాషణ',
+  'live.back': 'చాట్‌కు తిరిగి వెళ్ళు',
+  'live.bot': 'బాట్',
+  'live.connecting': 'కనెక్ట్ అవుతోంది...',
+  'live.connected': 'కనెక్ట్ అయింది',
+  'live.error': 'కనెక్షన్ లోపం',
+  'live.closed': 'కనెక్షన్ మూసివేయబడింది',
+  'live.idle': 'నిష్క్రియం',
+
+  'notice.unreadable': '⚠️ సేవ్ చేసిన కొంత చరిత్రను చదవలేకపోయాం ({sessions} చాట్, {messages} సందేశం). దాన్ని తొలగించకుండా పక్కన పెట్టాం; మిగతాదంతా పునరుద్ధరించబడింది.',
+  'notice.locationFailed': '⚠️ మీ స్థానాన్ని పొందలేకపోయాం. సమీప శోధన తక్కువ కచ్చితంగా ఉంటుంది.',
+  'notice.geolocationUnsupported': '⚠️ మీ బ్రౌజర్ జియోలొకేషన్‌కు మద్దతు ఇవ్వదు.',
+  'notice.imported': '📥 {count} చాట్(లు) దిగుమతి అయ్యాయి.',
+  'notice.importSkipped': '{count} చదవలేకపోయాం, వదిలేశాం.',
+  'notice.importFailed': '⚠️ దిగుమతి విఫలమైంది: {error}',
+  'notice.modelSwitched': '{model}కి మార్చబడింది.',
+  'notice.busyElsewhere': '⚠️ ఈ చాట్ ఇప్పటికే మరో ట్యాబ్‌లో జవాబిస్తోంది. అది పూర్తయ్యే వరకు ఆగండి, లేదా అక్కడే ఆపండి.',
+  'notice.summarizing': 'సంగ్రహిస్తోంది...',
+  'notice.nothingToSummarize': 'సంగ్రహించడానికి ఇంకా ఏమీ లేదు.',
+  'reply.image': 'మీ కోసం రూపొందించిన చిత్రం ఇదిగో:',
+  'reply.editedImage': 'సవరించిన చిత్రం ఇదిగో:',
+  'reply.video': 'రూపొందించిన వీడియో ఇదిగో:',
+  'reply.videoCancelled': 'వీడియో రూపకల్పన రద్దు చేయబడింది.',
+  'reply.artStyle': 'సృజనాత్మక ఆలోచన! మీకు ఏ కళా శైలి కావాలి?',
+  'reply.summary': 'సారాంశం',
+};
+
+export const TE_IN: LanguagePack = {
+  voiceFallbacks: [],
+  welcome: "నేను మీ స్నేహపూర్వక స్థానిక సహచరుడిని. మీరు బీచ్‌లను అన్వేషించాలనుకుంటున్నారా, సమీపంలోని కేఫ్‌లను కనుగొనాలా లేదా ఒక చిన్న పర్యటన ప్రణాళికను రూపొందించాలనుకుంటున్నారా?",
+  suggestions: [
+    { text: 'బీచ్‌లు', icon: 'beach' },
+    { text: 'హోటళ్ళు', icon: 'hotel' },
+    { text: 'స్థానిక ఆహారం', icon: 'food' },
+    { text: 'ఆలయ సందర్శనలు', icon: 'temple' },
+  ],
+  briefingLabel: 'నేటి బ్రీఫింగ్',
+  tripPlanLabel: 'ట్రిప్ ప్లాన్',
+  tripPlanPrompt: "తప్పకుండా! మీ కోసం సరైన ప్రయాణ ప్రణాళికను రూపొందించడానికి, నాకు కొన్ని వివరాలు కావాలి. మీరు ఎన్ని రోజులు ఉంటారు మరియు మీ ప్రధాన ఆసక్తులు ఏమిటి (ఉదా., బీచ్‌లు, దేవాలయాలు, సాహసం, విశ్రాంతి)?",
+  clarifyIntentPrompt: 'ఖచ్చితంగా తెలుసుకోవడానికి, నేను ఏమి చేయాలని మీరు కోరుకుంటున్నారు?',
+  intentLabels: { 'chat': 'సమాధానం చెప్పండి', 'generate-image': 'చిత్రం సృష్టించండి', 'edit-image': 'నా ఫోటోను సవరించండి', 'change-language': 'భాష మార్చండి', 'trip-plan': 'నా ట్రిప్ ప్లాన్ చేయండి', 'update-itinerary': 'నా ప్లాన్ మార్చండి' },
+  placeQuestion: '{place} గురించి మరింత చెప్పండి',
+  sustainabilityTip: "గోకర్ణను అందంగా ఉంచడంలో సహాయపడటానికి ఒక చిన్న రిమైండర్: పునర్వినియోగ నీటి సీసాను ఉపయోగించడం మరియు మా అద్భుతమైన స్థానిక దుకాణాలకు మద్దతు ఇవ్వడం పరిగణించండి. ప్రతి చిన్న సహాయం కూడా ముఖ్యమైనదే! 💚",
+  errors: {
+    'safety': "భద్రతా ఫిల్టర్లు ఈ అభ్యర్థనను నిరోధించినందున నేను సహాయం చేయలేను. దయచేసి వేరే విధంగా అడగగలరా లేదా వేరే ఏదైనా అడగగలరా?",
+    'quota': "ప్రస్తుతం చాలా అభ్యర్థనలు వస్తున్నాయి, వినియోగ పరిమితిని చేరుకున్నాం. దయచేసి కొంతసేపు ఆగి మళ్లీ ప్రయత్నించండి.",
+    'network': "సర్వర్‌ను చేరుకోలేకపోయాను. దయచేసి మీ ఇంటర్నెట్ కనెక్షన్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.",
+    'invalid-input': "ఈ అభ్యర్థనను ప్రాసెస్ చేయలేకపోయాను. దయచేసి వేరే ప్రాంప్ట్, చిత్రం లేదా ఫైల్‌ను ప్రయత్నించండి.",
+    'model-unavailable': "AI మోడల్ తాత్కాలికంగా అందుబాటులో లేదు. దయచేసి కొంతసేపటి తర్వాత మళ్లీ ప్రయత్నించండి.",
+    'unknown': "క్షమించండి, నా వైపు నుండి ఏదో తప్పు జరిగింది. దయచేసి మళ్లీ ప్రయత్నించండి.",
+  },
+  messages: MESSAGES,
+};
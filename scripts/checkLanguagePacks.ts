@@ -0,0 +1,17 @@
+import { LANGUAGE_PACKS, validateLanguagePack } from '../services/languagePacks';
+
+// Fails the build when a language pack is missing strings, so nothing ships half-translated.
+
+let problemCount = 0;
+for (const [code, pack] of Object.entries(LANGUAGE_PACKS)) {
+    for (const problem of validateLanguagePack(pack)) {
+        console.error(`${code}: ${problem}`);
+        problemCount++;
+    }
+}
+
+if (problemCount > 0) {
+    console.error(`${problemCount} problem(s) in the language packs.`);
+    process.exit(1);
+}
+console.log(`All ${Object.keys(LANGUAGE_PACKS).length} language packs are complete.`);
@@ -0,0 +1,412 @@
+import { GoogleGenAI, GenerateVideosOperation, Modality, GenerateContentResponse, Part, FinishReason, Type } from '@google/genai';
+import { LANGUAGES, SESSION_TAGS, SYSTEM_PROMPT, type SessionTag } from '../constants';
+import { GenerationError } from '../services/errors';
+import { DEFAULT_MODELS, hasCapability, resolveChatModel } from '../services/models';
+import type { BriefingReply, ChatDescription, ChatPart, ChatSource, ChatStreamChunk, ChatTurn, ImageResult, IntentClassification, IntentOption, ItineraryReply, VideoAspectRatio } from '../services/chatProvider';
+import { INTENT_FIXTURES } from '../services/intentFixtures';
+import { parseItinerary } from '../services/itinerary';
+import { WEATHER_CONDITIONS, parseBriefing } from '../services/briefing';
+import type { Itinerary } from '../types';
+
+// Only models from the registry are ever sent to the API.
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+let client: GoogleGenAI | null = null;
+
+const getApiKey = (): string => {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+    if (!apiKey) {
+        throw new Error("GEMINI_API_KEY environment variable not set");
+    }
+    return apiKey;
+};
+
+const getClient = (): GoogleGenAI => {
+    if (!client) client = new GoogleGenAI({ apiKey: getApiKey() });
+    return client;
+};
+
+const extractSources = (response: GenerateContentResponse): ChatSource[] => {
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    if (!groundingMetadata?.groundingChunks || !Array.isArray(groundingMetadata.groundingChunks)) return [];
+    return groundingMetadata.groundingChunks
+        .flatMap(c => {
+            if (c.web) {
+                return [{ uri: c.web.uri, title: c.web.title }];
+            }
+            if (c.maps) {
+                return [{ uri: c.maps.uri, title: c.maps.title, isPlace: true }];
+            }
+            return [];
+        })
+        .filter((c): c is ChatSource => !!c && !!c.uri)
+        .map(c => ({ uri: c.uri, title: c.title || '', ...(c.isPlace && { isPlace: true }) }));
+};
+
+const toImageResult = (response: GenerateContentResponse): ImageResult => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+    return {
+        image: imagePart?.inlineData?.data ? { data: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType || 'image/png' } : undefined,
+        text: response.text,
+        blockReason: blockReason ? blockReason.toLowerCase().replace(/_/g, ' ') : undefined,
+    };
+};
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII];
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) throw new GenerationError('safety', `Request was blocked due to: ${blockReason.toLowerCase().replace(/_/g, ' ')}.`);
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (SAFETY_FINISH_REASONS.includes(finishReason)) throw new GenerationError('safety', `Response was stopped for ${String(finishReason).toLowerCase().replace(/_/g, ' ')}.`);
+};
+
+export async function* streamChat(languageCode: string, modelId: string | undefined, history: ChatTurn[], message: (string | ChatPart)[], signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    const model = resolveChatModel(modelId);
+    const chat = getClient().chats.create({
+        model: model.id,
+        config: {
+            systemInstruction: `${SYSTEM_PROMPT}\n The chat's language is ${LANGUAGES.find(l => l.code === languageCode)?.name ?? 'English'}. Reply in it even when the traveler writes in another language or mixes languages.`,
+            tools: hasCapability(model, 'grounding') ? [{ googleSearch: {} }, { googleMaps: {} }] : undefined,
+        },
+        history: history,
+    });
+
+    const stream = await chat.sendMessageStream({ message: message as (string | Part)[], config: { abortSignal: signal } });
+    for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        yield { text: chunk.text ?? '', sources: extractSources(chunk) };
+    }
+}
+
+export async function editImage(file: { data: string; mimeType: string }, prompt: string): Promise<ImageResult> {
+    const imagePart: Part = {
+        inlineData: {
+            data: file.data,
+            mimeType: file.mimeType,
+        }
+    };
+    const textPart: Part = { text: prompt };
+
+    // For multi-part requests, 'contents' must be a Content object with a 'parts' array.
+    const response = await getClient().models.generateContent({
+        model: DEFAULT_MODELS.image,
+        contents: { parts: [imagePart, textPart] },
+        config: {
+            responseModalities: [Modality.IMAGE],
+        },
+    });
+    return toImageResult(response);
+}
+
+export async function generateImage(prompt: string): Promise<ImageResult> {
+    const response = await getClient().models.generateContent({
+        model: DEFAULT_MODELS.image,
+        contents: { parts: [{ text: prompt }] },
+        config: {
+            responseModalities: [Modality.IMAGE],
+        },
+    });
+    return toImageResult(response);
+}
+
+export async function startVideo(file: { data: string; mimeType: string }, prompt: string, aspectRatio: VideoAspectRatio): Promise<string> {
+    const operation = await getClient().models.generateVideos({
+        model: DEFAULT_MODELS.video,
+        prompt,
+        image: {
+            imageBytes: file.data,
+            mimeType: file.mimeType,
+        },
+        config: {
+            numberOfVideos: 1,
+            resolution: '720p',
+            aspectRatio: aspectRatio,
+        }
+    });
+    if (!operation.name) throw new Error("Video generation did not return an operation name.");
+    return operation.name;
+}
+
+// Returns the (key-less) download URI once the operation is done, or `{ done: false }` while it is still running.
+export async function getVideoStatus(operationName: string): Promise<{ done: boolean; uri?: string }> {
+    const pending = new GenerateVideosOperation();
+    pending.name = operationName;
+    const operation = await getClient().operations.getVideosOperation({ operation: pending });
+    if (!operation.done) return { done: false };
+    if (operation.error) throw new GenerationError('model-unavailable', String(operation.error.message ?? 'Video generation failed.'));
+
+    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!downloadLink) {
+        // Veo returns no video when the prompt or image was filtered.
+        if (operation.response?.raiMediaFilteredCount) throw new GenerationError('safety', "The video was filtered by the safety system.");
+        throw new GenerationError('model-unavailable', "Video generation completed but no download link was found.");
+    }
+    return { done: true, uri: downloadLink };
+}
+
+// Fetches the generated video with the key sent as a header, so it never appears in a URL the browser sees.
+export async function fetchVideo(uri: string): Promise<Response> {
+    const url = new URL(uri);
+    if (url.hostname !== 'generativelanguage.googleapis.com') {
+        throw new Error(`Refusing to fetch video from unexpected host ${url.hostname}`);
+    }
+    return fetch(url, { headers: { 'x-goog-api-key': getApiKey() } });
+}
+
+export async function summarizeText(text: string): Promise<string> {
+    const response = await getClient().models.generateContent({
+        model: DEFAULT_MODELS.utility,
+        contents: `Summarize the following text concisely:\n\n${text}`,
+    });
+    return response.text ?? '';
+}
+
+// Keeps the markdown, links and emoji of a reply, so the translation renders like the original.
+export async function translateText(text: string, languageCode: string): Promise<string> {
+    const language = LANGUAGES.find(l => l.code === languageCode)?.name ?? 'English';
+    const response = await getClient().models.generateContent({
+        model: DEFAULT_MODELS.utility,
+        contents: `Translate the following message into ${language}. Keep its markdown, links, emoji and line breaks as they are, leave place names recognizable, and reply with the translation only. If it is already in ${language}, return it unchanged.\n\n${text}`,
+    });
+    assertNotBlocked(response);
+    return response.text ?? '';
+}
+
+const MAX_TITLE_LENGTH = 60;
+
+export async function describeChat(transcript: string, languageCode: string): Promise<ChatDescription> {
+    const language = LANGUAGES.find(l => l.code === languageCode)?.name ?? 'English';
+    const response = await getClient().models.generateContent({
+        model: DEFAULT_MODELS.utility,
+        contents: `Give this conversation with a Gokarna travel guide a concise title of at most six words, written in ${language}, and pick the topics it is about.\n\n${transcript}`,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    tags: { type: Type.ARRAY, items: { type: Type.STRING, enum: [...SESSION_TAGS] } },
+                },
+                required: ['title', 'tags'],
+            },
+        },
+    });
+    assertNotBlocked(response);
+    let parsed: { title?: unknown; tags?: unknown };
+    try {
+        parsed = JSON.parse(response.text ?? '');
+    } catch {
+        throw new GenerationError('model-unavailable', 'The model did not return a chat title.');
+    }
+    // The schema constrains the model, but do not trust it with what ends up in the history panel.
+    const title = typeof parsed.title === 'string' ? parsed.title.replace(/^["'\s]+|["'\s.]+$/g, '').slice(0, MAX_TITLE_LENGTH) : '';
+    const tags = Array.isArray(parsed.tags) ? SESSION_TAGS.filter(tag => (parsed.tags as unknown[]).includes(tag)) : [];
+    return { title, tags: tags as SessionTag[] };
+}
+
+const INTENT_EXAMPLES = INTENT_FIXTURES
+    .map(f => `${JSON.stringify(f.text)}${f.withImage ? ' (with a photo)' : ''}${f.withItinerary ? ' (the chat has a trip plan)' : ''} -> ${f.intent}${f.targetLanguage ? ` (${f.targetLanguage})` : ''}`)
+    .join('\n');
+
+export async function classifyIntent(text: string, options: IntentOption[], attachmentTypes: string[], languageCode: string): Promise<IntentClassification> {
+    const attachments = attachmentTypes.length > 0 ? `The message comes with attachments of type ${attachmentTypes.join(', ')}.` : 'The message has no attachments.';
+    const response = await getClient().models.generateContent({
+        model: DEFAULT_MODELS.utility,
+        contents: `A traveler sent this message to a Gokarna travel guide app. The chat is currently in ${languageCode}. ${attachments}
+Rate how likely the message asks for each of these actions, from 0 to 1:
+${options.map(o => `- ${o.id}: ${o.description}`).join('\n')}
+If it asks to switch languages, also give the language code asked for.
+
+Examples:
+${INTENT_EXAMPLES}
+
+Message: ${JSON.stringify(text)}`,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    scores: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                intent: { type: Type.STRING, enum: options.map(o => o.id) },
+                                confidence: { type: Type.NUMBER },
+                            },
+                            required: ['intent', 'confidence'],
+                        },
+                    },
+                    languageCode: { type: Type.STRING, enum: LANGUAGES.map(l => l.code) },
+                },
+                required: ['scores'],
+            },
+        },
+    });
+    assertNotBlocked(response);
+    let parsed: { scores?: unknown; languageCode?: unknown };
+    try {
+        parsed = JSON.parse(response.text ?? '');
+    } catch {
+        throw new GenerationError('model-unavailable', 'The model did not return an intent.');
+    }
+    const ids = options.map(o => o.id);
+    const scores = (Array.isArray(parsed.scores) ? parsed.scores : [])
+        .filter((s): s is IntentClassification['scores'][number] => typeof s === 'object' && s !== null && ids.includes(s.intent) && typeof s.confidence === 'number')
+        .map(s => ({ intent: s.intent, confidence: Math.min(1, Math.max(0, s.confidence)) }));
+    const targetLanguage = LANGUAGES.find(l => l.code === parsed.languageCode)?.code;
+    return targetLanguage ? { scores, languageCode: targetLanguage } : { scores };
+}
+
+const ITINERARY_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        text: { type: Type.STRING },
+        title: { type: Type.STRING },
+        notes: { type: Type.STRING },
+        days: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    stops: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                id: { type: Type.STRING },
+                                time: { type: Type.STRING },
+                                place: { type: Type.STRING },
+                                activity: { type: Type.STRING },
+                                travel: {
+                                    type: Type.OBJECT,
+                                    properties: { mode: { type: Type.STRING }, minutes: { type: Type.NUMBER } },
+                                    required: ['mode', 'minutes'],
+                                },
+                                cost: { type: Type.NUMBER },
+                                notes: { type: Type.STRING },
+                            },
+                            required: ['time', 'place', 'activity'],
+                        },
+                    },
+                },
+                required: ['title', 'stops'],
+            },
+        },
+    },
+    required: ['text', 'title', 'days'],
+};
+
+export async function planItinerary(request: string, languageCode: string, current?: Itinerary): Promise<ItineraryReply> {
+    const language = LANGUAGES.find(l => l.code === languageCode)?.name ?? 'English';
+    const task = current
+        ? `Here is the traveler's current plan as JSON:
+${JSON.stringify(current)}
+
+Change it as they ask below. Keep every stop they did not ask to change, with its id, and leave the id out of new stops.`
+        : 'Plan their trip as they ask below. If they do not say how long they stay, plan two days.';
+    const response = await getClient().models.generateContent({
+        model: DEFAULT_MODELS.chat,
+        contents: `You are planning a trip to Gokarna, Karnataka for a traveler. ${task}
+Give times in 24-hour format, the travel leg to each stop from the one before (walk, auto-rickshaw, bus, boat or taxi, with minutes), and rough costs per person in rupees. Order stops so that travel is short, and keep beach visits clear of high tide.
+Write every text field in ${language}, and start with one or two sentences introducing the plan in "text".
+
+Traveler: ${JSON.stringify(request)}`,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: ITINERARY_SCHEMA,
+        },
+    });
+    assertNotBlocked(response);
+    let parsed: { text?: unknown };
+    try {
+        parsed = JSON.parse(response.text ?? '');
+    } catch {
+        throw new GenerationError('model-unavailable', 'The model did not return a trip plan.');
+    }
+    const itinerary = parseItinerary(parsed);
+    if (!itinerary) throw new GenerationError('model-unavailable', 'The model did not return a trip plan.');
+    const text = typeof parsed.text === 'string' && parsed.text.trim() ? parsed.text.trim() : itinerary.title;
+    return { itinerary, text };
+}
+
+const BRIEFING_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING },
+        temperature: { type: Type.NUMBER },
+        high: { type: Type.NUMBER },
+        low: { type: Type.NUMBER },
+        condition: { type: Type.STRING, enum: WEATHER_CONDITIONS },
+        conditionText: { type: Type.STRING },
+        tides: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    type: { type: Type.STRING, enum: ['high', 'low'] },
+                    time: { type: Type.STRING },
+                },
+                required: ['type', 'time'],
+            },
+        },
+        sunset: { type: Type.STRING },
+        gem: { type: Type.STRING },
+        safetyTip: { type: Type.STRING },
+    },
+    required: ['summary', 'temperature', 'condition', 'conditionText', 'tides', 'gem', 'safetyTip'],
+};
+
+// Search grounding and a response schema cannot be combined in one request, so the day is looked
+// up first and the notes are then put into shape. The sources are the search's.
+export async function getBriefing(languageCode: string, date: string): Promise<BriefingReply> {
+    const language = LANGUAGES.find(l => l.code === languageCode)?.name ?? 'English';
+    const search = await getClient().models.generateContent({
+        model: DEFAULT_MODELS.utility,
+        contents: `Use your search tool to find today's conditions in Gokarna, Karnataka. Today is ${date} in India.
+Note the weather forecast (the condition, the temperature and the day's high and low in Celsius), every high and low tide today, and the sunset time, all in Indian Standard Time.
+Then add one gem of the day: a specific, less-common tip for today, such as a local dish to try at a shack, a lesser-known viewpoint for the sunset, or a cultural etiquette tip. Be creative.
+Finish with one short safety tip that suits today's weather and tides.`,
+        config: { tools: [{ googleSearch: {} }] },
+    });
+    assertNotBlocked(search);
+    const response = await getClient().models.generateContent({
+        model: DEFAULT_MODELS.utility,
+        contents: `Turn these notes on Gokarna for ${date} into today's briefing. Write "summary" as one welcoming sentence about the day, and write "summary", "conditionText", "gem" and "safetyTip" in ${language}. Give temperatures in Celsius and times as 24-hour HH:MM, with the tides in time order. Leave out the high, low and sunset if the notes do not give them.
+
+${search.text ?? ''}`,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: BRIEFING_SCHEMA,
+        },
+    });
+    assertNotBlocked(response);
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(response.text ?? '');
+    } catch {
+        throw new GenerationError('model-unavailable', "The model did not return today's briefing.");
+    }
+    const briefing = parseBriefing(typeof parsed === 'object' && parsed !== null ? { ...parsed, date } : null);
+    if (!briefing) throw new GenerationError('model-unavailable', "The model did not return today's briefing.");
+    return { briefing, sources: extractSources(search) };
+}
+
+// Live sessions run over a WebSocket straight from the browser, so they get a short-lived,
+// single-use token instead of the real key.
+export async function createLiveToken(): Promise<string> {
+    const expireTime = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+    const token = await getClient().authTokens.create({
+        config: {
+            uses: 1,
+            expireTime,
+            liveConnectConstraints: { model: LIVE_MODEL },
+            httpOptions: { apiVersion: 'v1alpha' },
+        },
+    });
+    if (!token.name) throw new Error("Failed to create a live session token.");
+    return token.name;
+}
@@ -0,0 +1,202 @@
+import http from 'node:http';
+import fs from 'node:fs';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import * as gemini from './gemini';
+import { classifyError } from '../services/errors';
+import type { ChatPart, ChatTurn, IntentOption } from '../services/chatProvider';
+import { parseItinerary } from '../services/itinerary';
+
+// A small local backend that keeps the Gemini API key on the server. The browser only ever
+// talks to these /api routes (proxied by the Vite dev server).
+
+if (fs.existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => Promise<void>;
+
+const readJson = async <T,>(req: http.IncomingMessage): Promise<T> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8')) as T;
+    } catch {
+        throw new HttpError(400, 'Request body must be valid JSON');
+    }
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const requireString = (value: unknown, field: string): string => {
+    if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${field}" is required`);
+    return value;
+};
+
+const requireFile = (value: unknown): { data: string; mimeType: string } => {
+    const file = value as { data?: unknown; mimeType?: unknown } | undefined;
+    return { data: requireString(file?.data, 'file.data'), mimeType: requireString(file?.mimeType, 'file.mimeType') };
+};
+
+// A part holds text, inline data or both, and nothing of another type.
+const isChatPart = (value: unknown): value is ChatPart => {
+    const part = value as { text?: unknown; inlineData?: { data?: unknown; mimeType?: unknown } } | null;
+    if (typeof part !== 'object' || part === null) return false;
+    if (part.text !== undefined && typeof part.text !== 'string') return false;
+    if (part.inlineData !== undefined && (typeof part.inlineData?.data !== 'string' || typeof part.inlineData.mimeType !== 'string')) return false;
+    return part.text !== undefined || part.inlineData !== undefined;
+};
+
+const requireMessage = (value: unknown): (string | ChatPart)[] => {
+    if (!Array.isArray(value) || value.length === 0 || !value.every(part => typeof part === 'string' || isChatPart(part))) {
+        throw new HttpError(400, '"message" must be a list of text or parts');
+    }
+    return value;
+};
+
+const requireHistory = (value: unknown): ChatTurn[] => {
+    if (value === undefined) return [];
+    const isTurn = (turn: { role?: unknown; parts?: unknown } | null) =>
+        (turn?.role === 'user' || turn?.role === 'model') && Array.isArray(turn.parts) && turn.parts.every(isChatPart);
+    if (!Array.isArray(value) || !value.every(isTurn)) throw new HttpError(400, '"history" must be a list of chat turns');
+    return value;
+};
+
+const routes: { [key: string]: RouteHandler } = {
+    // Streams newline-delimited JSON chunks: one { text, sources } object per line.
+    'POST /api/chat/stream': async (req, res) => {
+        const body = await readJson<{ languageCode?: string; model?: string; history?: ChatTurn[]; message?: (string | ChatPart)[] }>(req);
+        const history = requireHistory(body.history);
+        const message = requireMessage(body.message);
+        // Stop generating as soon as the browser goes away (e.g. the user pressed Stop).
+        const controller = new AbortController();
+        res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+        const stream = gemini.streamChat(body.languageCode || 'en-US', body.model, history, message, controller.signal);
+        // Pull the first chunk before committing to a 200 so setup errors still get a proper status.
+        const first = await stream.next();
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+        if (!first.done) res.write(`${JSON.stringify(first.value)}\n`);
+        try {
+            for await (const chunk of stream) {
+                if (controller.signal.aborted) break;
+                res.write(`${JSON.stringify(chunk)}\n`);
+            }
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            const classified = classifyError(error);
+            res.write(`${JSON.stringify({ error: { kind: classified.kind, message: classified.message } })}\n`);
+        }
+        res.end();
+    },
+
+    'POST /api/images/generate': async (req, res) => {
+        const body = await readJson<{ prompt?: string }>(req);
+        sendJson(res, 200, await gemini.generateImage(requireString(body.prompt, 'prompt')));
+    },
+
+    'POST /api/images/edit': async (req, res) => {
+        const body = await readJson<{ prompt?: string; file?: unknown }>(req);
+        sendJson(res, 200, await gemini.editImage(requireFile(body.file), requireString(body.prompt, 'prompt')));
+    },
+
+    'POST /api/videos': async (req, res) => {
+        const body = await readJson<{ prompt?: string; file?: unknown; aspectRatio?: string }>(req);
+        const aspectRatio = body.aspectRatio === '9:16' ? '9:16' : '16:9';
+        const operationName = await gemini.startVideo(requireFile(body.file), requireString(body.prompt, 'prompt'), aspectRatio);
+        sendJson(res, 202, { operationName });
+    },
+
+    'GET /api/videos/status': async (_req, res, url) => {
+        const status = await gemini.getVideoStatus(requireString(url.searchParams.get('operation'), 'operation'));
+        // The download URI is handed back only as an opaque parameter for the content route below.
+        sendJson(res, 200, status.done ? { done: true, contentUrl: `/api/videos/content?uri=${encodeURIComponent(status.uri!)}` } : { done: false });
+    },
+
+    'GET /api/videos/content': async (_req, res, url) => {
+        const upstream = await gemini.fetchVideo(requireString(url.searchParams.get('uri'), 'uri'));
+        if (!upstream.ok || !upstream.body) throw new HttpError(upstream.status || 502, 'Failed to download the generated video');
+        res.writeHead(200, {
+            'Content-Type': upstream.headers.get('content-type') || 'video/mp4',
+            ...(upstream.headers.get('content-length') ? { 'Content-Length': upstream.headers.get('content-length')! } : {}),
+        });
+        Readable.fromWeb(upstream.body as WebReadableStream).pipe(res);
+    },
+
+    'POST /api/summarize': async (req, res) => {
+        const body = await readJson<{ text?: string }>(req);
+        sendJson(res, 200, { summary: await gemini.summarizeText(requireString(body.text, 'text')) });
+    },
+
+    'POST /api/briefing': async (req, res) => {
+        const body = await readJson<{ languageCode?: string; date?: string }>(req);
+        const date = requireString(body.date, 'date');
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new HttpError(400, '"date" must be YYYY-MM-DD');
+        sendJson(res, 200, await gemini.getBriefing(body.languageCode || 'en-US', date));
+    },
+
+    'POST /api/translate': async (req, res) => {
+        const body = await readJson<{ text?: string; languageCode?: string }>(req);
+        sendJson(res, 200, { translation: await gemini.translateText(requireString(body.text, 'text'), requireString(body.languageCode, 'languageCode')) });
+    },
+
+    'POST /api/chats/describe': async (req, res) => {
+        const body = await readJson<{ transcript?: string; languageCode?: string }>(req);
+        sendJson(res, 200, await gemini.describeChat(requireString(body.transcript, 'transcript'), body.languageCode || 'en-US'));
+    },
+
+    'POST /api/intents/classify': async (req, res) => {
+        const body = await readJson<{ text?: string; options?: IntentOption[]; attachmentTypes?: string[]; languageCode?: string }>(req);
+        const options = Array.isArray(body.options) ? body.options.filter(o => typeof o?.id === 'string' && typeof o.description === 'string') : [];
+        if (options.length === 0) throw new HttpError(400, '"options" is required');
+        const attachmentTypes = Array.isArray(body.attachmentTypes) ? body.attachmentTypes.filter((t): t is string => typeof t === 'string') : [];
+        sendJson(res, 200, await gemini.classifyIntent(requireString(body.text, 'text'), options, attachmentTypes, body.languageCode || 'en-US'));
+    },
+
+    'POST /api/itineraries/plan': async (req, res) => {
+        const body = await readJson<{ request?: string; languageCode?: string; current?: unknown }>(req);
+        const current = body.current === undefined ? undefined : parseItinerary(body.current);
+        if (current === null) throw new HttpError(400, '"current" is not a valid itinerary');
+        sendJson(res, 200, await gemini.planItinerary(requireString(body.request, 'request'), body.languageCode || 'en-US', current));
+    },
+
+    'POST /api/live/token': async (_req, res) => {
+        sendJson(res, 200, { token: await gemini.createLiveToken(), model: gemini.LIVE_MODEL });
+    },
+};
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const handler = routes[`${req.method} ${url.pathname}`];
+    try {
+        if (!handler) throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+        await handler(req, res, url);
+    } catch (error) {
+        const classified = classifyError(error);
+        const status = error instanceof HttpError ? error.status : classified.status;
+        console.error(`${req.method} ${url.pathname} failed (${classified.kind}):`, classified.message);
+        if (!res.headersSent) sendJson(res, status, { error: { kind: classified.kind, message: classified.message } });
+        else res.end();
+    }
+});
+
+// Loopback only: the Vite dev proxy is the one client, and anyone else who could reach this
+// server could spend the API key through it.
+server.listen(PORT, HOST, () => {
+    console.log(`Gokarna Guide API listening on http://${HOST}:${PORT}`);
+});
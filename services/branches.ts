@@ -0,0 +1,86 @@
+import type { ChatMessage, ChatSession } from '../types';
+
+// A session's `messages` hold every branch of the conversation as a tree: each message points
+// at the one before it through `parentId`, and `activeLeafId` picks the branch on screen.
+// Editing a user message or regenerating a reply adds a sibling instead of replacing anything.
+
+// Messages saved before branching existed have no parentId and simply follow the previous one.
+const parentIdOf = (messages: ChatMessage[], index: number): number | null => {
+  const parentId = messages[index].parentId;
+  if (parentId !== undefined) return parentId;
+  return index > 0 ? messages[index - 1].id : null;
+};
+
+const childrenOf = (messages: ChatMessage[], parentId: number | null): ChatMessage[] =>
+  messages.filter((_, index) => parentIdOf(messages, index) === parentId);
+
+// Follows the newest child at every step, so switching to a version shows its latest continuation.
+export function deepestLeaf(messages: ChatMessage[], messageId: number): number {
+  let leafId = messageId;
+  for (;;) {
+    const children = childrenOf(messages, leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
+
+export function getActivePath(session: ChatSession): ChatMessage[] {
+  const { messages } = session;
+  if (messages.length === 0) return [];
+  const indexById = new Map(messages.map((m, index) => [m.id, index]));
+  // Without a valid leaf, the most recently added message is the end of the active branch.
+  let index = session.activeLeafId !== undefined ? indexById.get(session.activeLeafId) : undefined;
+  if (index === undefined) index = messages.length - 1;
+
+  const path: ChatMessage[] = [];
+  const seen = new Set<number>();
+  while (index !== undefined && !seen.has(index)) {
+    seen.add(index);
+    path.push(messages[index]);
+    const parentId = parentIdOf(messages, index);
+    index = parentId === null ? undefined : indexById.get(parentId);
+  }
+  return path.reverse();
+}
+
+// The path from the root down to (and including) `messageId`.
+export function getPathTo(session: ChatSession, messageId: number): ChatMessage[] {
+  return getActivePath({ ...session, activeLeafId: messageId });
+}
+
+export function getParentId(messages: ChatMessage[], messageId: number): number | null {
+  const index = messages.findIndex(m => m.id === messageId);
+  return index === -1 ? null : parentIdOf(messages, index);
+}
+
+// Other versions of a message: same parent and same sender. System notices are never versions.
+export function getVersions(messages: ChatMessage[], messageId: number): ChatMessage[] {
+  const message = messages.find(m => m.id === messageId);
+  if (!message || message.isSystem) return [];
+  return childrenOf(messages, getParentId(messages, messageId)).filter(m => m.sender === message.sender && !m.isSystem);
+}
+
+// Gives messages that were just appended a parent: the current leaf, or the message appended
+// before them. Messages created with an explicit parentId start a new branch from there. The
+// new leaf is the last message appended, which is where the next one will attach.
+export function linkNewMessages(session: ChatSession, next: ChatMessage[]): { messages: ChatMessage[]; activeLeafId: number | undefined } {
+  const previousIds = new Set(session.messages.map(m => m.id));
+  const nextIds = new Set(next.map(m => m.id));
+
+  // If the leaf was removed (a retry drops the failed reply), fall back to its nearest surviving ancestor.
+  const path = getActivePath(session);
+  let runningLeaf = [...path].reverse().find(m => nextIds.has(m.id))?.id;
+
+  let changed = false;
+  const messages = next.map(message => {
+    if (previousIds.has(message.id)) return message;
+    changed = true;
+    const linked = message.parentId !== undefined ? message : { ...message, parentId: runningLeaf ?? null };
+    runningLeaf = linked.id;
+    return linked;
+  });
+  if (!changed && (session.activeLeafId === undefined || nextIds.has(session.activeLeafId))) {
+    return { messages: next, activeLeafId: session.activeLeafId };
+  }
+  return { messages, activeLeafId: runningLeaf };
+}
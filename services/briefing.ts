@@ -0,0 +1,111 @@
+import type { TideEvent, TodaysBriefing, WeatherCondition } from '../types';
+import type { BriefingReply, ChatSource } from './chatProvider';
+
+// Today's briefing comes from the model as JSON (see getBriefing in server/gemini.ts) and is shown
+// as a card. It only changes once a day, so each language's briefing is kept in localStorage until
+// the date in Gokarna moves on, and asking again the same day costs no search.
+
+export const WEATHER_CONDITIONS: WeatherCondition[] = ['sunny', 'partly-cloudy', 'cloudy', 'rain', 'storm', 'fog'];
+
+const MAX_TIDES = 6;
+const MAX_TEXT_LENGTH = 400;
+const CACHE_KEY = 'gokarna-briefings';
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const cleanText = (value: unknown): string => typeof value === 'string' ? value.trim().slice(0, MAX_TEXT_LENGTH) : '';
+const cleanTemperature = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value > -10 && value < 60 ? Math.round(value) : undefined;
+
+// "7:05", "07:05" and "07:05:00" all become "07:05"; anything else is not a clock time.
+export function cleanTime(value: unknown): string | undefined {
+  const match = typeof value === 'string' ? value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/) : null;
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return undefined;
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+export const minutesOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// The calendar day in Gokarna, wherever the device is; briefings are cached by it.
+export const gokarnaToday = (now: Date = new Date()): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(now);
+
+// The time of day in Gokarna, as "14:05", for the "now" mark on the tide timeline.
+export const gokarnaTime = (now: Date = new Date()): string =>
+  new Intl.DateTimeFormat('en-GB', { timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(now);
+
+// Keeps whatever is usable from model output or stored data. Returns null without a date or a
+// temperature, since the card has nothing to show then.
+export function parseBriefing(value: unknown): TodaysBriefing | null {
+  if (!isObject(value)) return null;
+  const date = cleanText(value.date);
+  const temperature = cleanTemperature(value.temperature);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || temperature === undefined) return null;
+
+  const tides: TideEvent[] = (Array.isArray(value.tides) ? value.tides : [])
+    .filter(isObject)
+    .flatMap((tide): TideEvent[] => {
+      const time = cleanTime(tide.time);
+      return time && (tide.type === 'high' || tide.type === 'low') ? [{ type: tide.type, time }] : [];
+    })
+    .sort((a, b) => minutesOfDay(a.time) - minutesOfDay(b.time))
+    .slice(0, MAX_TIDES);
+  const condition = WEATHER_CONDITIONS.includes(value.condition as WeatherCondition) ? value.condition as WeatherCondition : 'partly-cloudy';
+  const briefing: TodaysBriefing = {
+    date,
+    summary: cleanText(value.summary),
+    temperature,
+    condition,
+    conditionText: cleanText(value.conditionText),
+    tides,
+    gem: cleanText(value.gem),
+    safetyTip: cleanText(value.safetyTip),
+  };
+  const high = cleanTemperature(value.high);
+  const low = cleanTemperature(value.low);
+  if (high !== undefined) briefing.high = high;
+  if (low !== undefined) briefing.low = low;
+  const sunset = cleanTime(value.sunset);
+  if (sunset) briefing.sunset = sunset;
+  return briefing;
+}
+
+// The card is not text, so the chat model and exports get this instead.
+export function briefingToText(briefing: TodaysBriefing): string {
+  const range = [briefing.high !== undefined && `high ${briefing.high}°C`, briefing.low !== undefined && `low ${briefing.low}°C`].filter(Boolean).join(', ');
+  const lines = [`Today's briefing for ${briefing.date}: ${briefing.conditionText || briefing.condition}, ${briefing.temperature}°C${range ? ` (${range})` : ''}`];
+  if (briefing.tides.length > 0) lines.push(`Tides: ${briefing.tides.map(tide => `${tide.type} ${tide.time}`).join(', ')}`);
+  if (briefing.sunset) lines.push(`Sunset: ${briefing.sunset}`);
+  if (briefing.gem) lines.push(`💎 Gem of the day: ${briefing.gem}`);
+  if (briefing.safetyTip) lines.push(`💡 Safety tip: ${briefing.safetyTip}`);
+  return lines.join('\n');
+}
+
+const isSource = (value: unknown): value is ChatSource =>
+  isObject(value) && typeof value.uri === 'string' && typeof value.title === 'string';
+
+const readCache = (): RawObject => {
+  try {
+    const cached: unknown = JSON.parse(localStorage.getItem(CACHE_KEY) ?? '{}');
+    return isObject(cached) ? cached : {};
+  } catch {
+    return {};
+  }
+};
+
+export function readCachedBriefing(languageCode: string, today: string = gokarnaToday()): BriefingReply | null {
+  const entry = readCache()[languageCode];
+  const briefing = isObject(entry) ? parseBriefing(entry.briefing) : null;
+  if (!isObject(entry) || !briefing || briefing.date !== today) return null;
+  return { briefing, sources: Array.isArray(entry.sources) ? entry.sources.filter(isSource) : [] };
+}
+
+// Briefings for earlier days are dropped as a new day's is saved.
+export function cacheBriefing(languageCode: string, reply: BriefingReply): void {
+  const current = Object.entries(readCache()).filter(([, entry]) => isObject(entry) && isObject(entry.briefing) && entry.briefing.date === reply.briefing.date);
+  localStorage.setItem(CACHE_KEY, JSON.stringify({ ...Object.fromEntries(current), [languageCode]: reply }));
+}
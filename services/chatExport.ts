@@ -0,0 +1,288 @@
+import type { ChatMessage, ChatSession } from '../types';
+import { SCHEMA_VERSION, migrateSession, validateSession } from './chatSchema';
+import { getActivePath } from './branches';
+import { itineraryToText } from './itinerary';
+import { briefingToText } from './briefing';
+import { hotelsToText } from './hotels';
+
+// Export to JSON (lossless, re-importable), Markdown, or a standalone HTML page that works
+// offline. Media in memory may be object URLs, so exports inline everything as data: URLs.
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+const EXPORT_FORMAT_ID = 'gokarna-guide-chats';
+
+interface ExportFile {
+  format: typeof EXPORT_FORMAT_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  sessions: ChatSession[];
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Turns blob: and same-origin URLs into data: URLs. Media that cannot be fetched keeps its URL.
+async function inlineUrl(url: string): Promise<string> {
+  if (url.startsWith('data:')) return url;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`status ${response.status}`);
+    return await blobToDataUrl(await response.blob());
+  } catch (e) {
+    console.warn(`Could not inline ${url} in export`, e);
+    return url;
+  }
+}
+
+// Strips what cannot be serialized (suggestion icons, preview URLs) and inlines media.
+async function portableMessage(message: ChatMessage): Promise<ChatMessage> {
+  const { files, images, videoUrl, suggestions, ...rest } = message;
+  const portable: ChatMessage = { ...rest };
+  if (files) portable.files = files.map(({ previewUrl: _previewUrl, ...file }) => file);
+  if (images) portable.images = await Promise.all(images.map(inlineUrl));
+  if (videoUrl) portable.videoUrl = await inlineUrl(videoUrl);
+  if (suggestions) portable.suggestions = suggestions.map(({ icon: _icon, ...suggestion }) => suggestion) as ChatMessage['suggestions'];
+  return portable;
+}
+
+async function portableSessions(sessions: ChatSession[]): Promise<ChatSession[]> {
+  return Promise.all(sessions.map(async session => ({
+    ...session,
+    // Messages still streaming have nothing final to export.
+    messages: await Promise.all(session.messages.filter(m => !m.isLoading).map(portableMessage)),
+  })));
+}
+
+// Readable exports show the branch that was on screen; JSON keeps every branch.
+const exportedMessages = (session: ChatSession) => getActivePath(session).filter(m => !m.isWelcome && !m.isSystem && !m.isLoading);
+
+// --- Markdown ------------------------------------------------------------------
+
+function toMarkdown(sessions: ChatSession[]): string {
+  return sessions.map(session => {
+    const lines = [`# ${session.title}`, ''];
+    for (const message of exportedMessages(session)) {
+      lines.push(`### ${message.sender === 'user' ? 'You' : 'Gokarna Guide'}`, '');
+      message.files?.forEach(file => lines.push(`📎 ${file.name}`));
+      if (message.files?.length) lines.push('');
+      if (message.text) lines.push(message.text, '');
+      if (message.itinerary) lines.push(itineraryToText(message.itinerary), '');
+      if (message.hotels?.length) lines.push(hotelsToText(message.hotels), '');
+      if (message.briefing) lines.push(briefingToText(message.briefing), '');
+      message.images?.forEach((src, index) => lines.push(`![Gokarna image ${index + 1}](${src})`));
+      if (message.images?.length) lines.push('');
+      if (message.videoUrl) lines.push(`[Generated video](${message.videoUrl})`, '');
+      if (message.sources?.length) {
+        lines.push('Sources:');
+        message.sources.forEach(source => lines.push(`- [${source.title || source.uri}](${source.uri})`));
+        lines.push('');
+      }
+      if (message.citations?.length) {
+        lines.push('From the Gokarna Guide dataset:');
+        message.citations.forEach(citation => lines.push(`- ${citation.name}`));
+        lines.push('');
+      }
+    }
+    return lines.join('\n');
+  }).join('\n---\n\n');
+}
+
+// --- HTML ----------------------------------------------------------------------
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Only http(s) and data: links survive; anything else (e.g. javascript:) is rendered as text.
+const safeUrl = (url: string) => /^(https?:|data:)/i.test(url.trim()) ? escapeHtml(url.trim()) : null;
+
+// Same rules as MarkdownRenderer in MessageBubble: **bold** and [text](url), one paragraph per line.
+const renderLine = (line: string) => {
+  const combinedRegex = /\[(.*?)\]\((.*?)\)|\*\*(.*?)\*\*/g;
+  let html = '';
+  let lastIndex = 0;
+  let match;
+  while ((match = combinedRegex.exec(line)) !== null) {
+    html += escapeHtml(line.substring(lastIndex, match.index));
+    const [whole, linkText, linkUrl, boldText] = match;
+    if (linkText !== undefined && linkUrl !== undefined) {
+      const href = safeUrl(linkUrl);
+      html += href ? `<a href="${href}" target="_blank" rel="noopener noreferrer">${escapeHtml(linkText)}</a>` : escapeHtml(whole);
+    } else if (boldText !== undefined) {
+      html += `<strong>${escapeHtml(boldText)}</strong>`;
+    }
+    lastIndex = combinedRegex.lastIndex;
+  }
+  return `<p>${html + escapeHtml(line.substring(lastIndex))}</p>`;
+};
+
+const hostname = (uri: string) => {
+  try {
+    return new URL(uri).hostname;
+  } catch {
+    return uri;
+  }
+};
+
+function renderMessage(message: ChatMessage): string {
+  const parts: string[] = [];
+  if (message.files?.length) {
+    parts.push(`<div class="files">${message.files.map(file => file.mimeType.startsWith('image/')
+      ? `<img src="data:${escapeHtml(file.mimeType)};base64,${escapeHtml(file.data)}" alt="${escapeHtml(file.name)}">`
+      : `<span class="file">📎 ${escapeHtml(file.name)}</span>`).join('')}</div>`);
+  }
+  if (message.videoUrl) {
+    const src = safeUrl(message.videoUrl);
+    if (src) parts.push(`<video src="${src}" controls></video>`);
+  }
+  if (message.text) {
+    parts.push(`<div class="bubble${message.error ? ' error' : ''}">${message.text.split('\n').map(renderLine).join('')}</div>`);
+  }
+  if (message.itinerary) {
+    parts.push(`<div class="bubble">${itineraryToText(message.itinerary).split('\n').map(renderLine).join('')}</div>`);
+  }
+  if (message.hotels?.length) {
+    parts.push(`<div class="bubble">${hotelsToText(message.hotels).split('\n').map(renderLine).join('')}</div>`);
+  }
+  if (message.briefing) {
+    parts.push(`<div class="bubble">${briefingToText(message.briefing).split('\n').map(renderLine).join('')}</div>`);
+  }
+  if (message.isInterrupted) parts.push('<p class="note">Response stopped.</p>');
+  if (message.images?.length) {
+    parts.push(`<div class="images">${message.images.map((src, index) => {
+      const safe = safeUrl(src);
+      return safe ? `<img src="${safe}" alt="Gokarna image ${index + 1}">` : '';
+    }).join('')}</div>`);
+  }
+  if (message.sources?.length) {
+    parts.push(`<div class="sources"><h4>Sources:</h4><ul>${message.sources.map(source => {
+      const href = safeUrl(source.uri);
+      const title = escapeHtml(source.title || hostname(source.uri));
+      return `<li>${href ? `<a href="${href}" target="_blank" rel="noopener noreferrer">${title}</a>` : title}</li>`;
+    }).join('')}</ul></div>`);
+  }
+  if (message.citations?.length) {
+    parts.push(`<div class="sources"><h4>From the Gokarna Guide dataset:</h4><ul>${message.citations.map(citation => `<li>${escapeHtml(citation.name)}</li>`).join('')}</ul></div>`);
+  }
+  return `<div class="message ${message.sender}">${parts.join('')}</div>`;
+}
+
+const HTML_STYLES = `
+body { background: #131314; color: #e5e7eb; font-family: system-ui, -apple-system, sans-serif; margin: 0; padding: 2rem 1rem; }
+main { max-width: 48rem; margin: 0 auto; }
+h1 { color: #d1d5db; font-size: 1.5rem; border-bottom: 1px solid #374151; padding-bottom: .75rem; margin-top: 3rem; }
+.message { display: flex; flex-direction: column; margin: 2rem 0; }
+.message.user { align-items: flex-end; }
+.message.bot { align-items: flex-start; }
+.bubble { max-width: 36rem; line-height: 1.6; font-size: 1.05rem; }
+.user .bubble { background: #2a2a2a; color: #fff; border-radius: 1.5rem; padding: .75rem 1.25rem; }
+.bubble p { margin: 0; min-height: 1.2em; }
+.bubble.error { color: #fca5a5; }
+a { color: #60a5fa; text-decoration: none; }
+a:hover { text-decoration: underline; }
+.images, .files { display: grid; grid-template-columns: repeat(3, 1fr); gap: .5rem; max-width: 36rem; margin: .75rem 0; }
+.images img, .files img { width: 100%; aspect-ratio: 1; object-fit: cover; border-radius: .75rem; }
+.file { color: #9ca3af; font-size: .85rem; }
+video { max-width: 36rem; width: 100%; border-radius: .75rem; margin-top: .75rem; }
+.sources { font-size: .8rem; color: #6b7280; margin-top: .75rem; max-width: 36rem; }
+.sources h4 { color: #9ca3af; margin: 0 0 .25rem; }
+.sources ul { margin: 0; padding-left: 1.25rem; }
+.note { font-size: .75rem; font-style: italic; color: #6b7280; margin: .5rem 0 0; }
+`;
+
+function toHtml(sessions: ChatSession[]): string {
+  const title = sessions.length === 1 ? sessions[0].title : 'Gokarna Guide chats';
+  const body = sessions.map(session =>
+    `<section><h1>${escapeHtml(session.title)}</h1>${exportedMessages(session).map(renderMessage).join('\n')}</section>`
+  ).join('\n');
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(sessions[0]?.languageCode ?? 'en')}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body><main>
+${body}
+</main></body>
+</html>
+`;
+}
+
+// --- Public API ----------------------------------------------------------------
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'chat';
+
+const EXTENSIONS: { [format in ExportFormat]: { extension: string; mimeType: string } } = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+export async function exportSessions(sessions: ChatSession[], format: ExportFormat): Promise<{ filename: string; blob: Blob }> {
+  const portable = await portableSessions(sessions);
+  let content: string;
+  switch (format) {
+    case 'json': {
+      const file: ExportFile = { format: EXPORT_FORMAT_ID, schemaVersion: SCHEMA_VERSION, exportedAt: new Date().toISOString(), sessions: portable };
+      content = JSON.stringify(file, null, 2);
+      break;
+    }
+    case 'markdown': content = toMarkdown(portable); break;
+    case 'html': content = toHtml(portable); break;
+  }
+  const { extension, mimeType } = EXTENSIONS[format];
+  const name = sessions.length === 1 ? slugify(sessions[0].title) : `chats-${new Date().toISOString().slice(0, 10)}`;
+  return { filename: `gokarna-guide-${name}.${extension}`, blob: new Blob([content], { type: `${mimeType};charset=utf-8` }) };
+}
+
+export interface ImportResult {
+  sessions: ChatSession[];
+  skipped: number;
+}
+
+// Parses a JSON export. Every session gets a fresh id so an import can never overwrite or
+// collide with an existing chat; message ids only need to be unique within their session.
+export function importSessions(json: string, existingIds: Iterable<string>): ImportResult {
+  let file: { format?: unknown; schemaVersion?: unknown; sessions?: unknown };
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (file?.format !== EXPORT_FORMAT_ID || !Array.isArray(file.sessions)) {
+    throw new Error('This file is not a Gokarna Guide export.');
+  }
+  if (typeof file.schemaVersion === 'number' && file.schemaVersion > SCHEMA_VERSION) {
+    throw new Error('This export was made by a newer version of the app.');
+  }
+
+  const fromVersion = typeof file.schemaVersion === 'number' ? file.schemaVersion : 0;
+  // Session ids are creation timestamps elsewhere, so fresh ones continue from the newest.
+  let nextId = Math.max(Date.now(), ...[...existingIds].map(Number).filter(Number.isFinite)) + 1;
+  const sessions: ChatSession[] = [];
+  let skipped = 0;
+  for (const raw of file.sessions as unknown[]) {
+    const checked = typeof raw === 'object' && raw !== null ? validateSession(migrateSession(raw as Record<string, unknown>, fromVersion)) : null;
+    if (!checked) {
+      skipped += 1;
+      continue;
+    }
+    sessions.push({
+      ...checked.session,
+      id: String(nextId++),
+      messages: checked.session.messages.map(message => message.files
+        ? { ...message, files: message.files.map(f => f.mimeType.startsWith('image/') ? { ...f, previewUrl: `data:${f.mimeType};base64,${f.data}` } : f) }
+        : message),
+    });
+  }
+  return { sessions, skipped };
+}
@@ -0,0 +1,109 @@
+import type { IntentId, Itinerary, TodaysBriefing, UploadedFile } from '../types';
+import type { SessionTag } from '../constants';
+
+// Provider-neutral shapes. They mirror the subset of the Gemini content model the app
+// actually uses, so Gemini `Content`/`Part` objects are structurally compatible.
+export interface ChatPart {
+  text?: string;
+  inlineData?: { data: string; mimeType: string };
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+export interface ChatSource {
+  uri: string;
+  title: string;
+  isPlace?: boolean; // A Google Maps place rather than a web page; see services/mapPlaces.ts.
+}
+
+export interface ChatStreamChunk {
+  text: string;
+  sources: ChatSource[];
+}
+
+// Passing an AbortSignal cancels the request; the stream or promise then rejects with an AbortError.
+export interface ChatHandle {
+  sendMessageStream: (message: (string | ChatPart)[], signal?: AbortSignal) => Promise<AsyncIterable<ChatStreamChunk>>;
+}
+
+export interface ImageResult {
+  image?: { data: string; mimeType: string };
+  text?: string;
+  blockReason?: string;
+}
+
+export type VideoAspectRatio = '16:9' | '9:16';
+
+// Events emitted by a live (voice) session. `audio` is base64 PCM at 24kHz.
+export interface LiveEvent {
+  inputTranscription?: string;
+  outputTranscription?: string;
+  audio?: string;
+  turnComplete?: boolean;
+  interrupted?: boolean;
+}
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onEvent: (event: LiveEvent) => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+export interface LiveSession {
+  // `data` is base64 PCM at 16kHz.
+  sendAudio: (chunk: { data: string; mimeType: string }) => void;
+  close: () => void;
+}
+
+export interface ChatDescription {
+  title: string;
+  tags: SessionTag[];
+}
+
+export interface BriefingReply {
+  briefing: TodaysBriefing;
+  // The pages the day's weather and tides were found on.
+  sources: ChatSource[];
+}
+
+export interface ItineraryReply {
+  itinerary: Itinerary;
+  // A sentence or two introducing the plan, in the chat's language.
+  text: string;
+}
+
+export interface IntentOption {
+  id: IntentId;
+  description: string;
+}
+
+export interface IntentClassification {
+  // Confidences are between 0 and 1.
+  scores: { intent: IntentId; confidence: number }[];
+  // The language asked for, when the message asks to switch languages.
+  languageCode?: string;
+}
+
+export interface ChatProvider {
+  readonly name: string;
+  startChat: (languageCode: string, history?: ChatTurn[], modelId?: string) => ChatHandle;
+  editImage: (file: UploadedFile, prompt: string) => Promise<ImageResult>;
+  generateImage: (prompt: string) => Promise<ImageResult>;
+  generateVideo: (file: UploadedFile, prompt: string, aspectRatio: VideoAspectRatio, signal?: AbortSignal) => Promise<string>;
+  summarizeText: (text: string) => Promise<string>;
+  // `text` in another language, keeping its markdown; text already in that language comes back as is.
+  translateText: (text: string, languageCode: string) => Promise<string>;
+  // A short title in the chat's language and topic tags, from the opening of a conversation.
+  describeChat: (transcript: string, languageCode: string) => Promise<ChatDescription>;
+  // Which of `options` a message asks for; see services/intentRouter.ts.
+  classifyIntent: (text: string, options: IntentOption[], attachmentTypes: string[], languageCode: string) => Promise<IntentClassification>;
+  // A day-by-day plan for `request`; with `current`, that plan changed as asked rather than a new one.
+  planItinerary: (request: string, languageCode: string, current?: Itinerary) => Promise<ItineraryReply>;
+  // Today's briefing in one language; `date` is the day in Gokarna, see services/briefing.ts.
+  getBriefing: (languageCode: string, date: string) => Promise<BriefingReply>;
+  connectLive: (callbacks: LiveCallbacks, systemInstruction: string) => Promise<LiveSession>;
+}
@@ -0,0 +1,303 @@
+import type { ChatMessage, ChatSession, GenerationErrorKind, HotelOption, Itinerary, TodaysBriefing } from '../types';
+import { LANGUAGES, SESSION_TAGS, type SessionTag } from '../constants';
+import { parseItinerary } from './itinerary';
+import { parseHotels } from './hotels';
+import { parseBriefing } from './briefing';
+
+// Persisted sessions carry the schema version they were written with. Older data is upgraded
+// through MIGRATIONS and then validated; anything that cannot be repaired is reported back so
+// the store can quarantine it instead of losing the whole history.
+//
+// Bump SCHEMA_VERSION and append a migration whenever ChatSession or ChatMessage changes shape.
+export const SCHEMA_VERSION = 4;
+
+type RawObject = Record<string, unknown>;
+type Migration = (session: RawObject) => RawObject;
+
+// MIGRATIONS[n] upgrades a session from version n to n + 1. Data saved before versioning is version 0.
+const MIGRATIONS: Migration[] = [
+  // 0 -> 1: unversioned data could be saved mid-reply, before replies could be stopped or
+  // videos cancelled. Nothing resumes those after a reload, so settle them.
+  session => ({
+    ...session,
+    messages: Array.isArray(session.messages)
+      ? session.messages.map(message => {
+          if (!isObject(message)) return message;
+          const settled: RawObject = { ...message };
+          if (settled.videoState === 'generating') settled.videoState = 'failed';
+          if (settled.isLoading === true) {
+            delete settled.isLoading;
+            if (typeof settled.text === 'string' && settled.text.trim()) settled.isInterrupted = true;
+          }
+          return settled;
+        })
+      : session.messages,
+  }),
+  // 1 -> 2: conversations became trees. Spell out the previous-message parent that was implied.
+  session => ({
+    ...session,
+    messages: Array.isArray(session.messages)
+      ? session.messages.map((message, index, messages) => {
+          if (!isObject(message) || message.parentId !== undefined) return message;
+          const previous = messages[index - 1];
+          return { ...message, parentId: isObject(previous) && typeof previous.id === 'number' ? previous.id : null };
+        })
+      : session.messages,
+  }),
+  // 2 -> 3: generated titles must not replace ones the user typed. Until now the only automatic
+  // title was the opening of the first message, so any other title was a rename.
+  session => {
+    const firstUserMessage = Array.isArray(session.messages) ? session.messages.find(m => isObject(m) && m.sender === 'user') : undefined;
+    const automaticTitle = isObject(firstUserMessage) && isString(firstUserMessage.text) ? firstUserMessage.text.substring(0, 40) : undefined;
+    const isDefault = session.title === 'New Chat' || session.title === automaticTitle;
+    return isDefault ? session : { ...session, isTitleUserEdited: true };
+  },
+  // 3 -> 4: the history is sorted by last activity. Message and session ids are creation
+  // timestamps, so the newest message id is the best guess for older chats.
+  session => {
+    const ids = Array.isArray(session.messages) ? session.messages.map(m => isObject(m) ? m.id : undefined).filter((id): id is number => typeof id === 'number') : [];
+    const lastActivityAt = ids.length > 0 ? Math.max(...ids) : Number(session.id);
+    return Number.isFinite(lastActivityAt) ? { ...session, lastActivityAt } : session;
+  },
+];
+
+export function migrateSession(session: RawObject, fromVersion: number): RawObject {
+  return MIGRATIONS.slice(Math.max(0, fromVersion)).reduce((current, migrate) => migrate(current), session);
+}
+
+// --- Validation --------------------------------------------------------------
+
+const isObject = (value: unknown): value is RawObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const ERROR_KINDS: GenerationErrorKind[] = ['safety', 'quota', 'network', 'invalid-input', 'model-unavailable', 'unknown'];
+const VIDEO_STATES = ['generating', 'done', 'failed', 'cancelled'];
+const FLAGS = ['isLoading', 'isWelcome', 'isSystem', 'isInterrupted'] as const;
+
+const isFile = (value: unknown) => isObject(value) && isString(value.name) && isString(value.mimeType) && isString(value.data);
+
+const isRetry = (value: unknown): boolean => {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case 'chat': return isString(value.text) && Array.isArray(value.files) && value.files.every(isFile);
+    case 'image': return isString(value.prompt) && isString(value.style);
+    case 'edit': return isString(value.text) && isFile(value.file);
+    case 'video': return isString(value.prompt) && isFile(value.file) && (value.aspectRatio === '16:9' || value.aspectRatio === '9:16');
+    case 'summarize': return isString(value.text);
+    case 'itinerary': return isString(value.request) && typeof value.isUpdate === 'boolean';
+    case 'briefing': return true;
+    default: return false;
+  }
+};
+
+// Plans are re-parsed rather than checked; anything parsing had to drop or fill in counts as a repair.
+function checkItinerary(value: unknown): Checked<Itinerary> | null {
+  const itinerary = parseItinerary(value);
+  return itinerary && { value: itinerary, repaired: JSON.stringify(itinerary) !== JSON.stringify(value) };
+}
+
+function checkBriefing(value: unknown): Checked<TodaysBriefing> | null {
+  const briefing = parseBriefing(value);
+  return briefing && { value: briefing, repaired: JSON.stringify(briefing) !== JSON.stringify(value) };
+}
+
+// Hotel lists are handled the same way.
+function checkHotels(value: unknown): Checked<HotelOption[]> {
+  const hotels = parseHotels(value);
+  return { value: hotels, repaired: JSON.stringify(hotels) !== JSON.stringify(value) };
+}
+
+interface Checked<T> {
+  value: T;
+  repaired: boolean;
+}
+
+// Keeps the well-formed entries of an optional array field; drops the field if it is not an array.
+function filterArray(message: RawObject, key: string, isValid: (item: unknown) => boolean): boolean {
+  if (message[key] === undefined) return false;
+  if (!Array.isArray(message[key])) {
+    delete message[key];
+    return true;
+  }
+  const items = message[key] as unknown[];
+  const valid = items.filter(isValid);
+  message[key] = valid;
+  return valid.length !== items.length;
+}
+
+function validateMessage(value: unknown): Checked<ChatMessage> | null {
+  if (!isObject(value) || typeof value.id !== 'number' || !Number.isFinite(value.id)) return null;
+  if (value.sender !== 'user' && value.sender !== 'bot') return null;
+
+  const message: RawObject = { ...value };
+  let repaired = false;
+  if (!isString(message.text)) {
+    message.text = '';
+    repaired = true;
+  }
+  repaired = filterArray(message, 'images', isString) || repaired;
+  repaired = filterArray(message, 'files', isFile) || repaired;
+  repaired = filterArray(message, 'sources', s => isObject(s) && isString(s.uri) && isString(s.title) && (s.isPlace === undefined || s.isPlace === true)) || repaired;
+  repaired = filterArray(message, 'citations', c => isObject(c) && isString(c.id) && isString(c.name)) || repaired;
+  repaired = filterArray(message, 'suggestions', s => isObject(s) && isString(s.text)) || repaired;
+  for (const flag of FLAGS) {
+    if (message[flag] !== undefined && typeof message[flag] !== 'boolean') {
+      delete message[flag];
+      repaired = true;
+    }
+  }
+  if (message.videoState !== undefined && !VIDEO_STATES.includes(message.videoState as string)) {
+    delete message.videoState;
+    repaired = true;
+  }
+  if (message.videoUrl !== undefined && !isString(message.videoUrl)) {
+    delete message.videoUrl;
+    repaired = true;
+  }
+  if (message.prompt !== undefined && !isString(message.prompt)) {
+    delete message.prompt;
+    repaired = true;
+  }
+  if (message.parentId !== undefined && message.parentId !== null && typeof message.parentId !== 'number') {
+    delete message.parentId;
+    repaired = true;
+  }
+  if (message.translations !== undefined) {
+    const raw = message.translations;
+    const translations = isObject(raw) ? Object.entries(raw).filter(([code, text]) => LANGUAGES.some(l => l.code === code) && isString(text)) : [];
+    if (translations.length > 0) message.translations = Object.fromEntries(translations);
+    else delete message.translations;
+    repaired = !isObject(raw) || translations.length !== Object.keys(raw).length || repaired;
+  }
+  if (message.itinerary !== undefined) {
+    const itinerary = checkItinerary(message.itinerary);
+    if (itinerary) message.itinerary = itinerary.value;
+    else delete message.itinerary;
+    repaired = !itinerary || itinerary.repaired || repaired;
+  }
+  if (message.briefing !== undefined) {
+    const briefing = checkBriefing(message.briefing);
+    if (briefing) message.briefing = briefing.value;
+    else delete message.briefing;
+    repaired = !briefing || briefing.repaired || repaired;
+  }
+  if (message.hotels !== undefined) {
+    const hotels = checkHotels(message.hotels);
+    if (hotels.value.length > 0) message.hotels = hotels.value;
+    else delete message.hotels;
+    repaired = hotels.repaired || repaired;
+  }
+  if (message.error !== undefined) {
+    const error = message.error;
+    if (!isObject(error) || !ERROR_KINDS.includes(error.kind as GenerationErrorKind)) {
+      delete message.error;
+      repaired = true;
+    } else if (error.retry !== undefined && !isRetry(error.retry)) {
+      message.error = { kind: error.kind };
+      repaired = true;
+    }
+  }
+  return { value: message as unknown as ChatMessage, repaired };
+}
+
+export interface ValidatedSession {
+  session: ChatSession;
+  droppedMessages: number;
+  repaired: boolean;
+}
+
+// Returns null when the session cannot be salvaged at all.
+export function validateSession(value: unknown): ValidatedSession | null {
+  if (!isObject(value) || !Array.isArray(value.messages)) return null;
+  const session: RawObject = { ...value };
+  let repaired = false;
+
+  if (typeof session.id === 'number') {
+    session.id = String(session.id);
+    repaired = true;
+  }
+  if (!isString(session.id) || !session.id) return null;
+  if (!isString(session.title) || !session.title.trim()) {
+    session.title = 'New Chat';
+    repaired = true;
+  }
+  if (!LANGUAGES.some(l => l.code === session.languageCode)) {
+    session.languageCode = 'en-US';
+    repaired = true;
+  }
+  if (session.modelId !== undefined && !isString(session.modelId)) {
+    delete session.modelId;
+    repaired = true;
+  }
+  if (session.bilingualLanguageCode !== undefined && !LANGUAGES.some(l => l.code === session.bilingualLanguageCode)) {
+    delete session.bilingualLanguageCode;
+    repaired = true;
+  }
+  if (session.activeLeafId !== undefined && typeof session.activeLeafId !== 'number') {
+    delete session.activeLeafId;
+    repaired = true;
+  }
+  if (session.isTitleUserEdited !== undefined && typeof session.isTitleUserEdited !== 'boolean') {
+    delete session.isTitleUserEdited;
+    repaired = true;
+  }
+  if (session.isPinned !== undefined && typeof session.isPinned !== 'boolean') {
+    delete session.isPinned;
+    repaired = true;
+  }
+  if (session.folderId !== undefined && !isString(session.folderId)) {
+    delete session.folderId;
+    repaired = true;
+  }
+  for (const key of ['lastActivityAt', 'deletedAt'] as const) {
+    if (session[key] !== undefined && !(typeof session[key] === 'number' && Number.isFinite(session[key]))) {
+      delete session[key];
+      repaired = true;
+    }
+  }
+  if (session.tags !== undefined) {
+    const tags = Array.isArray(session.tags) ? session.tags.filter(tag => SESSION_TAGS.includes(tag as SessionTag)) : [];
+    if (!Array.isArray(session.tags) || tags.length !== session.tags.length) {
+      session.tags = tags;
+      repaired = true;
+    }
+  }
+  const summary = session.historySummary;
+  if (summary !== undefined && !(isObject(summary) && isString(summary.text) && typeof summary.throughMessageId === 'number')) {
+    delete session.historySummary;
+    repaired = true;
+  }
+
+  const current = session.itinerary;
+  if (current !== undefined) {
+    const messageId = isObject(current) ? current.messageId : undefined;
+    const plan = isObject(current) && typeof messageId === 'number' ? checkItinerary(current.plan) : null;
+    if (plan) session.itinerary = { plan: plan.value, messageId };
+    else delete session.itinerary;
+    repaired = !plan || plan.repaired || repaired;
+  }
+  if (session.shortlist !== undefined) {
+    const shortlist = checkHotels(session.shortlist);
+    session.shortlist = shortlist.value;
+    repaired = shortlist.repaired || repaired;
+  }
+
+  const rawMessages = value.messages as unknown[];
+  const seenIds = new Set<number>();
+  const messages: ChatMessage[] = [];
+  for (const raw of rawMessages) {
+    const checked = validateMessage(raw);
+    if (!checked || seenIds.has(checked.value.id)) continue;
+    seenIds.add(checked.value.id);
+    repaired = repaired || checked.repaired;
+    messages.push(checked.value);
+  }
+  if (rawMessages.length > 0 && messages.length === 0) return null;
+  session.messages = messages;
+
+  return {
+    session: session as unknown as ChatSession,
+    droppedMessages: rawMessages.length - messages.length,
+    repaired,
+  };
+}
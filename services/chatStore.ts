@@ -0,0 +1,775 @@
+import type { ChatFolder, ChatMessage, ChatSession, RetryRequest, UploadedFile } from '../types';
+import { SCHEMA_VERSION, migrateSession, validateSession } from './chatSchema';
+import { broadcast } from './tabSync';
+import { createVault, isSealed, openBytes, openJson, sealBytes, sealJson, unlockVault, type Sealed, type VaultConfig } from './vault';
+
+// IndexedDB persistence for chat sessions. Sessions, messages and binary attachments live in
+// separate stores: a streamed reply rewrites one message record instead of the whole history,
+// and images, videos and uploads are stored as Blobs referenced by id.
+//
+// With the history lock on, every record is sealed with the passphrase key (see vault.ts) and
+// only the fields that key a store stay readable.
+
+const DB_NAME = 'gokarna-guide';
+const DB_VERSION = 4;
+const SESSIONS = 'sessions';
+const MESSAGES = 'messages';
+const BLOBS = 'blobs';
+// Data that failed validation on load. Nothing reads it back automatically.
+const QUARANTINE = 'quarantine';
+// Folders the user sorts chats into; sessions refer to them by id.
+const FOLDERS = 'folders';
+// Settings that must live next to the data, like the history lock config.
+const META = 'meta';
+const VAULT_KEY = 'vault';
+
+// The pre-IndexedDB format: every session serialized into one localStorage key.
+const LEGACY_SESSIONS_KEY = 'gokarna-all-chats';
+
+interface StoredFile {
+  name: string;
+  mimeType: string;
+  blobId: string;
+}
+
+type StoredRetry =
+  | Exclude<RetryRequest, { type: 'chat' | 'edit' | 'video' }>
+  | (Omit<Extract<RetryRequest, { type: 'chat' }>, 'files'> & { files: StoredFile[] })
+  | (Omit<Extract<RetryRequest, { type: 'edit' }>, 'file'> & { file: StoredFile })
+  | (Omit<Extract<RetryRequest, { type: 'video' }>, 'file'> & { file: StoredFile });
+
+type SessionRecord = Omit<ChatSession, 'messages'> & { schemaVersion?: number };
+
+interface MessageRecord extends Omit<ChatMessage, 'images' | 'files' | 'videoUrl' | 'suggestions' | 'error'> {
+  sessionId: string;
+  order: number;
+  imageIds?: string[];
+  files?: StoredFile[];
+  videoId?: string;
+  // Kept only when the video could not be downloaded into a Blob.
+  videoUrl?: string;
+  // Icons are components and cannot be stored; the chip renders without one.
+  suggestions?: { text: string; prompt?: string }[];
+  error?: { kind: NonNullable<ChatMessage['error']>['kind']; retry?: StoredRetry };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          const messages = db.createObjectStore(MESSAGES, { keyPath: ['sessionId', 'id'] });
+          messages.createIndex('sessionId', 'sessionId');
+          db.createObjectStore(BLOBS);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(QUARANTINE, { autoIncrement: true });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(FOLDERS, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore(META);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+// --- Encryption --------------------------------------------------------------
+
+// Undefined until read from the META store; null when the history lock is off.
+let vaultConfig: VaultConfig | null | undefined;
+let historyKey: CryptoKey | null = null;
+
+async function readVaultConfig(): Promise<VaultConfig | null> {
+  const db = await openDb();
+  const tx = db.transaction(META, 'readonly');
+  return (await promisify(tx.objectStore(META).get(VAULT_KEY) as IDBRequest<VaultConfig | undefined>)) ?? null;
+}
+
+// The key to seal and open records with, or null when records are stored in the clear.
+// Throws while locked, so nothing is ever written unencrypted by mistake.
+async function currentKey(): Promise<CryptoKey | null> {
+  if (vaultConfig === undefined) vaultConfig = await readVaultConfig();
+  if (vaultConfig && !historyKey) throw new Error('The chat history is locked');
+  return historyKey;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// `keys` are the fields the store is keyed or indexed by; they are copied out in the clear.
+async function sealRecord<T extends object>(key: CryptoKey | null, record: T, keys: (keyof T & string)[]): Promise<unknown> {
+  if (!key) return record;
+  const stored: Record<string, unknown> = { sealed: await sealJson(key, record) };
+  keys.forEach(k => { stored[k] = record[k]; });
+  return stored;
+}
+
+// Records written before the lock was turned on are still in the clear and pass straight through.
+async function openRecord<T>(key: CryptoKey | null, value: unknown): Promise<T> {
+  const sealed = isObject(value) ? value.sealed : undefined;
+  if (!isSealed(sealed)) return value as T;
+  if (!key) throw new Error('The chat history is locked');
+  return openJson<T>(key, sealed);
+}
+
+// Records that cannot be decrypted are returned separately so they can be quarantined.
+async function openRecords<T>(key: CryptoKey | null, values: unknown[]): Promise<{ opened: T[]; failed: unknown[] }> {
+  const results = await Promise.all(values.map(value => openRecord<T>(key, value).then(
+    opened => ({ opened }),
+    () => ({ failed: value }),
+  )));
+  return {
+    opened: results.flatMap(r => 'opened' in r ? [r.opened] : []),
+    failed: results.flatMap(r => 'failed' in r ? [r.failed] : []),
+  };
+}
+
+interface SealedBlob {
+  type: string;
+  sealed: Sealed;
+}
+
+async function sealBlob(key: CryptoKey | null, blob: Blob): Promise<Blob | SealedBlob> {
+  return key ? { type: blob.type, sealed: await sealBytes(key, await blob.arrayBuffer()) } : blob;
+}
+
+async function openBlob(key: CryptoKey | null, value: Blob | SealedBlob): Promise<Blob> {
+  if (value instanceof Blob) return value;
+  if (!key) throw new Error('The chat history is locked');
+  return new Blob([await openBytes(key, value.sealed)], { type: value.type });
+}
+
+// Blobs that cannot be decrypted are left out, like blobs that went missing.
+async function openBlobs(key: CryptoKey | null, ids: string[], values: (Blob | SealedBlob | undefined)[]): Promise<Map<string, Blob>> {
+  const opened = await Promise.all(values.map(value => value ? openBlob(key, value).catch(() => undefined) : undefined));
+  const blobs = new Map<string, Blob>();
+  ids.forEach((id, i) => { if (opened[i]) blobs.set(id, opened[i]!); });
+  return blobs;
+}
+
+// --- Blobs -----------------------------------------------------------------
+
+// Object URLs handed to the UI remember which blob they came from, so saving them again is free.
+const blobIdsByUrl = new Map<string, string>();
+const blobIdsByFile = new WeakMap<UploadedFile, string>();
+
+const newBlobId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+async function putBlob(blob: Blob): Promise<string> {
+  const stored = await sealBlob(await currentKey(), blob);
+  const db = await openDb();
+  const id = newBlobId();
+  const tx = db.transaction(BLOBS, 'readwrite');
+  tx.objectStore(BLOBS).put(stored, id);
+  await transactionDone(tx);
+  return id;
+}
+
+// Works for data:, blob: and same-origin URLs alike.
+async function urlToBlobId(url: string): Promise<string> {
+  const known = blobIdsByUrl.get(url);
+  if (known) return known;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not download ${url} (status ${response.status})`);
+  const id = await putBlob(await response.blob());
+  blobIdsByUrl.set(url, id);
+  return id;
+}
+
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1] ?? '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Image uploads hold base64 and text uploads hold raw text (see UploadedFile).
+const isImage = (mimeType: string) => mimeType.startsWith('image/');
+
+async function fileToRecord(file: UploadedFile): Promise<StoredFile> {
+  let blobId = blobIdsByFile.get(file);
+  if (!blobId) {
+    blobId = await putBlob(isImage(file.mimeType) ? base64ToBlob(file.data, file.mimeType) : new Blob([file.data], { type: file.mimeType }));
+    blobIdsByFile.set(file, blobId);
+  }
+  return { name: file.name, mimeType: file.mimeType, blobId };
+}
+
+async function recordToFile(record: StoredFile, blobs: Map<string, Blob>): Promise<UploadedFile | null> {
+  const blob = blobs.get(record.blobId);
+  if (!blob) return null;
+  const file: UploadedFile = isImage(record.mimeType)
+    ? { name: record.name, mimeType: record.mimeType, data: await blobToBase64(blob), previewUrl: URL.createObjectURL(blob) }
+    : { name: record.name, mimeType: record.mimeType, data: await blob.text() };
+  blobIdsByFile.set(file, record.blobId);
+  return file;
+}
+
+const blobUrl = (id: string, blobs: Map<string, Blob>): string | null => {
+  const blob = blobs.get(id);
+  if (!blob) return null;
+  const url = URL.createObjectURL(blob);
+  blobIdsByUrl.set(url, id);
+  return url;
+};
+
+// --- Message conversion ----------------------------------------------------
+
+async function retryToRecord(retry: RetryRequest): Promise<StoredRetry> {
+  switch (retry.type) {
+    case 'chat': return { ...retry, files: await Promise.all(retry.files.map(fileToRecord)) };
+    case 'edit':
+    case 'video': return { ...retry, file: await fileToRecord(retry.file) };
+    default: return retry;
+  }
+}
+
+async function recordToRetry(retry: StoredRetry, blobs: Map<string, Blob>): Promise<RetryRequest | undefined> {
+  switch (retry.type) {
+    case 'chat': {
+      const files = await Promise.all(retry.files.map(f => recordToFile(f, blobs)));
+      return { ...retry, files: files.filter((f): f is UploadedFile => f !== null) };
+    }
+    case 'edit':
+    case 'video': {
+      const file = await recordToFile(retry.file, blobs);
+      return file ? { ...retry, file } : undefined;
+    }
+    default: return retry;
+  }
+}
+
+async function messageToRecord(sessionId: string, message: ChatMessage, order: number): Promise<MessageRecord> {
+  const { images, files, videoUrl, suggestions, error, ...rest } = message;
+  const record: MessageRecord = { ...rest, sessionId, order };
+  if (images?.length) record.imageIds = await Promise.all(images.map(urlToBlobId));
+  if (files?.length) record.files = await Promise.all(files.map(fileToRecord));
+  if (videoUrl) {
+    try {
+      record.videoId = await urlToBlobId(videoUrl);
+    } catch (e) {
+      console.warn('Could not store video, keeping its URL instead', e);
+      record.videoUrl = videoUrl;
+    }
+  }
+  if (suggestions) record.suggestions = suggestions.map(({ text, prompt }) => ({ text, prompt }));
+  if (error) record.error = { kind: error.kind, retry: error.retry && await retryToRecord(error.retry) };
+  return record;
+}
+
+async function recordToMessage(record: MessageRecord, blobs: Map<string, Blob>): Promise<ChatMessage> {
+  const { sessionId: _sessionId, order: _order, imageIds, files, videoId, videoUrl, suggestions, error, ...rest } = record;
+  const message: ChatMessage = { ...rest };
+  if (imageIds) message.images = imageIds.map(id => blobUrl(id, blobs)).filter((url): url is string => url !== null);
+  if (files) message.files = (await Promise.all(files.map(f => recordToFile(f, blobs)))).filter((f): f is UploadedFile => f !== null);
+  const video = videoId ? blobUrl(videoId, blobs) : videoUrl;
+  if (video) message.videoUrl = video;
+  if (suggestions) message.suggestions = suggestions as ChatMessage['suggestions'];
+  if (error) message.error = { kind: error.kind, retry: error.retry && await recordToRetry(error.retry, blobs) };
+  return message;
+}
+
+// Records may be malformed (see loadSessions), so every field is checked before use.
+const referencedBlobIds = (record: MessageRecord): string[] => {
+  const files = (list: unknown) => Array.isArray(list) ? list.map(f => f?.blobId) : [];
+  const retry = record.error?.retry as { files?: unknown; file?: { blobId?: unknown } } | undefined;
+  return [
+    ...(Array.isArray(record.imageIds) ? record.imageIds : []),
+    ...files(record.files),
+    record.videoId,
+    ...files(retry?.files),
+    retry?.file?.blobId,
+  ].filter((id): id is string => typeof id === 'string');
+};
+
+// --- Loading ---------------------------------------------------------------
+
+// The last sessions written (or loaded), used to work out what changed on the next save.
+let saved = new Map<string, ChatSession>();
+let writeQueue: Promise<void> = Promise.resolve();
+
+interface QuarantineEntry {
+  reason: string;
+  quarantinedAt: number;
+  // The data exactly as it was found: a session record and its message records, or legacy JSON.
+  session?: unknown;
+  messages?: unknown[];
+}
+
+export interface LoadResult {
+  sessions: ChatSession[];
+  // What could not be recovered; it was moved to the quarantine store rather than deleted.
+  quarantinedSessions: number;
+  quarantinedMessages: number;
+}
+
+interface RawSession {
+  record: SessionRecord;
+  messages: MessageRecord[];
+}
+
+interface RawData {
+  entries: RawSession[];
+  orphanMessages: MessageRecord[];
+  // Sealed records the current key cannot open.
+  undecryptable: { sessions: unknown[]; messages: unknown[] };
+  blobs: Map<string, Blob>;
+}
+
+async function readRaw(): Promise<RawData> {
+  const key = await currentKey();
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, MESSAGES, BLOBS, QUARANTINE], 'readonly');
+  const [rawSessions, rawMessages, blobKeys, blobValues, rawQuarantine] = await Promise.all([
+    promisify(tx.objectStore(SESSIONS).getAll()),
+    promisify(tx.objectStore(MESSAGES).getAll()),
+    promisify(tx.objectStore(BLOBS).getAllKeys()),
+    promisify(tx.objectStore(BLOBS).getAll() as IDBRequest<(Blob | SealedBlob)[]>),
+    promisify(tx.objectStore(QUARANTINE).getAll()),
+  ]);
+  const [sessions, messages, quarantined] = await Promise.all([
+    openRecords<SessionRecord>(key, rawSessions),
+    openRecords<MessageRecord>(key, rawMessages),
+    openRecords<QuarantineEntry>(key, rawQuarantine),
+  ]);
+  const sessionRecords = sessions.opened;
+  const messageRecords = messages.opened;
+  const blobs = await openBlobs(key, blobKeys.map(String), blobValues);
+
+  // Drop blobs nothing refers to any more, e.g. after a session was deleted. Quarantined
+  // messages keep their blobs so they can still be recovered by hand, which also means
+  // nothing is dropped while any record cannot be read.
+  const quarantinedMessages = quarantined.opened.flatMap(entry => (entry.messages ?? []) as MessageRecord[]);
+  const referenced = new Set([...messageRecords, ...quarantinedMessages].flatMap(referencedBlobIds));
+  const orphans = blobKeys.map(String).filter(id => !referenced.has(id));
+  const hasUnreadable = sessions.failed.length > 0 || messages.failed.length > 0 || quarantined.failed.length > 0;
+  if (orphans.length > 0 && !hasUnreadable) {
+    const cleanup = db.transaction(BLOBS, 'readwrite');
+    orphans.forEach(id => cleanup.objectStore(BLOBS).delete(id));
+    await transactionDone(cleanup);
+  }
+
+  const bySession = new Map<string, MessageRecord[]>(sessionRecords.map(record => [record.id, []]));
+  const orphanMessages: MessageRecord[] = [];
+  messageRecords.forEach(record => {
+    const list = bySession.get(record.sessionId);
+    if (list) list.push(record);
+    else orphanMessages.push(record);
+  });
+
+  return {
+    entries: sessionRecords.map(record => ({ record, messages: bySession.get(record.id)!.sort((a, b) => a.order - b.order) })),
+    orphanMessages,
+    undecryptable: { sessions: sessions.failed, messages: messages.failed },
+    blobs,
+  };
+}
+
+// Turns stored records back into a plain session object. Records too broken to convert are
+// left out and counted; validation happens afterwards, on the migrated result.
+async function hydrate({ record, messages }: RawSession, blobs: Map<string, Blob>): Promise<{ session: Record<string, unknown>; failed: number }> {
+  const { schemaVersion: _schemaVersion, ...rest } = record;
+  const converted = await Promise.all(messages.map(m => recordToMessage(m, blobs).catch(() => null)));
+  const hydrated = converted.filter((m): m is ChatMessage => m !== null);
+  return { session: { ...rest, messages: hydrated }, failed: converted.length - hydrated.length };
+}
+
+async function putQuarantine(entries: QuarantineEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const key = await currentKey();
+  const stored = await Promise.all(entries.map(entry => sealRecord(key, entry, [])));
+  const db = await openDb();
+  const tx = db.transaction(QUARANTINE, 'readwrite');
+  stored.forEach(entry => tx.objectStore(QUARANTINE).add(entry));
+  await transactionDone(tx);
+}
+
+// The pre-IndexedDB localStorage data goes through the same migrations and validation.
+async function migrateLegacy(result: LoadResult, quarantine: QuarantineEntry[]): Promise<void> {
+  const legacyRaw = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (!legacyRaw) return;
+  let legacy: unknown;
+  try {
+    legacy = JSON.parse(legacyRaw);
+  } catch {
+    legacy = null;
+  }
+  if (!Array.isArray(legacy)) {
+    quarantine.push({ reason: 'Unreadable legacy localStorage data', quarantinedAt: Date.now(), session: legacyRaw });
+    result.quarantinedSessions += 1;
+  } else {
+    for (const raw of legacy) {
+      const checked = typeof raw === 'object' && raw !== null ? validateSession(migrateSession(raw, 0)) : null;
+      if (!checked || checked.droppedMessages > 0) {
+        quarantine.push({ reason: checked ? 'Malformed messages in legacy session' : 'Malformed legacy session', quarantinedAt: Date.now(), session: raw });
+      }
+      if (!checked) {
+        result.quarantinedSessions += 1;
+        continue;
+      }
+      result.quarantinedMessages += checked.droppedMessages;
+      result.sessions.push(checked.session);
+    }
+    saveSessions(result.sessions);
+    await writeQueue;
+  }
+  localStorage.removeItem(LEGACY_SESSIONS_KEY);
+}
+
+// Loads every session, upgrading older data to the current schema. Sessions or messages that
+// cannot be repaired are quarantined and counted in the result. On first run, sessions saved
+// by the old localStorage format are copied over and the old key is removed.
+export async function loadSessions(): Promise<LoadResult> {
+  const { entries, orphanMessages, undecryptable, blobs } = await readRaw();
+  const result: LoadResult = {
+    sessions: [],
+    quarantinedSessions: undecryptable.sessions.length,
+    quarantinedMessages: orphanMessages.length + undecryptable.messages.length,
+  };
+  const quarantine: QuarantineEntry[] = [];
+  const rewrites: Write[] = orphanMessages.map(m => ({ type: 'delete-message', sessionId: m.sessionId, messageId: m.id }));
+  if (orphanMessages.length > 0) {
+    quarantine.push({ reason: 'Messages without a session', quarantinedAt: Date.now(), messages: orphanMessages });
+  }
+  // Kept sealed as found; the stored keys are all that is needed to remove them.
+  if (undecryptable.sessions.length > 0 || undecryptable.messages.length > 0) {
+    quarantine.push({ reason: 'Could not be decrypted', quarantinedAt: Date.now(), session: undecryptable.sessions, messages: undecryptable.messages });
+    undecryptable.sessions.forEach(s => rewrites.push({ type: 'delete-session', sessionId: (s as SessionRecord).id, messageIds: [] }));
+    undecryptable.messages.forEach(m => rewrites.push({ type: 'delete-message', sessionId: (m as MessageRecord).sessionId, messageId: (m as MessageRecord).id }));
+  }
+
+  for (const entry of entries) {
+    const version = typeof entry.record.schemaVersion === 'number' ? entry.record.schemaVersion : 0;
+    const { session, failed } = await hydrate(entry, blobs);
+    const checked = validateSession(migrateSession(session, version));
+    const dropped = failed + (checked?.droppedMessages ?? 0);
+    const oldIds = entry.messages.map(m => m.id);
+
+    if (!checked || dropped > 0) {
+      quarantine.push({
+        reason: checked ? `${dropped} malformed message(s)` : 'Malformed session',
+        quarantinedAt: Date.now(),
+        session: entry.record,
+        messages: entry.messages,
+      });
+    }
+    if (!checked) {
+      result.quarantinedSessions += 1;
+      rewrites.push({ type: 'delete-session', sessionId: entry.record.id, messageIds: oldIds });
+      continue;
+    }
+    result.quarantinedMessages += dropped;
+    result.sessions.push(checked.session);
+
+    // Anything upgraded or repaired is written back whole, stamped with the current version.
+    if (dropped > 0 || checked.repaired || version !== SCHEMA_VERSION) {
+      rewrites.push(
+        { type: 'delete-session', sessionId: entry.record.id, messageIds: oldIds },
+        { type: 'put-session', record: sessionRecord(checked.session) },
+        ...checked.session.messages.map((message, order): Write => ({ type: 'put-message', sessionId: checked.session.id, message, order })),
+      );
+    }
+  }
+
+  // Quarantine first, so a failure part-way through never deletes data that was not set aside.
+  await putQuarantine(quarantine);
+  if (rewrites.length > 0) await applyWrites(rewrites);
+  saved = new Map(result.sessions.map(s => [s.id, s]));
+
+  if (result.sessions.length === 0) {
+    const legacyQuarantine: QuarantineEntry[] = [];
+    await migrateLegacy(result, legacyQuarantine);
+    await putQuarantine(legacyQuarantine);
+  }
+  // Session ids are creation timestamps.
+  result.sessions.sort((a, b) => Number(a.id) - Number(b.id));
+  return result;
+}
+
+// Re-reads sessions another tab changed (see tabSync). Sessions that are gone were deleted
+// there. Anything that fails decryption or validation is left alone here; the next full load
+// quarantines it.
+export async function reloadSessions(ids: string[]): Promise<{ sessions: ChatSession[]; deletedIds: string[] }> {
+  // Let this tab's own pending writes land first, so they are part of what is read back.
+  await writeQueue;
+  const key = await currentKey();
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, MESSAGES], 'readonly');
+  const raw = await Promise.all(ids.map(id => Promise.all([
+    promisify(tx.objectStore(SESSIONS).get(id)),
+    promisify(tx.objectStore(MESSAGES).index('sessionId').getAll(id)),
+  ])));
+  const stored = await Promise.all(raw.map(async ([rawRecord, rawMessages]) => {
+    const [record, messages] = await Promise.all([openRecords<SessionRecord>(key, rawRecord ? [rawRecord] : []), openRecords<MessageRecord>(key, rawMessages)]);
+    const unreadable = record.failed.length > 0 || messages.failed.length > 0;
+    return { exists: rawRecord !== undefined, record: unreadable ? undefined : record.opened[0], messages: messages.opened };
+  }));
+
+  const blobIds = [...new Set(stored.flatMap(({ messages }) => messages.flatMap(referencedBlobIds)))];
+  const blobTx = db.transaction(BLOBS, 'readonly');
+  const blobValues = await Promise.all(blobIds.map(id => promisify(blobTx.objectStore(BLOBS).get(id) as IDBRequest<Blob | SealedBlob | undefined>)));
+  const blobs = await openBlobs(key, blobIds, blobValues);
+
+  const result: { sessions: ChatSession[]; deletedIds: string[] } = { sessions: [], deletedIds: [] };
+  for (const [i, { exists, record, messages }] of stored.entries()) {
+    if (!exists) {
+      result.deletedIds.push(ids[i]);
+      saved.delete(ids[i]);
+      continue;
+    }
+    if (!record) continue;
+    const version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+    const { session } = await hydrate({ record, messages: messages.sort((a, b) => a.order - b.order) }, blobs);
+    const checked = validateSession(migrateSession(session, version));
+    if (!checked) continue;
+    result.sessions.push(checked.session);
+    saved.set(checked.session.id, checked.session);
+  }
+  return result;
+}
+
+// --- Saving ----------------------------------------------------------------
+
+const sessionRecord = ({ messages: _messages, ...record }: ChatSession): SessionRecord => ({ ...record, schemaVersion: SCHEMA_VERSION });
+
+const sameRecord = (a: SessionRecord, b: SessionRecord): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => a[key as keyof SessionRecord] === b[key as keyof SessionRecord]);
+};
+
+type Write =
+  | { type: 'put-session'; record: SessionRecord }
+  | { type: 'delete-session'; sessionId: string; messageIds: number[] }
+  | { type: 'put-message'; sessionId: string; message: ChatMessage; order: number }
+  | { type: 'delete-message'; sessionId: string; messageId: number };
+
+// State updates replace only the objects that changed, so comparing references against the
+// previous save finds exactly the sessions and messages that need writing.
+function diff(sessions: ChatSession[]): Write[] {
+  const writes: Write[] = [];
+  const current = new Map(sessions.map(s => [s.id, s]));
+
+  for (const session of sessions) {
+    const previous = saved.get(session.id);
+    if (previous === session) continue;
+    if (!previous || !sameRecord(sessionRecord(previous), sessionRecord(session))) {
+      writes.push({ type: 'put-session', record: sessionRecord(session) });
+    }
+    if (previous?.messages === session.messages) continue;
+
+    const before = new Map((previous?.messages ?? []).map((m, order) => [m.id, { message: m, order }]));
+    const kept = new Set<number>();
+    session.messages.forEach((message, order) => {
+      // Replies still streaming are written once they finish.
+      if (message.isLoading) return;
+      kept.add(message.id);
+      const old = before.get(message.id);
+      if (!old || old.message !== message || old.order !== order) {
+        writes.push({ type: 'put-message', sessionId: session.id, message, order });
+      }
+    });
+    before.forEach((_, id) => {
+      if (!kept.has(id)) writes.push({ type: 'delete-message', sessionId: session.id, messageId: id });
+    });
+  }
+
+  saved.forEach((previous, id) => {
+    if (!current.has(id)) writes.push({ type: 'delete-session', sessionId: id, messageIds: previous.messages.map(m => m.id) });
+  });
+  return writes;
+}
+
+async function applyWrites(writes: Write[]): Promise<void> {
+  // Blobs are stored and records sealed before the transaction opens: an IndexedDB transaction
+  // closes as soon as it waits on anything else.
+  const key = await currentKey();
+  const records = await Promise.all(writes.map(async w => {
+    if (w.type === 'put-session') return sealRecord(key, w.record, ['id']);
+    if (w.type === 'put-message') return sealRecord(key, await messageToRecord(w.sessionId, w.message, w.order), ['sessionId', 'id']);
+    return null;
+  }));
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, MESSAGES], 'readwrite');
+  const sessionStore = tx.objectStore(SESSIONS);
+  const messageStore = tx.objectStore(MESSAGES);
+  writes.forEach((write, i) => {
+    switch (write.type) {
+      case 'put-session': sessionStore.put(records[i]); break;
+      case 'delete-session':
+        sessionStore.delete(write.sessionId);
+        write.messageIds.forEach(id => messageStore.delete([write.sessionId, id]));
+        break;
+      case 'put-message': messageStore.put(records[i]); break;
+      case 'delete-message': messageStore.delete([write.sessionId, write.messageId]); break;
+    }
+  });
+  await transactionDone(tx);
+}
+
+// Writes whatever changed since the last call. Writes are queued so they land in order.
+export function saveSessions(sessions: ChatSession[]): void {
+  const writes = diff(sessions);
+  saved = new Map(sessions.map(s => [s.id, s]));
+  if (writes.length === 0) return;
+  const sessionIds = [...new Set(writes.map(w => w.type === 'put-session' ? w.record.id : w.sessionId))];
+  writeQueue = writeQueue
+    .then(() => applyWrites(writes))
+    .then(() => broadcast({ type: 'sessions-changed', sessionIds }))
+    .catch(e => console.error('Failed to save sessions', e));
+}
+
+// --- Folders ---------------------------------------------------------------
+
+// There are only ever a handful of folders, so they are written as a whole. The last list
+// loaded or saved is remembered so that reloading another tab's folders does not echo back.
+let savedFolders = '[]';
+
+const foldersKey = (folders: ChatFolder[]) => JSON.stringify(folders.map(({ id, name }) => [id, name]));
+
+export async function loadFolders(): Promise<ChatFolder[]> {
+  const key = await currentKey();
+  const db = await openDb();
+  const tx = db.transaction(FOLDERS, 'readonly');
+  const { opened: records } = await openRecords<unknown>(key, await promisify(tx.objectStore(FOLDERS).getAll()));
+  const folders = records.filter((r): r is ChatFolder => typeof r === 'object' && r !== null
+    && typeof (r as ChatFolder).id === 'string' && typeof (r as ChatFolder).name === 'string');
+  savedFolders = foldersKey(folders);
+  return folders;
+}
+
+export function saveFolders(folders: ChatFolder[]): void {
+  const key = foldersKey(folders);
+  if (key === savedFolders) return;
+  savedFolders = key;
+  writeQueue = writeQueue
+    .then(async () => {
+      const key = await currentKey();
+      const records = await Promise.all(folders.map(({ id, name }) => sealRecord(key, { id, name }, ['id'])));
+      const db = await openDb();
+      const tx = db.transaction(FOLDERS, 'readwrite');
+      const store = tx.objectStore(FOLDERS);
+      store.clear();
+      records.forEach(record => store.put(record));
+      await transactionDone(tx);
+      broadcast({ type: 'folders-changed' });
+    })
+    .catch(e => console.error('Failed to save folders', e));
+}
+
+// --- History lock ------------------------------------------------------------
+
+export async function isHistoryEncrypted(): Promise<boolean> {
+  if (vaultConfig === undefined) vaultConfig = await readVaultConfig();
+  return vaultConfig !== null;
+}
+
+// Resolves to false when the passphrase is wrong.
+export async function unlockHistory(passphrase: string): Promise<boolean> {
+  if (vaultConfig === undefined) vaultConfig = await readVaultConfig();
+  if (!vaultConfig) return true;
+  const key = await unlockVault(vaultConfig, passphrase);
+  if (key) historyKey = key;
+  return key !== null;
+}
+
+// Asks for the passphrase again before the lock is changed or turned off in an unlocked app.
+export async function verifyHistoryPassphrase(passphrase: string): Promise<boolean> {
+  if (vaultConfig === undefined) vaultConfig = await readVaultConfig();
+  return !vaultConfig || (await unlockVault(vaultConfig, passphrase)) !== null;
+}
+
+// Lets pending writes finish, then forgets the key along with everything remembered about the
+// last save. The lock config is read again on the next use, in case another tab changed it.
+export async function lockHistory(): Promise<void> {
+  await writeQueue;
+  historyKey = null;
+  vaultConfig = undefined;
+  saved = new Map();
+  savedFolders = '[]';
+}
+
+const ALL_STORES = [SESSIONS, MESSAGES, BLOBS, QUARANTINE, FOLDERS];
+const KEY_FIELDS: Record<string, string[]> = { [SESSIONS]: ['id'], [MESSAGES]: ['sessionId', 'id'], [QUARANTINE]: [], [FOLDERS]: ['id'] };
+
+// Turns the lock on, changes its passphrase, or turns it off (null), re-encrypting every record
+// in one transaction together with the new config. Fails without changing anything if some
+// record cannot be decrypted with the current key.
+export function setHistoryPassphrase(passphrase: string | null): Promise<void> {
+  const task = writeQueue.then(async () => {
+    const key = await currentKey();
+    const db = await openDb();
+    const readTx = db.transaction(ALL_STORES, 'readonly');
+    const contents = await Promise.all(ALL_STORES.map(async name => {
+      const store = readTx.objectStore(name);
+      const [keys, values] = await Promise.all([promisify(store.getAllKeys()), promisify(store.getAll())]);
+      return { name, keys, values };
+    }));
+
+    const next = passphrase === null ? null : await createVault(passphrase);
+    const nextKey = next?.key ?? null;
+    const resealed = await Promise.all(contents.map(async ({ name, keys, values }) => ({
+      name,
+      keys,
+      values: await Promise.all(values.map(async value => name === BLOBS
+        ? sealBlob(nextKey, await openBlob(key, value as Blob | SealedBlob))
+        : sealRecord(nextKey, await openRecord<Record<string, unknown>>(key, value), KEY_FIELDS[name]))),
+    })));
+
+    const writeTx = db.transaction([...ALL_STORES, META], 'readwrite');
+    resealed.forEach(({ name, keys, values }) => {
+      const store = writeTx.objectStore(name);
+      store.clear();
+      // Only blobs and quarantine entries have out-of-line keys.
+      values.forEach((value, i) => store.keyPath === null ? store.put(value, keys[i]) : store.put(value));
+    });
+    if (next) writeTx.objectStore(META).put(next.config, VAULT_KEY);
+    else writeTx.objectStore(META).delete(VAULT_KEY);
+    await transactionDone(writeTx);
+
+    vaultConfig = next?.config ?? null;
+    historyKey = nextKey;
+    broadcast({ type: 'history-lock-changed' });
+  });
+  writeQueue = task.catch(() => {});
+  return task;
+}
+
+// The way out of a forgotten passphrase: deletes the whole history and turns the lock off.
+export async function eraseHistory(): Promise<void> {
+  await writeQueue;
+  const db = await openDb();
+  const tx = db.transaction([...ALL_STORES, META], 'readwrite');
+  [...ALL_STORES, META].forEach(name => tx.objectStore(name).clear());
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  await lockHistory();
+  broadcast({ type: 'history-lock-changed' });
+}
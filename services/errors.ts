@@ -0,0 +1,120 @@
+import type { GenerationErrorKind } from '../types';
+import type { ImageResult } from './chatProvider';
+import { getLanguagePack } from './languagePacks';
+
+// Transient failures worth retrying automatically; everything else needs the user to change something.
+const RETRYABLE_KINDS: GenerationErrorKind[] = ['quota', 'network', 'model-unavailable'];
+
+const STATUS_BY_KIND: { [kind in GenerationErrorKind]: number } = {
+  'invalid-input': 400,
+  'safety': 422,
+  'quota': 429,
+  'network': 502,
+  'model-unavailable': 503,
+  'unknown': 500,
+};
+
+export class GenerationError extends Error {
+  constructor(public readonly kind: GenerationErrorKind, message: string) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+
+  get isRetryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  get status(): number {
+    return STATUS_BY_KIND[this.kind];
+  }
+}
+
+const kindFromStatus = (status: number): GenerationErrorKind | null => {
+  if (status === 429) return 'quota';
+  if (status === 400 || status === 413 || status === 422) return 'invalid-input';
+  if (status === 404 || status === 500 || status === 502 || status === 503 || status === 504) return 'model-unavailable';
+  return null;
+};
+
+const kindFromMessage = (message: string): GenerationErrorKind | null => {
+  const lower = message.toLowerCase();
+  if (/safety|blocked|prohibited|blocklist/.test(lower)) return 'safety';
+  if (/quota|rate limit|resource[ _]?exhausted|too many requests/.test(lower)) return 'quota';
+  if (/failed to fetch|fetch failed|networkerror|network error|econnrefused|econnreset|etimedout|load failed/.test(lower)) return 'network';
+  if (/overloaded|unavailable|not found|deadline exceeded/.test(lower)) return 'model-unavailable';
+  if (/invalid|required|unsupported|too large/.test(lower)) return 'invalid-input';
+  return null;
+};
+
+// Cancellation is not a failure: callers check for it before reporting an error.
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: unknown })?.name === 'AbortError';
+}
+
+// Resolves after `ms`, or rejects with an AbortError as soon as `signal` fires.
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Normalizes anything thrown by the SDK, fetch or our own server into a GenerationError.
+export function classifyError(error: unknown): GenerationError {
+  if (error instanceof GenerationError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : null;
+  const kind = (status !== null ? kindFromStatus(status) : null) ?? kindFromMessage(message) ?? 'unknown';
+  return new GenerationError(kind, message);
+}
+
+// Rebuilds a GenerationError from the `{ error: { kind, message } }` body the server sends.
+export function errorFromPayload(payload: { error?: { kind?: string; message?: string } } | null, status: number): GenerationError {
+  const message = payload?.error?.message || `Request failed with status ${status}`;
+  const kind = payload?.error?.kind;
+  if (kind && kind in STATUS_BY_KIND) return new GenerationError(kind as GenerationErrorKind, message);
+  return classifyError(Object.assign(new Error(message), { status }));
+}
+
+// Turns a blocked or empty image response into a typed error; an image or an explanation passes through.
+export function checkImageResult(result: ImageResult): ImageResult {
+  if (result.blockReason) throw new GenerationError('safety', `Request was blocked due to: ${result.blockReason}.`);
+  if (!result.image && !result.text?.trim()) throw new GenerationError('invalid-input', "No image was returned from the API.");
+  return result;
+}
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+// Runs `fn`, retrying transient failures with exponential backoff and jitter.
+export async function withRetry<T>(fn: () => Promise<T>, { attempts = 3, baseDelayMs = 1000, maxDelayMs = 8000, signal }: RetryOptions = {}): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const classified = classifyError(error);
+      if (!classified.isRetryable || attempt >= attempts) throw classified;
+      const backoff = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      const jitter = Math.random() * backoff * 0.25;
+      console.warn(`Retrying after ${classified.kind} error (attempt ${attempt} of ${attempts})`, classified.message);
+      await abortableDelay(backoff + jitter, signal);
+    }
+  }
+}
+
+export function getErrorMessage(kind: GenerationErrorKind, languageCode: string): string {
+  return getLanguagePack(languageCode).errors[kind];
+}
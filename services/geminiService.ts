@@ -1,98 +1,193 @@
+import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import type { UploadedFile, GenerationErrorKind, Itinerary } from '../types';
+import type { BriefingReply, ChatDescription, ChatProvider, ChatStreamChunk, ImageResult, IntentClassification, IntentOption, ItineraryReply, LiveCallbacks, LiveSession, ChatTurn, ChatPart, VideoAspectRatio } from './chatProvider';
+import { GenerationError, abortableDelay, checkImageResult, classifyError, errorFromPayload, isAbortError, withRetry } from './errors';
 
+// Talks to the local backend in /server, which holds the Gemini API key. Nothing in this
+// module ever sees the key.
+const API_BASE = '/api';
+const VIDEO_POLL_MS = 10000;
 
-import { GoogleGenAI, Chat, Part, Modality, GenerateContentResponse, Content } from '@google/genai';
-import { SYSTEM_PROMPT } from '../constants';
-import type { UploadedFile } from '../types';
+// fetch only rejects when the request never got a response, so any rejection is a network error.
+const request = async (path: string, init?: RequestInit): Promise<Response> => {
+    try {
+        return await fetch(`${API_BASE}${path}`, init);
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new GenerationError('network', error instanceof Error ? error.message : String(error));
+    }
+};
+
+const readJson = async <T,>(response: Response): Promise<T> => {
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw errorFromPayload(payload, response.status);
+    }
+    return payload as T;
+};
 
-const API_KEY = process.env.API_KEY;
+const postJson = <T,>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => withRetry(async () => {
+    const response = await request(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    return readJson<T>(response);
+}, { signal });
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+// Reads a newline-delimited JSON response body one object at a time.
+async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.trim()) yield JSON.parse(line) as T;
+        }
+        if (done) break;
+    }
+    if (buffered.trim()) yield JSON.parse(buffered) as T;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+// The server is stateless, so the chat handle keeps the running history and replays it on every turn.
+export function startChat(languageCode: string, history: ChatTurn[] = [], modelId?: string) {
+  const turns: ChatTurn[] = [...history];
 
-export function startChat(languageCode: string, history: Content[] = []): Chat {
-  return ai.chats.create({
-    model: 'gemini-2.5-pro',
-    config: {
-      systemInstruction: `${SYSTEM_PROMPT}\n The user's preferred language is ${languageCode}. Please respond primarily in this language unless the user switches.`,
-      tools: [{ googleSearch: {} }, { googleMaps: {} }],
+  return {
+    async sendMessageStream(message: (string | ChatPart)[], signal?: AbortSignal): Promise<AsyncIterable<ChatStreamChunk>> {
+        // Only opening the stream is retried; once text has been shown, a failure is reported instead.
+        // Aborting the fetch also closes the connection, which stops generation on the server.
+        const response = await withRetry(async () => {
+            const opened = await request('/chat/stream', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ languageCode, model: modelId, history: turns, message }),
+                signal,
+            });
+            if (!opened.ok) await readJson(opened);
+            return opened;
+        }, { signal });
+
+        const userTurn: ChatTurn = { role: 'user', parts: message.map(part => typeof part === 'string' ? { text: part } : part) };
+        return (async function* () {
+            let fullText = '';
+            for await (const line of readNdjson<ChatStreamChunk & { error?: { kind: GenerationErrorKind; message: string } }>(response)) {
+                if (line.error) throw errorFromPayload(line, 500);
+                fullText += line.text;
+                yield { text: line.text, sources: line.sources ?? [] };
+            }
+            turns.push(userTurn, { role: 'model', parts: [{ text: fullText }] });
+        })();
     },
-    history: history,
-  });
+  };
 }
 
-export async function sendMessage(chat: Chat, message: (string | Part)[]) {
-    return await chat.sendMessageStream({ message });
+export async function editImage(file: UploadedFile, prompt: string): Promise<ImageResult> {
+    return checkImageResult(await postJson<ImageResult>('/images/edit', { file: { data: file.data, mimeType: file.mimeType }, prompt }));
 }
 
-export async function editImage(file: UploadedFile, prompt: string): Promise<GenerateContentResponse> {
-    const imagePart: Part = {
-        inlineData: {
-            data: file.data,
-            mimeType: file.mimeType,
-        }
-    };
-    const textPart: Part = { text: prompt };
+export async function generateImage(prompt: string): Promise<ImageResult> {
+    return checkImageResult(await postJson<ImageResult>('/images/generate', { prompt }));
+}
 
-    // For multi-part requests, 'contents' must be a Content object with a 'parts' array.
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [imagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return response;
+export async function generateVideo(file: UploadedFile, prompt: string, aspectRatio: VideoAspectRatio, signal?: AbortSignal): Promise<string> {
+    const { operationName } = await postJson<{ operationName: string }>('/videos', {
+        file: { data: file.data, mimeType: file.mimeType },
+        prompt,
+        aspectRatio,
+    }, signal);
+
+    // Cancelling stops the polling; the operation itself cannot be cancelled through the Gemini API.
+    while (true) {
+        // Poll every 10 seconds
+        await abortableDelay(VIDEO_POLL_MS, signal);
+        const status = await withRetry(async () => readJson<{ done: boolean; contentUrl?: string }>(
+            await request(`/videos/status?operation=${encodeURIComponent(operationName)}`, { signal })
+        ), { signal });
+        // The content URL streams the bytes through the server; it carries no key.
+        if (status.done && status.contentUrl) return status.contentUrl;
+    }
 }
 
-export async function generateImage(prompt: string): Promise<GenerateContentResponse> {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [{ text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return response;
+export async function summarizeText(text: string): Promise<string> {
+    const { summary } = await postJson<{ summary: string }>('/summarize', { text });
+    return summary;
 }
 
-export async function generateVideo(file: UploadedFile, prompt: string, aspectRatio: '16:9' | '9:16'): Promise<string> {
-    let operation = await ai.models.generateVideos({
-        model: 'veo-3.1-fast-generate-preview',
-        prompt,
-        image: {
-            imageBytes: file.data,
-            mimeType: file.mimeType,
+export async function translateText(text: string, languageCode: string): Promise<string> {
+    const { translation } = await postJson<{ translation: string }>('/translate', { text, languageCode });
+    return translation;
+}
+
+export async function describeChat(transcript: string, languageCode: string): Promise<ChatDescription> {
+    return postJson<ChatDescription>('/chats/describe', { transcript, languageCode });
+}
+
+export async function classifyIntent(text: string, options: IntentOption[], attachmentTypes: string[], languageCode: string): Promise<IntentClassification> {
+    return postJson<IntentClassification>('/intents/classify', { text, options, attachmentTypes, languageCode });
+}
+
+export async function planItinerary(request: string, languageCode: string, current?: Itinerary): Promise<ItineraryReply> {
+    return postJson<ItineraryReply>('/itineraries/plan', { request, languageCode, current });
+}
+
+export async function getBriefing(languageCode: string, date: string): Promise<BriefingReply> {
+    return postJson<BriefingReply>('/briefing', { languageCode, date });
+}
+
+export async function connectLive(callbacks: LiveCallbacks, systemInstruction: string): Promise<LiveSession> {
+    const { token, model } = await postJson<{ token: string; model: string }>('/live/token', {});
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+    const session = await ai.live.connect({
+        model,
+        callbacks: {
+            onopen: callbacks.onOpen,
+            onmessage: (message: LiveServerMessage) => {
+                callbacks.onEvent({
+                    inputTranscription: message.serverContent?.inputTranscription?.text,
+                    outputTranscription: message.serverContent?.outputTranscription?.text,
+                    audio: message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data,
+                    turnComplete: message.serverContent?.turnComplete,
+                    interrupted: message.serverContent?.interrupted,
+                });
+            },
+            onerror: (e: ErrorEvent) => callbacks.onError(classifyError(e.error ?? e.message)),
+            onclose: () => callbacks.onClose(),
         },
         config: {
-            numberOfVideos: 1,
-            resolution: '720p',
-            aspectRatio: aspectRatio,
-        }
+            responseModalities: [Modality.AUDIO],
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+            speechConfig: {
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
+            },
+            systemInstruction,
+        },
     });
 
-    while (!operation.done) {
-        // Poll every 10 seconds
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        operation = await ai.operations.getVideosOperation({ operation });
-    }
-
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!downloadLink) {
-        throw new Error("Video generation completed but no download link was found.");
-    }
-    
-    // Append API key for direct access
-    const finalUrl = `${downloadLink}&key=${API_KEY}`;
-    return finalUrl;
+    return {
+        sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+        close: () => session.close(),
+    };
 }
 
-export async function summarizeText(text: string): Promise<string> {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: `Summarize the following text concisely:\n\n${text}`,
-    });
-    return response.text;
-}
\ No newline at end of file
+export const geminiProvider: ChatProvider = {
+    name: 'gemini',
+    startChat,
+    editImage,
+    generateImage,
+    generateVideo,
+    summarizeText,
+    translateText,
+    describeChat,
+    classifyIntent,
+    planItinerary,
+    getBriefing,
+    connectLive,
+};
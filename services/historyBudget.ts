@@ -0,0 +1,127 @@
+import type { ChatMessage, HistorySummary, UploadedFile } from '../types';
+import type { ChatPart, ChatTurn } from './chatProvider';
+import { itineraryToText } from './itinerary';
+import { briefingToText } from './briefing';
+import { hotelsToText } from './hotels';
+
+// Keeps the history replayed into `startChat` within a token budget. Attachments on older
+// messages are replaced by one-line descriptions, and turns that still do not fit are left to
+// be folded into the session's rolling summary.
+
+export interface HistoryBudget {
+  maxTokens: number;
+  // Attachments on the latest N messages are sent in full; older ones become descriptions.
+  recentMessagesWithAttachments: number;
+}
+
+export const DEFAULT_HISTORY_BUDGET: HistoryBudget = {
+  maxTokens: 24000,
+  recentMessagesWithAttachments: 4,
+};
+
+// Rough but stable estimates. Gemini bills an image of any size as a fixed number of tokens.
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+
+export function estimateTokens(parts: ChatPart[]): number {
+  return parts.reduce((total, part) => {
+    if (part.text) return total + Math.ceil(part.text.length / CHARS_PER_TOKEN);
+    if (part.inlineData) {
+      return total + (part.inlineData.mimeType.startsWith('image/') ? IMAGE_TOKENS : Math.ceil(part.inlineData.data.length / CHARS_PER_TOKEN));
+    }
+    return total;
+  }, 0);
+}
+
+const describeAttachment = (file: UploadedFile): string =>
+  `[Earlier attachment omitted: ${file.mimeType.startsWith('image/') ? 'image' : 'file'} "${file.name}"]`;
+
+// Converts an app message into a chat turn; returns null for messages the model should never see.
+export const messageToTurn = (message: ChatMessage, includeAttachments = true): ChatTurn | null => {
+  if (message.isSystem || message.isWelcome || message.error || (!message.text.trim() && !message.files?.length)) return null;
+
+  const parts: ChatPart[] = [];
+  if (message.text) {
+    parts.push({ text: message.text });
+  }
+  // The cards are not text, so the model would otherwise not know what the plan says.
+  if (message.itinerary) {
+    parts.push({ text: itineraryToText(message.itinerary) });
+  }
+  if (message.hotels?.length) {
+    parts.push({ text: hotelsToText(message.hotels) });
+  }
+  if (message.briefing) {
+    parts.push({ text: briefingToText(message.briefing) });
+  }
+  message.files?.forEach(file => {
+    parts.push(includeAttachments ? { inlineData: { data: file.data, mimeType: file.mimeType } } : { text: describeAttachment(file) });
+  });
+
+  return {
+    role: message.sender === 'user' ? 'user' : 'model',
+    parts,
+  };
+};
+
+const summaryTurns = (summary: HistorySummary): ChatTurn[] => [
+  { role: 'user', parts: [{ text: `Here is a summary of our conversation so far:\n${summary.text}` }] },
+  { role: 'model', parts: [{ text: "Thanks, I'll keep that in mind." }] },
+];
+
+export interface BudgetedHistory {
+  turns: ChatTurn[];
+  // The summary that was applied, if any. It only applies when it covers an earlier part of `messages`.
+  summary?: HistorySummary;
+  // Older messages that did not fit and are not yet covered by the summary.
+  overflow: ChatMessage[];
+}
+
+export function budgetHistory(messages: ChatMessage[], sessionSummary?: HistorySummary, budget: HistoryBudget = DEFAULT_HISTORY_BUDGET): BudgetedHistory {
+  // A summary written for another branch of the conversation does not describe this one.
+  const summary = sessionSummary && messages.some(m => m.id === sessionSummary.throughMessageId) ? sessionSummary : undefined;
+  // Message ids are timestamps, so anything newer than the summary's last message is still unsummarized.
+  const pending = messages.filter(m => !summary || m.id > summary.throughMessageId);
+  const prefix = summary ? summaryTurns(summary) : [];
+  let remaining = budget.maxTokens - prefix.reduce((total, turn) => total + estimateTokens(turn.parts), 0);
+
+  // Walk back from the newest message, always keeping at least the latest turn.
+  const kept: { message: ChatMessage; turn: ChatTurn }[] = [];
+  let cutoff = pending.length;
+  for (let i = pending.length - 1; i >= 0; i--) {
+    const withAttachments = pending.length - i <= budget.recentMessagesWithAttachments;
+    const turn = messageToTurn(pending[i], withAttachments);
+    if (!turn) {
+      cutoff = i;
+      continue;
+    }
+    const cost = estimateTokens(turn.parts);
+    if (cost > remaining && kept.length > 0) break;
+    remaining -= cost;
+    kept.unshift({ message: pending[i], turn });
+    cutoff = i;
+  }
+
+  // The replayed window has to open with a user turn.
+  while (kept.length > 1 && kept[0].turn.role !== 'user') {
+    kept.shift();
+    cutoff = pending.indexOf(kept[0].message);
+  }
+
+  return {
+    turns: [...prefix, ...kept.map(k => k.turn)],
+    summary,
+    overflow: pending.slice(0, cutoff).filter(m => messageToTurn(m, false) !== null),
+  };
+}
+
+// Builds the text handed to the summarizer: the previous summary followed by the turns to fold in.
+export function buildSummaryInput(overflow: ChatMessage[], previous?: HistorySummary): string {
+  const transcript = overflow
+    .map(message => messageToTurn(message, false))
+    .filter((turn): turn is ChatTurn => turn !== null)
+    .map(turn => `${turn.role === 'user' ? 'Traveler' : 'Guide'}: ${turn.parts.map(p => p.text).join(' ')}`)
+    .join('\n');
+  const intro = 'This is a conversation between a traveler and a Gokarna travel guide. Keep the traveler\'s plans, preferences, dates and any places or hotels already recommended.';
+  return previous ? `${intro}\n\nEarlier summary:\n${previous.text}\n\nLater conversation:\n${transcript}` : `${intro}\n\n${transcript}`;
+}
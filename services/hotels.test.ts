@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { extractHotels } from './hotels';
+
+const INTRO = 'Here are three stays near Om Beach.';
+const BLOCK = '```hotels\n[{"name": "Namaste Cafe", "area": "Om Beach", "pricePerNight": {"min": 2500, "max": 4000}}]\n```';
+
+describe('extractHotels', () => {
+  it('cuts a complete block out of the text and returns its hotels', () => {
+    const { text, hotels } = extractHotels(`${INTRO}\n\n${BLOCK}\n\nEnjoy your stay!`);
+    expect(text).toBe(`${INTRO}\n\nEnjoy your stay!`);
+    expect(hotels.map(hotel => hotel.name)).toEqual(['Namaste Cafe']);
+  });
+
+  it('leaves a reply without a block alone', () => {
+    expect(extractHotels(INTRO)).toEqual({ text: INTRO, hotels: [] });
+  });
+
+  it('hides a block that is still streaming in', () => {
+    const reply = `${INTRO}\n\n${BLOCK.slice(0, 40)}`;
+    expect(extractHotels(reply, true)).toEqual({ text: `${INTRO}\n\n`, hotels: [] });
+  });
+
+  it('keeps a truncated block in a finished reply', () => {
+    const reply = `${INTRO}\n\n${BLOCK.slice(0, 40)}`;
+    expect(extractHotels(reply)).toEqual({ text: reply, hotels: [] });
+  });
+
+  it('keeps an invalid block in a finished reply', () => {
+    const reply = `${INTRO}\n\n\`\`\`hotels\nNamaste Cafe, Om Beach, ₹2500 a night\n\`\`\``;
+    expect(extractHotels(reply)).toEqual({ text: reply, hotels: [] });
+  });
+
+  it('keeps a block without usable hotels in a finished reply', () => {
+    const reply = `${INTRO}\n\n\`\`\`hotels\n[{"area": "Om Beach"}]\n\`\`\``;
+    expect(extractHotels(reply)).toEqual({ text: reply, hotels: [] });
+  });
+});
@@ -0,0 +1,95 @@
+import type { HotelOption } from '../types';
+
+// Grounded chat replies cannot use a response schema, so hotel recommendations come inside the
+// reply as a fenced "hotels" JSON block (see the hotel rule in SYSTEM_PROMPT). The block is cut
+// out of the text and shown as cards instead.
+
+const MAX_HOTELS = 10;
+const MAX_POINTS = 8;
+const MAX_TEXT_LENGTH = 200;
+
+// An unterminated block is still streaming in, or was cut off.
+const HOTEL_BLOCK = /```hotels[^\n]*\n?([\s\S]*?)(?:```|$)/;
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const cleanText = (value: unknown): string => typeof value === 'string' ? value.trim().slice(0, MAX_TEXT_LENGTH) : '';
+const cleanList = (value: unknown): string[] => Array.isArray(value) ? value.map(cleanText).filter(Boolean).slice(0, MAX_POINTS) : [];
+const cleanAmount = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+
+export const hotelId = (name: string): string => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+
+function parseHotel(value: unknown): HotelOption | null {
+  if (!isObject(value)) return null;
+  const name = cleanText(value.name);
+  if (!name) return null;
+
+  const hotel: HotelOption = { id: hotelId(name), name, amenities: cleanList(value.amenities), pros: cleanList(value.pros), cons: cleanList(value.cons) };
+  const area = cleanText(value.area);
+  if (area) hotel.area = area;
+  const price = value.pricePerNight;
+  const min = isObject(price) ? cleanAmount(price.min) : undefined;
+  const max = isObject(price) ? cleanAmount(price.max) : undefined;
+  // A single figure is a fixed price; a swapped range is put the right way round.
+  if (min !== undefined || max !== undefined) {
+    const low = min ?? max ?? 0;
+    const high = max ?? low;
+    hotel.pricePerNight = { min: Math.min(low, high), max: Math.max(low, high) };
+  }
+  const rating = typeof value.rating === 'number' && Number.isFinite(value.rating) ? Math.round(Math.min(5, Math.max(0, value.rating)) * 10) / 10 : undefined;
+  if (rating !== undefined) hotel.rating = rating;
+  // Only web links: the URL ends up in an href.
+  const bookingUrl = cleanText(value.bookingUrl);
+  if (/^https?:\/\//i.test(bookingUrl)) hotel.bookingUrl = bookingUrl;
+  return hotel;
+}
+
+// Keeps the usable hotels from model output or stored data, without duplicates.
+export function parseHotels(value: unknown): HotelOption[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value
+    .map(parseHotel)
+    .filter((hotel): hotel is HotelOption => hotel !== null && !seen.has(hotel.id) && !!seen.add(hotel.id))
+    .slice(0, MAX_HOTELS);
+}
+
+// Splits a reply into its text and the hotels from its block. While the reply is still streaming,
+// the block is left out of the text even before it is complete. Once the reply has finished, the
+// block is only cut out if it holds at least one usable hotel; a truncated or invalid block stays
+// in the text, since the reply has no other description of the hotels.
+export function extractHotels(reply: string, streaming = false): { text: string; hotels: HotelOption[] } {
+  const match = HOTEL_BLOCK.exec(reply);
+  if (!match) return { text: reply, hotels: [] };
+  let hotels: HotelOption[] = [];
+  try {
+    hotels = parseHotels(JSON.parse(match[1]));
+  } catch {
+    // Still streaming, or not JSON after all.
+  }
+  if (!streaming && hotels.length === 0) return { text: reply, hotels };
+  const text = (reply.slice(0, match.index) + reply.slice(match.index + match[0].length)).replace(/\n{3,}/g, '\n\n');
+  return { text, hotels };
+}
+
+export const formatHotelPrice = (price: NonNullable<HotelOption['pricePerNight']>): string =>
+  price.min === price.max ? `₹${price.min.toLocaleString('en-IN')}` : `₹${price.min.toLocaleString('en-IN')}–${price.max.toLocaleString('en-IN')}`;
+
+// A plain-text rendering for the chat model's history and for exports.
+export function hotelsToText(hotels: HotelOption[]): string {
+  return hotels.map((hotel, index) => {
+    const details = [
+      hotel.area,
+      hotel.pricePerNight && `${formatHotelPrice(hotel.pricePerNight)} a night`,
+      hotel.rating !== undefined && `rated ${hotel.rating}/5`,
+    ].filter(Boolean).join(', ');
+    const lines = [`${index + 1}. ${hotel.name}${details ? ` (${details})` : ''}`];
+    if (hotel.amenities.length > 0) lines.push(`   Amenities: ${hotel.amenities.join(', ')}`);
+    if (hotel.pros.length > 0) lines.push(`   👍 ${hotel.pros.join('; ')}`);
+    if (hotel.cons.length > 0) lines.push(`   👎 ${hotel.cons.join('; ')}`);
+    if (hotel.bookingUrl) lines.push(`   Booking: ${hotel.bookingUrl}`);
+    return lines.join('\n');
+  }).join('\n');
+}
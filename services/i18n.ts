@@ -0,0 +1,33 @@
+import { createContext, useCallback, useContext } from 'react';
+import { LANGUAGES, type LanguageCode } from '../constants';
+import type { MESSAGES } from '../locales/en-US';
+import { getLanguagePack } from './languagePacks';
+
+// Looks up UI strings in the `messages` of each language pack (see services/languagePacks.ts).
+// Chat replies follow the session's language through the system prompt; these cover everything
+// the app itself says.
+
+export type MessageKey = keyof typeof MESSAGES;
+export type Catalog = { [key in MessageKey]: string };
+export type MessageParams = { [name: string]: string | number };
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en-US';
+
+export const isLanguageCode = (code: unknown): code is LanguageCode => LANGUAGES.some(l => l.code === code);
+
+export const isMessageKey = (key: string): key is MessageKey => key in getLanguagePack(DEFAULT_LANGUAGE).messages;
+
+// Unknown languages fall back to English. Parameters that are not passed are left as `{name}`.
+export function translate(languageCode: string, key: MessageKey, params?: MessageParams): string {
+  const text = getLanguagePack(languageCode).messages[key];
+  return params ? text.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder) : text;
+}
+
+// The language the UI is shown in; provided by HistoryLockGate above everything else.
+export const LocaleContext = createContext<LanguageCode>(DEFAULT_LANGUAGE);
+
+export function useTranslation() {
+  const languageCode = useContext(LocaleContext);
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(languageCode, key, params), [languageCode]);
+  return { t, languageCode };
+}
@@ -0,0 +1,100 @@
+import type { IntentId } from '../types';
+
+// Messages with the intent they should be routed to, in every supported language. They pin
+// down the cases the old regex dispatch got wrong (asking to see beaches is not a request for
+// a drawing, a question about a photo is not an edit, and naming a language is not asking to
+// switch to it), and the server shows them to the model classifier as examples.
+
+export interface IntentFixture {
+  text: string;
+  // The chat's language when the message is sent.
+  languageCode: string;
+  // A single photo is attached.
+  withImage?: boolean;
+  // The chat already has a trip plan.
+  withItinerary?: boolean;
+  intent: IntentId;
+  targetLanguage?: string;
+}
+
+export const INTENT_FIXTURES: IntentFixture[] = [
+  { languageCode: 'en-US', text: 'Show me the best beaches', intent: 'chat' },
+  { languageCode: 'en-US', text: 'How do I get to Kudle Beach from the bus stand?', intent: 'chat' },
+  { languageCode: 'en-US', text: 'Is Kannada spoken in Gokarna?', intent: 'chat' },
+  { languageCode: 'en-US', text: 'Recommend a good Konkani restaurant in Gokarna', intent: 'chat' },
+  { languageCode: 'en-US', text: 'Suggest a Tamil thali place in Gokarna', intent: 'chat' },
+  { languageCode: 'en-US', text: 'Create an image of Om Beach at sunset', intent: 'generate-image' },
+  { languageCode: 'en-US', text: 'Draw a watercolor painting of the Mahabaleshwar temple', intent: 'generate-image' },
+  { languageCode: 'en-US', text: 'Where is this?', withImage: true, intent: 'chat' },
+  { languageCode: 'en-US', text: 'Make it look like an oil painting', withImage: true, intent: 'edit-image' },
+  { languageCode: 'en-US', text: 'Please reply in Hindi', intent: 'change-language', targetLanguage: 'hi-IN' },
+  { languageCode: 'en-US', text: 'Trip Plan', intent: 'trip-plan' },
+  { languageCode: 'en-US', text: 'Add Mirjan Fort to day 2', withItinerary: true, intent: 'update-itinerary' },
+  { languageCode: 'en-US', text: 'What time should I leave for Om Beach on day 1?', withItinerary: true, intent: 'chat' },
+
+  { languageCode: 'hi-IN', text: 'गोकर्ण के सबसे अच्छे समुद्र तट कौन से हैं?', intent: 'chat' },
+  { languageCode: 'hi-IN', text: 'मुझे ओम बीच की फोटो दिखाओ', intent: 'chat' },
+  { languageCode: 'hi-IN', text: 'गोकर्ण में कोंकणी खाने की अच्छी जगह बताओ', intent: 'chat' },
+  { languageCode: 'hi-IN', text: 'ओम बीच पर सूर्यास्त की तस्वीर बनाओ', intent: 'generate-image' },
+  { languageCode: 'hi-IN', text: 'यह कौन सी जगह है?', withImage: true, intent: 'chat' },
+  { languageCode: 'hi-IN', text: 'बैकग्राउंड बदल दो', withImage: true, intent: 'edit-image' },
+  { languageCode: 'hi-IN', text: 'कृपया अंग्रेज़ी में जवाब दें', intent: 'change-language', targetLanguage: 'en-US' },
+  { languageCode: 'hi-IN', text: 'यात्रा योजना', intent: 'trip-plan' },
+  { languageCode: 'hi-IN', text: 'दूसरे दिन से पैराडाइज़ बीच हटा दो', withItinerary: true, intent: 'update-itinerary' },
+
+  { languageCode: 'kn-IN', text: 'ಗೋಕರ್ಣದಲ್ಲಿ ಉತ್ತಮ ಕಡಲತೀರಗಳು ಯಾವುವು?', intent: 'chat' },
+  { languageCode: 'kn-IN', text: 'ಗೋಕರ್ಣದಲ್ಲಿ ಒಳ್ಳೆಯ ತಮಿಳು ಊಟದ ಹೋಟೆಲ್ ಸೂಚಿಸಿ', intent: 'chat' },
+  { languageCode: 'kn-IN', text: 'ಓಂ ಬೀಚ್‌ನ ಚಿತ್ರ ರಚಿಸಿ', intent: 'generate-image' },
+  { languageCode: 'kn-IN', text: 'ಇದು ಯಾವ ಸ್ಥಳ?', withImage: true, intent: 'chat' },
+  { languageCode: 'kn-IN', text: 'ಹಿನ್ನೆಲೆಯನ್ನು ಬದಲಿಸಿ', withImage: true, intent: 'edit-image' },
+  { languageCode: 'kn-IN', text: 'ದಯವಿಟ್ಟು ಇಂಗ್ಲಿಷ್‌ನಲ್ಲಿ ಮಾತನಾಡಿ', intent: 'change-language', targetLanguage: 'en-US' },
+  { languageCode: 'kn-IN', text: 'ಪ್ರವಾಸ ಯೋಜನೆ', intent: 'trip-plan' },
+  { languageCode: 'kn-IN', text: 'ಮೊದಲ ದಿನಕ್ಕೆ ಮಿರ್ಜಾನ್ ಕೋಟೆ ಸೇರಿಸಿ', withItinerary: true, intent: 'update-itinerary' },
+
+  { languageCode: 'ta-IN', text: 'கோகர்ணாவில் சிறந்த கடற்கரைகள் எவை?', intent: 'chat' },
+  { languageCode: 'ta-IN', text: 'கோகர்ணா வரைபடம் காட்டு', intent: 'chat' },
+  { languageCode: 'ta-IN', text: 'கோகர்ணாவில் நல்ல கன்னட உணவகத்தைப் பரிந்துரைக்கவும்', intent: 'chat' },
+  { languageCode: 'ta-IN', text: 'ஓம் கடற்கரையின் ஓவியத்தை உருவாக்கு', intent: 'generate-image' },
+  { languageCode: 'ta-IN', text: 'இது எந்த இடம்?', withImage: true, intent: 'chat' },
+  { languageCode: 'ta-IN', text: 'பின்னணியை மாற்று', withImage: true, intent: 'edit-image' },
+  { languageCode: 'ta-IN', text: 'தயவுசெய்து ஆங்கிலத்தில் பதில் சொல்லுங்கள்', intent: 'change-language', targetLanguage: 'en-US' },
+  { languageCode: 'ta-IN', text: 'பயணத் திட்டம்', intent: 'trip-plan' },
+  { languageCode: 'ta-IN', text: 'இரண்டாம் நாள் திட்டத்தில் மிர்ஜான் கோட்டையைச் சேர்', withItinerary: true, intent: 'update-itinerary' },
+
+  { languageCode: 'te-IN', text: 'గోకర్ణలో ఉత్తమ బీచ్‌లు ఏవి?', intent: 'chat' },
+  { languageCode: 'te-IN', text: 'గోకర్ణలో మంచి కన్నడ భోజనశాల సూచించండి', intent: 'chat' },
+  { languageCode: 'te-IN', text: 'ఓం బీచ్ చిత్రాన్ని గీయండి', intent: 'generate-image' },
+  { languageCode: 'te-IN', text: 'ఇది ఏ ప్రదేశం?', withImage: true, intent: 'chat' },
+  { languageCode: 'te-IN', text: 'నేపథ్యాన్ని మార్చండి', withImage: true, intent: 'edit-image' },
+  { languageCode: 'te-IN', text: 'దయచేసి హిందీలో మాట్లాడండి', intent: 'change-language', targetLanguage: 'hi-IN' },
+  { languageCode: 'te-IN', text: 'ట్రిప్ ప్లాన్', intent: 'trip-plan' },
+  { languageCode: 'te-IN', text: 'రెండో రోజు నుంచి పారడైజ్ బీచ్ తొలగించండి', withItinerary: true, intent: 'update-itinerary' },
+
+  { languageCode: 'ml-IN', text: 'ഗോകർണത്തിലെ മികച്ച ബീച്ചുകൾ ഏതൊക്കെയാണ്?', intent: 'chat' },
+  { languageCode: 'ml-IN', text: 'ഗോകർണത്തിൽ നല്ലൊരു കൊങ്കണി ഭക്ഷണശാല നിർദേശിക്കുക', intent: 'chat' },
+  { languageCode: 'ml-IN', text: 'ഓം ബീച്ചിന്റെ ഒരു ചിത്രം വരയ്ക്കുക', intent: 'generate-image' },
+  { languageCode: 'ml-IN', text: 'ഇത് ഏത് സ്ഥലമാണ്?', withImage: true, intent: 'chat' },
+  { languageCode: 'ml-IN', text: 'പശ്ചാത്തലം മാറ്റുക', withImage: true, intent: 'edit-image' },
+  { languageCode: 'ml-IN', text: 'ദയവായി ഇംഗ്ലീഷിൽ മറുപടി നൽകുക', intent: 'change-language', targetLanguage: 'en-US' },
+  { languageCode: 'ml-IN', text: 'യാത്രാ പദ്ധതി', intent: 'trip-plan' },
+  { languageCode: 'ml-IN', text: 'രണ്ടാം ദിവസം മിർജാൻ കോട്ട ചേർക്കുക', withItinerary: true, intent: 'update-itinerary' },
+
+  { languageCode: 'kok-IN', text: 'गोकर्णांतले बरे दर्यावेळ खंयचे?', intent: 'chat' },
+  { languageCode: 'kok-IN', text: 'गोकर्णांत बरें मराठी जेवणाचें हॉटेल सुचय', intent: 'chat' },
+  { languageCode: 'kok-IN', text: 'ओम बीचाचें चित्र काडात', intent: 'generate-image' },
+  { languageCode: 'kok-IN', text: 'ही कसली सुवात?', withImage: true, intent: 'chat' },
+  { languageCode: 'kok-IN', text: 'फाटभूंय बदलात', withImage: true, intent: 'edit-image' },
+  { languageCode: 'kok-IN', text: 'उपकार करून इंग्लीशींत उलय', intent: 'change-language', targetLanguage: 'en-US' },
+  { languageCode: 'kok-IN', text: 'भोंवडी येवजण', intent: 'trip-plan' },
+  { languageCode: 'kok-IN', text: 'येवजणेंत दुसऱ्या दिसा मिर्जान किल्लो जोडात', withItinerary: true, intent: 'update-itinerary' },
+
+  { languageCode: 'mr-IN', text: 'गोकर्णमधील सर्वोत्तम समुद्रकिनारे कोणते?', intent: 'chat' },
+  { languageCode: 'mr-IN', text: 'ओम बीचचे फोटो दाखवा', intent: 'chat' },
+  { languageCode: 'mr-IN', text: 'गोकर्णमध्ये चांगले कोंकणी जेवणाचे हॉटेल सुचवा', intent: 'chat' },
+  { languageCode: 'mr-IN', text: 'ओम बीचवरील सूर्यास्ताचे चित्र काढा', intent: 'generate-image' },
+  { languageCode: 'mr-IN', text: 'हे कोणते ठिकाण आहे?', withImage: true, intent: 'chat' },
+  { languageCode: 'mr-IN', text: 'पार्श्वभूमी बदला', withImage: true, intent: 'edit-image' },
+  { languageCode: 'mr-IN', text: 'कृपया इंग्रजीत उत्तर द्या', intent: 'change-language', targetLanguage: 'en-US' },
+  { languageCode: 'mr-IN', text: 'सहल नियोजन', intent: 'trip-plan' },
+  { languageCode: 'mr-IN', text: 'नियोजनात दुसऱ्या दिवशी मिर्जान किल्ला जोडा', withItinerary: true, intent: 'update-itinerary' },
+];
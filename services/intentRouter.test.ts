@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LANGUAGES } from '../constants';
+import type { IntentId, UploadedFile } from '../types';
+import { INTENT_FIXTURES, type IntentFixture } from './intentFixtures';
+import { CONFIDENCE_THRESHOLD, routeIntent, type IntentClassifier, type IntentInput, type IntentMatch } from './intentRouter';
+
+const INTENTS: IntentId[] = ['chat', 'generate-image', 'edit-image', 'change-language', 'trip-plan', 'update-itinerary'];
+
+const PHOTO: UploadedFile = { name: 'photo.jpg', mimeType: 'image/jpeg', data: '' };
+
+const inputFor = (fixture: IntentFixture): IntentInput => ({
+  text: fixture.text,
+  files: fixture.withImage ? [PHOTO] : [],
+  languageCode: fixture.languageCode,
+  hasItinerary: !!fixture.withItinerary,
+});
+
+const expectedMatch = (fixture: IntentFixture): Partial<IntentMatch> =>
+  fixture.targetLanguage ? { intent: fixture.intent, targetLanguage: fixture.targetLanguage } : { intent: fixture.intent };
+
+// A stand-in for the model classifier that names the fixture's intent with the given confidence.
+const classifierFor = (fixture: IntentFixture, confidence: number) =>
+  vi.fn<IntentClassifier>(async () => ({ scores: [{ intent: fixture.intent, confidence }], languageCode: fixture.targetLanguage }));
+
+// Stand-ins that leave the decision to the cues: one that is offline, one that is sure of nothing.
+const failingClassifier = () => vi.fn<IntentClassifier>(async () => { throw new Error('offline'); });
+const unsureClassifier = () => vi.fn<IntentClassifier>(async () => ({ scores: [] }));
+
+const CHAT_FIXTURES = INTENT_FIXTURES.filter(f => f.intent === 'chat');
+const CHANGE_LANGUAGE_FIXTURES = INTENT_FIXTURES.filter(f => f.intent === 'change-language');
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('intent fixtures', () => {
+  it.each(LANGUAGES.map(l => l.code))('cover every intent in %s', code => {
+    const covered = new Set(INTENT_FIXTURES.filter(f => f.languageCode === code).map(f => f.intent));
+    expect([...covered].sort()).toEqual([...INTENTS].sort());
+  });
+});
+
+describe('routeIntent', () => {
+  it.each(INTENT_FIXTURES)('routes "$text" ($languageCode) to $intent', async fixture => {
+    const decision = await routeIntent(inputFor(fixture), classifierFor(fixture, 0.95));
+    expect(decision.type).toBe('run');
+    if (decision.type === 'run') expect(decision.match).toMatchObject(expectedMatch(fixture));
+  });
+
+  // Cues alone either settle the message correctly or leave it to the classifier; when the
+  // classifier is unsure too, the user is asked, with the right intent and plain chat offered.
+  it.each(INTENT_FIXTURES)('asks about "$text" ($languageCode) only when the classifier is unsure', async fixture => {
+    const classify = classifierFor(fixture, CONFIDENCE_THRESHOLD - 0.2);
+    const decision = await routeIntent(inputFor(fixture), classify);
+    if (classify.mock.calls.length === 0) {
+      expect(decision.type).toBe('run');
+      if (decision.type === 'run') expect(decision.match).toMatchObject(expectedMatch(fixture));
+    } else {
+      expect(decision.type).toBe('clarify');
+      if (decision.type === 'clarify') {
+        const intents = decision.candidates.map(c => c.intent);
+        expect(intents).toContain('chat');
+        expect(intents).toContain(fixture.intent);
+      }
+    }
+  });
+
+});
+
+describe('routeIntent on cues alone', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it.each(INTENT_FIXTURES)('falls back to chat for "$text" ($languageCode) when the classifier fails', async fixture => {
+    const decision = await routeIntent(inputFor(fixture), failingClassifier());
+    expect(decision.type).toBe('run');
+    if (decision.type === 'run') expect([fixture.intent, 'chat']).toContain(decision.match.intent);
+  });
+
+  it.each(CHAT_FIXTURES)('keeps "$text" ($languageCode) as chat when the classifier fails', async fixture => {
+    expect(await routeIntent(inputFor(fixture), failingClassifier())).toMatchObject({ type: 'run', match: { intent: 'chat' } });
+  });
+
+  it.each(CHAT_FIXTURES)('runs nothing but chat for "$text" ($languageCode) when the classifier is unsure', async fixture => {
+    const decision = await routeIntent(inputFor(fixture), unsureClassifier());
+    if (decision.type === 'run') expect(decision.match.intent).toBe('chat');
+  });
+
+  it.each(CHANGE_LANGUAGE_FIXTURES)('switches for "$text" ($languageCode) without the classifier', async fixture => {
+    const classify = failingClassifier();
+    const decision = await routeIntent(inputFor(fixture), classify);
+    expect(classify).not.toHaveBeenCalled();
+    expect(decision).toMatchObject({ type: 'run', match: expectedMatch(fixture) });
+  });
+});
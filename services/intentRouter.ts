@@ -0,0 +1,287 @@
+import type { IntentId, UploadedFile } from '../types';
+import { LANGUAGES } from '../constants';
+import { LANGUAGE_PACKS } from './languagePacks';
+import type { IntentClassification, IntentOption } from './chatProvider';
+
+// Decides what a sent message asks for. Every registered intent scores the message from cheap
+// cues in all supported languages. A clear winner runs straight away, and a message without
+// any cue is ordinary chat. Only when the cues are ambiguous is the model classifier asked;
+// if it is not confident either, the user is asked to choose (see `clarifyIntentPrompt` in the
+// language packs).
+
+export interface IntentInput {
+  text: string;
+  files: UploadedFile[];
+  // The chat's current language.
+  languageCode: string;
+  // The chat already has a trip plan that could be changed.
+  hasItinerary?: boolean;
+}
+
+export interface IntentMatch {
+  intent: IntentId;
+  confidence: number;
+  // For 'change-language': the language asked for.
+  targetLanguage?: string;
+}
+
+export interface Intent {
+  id: IntentId;
+  // How the model classifier is told about the intent.
+  description: string;
+  // Whether the intent can apply at all, e.g. editing needs exactly one image.
+  accepts: (input: IntentInput) => boolean;
+  // Between 0 (no cue at all) and 1 (unmistakable).
+  score: (input: IntentInput) => Omit<IntentMatch, 'intent'>;
+}
+
+export type IntentClassifier = (text: string, options: IntentOption[], attachmentTypes: string[], languageCode: string) => Promise<IntentClassification>;
+
+export type RouteDecision =
+  | { type: 'run'; match: IntentMatch }
+  // Best first, always with 'chat' among them.
+  | { type: 'clarify'; candidates: IntentMatch[] };
+
+// Cue scores at or above CERTAIN run without asking the model; below NO_CUE they are ignored.
+const CERTAIN = 0.9;
+const NO_CUE = 0.2;
+// The model classifier's answer is used from here on; below it the user is asked.
+export const CONFIDENCE_THRESHOLD = 0.7;
+
+// --- Cues ------------------------------------------------------------------
+
+// Latin-script cues match whole words; Indic-script cues match anywhere, since they are
+// usually joined to suffixes.
+const hasCue = (text: string, cues: string[]): boolean => cues.some(cue => /^[a-z]/i.test(cue)
+  ? new RegExp(`\\b${cue}\\b`, 'i').test(text)
+  : text.includes(cue));
+
+// Every list holds the cues of all languages: people mix languages, and typed Hindi or
+// Kannada often comes in with English words.
+const QUESTION_CUES = [
+  'what', 'where', 'which', 'who', 'why', 'when', 'how', 'is there', 'are there', 'tell me about',
+  'क्या', 'कहाँ', 'कहां', 'कौन', 'क्यों', 'कब', 'कैसे',
+  'ಏನು', 'ಎಲ್ಲಿ', 'ಯಾವ', 'ಯಾರು', 'ಏಕೆ', 'ಯಾವಾಗ', 'ಹೇಗೆ',
+  'என்ன', 'எங்கே', 'எங்கு', 'எது', 'யார்', 'ஏன்', 'எப்போது', 'எப்படி',
+  'ఏమిటి', 'ఎక్కడ', 'ఏది', 'ఎవరు', 'ఎందుకు', 'ఎప్పుడు', 'ఎలా',
+  'എന്ത്', 'എവിടെ', 'ഏത്', 'ആര്', 'എന്തുകൊണ്ട്', 'എപ്പോൾ', 'എങ്ങനെ',
+  'काय', 'कुठे', 'कोणत', 'कधी', 'कसे', 'कसा',
+  'कितें', 'खंय', 'कित्याक', 'केन्ना', 'कशें',
+];
+
+const isQuestion = (text: string) => text.trim().endsWith('?') || hasCue(text, QUESTION_CUES);
+
+const IMAGE_NOUNS = [
+  'image', 'picture', 'drawing', 'painting', 'illustration', 'artwork', 'sketch', 'portrait', 'poster', 'wallpaper',
+  'तस्वीर', 'चित्र', 'इमेज', 'पेंटिंग',
+  'ಚಿತ್ರ', 'ಇಮೇಜ್', 'ಪೇಂಟಿಂಗ್',
+  'படம்', 'படத்தை', 'ஓவியம்', 'ஓவியத்தை',
+  'చిత్రం', 'చిత్రాన్ని', 'బొమ్మ',
+  'ചിത്രം', 'പെയിന്റിംഗ്',
+];
+
+const CREATE_VERBS = [
+  'generate', 'create', 'draw', 'paint', 'render', 'imagine', 'design',
+  'बनाओ', 'बनाइए', 'बनाएं', 'बनाएँ', 'बना दो', 'बना दीजिए', 'खींचो',
+  'ರಚಿಸಿ', 'ರಚಿಸು', 'ಬಿಡಿಸಿ',
+  'உருவாக்கு', 'வரைந்து', 'வரையவும்',
+  'సృష్టించ', 'గీయ', 'తయారు చేయ',
+  'സൃഷ്ടിക്ക', 'വരയ്ക്ക', 'ഉണ്ടാക്ക',
+  'बनवा', 'तयार करा', 'काढा',
+  'तयार करात', 'काडात',
+];
+
+const EDIT_VERBS = [
+  'edit', 'change', 'remove', 'add', 'replace', 'erase', 'turn', 'convert', 'enhance', 'brighten', 'crop', 'blur', 'colorize', 'make it', 'make the', 'background', 'filter', 'style',
+  'बदलो', 'बदल दो', 'बदलें', 'हटाओ', 'हटा दो', 'जोड़ो', 'एडिट',
+  'ಬದಲಿಸಿ', 'ಬದಲಾಯಿಸಿ', 'ತೆಗೆದುಹಾಕಿ', 'ಸೇರಿಸಿ', 'ಎಡಿಟ್',
+  'மாற்று', 'நீக்கு', 'சேர்', 'திருத்து',
+  'మార్చ', 'తొలగించ', 'జోడించ', 'సవరించ', 'ఎడిట్',
+  'മാറ്റ', 'നീക്ക', 'ചേർക്ക', 'എഡിറ്റ്',
+  'बदला', 'काढून टाका', 'जोडा',
+  'बदलात', 'काडून उडय', 'जोडात',
+];
+
+// Each language's name as written in all supported scripts. Indic names are cut back to the
+// stem that survives case endings, e.g. தமிழ் -> தமிழில் ("in Tamil").
+const LANGUAGE_NAMES: { [code: string]: string[] } = {
+  'en-US': ['english', 'अंग्रेज़ी', 'अंग्रेजी', 'इंग्रजी', 'इंग्लीश', 'ಇಂಗ್ಲಿಷ', 'ஆங்கில', 'ఇంగ్లీష', 'ఆంగ్ల', 'ഇംഗ്ലീഷ'],
+  'hi-IN': ['hindi', 'हिंदी', 'हिन्दी', 'ಹಿಂದಿ', 'இந்தி', 'ஹிந்தி', 'హిందీ', 'ഹിന്ദി'],
+  'kn-IN': ['kannada', 'कन्नड', 'ಕನ್ನಡ', 'கன்னட', 'కన్నడ', 'കന്നഡ'],
+  'ta-IN': ['tamil', 'तमिल', 'ತಮಿಳ', 'தமிழ', 'తమిళ', 'തമിഴ'],
+  'te-IN': ['telugu', 'तेलुगु', 'तेलुगू', 'ತೆಲುಗು', 'தெலுங்கு', 'తెలుగు', 'തെലുങ്ക'],
+  'ml-IN': ['malayalam', 'मलयालम', 'ಮಲಯಾಳ', 'மலையாள', 'మలయాళ', 'മലയാള'],
+  'kok-IN': ['konkani', 'कोंकणी', 'कोंकणि', 'ಕೊಂಕಣಿ', 'கொங்கணி', 'కొంకణి', 'കൊങ്കണി'],
+  'mr-IN': ['marathi', 'मराठी', 'ಮರಾಠಿ', 'மராத்தி', 'మరాఠీ', 'മറാഠി', 'മറാത്തി'],
+};
+
+// Phrases that only make sense as a request to switch languages.
+const SWITCH_CUES = [
+  'switch', 'change to', 'reply in', 'respond in', 'answer in', 'write in', 'talk in', 'talk to me in', 'speak', 'continue in',
+  'बात कर', 'बोलो', 'बोलिए', 'जवाब', 'भाषा बदल',
+  'ಮಾತನಾಡ', 'ಮಾತಾಡ', 'ಉತ್ತರಿಸ', 'ಉತ್ತರ ನೀಡ',
+  'பேச', 'பதில்',
+  'మాట్లాడ', 'సమాధాన',
+  'സംസാരിക്ക', 'മറുപടി',
+  'बोला', 'उत्तर द्या',
+  'उलय', 'जाप दि',
+];
+
+// Words that go with a switch but just as often with a language named for another reason, as in
+// "a Konkani restaurant in Gokarna"; with one of these the classifier makes the call.
+const LANGUAGE_CONTEXT_CUES = [
+  'change', 'use', 'continue', 'in',
+  'बदल', 'में',
+  'ಬದಲಿಸ', 'ದಲ್ಲಿ',
+  'மாற்று', 'ில்',
+  'మార్చ', 'లో',
+  'മാറ്റ', 'ിൽ',
+  'मध्ये', 'ीत',
+  'ींत',
+];
+
+const TRIP_PLAN_CUES = [
+  'plan my trip', 'plan a trip', 'trip plan', 'itinerary',
+  'यात्रा की योजना', 'यात्रा योजना', 'ಪ್ರವಾಸ ಯೋಜನೆ', 'ಪ್ರವಾಸವನ್ನು ಯೋಜಿಸ', 'பயணத் திட்டம்', 'பயணத்தைத் திட்டமிட',
+  'ట్రిప్ ప్లాన్', 'ప్రయాణ ప్రణాళిక', 'യാത്രാ പദ്ധതി', 'യാത്ര പ്ലാൻ',
+  'सहल नियोजन', 'सहलीचे नियोजन', 'प्रवासाचे नियोजन', 'भोंवडी येवजण', 'भोंवडेची येवजण',
+];
+
+// Parts of a plan a change could name.
+const ITINERARY_NOUNS = [
+  'itinerary', 'plan', 'schedule', 'day \\d', 'stop', 'morning', 'afternoon', 'evening',
+  'योजना', 'कार्यक्रम', 'दिन', 'ಯೋಜನೆ', 'ದಿನ', 'திட்ட', 'நாள்', 'ప్లాన్', 'ప్రణాళిక', 'రోజు', 'പദ്ധതി', 'പ്ലാൻ', 'ദിവസ',
+  'नियोजन', 'दिवस', 'येवजण', 'दीस',
+];
+
+const CHANGE_VERBS = [
+  'add', 'remove', 'drop', 'skip', 'replace', 'swap', 'move', 'change', 'include', 'instead', 'shorten', 'extend',
+  'जोड़', 'हटा', 'बदल', 'ಸೇರಿಸ', 'ತೆಗೆ', 'ಬದಲ', 'சேர்', 'நீக்கு', 'மாற்று', 'జోడించ', 'తొలగించ', 'మార్చ', 'ചേർക്ക', 'നീക്ക', 'മാറ്റ',
+  'जोड', 'काढ', 'काड',
+];
+
+const normalize = (text: string) => text.trim().toLowerCase();
+const hasSingleImage = (files: UploadedFile[]) => files.length === 1 && files[0].mimeType.startsWith('image/');
+
+// --- Intents ---------------------------------------------------------------
+
+const BUILT_IN_INTENTS: Intent[] = [
+  {
+    id: 'chat',
+    description: 'Anything else: questions, recommendations and conversation about travel, including questions about an attached photo.',
+    accepts: () => true,
+    // The fallback; it never competes on cues.
+    score: () => ({ confidence: 0 }),
+  },
+  {
+    id: 'generate-image',
+    description: 'Create a new artistic image or illustration from a description. Not for seeing or finding photos of real places.',
+    accepts: ({ text, files }) => files.length === 0 && text.trim() !== '',
+    score: ({ text }) => {
+      const noun = hasCue(text, IMAGE_NOUNS);
+      const verb = hasCue(text, CREATE_VERBS);
+      const confidence = noun && verb ? 0.95 : noun || verb ? 0.3 : 0;
+      return { confidence: isQuestion(text) ? confidence / 2 : confidence };
+    },
+  },
+  {
+    id: 'edit-image',
+    description: 'Change the attached photo, e.g. restyle it, remove or add something. Not for questions about what the photo shows.',
+    accepts: ({ text, files }) => hasSingleImage(files) && text.trim() !== '',
+    score: ({ text }) => {
+      if (isQuestion(text)) return { confidence: hasCue(text, EDIT_VERBS) ? 0.4 : 0.1 };
+      return { confidence: hasCue(text, EDIT_VERBS) ? 0.9 : 0.3 };
+    },
+  },
+  {
+    id: 'change-language',
+    description: 'Switch the language the guide replies in.',
+    accepts: ({ files }) => files.length === 0,
+    score: ({ text, languageCode }) => {
+      const lower = normalize(text);
+      const target = LANGUAGES.find(l => l.code !== languageCode && hasCue(lower, LANGUAGE_NAMES[l.code] ?? [l.name.toLowerCase()]));
+      if (!target) return { confidence: 0 };
+      const confidence = hasCue(lower, SWITCH_CUES) ? 0.95 : hasCue(lower, LANGUAGE_CONTEXT_CUES) ? 0.5 : 0.3;
+      return { confidence: isQuestion(text) ? confidence / 2 : confidence, targetLanguage: target.code };
+    },
+  },
+  {
+    id: 'trip-plan',
+    description: 'Asks for a new trip plan or itinerary, with or without details such as days, budget and interests.',
+    accepts: ({ files }) => files.length === 0,
+    score: ({ text }) => {
+      const lower = normalize(text);
+      if (Object.values(LANGUAGE_PACKS).some(pack => pack.tripPlanLabel.toLowerCase() === lower)) return { confidence: 1 };
+      return { confidence: hasCue(lower, TRIP_PLAN_CUES) ? 0.5 : 0 };
+    },
+  },
+  {
+    id: 'update-itinerary',
+    description: 'Change the trip plan already in this chat, e.g. add, remove or move a stop or a day.',
+    accepts: ({ files, hasItinerary }) => !!hasItinerary && files.length === 0,
+    score: ({ text }) => {
+      const lower = normalize(text);
+      const noun = hasCue(lower, ITINERARY_NOUNS);
+      const verb = hasCue(lower, CHANGE_VERBS);
+      const confidence = noun && verb ? 0.9 : noun || verb ? 0.3 : 0;
+      return { confidence: isQuestion(text) ? confidence / 2 : confidence };
+    },
+  },
+];
+
+const intents = new Map<IntentId, Intent>();
+
+// Registering an id again replaces the earlier intent.
+export function registerIntent(intent: Intent): void {
+  intents.set(intent.id, intent);
+}
+
+BUILT_IN_INTENTS.forEach(registerIntent);
+
+// --- Routing ---------------------------------------------------------------
+
+// Every accepted intent scored from cues alone, best first. 'chat' gets whatever is left over.
+export function scoreIntents(input: IntentInput): IntentMatch[] {
+  const scored = [...intents.values()]
+    .filter(intent => intent.id !== 'chat' && intent.accepts(input))
+    .map(intent => ({ intent: intent.id, ...intent.score(input) }))
+    .sort((a, b) => b.confidence - a.confidence);
+  const best = scored[0]?.confidence ?? 0;
+  return [...scored, { intent: 'chat' as const, confidence: 1 - best }].sort((a, b) => b.confidence - a.confidence);
+}
+
+const withChat = (candidates: IntentMatch[]): IntentMatch[] =>
+  candidates.some(c => c.intent === 'chat') ? candidates : [...candidates, { intent: 'chat', confidence: 0 }];
+
+export async function routeIntent(input: IntentInput, classify: IntentClassifier): Promise<RouteDecision> {
+  const local = scoreIntents(input);
+  const cues = local.filter(m => m.intent !== 'chat' && m.confidence >= NO_CUE);
+  if (cues.length === 0) return { type: 'run', match: { intent: 'chat', confidence: 1 } };
+  if (cues[0].confidence >= CERTAIN && (cues[1]?.confidence ?? 0) < NO_CUE) return { type: 'run', match: cues[0] };
+
+  const options = [...intents.values()].filter(intent => intent.accepts(input)).map(({ id, description }) => ({ id, description }));
+  let classification: IntentClassification;
+  try {
+    classification = await classify(input.text, options, input.files.map(f => f.mimeType), input.languageCode);
+  } catch (error) {
+    // Answering is always safe; generating or editing an image the user did not ask for is not.
+    console.warn('Intent classification failed, treating the message as chat:', error);
+    return { type: 'run', match: { intent: 'chat', confidence: 0 } };
+  }
+
+  const offered = new Set(options.map(o => o.id));
+  const ranked: IntentMatch[] = classification.scores
+    .filter(s => offered.has(s.intent))
+    .sort((a, b) => b.confidence - a.confidence)
+    .map(s => ({
+      intent: s.intent,
+      confidence: s.confidence,
+      // The model may recognize the language where the cues did not.
+      targetLanguage: s.intent === 'change-language' ? classification.languageCode ?? local.find(m => m.intent === s.intent)?.targetLanguage : undefined,
+    }));
+  const best = ranked[0];
+  if (best && best.confidence >= CONFIDENCE_THRESHOLD && (best.intent !== 'change-language' || best.targetLanguage)) {
+    return { type: 'run', match: best };
+  }
+  return { type: 'clarify', candidates: withChat((ranked.length > 0 ? ranked : cues).filter(m => m.intent !== 'change-language' || m.targetLanguage).slice(0, 2)) };
+}
@@ -0,0 +1,115 @@
+import type { Itinerary, ItineraryDay, ItineraryStop } from '../types';
+
+// Trip plans come from the model as JSON (see planItinerary in server/gemini.ts), are edited as
+// day cards in the chat, and are replayed to the chat model as text so that follow-up questions
+// can refer to them.
+
+const MAX_DAYS = 14;
+const MAX_STOPS_PER_DAY = 12;
+const MAX_TEXT_LENGTH = 300;
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const cleanText = (value: unknown): string => typeof value === 'string' ? value.trim().slice(0, MAX_TEXT_LENGTH) : '';
+const cleanAmount = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+
+let stopCounter = 0;
+
+// Unique within a session, which is all the card keys need.
+export const newStopId = (): string => `${Date.now().toString(36)}-${(stopCounter++).toString(36)}`;
+
+function parseStop(value: unknown, seenIds: Set<string>): ItineraryStop | null {
+  if (!isObject(value)) return null;
+  const place = cleanText(value.place);
+  const activity = cleanText(value.activity);
+  if (!place && !activity) return null;
+
+  let id = cleanText(value.id);
+  if (!id || seenIds.has(id)) id = newStopId();
+  seenIds.add(id);
+  const stop: ItineraryStop = { id, time: cleanText(value.time), place, activity };
+  const travel = value.travel;
+  const minutes = isObject(travel) ? cleanAmount(travel.minutes) : undefined;
+  if (isObject(travel) && cleanText(travel.mode) && minutes !== undefined) stop.travel = { mode: cleanText(travel.mode), minutes };
+  const cost = cleanAmount(value.cost);
+  if (cost !== undefined) stop.cost = cost;
+  const notes = cleanText(value.notes);
+  if (notes) stop.notes = notes;
+  return stop;
+}
+
+// Keeps whatever is usable from a plan that cannot be trusted: model output, or data read back
+// from storage. Stops without an id get one. Returns null when there is no day at all.
+export function parseItinerary(value: unknown): Itinerary | null {
+  if (!isObject(value) || !Array.isArray(value.days)) return null;
+  const seenIds = new Set<string>();
+  const days: ItineraryDay[] = value.days.filter(isObject).slice(0, MAX_DAYS).map((day, index) => ({
+    title: cleanText(day.title) || `Day ${index + 1}`,
+    stops: (Array.isArray(day.stops) ? day.stops : [])
+      .map(stop => parseStop(stop, seenIds))
+      .filter((stop): stop is ItineraryStop => stop !== null)
+      .slice(0, MAX_STOPS_PER_DAY),
+  }));
+  if (days.length === 0) return null;
+
+  const itinerary: Itinerary = { title: cleanText(value.title) || 'Gokarna trip', days };
+  const notes = cleanText(value.notes);
+  if (notes) itinerary.notes = notes;
+  return itinerary;
+}
+
+export const dayCost = (day: ItineraryDay): number => day.stops.reduce((sum, stop) => sum + (stop.cost ?? 0), 0);
+
+export const totalCost = (itinerary: Itinerary): number => itinerary.days.reduce((sum, day) => sum + dayCost(day), 0);
+
+// Moves a stop one place earlier or later. Past the start or end of its day it moves on to the
+// end of the day before or the start of the day after.
+export function moveStop(itinerary: Itinerary, dayIndex: number, stopIndex: number, delta: -1 | 1): Itinerary {
+  const days = itinerary.days.map(day => ({ ...day, stops: [...day.stops] }));
+  const from = days[dayIndex];
+  const stop = from?.stops[stopIndex];
+  if (!stop) return itinerary;
+
+  const target = stopIndex + delta;
+  if (target >= 0 && target < from.stops.length) {
+    from.stops.splice(stopIndex, 1);
+    from.stops.splice(target, 0, stop);
+  } else {
+    const to = days[dayIndex + delta];
+    if (!to) return itinerary;
+    from.stops.splice(stopIndex, 1);
+    if (delta < 0) to.stops.push(stop);
+    else to.stops.unshift(stop);
+  }
+  return { ...itinerary, days };
+}
+
+export function removeStop(itinerary: Itinerary, dayIndex: number, stopIndex: number): Itinerary {
+  return {
+    ...itinerary,
+    days: itinerary.days.map((day, i) => i === dayIndex ? { ...day, stops: day.stops.filter((_, j) => j !== stopIndex) } : day),
+  };
+}
+
+const stopToText = (stop: ItineraryStop): string => {
+  const details = [
+    stop.travel && `${stop.travel.mode}, ${stop.travel.minutes} min from the previous stop`,
+    stop.cost !== undefined && (stop.cost > 0 ? `about ₹${stop.cost} per person` : 'free'),
+    stop.notes,
+  ].filter(Boolean);
+  const what = [stop.place, stop.activity].filter(Boolean).join(': ');
+  return `- ${stop.time ? `${stop.time} ` : ''}${what}${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+};
+
+// A plain-text rendering for the chat model's history.
+export function itineraryToText(itinerary: Itinerary): string {
+  const lines = [`Trip plan: ${itinerary.title}`];
+  itinerary.days.forEach((day, index) => {
+    lines.push(`Day ${index + 1}: ${day.title}`);
+    lines.push(...(day.stops.length > 0 ? day.stops.map(stopToText) : ['- Nothing planned yet']));
+  });
+  if (itinerary.notes) lines.push(`Notes: ${itinerary.notes}`);
+  return lines.join('\n');
+}
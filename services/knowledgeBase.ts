@@ -0,0 +1,131 @@
+import type { KnowledgeCitation, KnowledgeEntry } from '../types';
+import { KNOWLEDGE_ENTRIES, KNOWLEDGE_UPDATED, KNOWLEDGE_VERSION } from './knowledgeData';
+import { tokenize } from './searchIndex';
+
+// Picks the dataset entries that match a message, so they can be sent along with it as
+// grounding. Lexical BM25 like the history search: it runs in the browser, needs no network
+// and no model, and the entries carry aliases in every supported language.
+
+type Field = 'name' | 'category' | 'text';
+
+// Naming a place is a much stronger signal than a word that happens to appear in a summary.
+const FIELD_WEIGHTS: { [field in Field]: number } = { name: 5, category: 1.5, text: 1 };
+const K1 = 1.2;
+const B = 0.3;
+const MAX_ENTRIES = 4;
+// Below this an entry only shares common words with the message.
+const MIN_SCORE = 2;
+// Entries far behind the best match are noise next to it.
+const MIN_SHARE_OF_BEST = 0.4;
+
+// Words that say nothing about which entry is meant. Anything in another script is rare enough
+// in the dataset for IDF to take care of.
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'any', 'are', 'at', 'be', 'best', 'by', 'can', 'day', 'do', 'for', 'from', 'get', 'gokarna', 'good',
+  'go', 'have', 'how', 'i', 'in', 'is', 'it', 'like', 'look', 'make', 'me', 'my', 'near', 'need', 'of', 'on', 'or', 'plan', 'please', 'reach', 'show',
+  'tell', 'that', 'the', 'there', 'this', 'to', 'trip', 'want', 'we', 'what', 'when', 'where', 'which', 'with', 'you',
+]);
+
+// Enough for "beaches" to find "beach" and "temples" to find "temple".
+const stem = (term: string): string =>
+  /^[a-z]+$/.test(term) && term.length > 4 ? term.replace(/(?:(?<=ch|sh|x|s)es|s)$/, '') : term;
+
+const terms = (text: string): string[] => tokenize(text).filter(term => !STOP_WORDS.has(term) && !/^\d+$/.test(term)).map(stem);
+
+interface IndexedEntry {
+  entry: KnowledgeEntry;
+  terms: Map<string, number>;
+  length: number;
+}
+
+let index: { entries: IndexedEntry[]; documentFrequency: Map<string, number>; averageLength: number } | null = null;
+
+// Built on first use; the dataset never changes while the app runs.
+function getIndex() {
+  if (index) return index;
+  const documentFrequency = new Map<string, number>();
+  const entries = KNOWLEDGE_ENTRIES.map(entry => {
+    const weighted = new Map<string, number>();
+    let length = 0;
+    const addField = (text: string, field: Field) => {
+      for (const term of terms(text)) {
+        weighted.set(term, (weighted.get(term) ?? 0) + FIELD_WEIGHTS[field]);
+        length += 1;
+      }
+    };
+    [entry.name, ...(entry.aliases ?? [])].forEach(name => addField(name, 'name'));
+    addField(entry.category, 'category');
+    [entry.summary, ...(entry.tips ?? [])].forEach(text => addField(text, 'text'));
+    for (const term of weighted.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    return { entry, terms: weighted, length };
+  });
+  const averageLength = entries.reduce((sum, e) => sum + e.length, 0) / entries.length;
+  return index = { entries, documentFrequency, averageLength };
+}
+
+// The entries most relevant to `query`, best first; often none.
+export function retrieveKnowledge(query: string, limit = MAX_ENTRIES): KnowledgeEntry[] {
+  const queryTerms = [...new Set(terms(query))];
+  if (queryTerms.length === 0) return [];
+
+  const { entries, documentFrequency, averageLength } = getIndex();
+  const scored = entries.map(({ entry, terms: entryTerms, length }) => ({
+    entry,
+    score: queryTerms.reduce((total, term) => {
+      const frequency = entryTerms.get(term);
+      if (!frequency) return total;
+      const docFrequency = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (entries.length - docFrequency + 0.5) / (docFrequency + 0.5));
+      return total + idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+    }, 0),
+  })).filter(result => result.score >= MIN_SCORE).sort((a, b) => b.score - a.score);
+
+  const best = scored[0]?.score ?? 0;
+  return scored.filter(result => result.score >= best * MIN_SHARE_OF_BEST).slice(0, limit).map(result => result.entry);
+}
+
+export const getKnowledgeEntry = (id: string): KnowledgeEntry | undefined => KNOWLEDGE_ENTRIES.find(entry => entry.id === id);
+
+const containsSequence = (haystack: string[], needle: string[]): boolean =>
+  needle.length > 0 && haystack.some((_, start) => needle.every((term, i) => haystack[start + i] === term));
+
+// The entry a place name refers to, so "Om Beach", "Om Beach, Gokarna" and "ओम बीच" all find
+// the same one. The longest matching name wins: "Kudle to Om Beach" is not Om Beach.
+export function findKnowledgeEntry(placeName: string): KnowledgeEntry | undefined {
+  const placeTerms = tokenize(placeName);
+  let best: { entry: KnowledgeEntry; length: number } | undefined;
+  for (const entry of KNOWLEDGE_ENTRIES) {
+    for (const name of [entry.name, ...(entry.aliases ?? [])]) {
+      const nameTerms = tokenize(name);
+      if (nameTerms.length > (best?.length ?? 0) && containsSequence(placeTerms, nameTerms)) best = { entry, length: nameTerms.length };
+    }
+  }
+  return best?.entry;
+}
+
+// Entries a text names outright. Only full names and names in other scripts count; English
+// aliases such as "bus" or "trek" are too common in ordinary sentences.
+export function mentionedKnowledgeEntries(text: string): KnowledgeEntry[] {
+  const textTerms = tokenize(text);
+  return KNOWLEDGE_ENTRIES.filter(entry =>
+    [entry.name, ...(entry.aliases ?? []).filter(alias => /[^\x00-\x7F]/.test(alias))].some(name => containsSequence(textTerms, tokenize(name))));
+}
+
+export const toCitation = (entry: KnowledgeEntry): KnowledgeCitation => ({ id: entry.id, name: entry.name });
+
+export const knowledgeLabel = `Gokarna Guide dataset v${KNOWLEDGE_VERSION}, checked ${KNOWLEDGE_UPDATED}`;
+
+export function entryToText(entry: KnowledgeEntry): string {
+  const lines = [`${entry.name} (${entry.category}): ${entry.summary}`];
+  if (entry.timings) lines.push(`Timings: ${entry.timings}`);
+  if (entry.fee) lines.push(`Fee: ${entry.fee}`);
+  if (entry.phone) lines.push(`Phone: ${entry.phone}`);
+  if (entry.coordinates) lines.push(`Coordinates: ${entry.coordinates.lat}, ${entry.coordinates.lng}`);
+  entry.tips?.forEach(tip => lines.push(`Tip: ${tip}`));
+  return lines.join('\n');
+}
+
+// The grounding block sent ahead of the traveler's message; the SYSTEM_PROMPT explains it.
+export function knowledgeContext(entries: KnowledgeEntry[]): string {
+  return `Guide notes (${knowledgeLabel}):\n\n${entries.map(entryToText).join('\n\n')}`;
+}
@@ -0,0 +1,236 @@
+import type { KnowledgeEntry } from '../types';
+
+// Curated facts about Gokarna that ship with the app, so the guide has something reliable to
+// stand on even when web search is unavailable. Timings and fees change; bump the version and
+// the date whenever an entry is checked or edited. Coordinates are approximate (about 100 m).
+
+export const KNOWLEDGE_VERSION = 1;
+export const KNOWLEDGE_UPDATED = '2026-10-01';
+
+export const KNOWLEDGE_ENTRIES: KnowledgeEntry[] = [
+  // --- Beaches -------------------------------------------------------------------
+  {
+    id: 'beach-gokarna-main',
+    category: 'beach',
+    name: 'Gokarna Main Beach',
+    aliases: ['town beach', 'गोकर्ण बीच', 'ಗೋಕರ್ಣ ಕಡಲತೀರ'],
+    summary: 'The town beach, a short walk west of the Mahabaleshwar Temple. Pilgrims bathe here before visiting the temple, so it is busier and more traditional than the beaches to the south.',
+    coordinates: { lat: 14.5437, lng: 74.3153 },
+    fee: 'Free',
+    tips: ['Dress modestly; this is a pilgrimage beach.', 'Currents are strong; swim only near the lifeguard flags.', 'The beach trek to Kudle and Om Beach starts at its southern end.'],
+  },
+  {
+    id: 'beach-kudle',
+    category: 'beach',
+    name: 'Kudle Beach',
+    aliases: ['kudlee', 'कुडले बीच', 'ಕುಡ್ಲೆ ಕಡಲತೀರ'],
+    summary: 'A long, relaxed beach lined with cafes and guesthouses, about 2 km south of town. A popular sunset spot with calmer water than Gokarna Main Beach in the dry season.',
+    coordinates: { lat: 14.5297, lng: 74.3151 },
+    fee: 'Free',
+    tips: ['Reach it by road and a flight of steps, or over the cliff path from Gokarna Main Beach (about 30 minutes).', 'Carry a torch if you walk back over the cliff after sunset.'],
+  },
+  {
+    id: 'beach-om',
+    category: 'beach',
+    name: 'Om Beach',
+    aliases: ['ओम बीच', 'ಓಂ ಬೀಚ್', 'ஓம் கடற்கரை', 'ఓం బీచ్', 'ഓം ബീച്ച്'],
+    summary: 'Two curved bays joined by a rocky headland, together shaped like the Om symbol. About 6 km south of town by road, with water sports, beach shacks and the start of the trail to Half Moon Beach.',
+    coordinates: { lat: 14.5196, lng: 74.3191 },
+    fee: 'Free; water sports are paid',
+    tips: ['Swimming is safest in the northern bay; avoid the rocks at high tide.', 'Water sports stop during the monsoon (June to September).'],
+  },
+  {
+    id: 'beach-half-moon',
+    category: 'beach',
+    name: 'Half Moon Beach',
+    aliases: ['हाफ मून बीच', 'ಹಾಫ್ ಮೂನ್ ಬೀಚ್'],
+    summary: 'A small crescent beach with a couple of shacks and no road access. Reached by a 20 to 30 minute trail over the headland from Om Beach, or by boat.',
+    coordinates: { lat: 14.5131, lng: 74.3209 },
+    fee: 'Free; boats from Om Beach are paid',
+    tips: ['Wear shoes with grip; the trail is rocky and slippery after rain.', 'There is no mobile signal on parts of the trail.'],
+  },
+  {
+    id: 'beach-paradise',
+    category: 'beach',
+    name: 'Paradise Beach',
+    aliases: ['full moon beach', 'पैराडाइज़ बीच', 'ಪ್ಯಾರಡೈಸ್ ಬೀಚ್'],
+    summary: 'The most remote of the Gokarna beaches, a rocky cove beyond Half Moon Beach. Reached by a steep trail or by boat; facilities are minimal.',
+    coordinates: { lat: 14.5043, lng: 74.3237 },
+    fee: 'Free; boats are paid',
+    tips: ['Overnight stays and camping are not allowed; plan to leave before dark.', 'Carry water and take your rubbish back with you.'],
+  },
+
+  // --- Temples -------------------------------------------------------------------
+  {
+    id: 'temple-mahabaleshwar',
+    category: 'temple',
+    name: 'Mahabaleshwar Temple',
+    aliases: ['mahabaleshwara', 'atmalinga', 'महाबलेश्वर मंदिर', 'ಮಹಾಬಲೇಶ್ವರ ದೇವಸ್ಥಾನ', 'மகாபலேஸ்வர் கோயில்', 'మహాబలేశ్వర ఆలయం', 'മഹാബലേശ്വര ക്ഷേത്രം'],
+    summary: 'A major Shiva temple on Car Street that houses the Atmalinga, and the reason Gokarna is a pilgrimage town. The granite temple is in the Dravidian style.',
+    coordinates: { lat: 14.5434, lng: 74.3177 },
+    timings: 'About 6:00 to 12:30 and 17:00 to 20:30; longer hours on festival days',
+    fee: 'Free entry; some rituals are paid',
+    tips: ['Traditional dress is expected; men are asked to remove their shirts in the inner sanctum.', 'Leave footwear at the counter outside.', 'Expect long queues during Shivaratri (February or March).'],
+  },
+  {
+    id: 'temple-maha-ganapati',
+    category: 'temple',
+    name: 'Maha Ganapati Temple',
+    aliases: ['ganapati temple', 'ganesh temple', 'महागणपति मंदिर', 'ಮಹಾಗಣಪತಿ ದೇವಸ್ಥಾನ'],
+    summary: 'A Ganesha temple a few steps from the Mahabaleshwar Temple. By tradition pilgrims visit it before the Mahabaleshwar Temple.',
+    coordinates: { lat: 14.5436, lng: 74.3182 },
+    timings: 'Similar to the Mahabaleshwar Temple',
+    fee: 'Free',
+  },
+  {
+    id: 'sight-koti-teertha',
+    category: 'temple',
+    name: 'Koti Teertha',
+    aliases: ['koti tirtha', 'कोटि तीर्थ', 'ಕೋಟಿ ತೀರ್ಥ'],
+    summary: 'A large temple tank in the middle of town, ringed by small shrines, used for ritual bathing and immersion ceremonies.',
+    coordinates: { lat: 14.5413, lng: 74.3198 },
+    fee: 'Free',
+    tips: ['Early morning is the quietest time to visit.'],
+  },
+
+  // --- Sights nearby ---------------------------------------------------------------
+  {
+    id: 'sight-mirjan-fort',
+    category: 'sight',
+    name: 'Mirjan Fort',
+    aliases: ['मिर्जान किला', 'ಮಿರ್ಜಾನ್ ಕೋಟೆ'],
+    summary: 'A moss-covered laterite fort with moats and wells, about 22 km north of Gokarna near Kumta. Most visitors combine it with a drive along the Aghanashini river.',
+    coordinates: { lat: 14.4914, lng: 74.4197 },
+    timings: 'Daylight hours',
+    tips: ['Go by taxi or scooter; buses to Mirjan are infrequent.', 'Paths are slippery during the monsoon.'],
+  },
+  {
+    id: 'sight-yana-caves',
+    category: 'sight',
+    name: 'Yana Caves',
+    aliases: ['yana rocks', 'याना', 'ಯಾಣ'],
+    summary: 'Two huge black karst rock outcrops in the Western Ghats forest, with a cave shrine to Shiva. About 50 km from Gokarna, followed by a short walk from the parking area.',
+    coordinates: { lat: 14.5905, lng: 74.5697 },
+    timings: 'Daylight hours',
+    fee: 'Small entry and parking fees',
+    tips: ['Plan half a day including the drive.', 'Remove footwear near the shrine.'],
+  },
+
+  // --- Cafes and food --------------------------------------------------------------
+  {
+    id: 'cafe-namaste',
+    category: 'cafe',
+    name: 'Namaste Cafe',
+    aliases: ['namaste café'],
+    summary: 'A long-running cafe and guesthouse at the northern end of Om Beach, known for its sea-facing deck and sunsets. Serves Indian and continental food.',
+    coordinates: { lat: 14.5208, lng: 74.3185 },
+    tips: ['Busy at sunset in season; arrive early for a table on the deck.'],
+  },
+  {
+    id: 'cafe-pai-restaurant',
+    category: 'cafe',
+    name: 'Pai Restaurant',
+    summary: 'A simple vegetarian restaurant near the temple serving South Indian breakfasts and thalis. Popular with pilgrims and locals.',
+    coordinates: { lat: 14.5427, lng: 74.3186 },
+    tips: ['Good for an early breakfast before a temple visit.'],
+  },
+  {
+    id: 'cafe-prema-restaurant',
+    category: 'cafe',
+    name: 'Prema Restaurant',
+    aliases: ['gadbad'],
+    summary: 'A small restaurant near Gokarna Main Beach best known for its gadbad, a layered ice cream sundae, and for coastal vegetarian snacks.',
+    coordinates: { lat: 14.5433, lng: 74.3166 },
+  },
+
+  // --- Trails ----------------------------------------------------------------------
+  {
+    id: 'trail-beach-trek',
+    category: 'trail',
+    name: 'Gokarna beach trek',
+    aliases: ['beach trek', 'coastal trek', 'trek', 'trekking', 'hike', 'ट्रेक', 'ಚಾರಣ'],
+    summary: 'The classic coastal walk from Gokarna Main Beach over the cliffs to Kudle, Om, Half Moon and Paradise beaches. Roughly 8 to 10 km one way and 4 to 5 hours with stops; boats can bring you back from Om Beach.',
+    timings: 'Start by 8:00 to avoid the midday heat',
+    fee: 'Free; return boats are paid',
+    tips: ['Not advised during the monsoon (June to September), when the rocks are slippery.', 'Carry at least 2 litres of water per person; shacks are few after Om Beach.', 'Do not attempt the stretch to Paradise Beach after 16:00.'],
+  },
+  {
+    id: 'trail-kudle-om-cliff',
+    category: 'trail',
+    name: 'Kudle to Om Beach cliff path',
+    summary: 'A short, scenic section of the beach trek over the headland between Kudle Beach and Om Beach, about 30 to 40 minutes each way.',
+    tips: ['Good for sunset views, but start back while there is still light.'],
+  },
+
+  // --- Emergency services ----------------------------------------------------------
+  {
+    id: 'emergency-numbers',
+    category: 'emergency',
+    name: 'Emergency numbers',
+    aliases: ['emergency', 'police', 'ambulance', 'sos', 'आपातकाल', 'ತುರ್ತು'],
+    summary: 'India-wide emergency numbers work in Gokarna: 112 for any emergency, 100 for police, 108 for an ambulance and 101 for the fire service.',
+    phone: '112',
+    tips: ['Lifeguards patrol the main beaches in season; follow their flags and whistles.'],
+  },
+  {
+    id: 'emergency-police',
+    category: 'emergency',
+    name: 'Gokarna Police Station',
+    aliases: ['police station', 'पुलिस', 'ಪೊಲೀಸ್'],
+    summary: 'The local police station in town, for lost property, theft reports and help in an emergency.',
+    coordinates: { lat: 14.5449, lng: 74.3203 },
+    phone: '100',
+  },
+  {
+    id: 'emergency-health',
+    category: 'emergency',
+    name: 'Medical help',
+    aliases: ['hospital', 'doctor', 'clinic', 'pharmacy', 'अस्पताल', 'ಆಸ್ಪತ್ರೆ'],
+    summary: 'Gokarna has a government primary health centre and private clinics and pharmacies around Car Street. For serious cases the nearest larger hospitals are in Kumta (about 30 km) and Karwar (about 60 km).',
+    phone: '108',
+    tips: ['Call 108 for an ambulance rather than travelling to Kumta on your own after an injury.'],
+  },
+
+  // --- Getting there and around ----------------------------------------------------
+  {
+    id: 'transport-rail',
+    category: 'transport',
+    name: 'Gokarna Road railway station',
+    aliases: ['train', 'railway', 'station', 'ट्रेन', 'ರೈಲು'],
+    summary: 'The nearest station, on the Konkan Railway, about 10 km from town. Autorickshaws and local buses connect it to Gokarna; Kumta and Ankola stations have more trains.',
+    coordinates: { lat: 14.5638, lng: 74.3742 },
+  },
+  {
+    id: 'transport-bus',
+    category: 'transport',
+    name: 'Gokarna bus stand',
+    aliases: ['bus', 'bus stand', 'बस', 'ಬಸ್'],
+    summary: 'The KSRTC bus stand in town has regular buses to Kumta and Ankola, and overnight buses to Bengaluru and Goa.',
+    coordinates: { lat: 14.5455, lng: 74.3212 },
+  },
+  {
+    id: 'transport-airports',
+    category: 'transport',
+    name: 'Nearest airports',
+    aliases: ['airport', 'flight', 'fly', 'हवाई अड्डा', 'ವಿಮಾನ ನಿಲ್ದಾಣ'],
+    summary: 'Goa (Dabolim), about 150 km north, is the usual choice; Hubballi, about 160 km east, has fewer flights. Both are 3 to 4 hours away by taxi.',
+  },
+  {
+    id: 'transport-local',
+    category: 'transport',
+    name: 'Getting around Gokarna',
+    aliases: ['auto', 'autorickshaw', 'taxi', 'scooter', 'rickshaw'],
+    summary: 'Autorickshaws wait near the bus stand and Car Street and go to Kudle and Om Beach by road. Scooters can be rented in town; carry your licence.',
+    tips: ['Agree on the autorickshaw fare before setting off.', 'The beach roads are steep; ride slowly, especially after rain.'],
+  },
+
+  // --- When to go ------------------------------------------------------------------
+  {
+    id: 'season-best-time',
+    category: 'season',
+    name: 'Best time to visit',
+    aliases: ['weather', 'season', 'monsoon', 'मौसम', 'ಹವಾಮಾನ'],
+    summary: 'October to March is dry and pleasant and the busiest season. April and May are hot and humid. The monsoon (June to September) brings heavy rain and rough seas, when swimming is unsafe and many beach shacks close.',
+    tips: ['Shivaratri (February or March) fills the town with pilgrims; book rooms early.'],
+  },
+];
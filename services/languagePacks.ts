@@ -0,0 +1,108 @@
+import type { LanguageCode } from '../constants';
+import type { GenerationErrorKind, IntentId } from '../types';
+import type { Catalog } from './i18n';
+import { EN_US } from '../locales/en-US';
+import { HI_IN } from '../locales/hi-IN';
+import { KN_IN } from '../locales/kn-IN';
+import { TA_IN } from '../locales/ta-IN';
+import { TE_IN } from '../locales/te-IN';
+import { ML_IN } from '../locales/ml-IN';
+import { KOK_IN } from '../locales/kok-IN';
+import { MR_IN } from '../locales/mr-IN';
+
+// Everything the app says in one language, one file per language under locales/. The UI strings
+// are in `messages`; the rest is what the guide itself says outside a model reply. This module
+// stays free of React, since the server reads the error messages too.
+
+export type SuggestionIcon = 'beach' | 'hotel' | 'food' | 'temple';
+
+export interface LanguagePack {
+  // Languages whose speech voice reads this one passably, best first, for browsers without a
+  // voice of its own. English is always tried last.
+  voiceFallbacks: string[];
+  welcome: string;
+  // The topic chips shown between "Today's Briefing" and "Trip Plan" on the welcome screen.
+  suggestions: { text: string; icon: SuggestionIcon }[];
+  // The "Today's Briefing" chip and the title of the briefing card.
+  briefingLabel: string;
+  // The "Trip Plan" chip. Sending exactly this text asks for the trip-planning questionnaire.
+  tripPlanLabel: string;
+  tripPlanPrompt: string;
+  // Asked when the intent router cannot tell what a message wants; the choices are `intentLabels`.
+  clarifyIntentPrompt: string;
+  intentLabels: { [intent in IntentId]: string };
+  // Sent when a marker on a reply's map is clicked; "{place}" is the place's name.
+  placeQuestion: string;
+  sustainabilityTip: string;
+  errors: { [kind in GenerationErrorKind]: string };
+  messages: Catalog;
+}
+
+// Typed by LanguageCode, so adding a language without a pack fails the type-check.
+export const LANGUAGE_PACKS: { [code in LanguageCode]: LanguagePack } = {
+  'en-US': EN_US,
+  'hi-IN': HI_IN,
+  'kn-IN': KN_IN,
+  'ta-IN': TA_IN,
+  'te-IN': TE_IN,
+  'ml-IN': ML_IN,
+  'kok-IN': KOK_IN,
+  'mr-IN': MR_IN,
+};
+
+// Unknown languages fall back to English.
+export const getLanguagePack = (languageCode: string): LanguagePack =>
+  Object.hasOwn(LANGUAGE_PACKS, languageCode) ? LANGUAGE_PACKS[languageCode as LanguageCode] : EN_US;
+
+const placeholders = (text: string) => [...text.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort().join(', ');
+
+// Compares one group of strings with English: every key must be there and filled in, and use the
+// same placeholders, or the traveler would see a blank or a raw "{name}".
+function checkStrings(path: string, strings: { [key: string]: unknown } | undefined, reference: { [key: string]: string }): string[] {
+  const problems: string[] = [];
+  for (const [key, english] of Object.entries(reference)) {
+    const value = strings?.[key];
+    const name = path ? `${path}.${key}` : key;
+    if (typeof value !== 'string' || value.trim() === '') problems.push(`${name} is missing`);
+    else if (placeholders(value) !== placeholders(english)) problems.push(`${name} uses {${placeholders(value)}} instead of {${placeholders(english)}}`);
+  }
+  for (const key of Object.keys(strings ?? {})) {
+    if (!(key in reference)) problems.push(`${path ? `${path}.` : ''}${key} is not a known key`);
+  }
+  return problems;
+}
+
+// Lists what is wrong with a pack, or nothing when it is complete. The type-check catches most
+// of this already; `npm run check-languages` runs it over every pack as part of the build.
+export function validateLanguagePack(pack: LanguagePack, reference: LanguagePack = EN_US): string[] {
+  const { voiceFallbacks, suggestions, intentLabels, errors, messages, ...texts } = reference;
+  const { voiceFallbacks: packFallbacks, suggestions: packSuggestions, intentLabels: packIntents, errors: packErrors, messages: packMessages, ...packTexts } = pack;
+  const problems = [
+    ...checkStrings('', packTexts, texts),
+    ...checkStrings('intentLabels', packIntents, intentLabels),
+    ...checkStrings('errors', packErrors, errors),
+    ...checkStrings('messages', packMessages, messages),
+  ];
+  if (!packSuggestions?.length) problems.push('suggestions is empty');
+  packSuggestions?.forEach((suggestion, index) => {
+    if (!suggestion.text?.trim()) problems.push(`suggestions[${index}] has no text`);
+  });
+  for (const code of packFallbacks ?? []) {
+    if (!Object.hasOwn(LANGUAGE_PACKS, code)) problems.push(`voiceFallbacks names unknown language ${code}`);
+  }
+  return problems;
+}
+
+// The speech voice for a language: its own if the browser has one, otherwise the first of the
+// pack's fallbacks it has, then English. Voices are matched on the full tag, then on the
+// language alone; some platforms write tags with an underscore.
+export function pickVoice(voices: SpeechSynthesisVoice[], languageCode: string): SpeechSynthesisVoice | undefined {
+  const chain = [languageCode, ...getLanguagePack(languageCode).voiceFallbacks, 'en-US'];
+  const tagOf = (voice: SpeechSynthesisVoice) => voice.lang.replace('_', '-').toLowerCase();
+  for (const code of chain) {
+    const wanted = code.toLowerCase();
+    const voice = voices.find(v => tagOf(v) === wanted) ?? voices.find(v => tagOf(v).split('-')[0] === wanted.split('-')[0]);
+    if (voice) return voice;
+  }
+  return undefined;
+}
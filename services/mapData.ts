@@ -0,0 +1,84 @@
+// Bundled vector data for the offline map (components/InteractiveMap.tsx): a simplified
+// coastline and the walking paths between the beaches. Points are [latitude, longitude]. The
+// outline is schematic, good for seeing where places are relative to each other and the sea,
+// not for navigation.
+
+export type LatLng = [number, number];
+
+// North to south along the shore, from the Gangavali river mouth to the Aghanashini estuary.
+export const COASTLINE: LatLng[] = [
+  [14.7000, 74.2950],
+  [14.6000, 74.3050],
+  [14.5750, 74.3100],
+  [14.5600, 74.3130],
+  [14.5480, 74.3145],
+  [14.5400, 74.3150],
+  [14.5355, 74.3120],
+  [14.5320, 74.3135],
+  [14.5290, 74.3142],
+  [14.5255, 74.3140],
+  [14.5230, 74.3125],
+  [14.5212, 74.3178],
+  [14.5192, 74.3170],
+  [14.5180, 74.3186],
+  [14.5160, 74.3165],
+  [14.5131, 74.3200],
+  [14.5100, 74.3180],
+  [14.5080, 74.3212],
+  [14.5043, 74.3228],
+  [14.5000, 74.3250],
+  [14.4900, 74.3300],
+  [14.4800, 74.3400],
+  [14.4700, 74.3500],
+  [14.4000, 74.3700],
+];
+
+// The land east of the coastline, far enough inland to cover Yana.
+export const LAND: LatLng[] = [...COASTLINE, [14.4000, 74.8000], [14.7000, 74.8000]];
+
+export interface MapRoute {
+  id: string;
+  // Knowledge base entries at each end (see services/knowledgeData.ts).
+  fromId: string;
+  toId: string;
+  minutes: number; // One way, at an easy pace.
+  points: LatLng[];
+  // The trail entry this leg is part of, if any.
+  trailIds: string[];
+}
+
+// The legs of the beach trek, each of which is also walked on its own.
+export const WALKING_ROUTES: MapRoute[] = [
+  {
+    id: 'main-kudle',
+    fromId: 'beach-gokarna-main',
+    toId: 'beach-kudle',
+    minutes: 30,
+    points: [[14.5437, 74.3153], [14.5400, 74.3162], [14.5360, 74.3136], [14.5322, 74.3146], [14.5297, 74.3151]],
+    trailIds: ['trail-beach-trek'],
+  },
+  {
+    id: 'kudle-om',
+    fromId: 'beach-kudle',
+    toId: 'beach-om',
+    minutes: 35,
+    points: [[14.5297, 74.3151], [14.5260, 74.3152], [14.5232, 74.3140], [14.5212, 74.3186], [14.5196, 74.3191]],
+    trailIds: ['trail-beach-trek', 'trail-kudle-om-cliff'],
+  },
+  {
+    id: 'om-half-moon',
+    fromId: 'beach-om',
+    toId: 'beach-half-moon',
+    minutes: 25,
+    points: [[14.5196, 74.3191], [14.5176, 74.3200], [14.5160, 74.3178], [14.5131, 74.3209]],
+    trailIds: ['trail-beach-trek'],
+  },
+  {
+    id: 'half-moon-paradise',
+    fromId: 'beach-half-moon',
+    toId: 'beach-paradise',
+    minutes: 30,
+    points: [[14.5131, 74.3209], [14.5102, 74.3194], [14.5080, 74.3224], [14.5043, 74.3237]],
+    trailIds: ['trail-beach-trek'],
+  },
+];
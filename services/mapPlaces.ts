@@ -0,0 +1,52 @@
+import type { ChatMessage, KnowledgeEntry } from '../types';
+import { findKnowledgeEntry, getKnowledgeEntry, mentionedKnowledgeEntries } from './knowledgeBase';
+import { WALKING_ROUTES, type MapRoute } from './mapData';
+
+// Collects what a reply's map shows. Maps grounding only gives names and links, so places are
+// matched to knowledge base entries for their coordinates; whatever cannot be matched is listed
+// under the map instead of being guessed at.
+
+export interface MapPlace {
+  entryId: string;
+  name: string;
+  lat: number;
+  lng: number;
+  // A trip plan stop, a Google Maps place from grounding, or a dataset entry the reply cited or named.
+  kind: 'stop' | 'place' | 'poi';
+  stop?: { day: number; time?: string }; // Where a stop sits in the plan; the map words it in the UI language.
+  uri?: string;
+}
+
+export interface MapContent {
+  places: MapPlace[];
+  routes: MapRoute[];
+  unplotted: { name: string; uri?: string }[];
+}
+
+export function mapContentForMessage(message: ChatMessage): MapContent {
+  const places = new Map<string, MapPlace>();
+  const unplotted = new Map<string, { name: string; uri?: string }>();
+  const trailIds = new Set<string>();
+
+  const add = (entry: KnowledgeEntry | undefined, kind: MapPlace['kind'], extra: Pick<MapPlace, 'stop' | 'uri'> = {}) => {
+    if (entry?.category === 'trail') trailIds.add(entry.id);
+    if (!entry?.coordinates || places.has(entry.id)) return !!entry?.coordinates;
+    places.set(entry.id, { entryId: entry.id, name: entry.name, lat: entry.coordinates.lat, lng: entry.coordinates.lng, kind, ...extra });
+    return true;
+  };
+
+  message.itinerary?.days.forEach((day, dayIndex) => day.stops.forEach(stop => {
+    if (!add(findKnowledgeEntry(stop.place), 'stop', { stop: { day: dayIndex + 1, time: stop.time } }) && stop.place) unplotted.set(stop.place.toLowerCase(), { name: stop.place });
+  }));
+  message.sources?.filter(source => source.isPlace).forEach(source => {
+    if (!add(findKnowledgeEntry(source.title), 'place', { uri: source.uri })) unplotted.set(source.title.toLowerCase(), { name: source.title, uri: source.uri });
+  });
+  message.citations?.forEach(citation => add(getKnowledgeEntry(citation.id), 'poi'));
+  mentionedKnowledgeEntries(message.text).forEach(entry => add(entry, 'poi'));
+
+  // A walk is drawn when both its ends are on the map, or when the reply is about its trail.
+  const routes = WALKING_ROUTES.filter(route => route.trailIds.some(id => trailIds.has(id)) || (places.has(route.fromId) && places.has(route.toId)));
+  routes.forEach(route => [route.fromId, route.toId].forEach(id => add(getKnowledgeEntry(id), 'poi')));
+
+  return { places: [...places.values()], routes, unplotted: [...unplotted.values()] };
+}
@@ -0,0 +1,363 @@
+import type { UploadedFile, GenerationErrorKind, Itinerary, ItineraryStop } from '../types';
+import { GenerationError, abortableDelay, checkImageResult } from './errors';
+import { LANGUAGES, type SessionTag } from '../constants';
+import type { BriefingReply, ChatDescription, ChatProvider, ChatPart, ChatSource, ChatStreamChunk, ChatTurn, ImageResult, IntentClassification, IntentOption, ItineraryReply, LiveCallbacks, LiveSession, VideoAspectRatio } from './chatProvider';
+import { INTENT_FIXTURES } from './intentFixtures';
+import { scoreIntents } from './intentRouter';
+import { newStopId } from './itinerary';
+
+// A deterministic, fully offline provider used for development, demos and tests.
+// The same input always produces the same output, and nothing touches the network.
+// Including "mock:error:<kind>" (e.g. "mock:error:quota") in a prompt makes the call fail with that error kind.
+
+const STREAM_DELAY_MS = 40;
+const VIDEO_POLL_MS = 1000;
+const VIDEO_POLL_STEPS = 3;
+
+const CANNED_REPLIES: { keywords: string[]; text: string; sources: ChatSource[] }[] = [
+    {
+        keywords: ['beach', 'om', 'kudle', 'paradise', 'half moon'],
+        text: `🏖️ **Beaches of Gokarna**\n\nGokarna has five main beaches, each with its own character.\n\n1. **Kudle Beach:** Calm water and cafes, great for sunsets.\n2. **Om Beach:** Shaped like the Om symbol, with water sports.\n3. **Half Moon Beach:** Quiet and reachable by a short trek.\n4. **Paradise Beach:** Secluded, best reached by boat.\n5. **Gokarna Main Beach:** Next to the town and the Mahabaleshwar Temple.\n\nAlways check the tides and swim only where lifeguards are present. Would you like directions to any of them?`,
+        sources: [
+            { uri: 'https://mock.gokarna.guide/beaches/om-beach', title: 'Om Beach — Mock Travel Notes' },
+            { uri: 'https://mock.gokarna.guide/beaches/kudle-beach', title: 'Kudle Beach — Mock Travel Notes' },
+            { uri: 'https://mock.gokarna.guide/maps/half-moon-beach', title: 'Half Moon Beach', isPlace: true },
+        ],
+    },
+    {
+        keywords: ['hotel', 'stay', 'room', 'resort', 'homestay'],
+        text: `🛏️ **Places to Stay**\n\nTwo sample stays, one on the cliffs and one in town:\n\n\`\`\`hotels\n[\n  {"name": "Mock Cliff Resort", "area": "Kudle Beach", "pricePerNight": {"min": 3000, "max": 5000}, "rating": 4.4, "amenities": ["Sea view", "Wi-Fi", "Restaurant"], "pros": ["Views", "Friendly staff"], "cons": ["Steep path"], "bookingUrl": "https://mock.gokarna.guide/hotels/cliff-resort"},\n  {"name": "Mock Town Homestay", "area": "Car Street", "pricePerNight": {"min": 1200, "max": 2000}, "rating": 4.1, "amenities": ["Home-cooked meals", "Wi-Fi"], "pros": ["Central", "Home-cooked food"], "cons": ["Street noise"], "bookingUrl": "https://mock.gokarna.guide/hotels/town-homestay"}\n]\n\`\`\`\n\nWould you like help with booking or directions?`,
+        sources: [
+            { uri: 'https://mock.gokarna.guide/hotels', title: 'Gokarna Stays — Mock Listings' },
+        ],
+    },
+    {
+        keywords: ['food', 'eat', 'cafe', 'restaurant', 'dish'],
+        text: `🍛 **Local Food**\n\nTry a **fish thali** at a beach shack, **neer dosa** for breakfast and fresh **tender coconut** on the walk between beaches.\n\nMost cafes on Kudle and Om Beach stay open until late evening. Would you like a few recommendations near you?`,
+        sources: [
+            { uri: 'https://mock.gokarna.guide/food', title: 'What to Eat in Gokarna — Mock Guide' },
+        ],
+    },
+    {
+        keywords: ['temple', 'mahabaleshwar', 'darshan', 'pooja'],
+        text: `🕉️ **Mahabaleshwar Temple**\n\nThe temple houses the Atmalinga and is one of the holiest Shiva shrines in Karnataka.\n\n**Tips:**\n1. **Dress code:** Men enter bare-chested in a dhoti; women wear traditional attire.\n2. **Timings:** Early morning darshan is the least crowded.\n\nPlease be respectful of rituals and photography rules. Anything else you'd like to know?`,
+        sources: [
+            { uri: 'https://mock.gokarna.guide/temples/mahabaleshwar', title: 'Mahabaleshwar Temple — Mock Notes' },
+        ],
+    },
+];
+
+const DEFAULT_REPLY = {
+    text: `🌴 **Gokarna Guide (offline demo)**\n\nI'm running with the local mock provider, so this answer is a canned example rather than live information.\n\nAsk me about beaches, hotels, food or temples to see more sample replies. What would you like to explore?`,
+    sources: [{ uri: 'https://mock.gokarna.guide/', title: 'Gokarna Guide — Mock Source' }],
+};
+
+const ERROR_KINDS: GenerationErrorKind[] = ['safety', 'quota', 'network', 'invalid-input', 'model-unavailable', 'unknown'];
+
+const throwIfSimulatedError = (text: string) => {
+    const match = text.match(/mock:error:([a-z-]+)/);
+    const kind = ERROR_KINDS.find(k => k === match?.[1]);
+    if (kind) throw new GenerationError(kind, `Simulated ${kind} error from the mock provider.`);
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Small, stable string hash (FNV-1a) used to derive deterministic variations.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const toBase64 = (value: string): string => {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const messageToText = (message: (string | ChatPart)[]) =>
+    message.map(part => typeof part === 'string' ? part : part.text ?? '').join(' ');
+
+const pickReply = (text: string) => {
+    const lower = text.toLowerCase();
+    return CANNED_REPLIES.find(reply => reply.keywords.some(k => lower.includes(k))) ?? DEFAULT_REPLY;
+};
+
+// Splits text into word-sized pieces while keeping whitespace, so streamed chunks join back exactly.
+const chunkText = (text: string): string[] => text.match(/\S+\s*/g) ?? [text];
+
+const placeholderSvg = (label: string, width = 512, height = 512): string => {
+    const hue = hashString(label) % 360;
+    const caption = escapeXml(label.length > 60 ? `${label.substring(0, 57)}...` : label);
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<defs><linearGradient id="g" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="hsl(${hue},70%,65%)"/><stop offset="1" stop-color="hsl(${(hue + 40) % 360},60%,35%)"/></linearGradient></defs>
+<rect width="100%" height="100%" fill="url(#g)"/>
+<circle cx="${width * 0.72}" cy="${height * 0.3}" r="${width * 0.1}" fill="hsl(45,95%,70%)"/>
+<path d="M0 ${height * 0.7} Q ${width * 0.25} ${height * 0.62} ${width * 0.5} ${height * 0.7} T ${width} ${height * 0.7} V ${height} H 0 Z" fill="hsl(${(hue + 180) % 360},55%,40%)"/>
+<text x="50%" y="${height * 0.88}" text-anchor="middle" font-family="sans-serif" font-size="20" fill="#fff">${caption}</text>
+</svg>`;
+};
+
+const placeholderImage = (label: string): ImageResult => ({
+    image: { data: toBase64(placeholderSvg(label)), mimeType: 'image/svg+xml' },
+    text: '',
+});
+
+// Renders a few seconds of the uploaded image with a slow zoom into a WebM clip, entirely in the browser.
+const renderPlaceholderVideo = async (file: UploadedFile, aspectRatio: VideoAspectRatio): Promise<string> => {
+    const [width, height] = aspectRatio === '16:9' ? [640, 360] : [360, 640];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || typeof MediaRecorder === 'undefined' || !canvas.captureStream) {
+        throw new GenerationError('model-unavailable', "This browser cannot record the placeholder video.");
+    }
+
+    const image = new Image();
+    image.src = `data:${file.mimeType};base64,${file.data}`;
+    await image.decode();
+
+    const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+    const recorded: Blob[] = [];
+    recorder.ondataavailable = (event) => recorded.push(event.data);
+    const finished = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    const durationMs = 3000;
+    const start = performance.now();
+    recorder.start();
+    await new Promise<void>(resolve => {
+        const draw = () => {
+            const progress = Math.min((performance.now() - start) / durationMs, 1);
+            const scale = Math.max(width / image.width, height / image.height) * (1 + progress * 0.15);
+            ctx.drawImage(image, (width - image.width * scale) / 2, (height - image.height * scale) / 2, image.width * scale, image.height * scale);
+            if (progress < 1) requestAnimationFrame(draw);
+            else resolve();
+        };
+        draw();
+    });
+    recorder.stop();
+    await finished;
+
+    return URL.createObjectURL(new Blob(recorded, { type: 'video/webm' }));
+};
+
+function startChat(_languageCode: string, _history: ChatTurn[] = [], _modelId?: string) {
+    return {
+        async sendMessageStream(message: (string | ChatPart)[], signal?: AbortSignal): Promise<AsyncIterable<ChatStreamChunk>> {
+            const text = messageToText(message);
+            throwIfSimulatedError(text);
+            const reply = pickReply(text);
+            const pieces = chunkText(reply.text);
+            return (async function* () {
+                for (let i = 0; i < pieces.length; i++) {
+                    await abortableDelay(STREAM_DELAY_MS, signal);
+                    // Grounding metadata arrives with the final chunk, as it does with the real API.
+                    yield { text: pieces[i], sources: i === pieces.length - 1 ? reply.sources : [] };
+                }
+            })();
+        },
+    };
+}
+
+async function editImage(file: UploadedFile, prompt: string): Promise<ImageResult> {
+    await delay(STREAM_DELAY_MS * 10);
+    throwIfSimulatedError(prompt);
+    return checkImageResult(placeholderImage(`${file.name}: ${prompt}`));
+}
+
+async function generateImage(prompt: string): Promise<ImageResult> {
+    await delay(STREAM_DELAY_MS * 10);
+    throwIfSimulatedError(prompt);
+    return checkImageResult(placeholderImage(prompt));
+}
+
+async function generateVideo(file: UploadedFile, prompt: string, aspectRatio: VideoAspectRatio, signal?: AbortSignal): Promise<string> {
+    throwIfSimulatedError(prompt);
+    // Mimic the long-running operation of the real API: a few polls before it reports done.
+    let operation = { done: false, step: 0 };
+    while (!operation.done) {
+        await abortableDelay(VIDEO_POLL_MS, signal);
+        operation = { done: operation.step + 1 >= VIDEO_POLL_STEPS, step: operation.step + 1 };
+    }
+    return renderPlaceholderVideo(file, aspectRatio);
+}
+
+async function summarizeText(text: string): Promise<string> {
+    await delay(STREAM_DELAY_MS * 5);
+    throwIfSimulatedError(text);
+    const sentences = text.replace(/\*\*/g, '').split(/(?<=[.!?])\s+/).filter(s => s.trim());
+    return sentences.slice(0, 2).join(' ');
+}
+
+// There is no translator offline; the text comes back tagged with the language it was sent to.
+async function translateText(text: string, languageCode: string): Promise<string> {
+    await delay(STREAM_DELAY_MS * 5);
+    throwIfSimulatedError(text);
+    const language = LANGUAGES.find(l => l.code === languageCode)?.nativeName ?? languageCode;
+    return `[${language}] ${text}`;
+}
+
+const TAG_KEYWORDS: { [tag in SessionTag]: string[] } = {
+    beaches: ['beach', 'kudle', 'paradise', 'half moon', 'swim', 'sunset'],
+    hotels: ['hotel', 'stay', 'room', 'resort', 'homestay'],
+    food: ['food', 'eat', 'cafe', 'restaurant', 'thali', 'dosa'],
+    temples: ['temple', 'mahabaleshwar', 'darshan', 'pooja'],
+    itinerary: ['itinerary', 'plan', 'trip', 'day 1', 'schedule'],
+    transport: ['train', 'bus', 'taxi', 'airport', 'boat', 'route'],
+    weather: ['weather', 'rain', 'monsoon', 'forecast', 'tide'],
+    shopping: ['shop', 'market', 'souvenir', 'buy'],
+};
+
+async function describeChat(transcript: string, _languageCode: string): Promise<ChatDescription> {
+    await delay(STREAM_DELAY_MS * 5);
+    throwIfSimulatedError(transcript);
+    const lower = transcript.toLowerCase();
+    const tags = (Object.keys(TAG_KEYWORDS) as SessionTag[]).filter(tag => TAG_KEYWORDS[tag].some(k => lower.includes(k)));
+    // The traveler's opening words, capitalized, stand in for a generated title.
+    const opening = (transcript.split('\n')[0] ?? '').replace(/^Traveler:\s*/, '').replace(/[^\p{L}\p{M}\p{N}\s]/gu, '').trim();
+    const title = opening.split(/\s+/).slice(0, 6).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+    return { title, tags };
+}
+
+// Knows the fixture messages for sure; anything else gets the router's own cue scores, so
+// ambiguous messages come back unsure and show the clarification prompt.
+async function classifyIntent(text: string, options: IntentOption[], attachmentTypes: string[], languageCode: string): Promise<IntentClassification> {
+    await delay(STREAM_DELAY_MS * 2);
+    throwIfSimulatedError(text);
+    const offered = options.map(o => o.id);
+    const fixture = INTENT_FIXTURES.find(f => f.text === text && offered.includes(f.intent));
+    if (fixture) return { scores: [{ intent: fixture.intent, confidence: 0.95 }], languageCode: fixture.targetLanguage };
+    const files = attachmentTypes.map((mimeType, i) => ({ name: `attachment-${i}`, mimeType, data: '' }));
+    const scores = scoreIntents({ text, files, languageCode, hasItinerary: offered.includes('update-itinerary') }).filter(s => offered.includes(s.intent));
+    return { scores: scores.map(({ intent, confidence }) => ({ intent, confidence })), languageCode: scores.find(s => s.targetLanguage)?.targetLanguage };
+}
+
+const MOCK_DAYS: { title: string; stops: Omit<ItineraryStop, 'id'>[] }[] = [
+    {
+        title: 'Temple town and Kudle Beach',
+        stops: [
+            { time: '06:30', place: 'Mahabaleshwar Temple', activity: 'Morning darshan', cost: 0 },
+            { time: '09:00', place: 'Gokarna Main Beach', activity: 'Breakfast and a walk along the shore', travel: { mode: 'walk', minutes: 10 }, cost: 200 },
+            { time: '16:30', place: 'Kudle Beach', activity: 'Sunset from the cliff cafes', travel: { mode: 'auto-rickshaw', minutes: 15 }, cost: 400 },
+        ],
+    },
+    {
+        title: 'The beach trek',
+        stops: [
+            { time: '07:00', place: 'Om Beach', activity: 'Swim near the lifeguard flags', travel: { mode: 'auto-rickshaw', minutes: 20 }, cost: 150 },
+            { time: '11:00', place: 'Half Moon Beach', activity: 'Trek over the headland', travel: { mode: 'walk', minutes: 30 }, cost: 0 },
+            { time: '15:00', place: 'Paradise Beach', activity: 'Boat back to Om Beach', travel: { mode: 'walk', minutes: 25 }, cost: 500, notes: 'Boats stop running before sunset.' },
+        ],
+    },
+    {
+        title: 'Forts and temple tanks',
+        stops: [
+            { time: '08:00', place: 'Mirjan Fort', activity: 'Explore the laterite fort', travel: { mode: 'taxi', minutes: 40 }, cost: 1200 },
+            { time: '13:00', place: 'Koti Teertha', activity: 'Temple tank and a thali lunch nearby', travel: { mode: 'taxi', minutes: 40 }, cost: 250 },
+        ],
+    },
+];
+
+// Cycles through canned days for as many days as the request names (two by default). Changes
+// drop the stops whose place is named after "remove", and otherwise add the request as a stop.
+async function planItinerary(request: string, _languageCode: string, current?: Itinerary): Promise<ItineraryReply> {
+    await delay(STREAM_DELAY_MS * 10);
+    throwIfSimulatedError(request);
+    const lower = request.toLowerCase();
+    if (current) {
+        const isRemoval = /\b(remove|drop|skip)\b/.test(lower);
+        const days = current.days.map(day => ({ ...day, stops: day.stops.filter(stop => !isRemoval || !lower.includes(stop.place.toLowerCase())) }));
+        if (!isRemoval) days[days.length - 1].stops.push({ id: newStopId(), time: '18:00', place: 'Free time', activity: request });
+        return { itinerary: { ...current, days }, text: 'I have updated your plan.' };
+    }
+    const dayCount = Math.min(7, Math.max(1, Number(/(\d+)\s*-?\s*days?/.exec(lower)?.[1] ?? 2)));
+    const days = Array.from({ length: dayCount }, (_, i) => {
+        const day = MOCK_DAYS[i % MOCK_DAYS.length];
+        return { title: day.title, stops: day.stops.map(stop => ({ id: newStopId(), ...stop })) };
+    });
+    return {
+        itinerary: { title: `${dayCount} ${dayCount === 1 ? 'day' : 'days'} in Gokarna`, days, notes: 'Check the tide times before heading to the beaches.' },
+        text: `Here is a ${dayCount}-day plan for Gokarna. Move or remove stops, or ask me to change anything.`,
+    };
+}
+
+const LIVE_SCRIPT: { user: string; bot: string }[] = [
+    { user: 'Which beach is best for sunset?', bot: 'Kudle Beach has a lovely sunset view from the cafes on the cliff.' },
+    { user: 'Is it safe to swim there?', bot: 'Swim only near the lifeguard flags and avoid the water after dark.' },
+    { user: 'Thanks!', bot: "You're welcome. Enjoy Gokarna!" },
+];
+// Roughly three seconds of 4096-sample chunks at 16kHz.
+const AUDIO_CHUNKS_PER_TURN = 12;
+
+// The same fair-weather day every time, dated as asked.
+async function getBriefing(_languageCode: string, date: string): Promise<BriefingReply> {
+    await delay(STREAM_DELAY_MS * 10);
+    return {
+        briefing: {
+            date,
+            summary: 'Good morning from Gokarna! A warm, bright day by the sea, with a breeze picking up after noon.',
+            temperature: 31,
+            high: 33,
+            low: 24,
+            condition: 'partly-cloudy',
+            conditionText: 'Partly cloudy with a sea breeze',
+            tides: [
+                { type: 'low', time: '05:42' },
+                { type: 'high', time: '11:58' },
+                { type: 'low', time: '18:10' },
+                { type: 'high', time: '23:47' },
+            ],
+            sunset: '18:41',
+            gem: 'Walk the cliff path from Kudle to Om Beach before 9 and have a banana pancake with jaggery at one of the shacks at the far end.',
+            safetyTip: 'The high tide at noon makes the rocks between Half Moon and Paradise Beach impassable; cross before 10 or take a boat.',
+        },
+        sources: [],
+    };
+}
+
+async function connectLive(callbacks: LiveCallbacks, _systemInstruction: string): Promise<LiveSession> {
+    let chunkCount = 0;
+    let turn = 0;
+    let closed = false;
+    setTimeout(() => { if (!closed) callbacks.onOpen(); }, 0);
+
+    return {
+        sendAudio: () => {
+            if (closed || turn >= LIVE_SCRIPT.length) return;
+            chunkCount += 1;
+            if (chunkCount % AUDIO_CHUNKS_PER_TURN !== 0) return;
+            const { user, bot } = LIVE_SCRIPT[turn++];
+            callbacks.onEvent({ inputTranscription: user });
+            callbacks.onEvent({ outputTranscription: bot });
+            callbacks.onEvent({ turnComplete: true });
+        },
+        close: () => {
+            if (closed) return;
+            closed = true;
+            callbacks.onClose();
+        },
+    };
+}
+
+export const mockProvider: ChatProvider = {
+    name: 'mock',
+    startChat,
+    editImage,
+    generateImage,
+    generateVideo,
+    summarizeText,
+    translateText,
+    describeChat,
+    classifyIntent,
+    planItinerary,
+    getBriefing,
+    connectLive,
+};
@@ -0,0 +1,64 @@
+// Registry of the models the app can use, shared by the browser and the API server.
+
+export type ModelCapability = 'text' | 'image' | 'video' | 'grounding';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  description: string;
+  capabilities: ModelCapability[];
+}
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: 'gemini-2.5-pro',
+    label: 'Gemini 2.5 Pro',
+    description: 'Most capable. Best for itinerary planning and detailed research.',
+    capabilities: ['text', 'grounding'],
+  },
+  {
+    id: 'gemini-2.5-flash',
+    label: 'Gemini 2.5 Flash',
+    description: 'Fast and inexpensive. Great for quick questions.',
+    capabilities: ['text', 'grounding'],
+  },
+  {
+    id: 'gemini-2.5-flash-image',
+    label: 'Gemini 2.5 Flash Image',
+    description: 'Generates and edits images.',
+    capabilities: ['image'],
+  },
+  {
+    id: 'veo-3.1-fast-generate-preview',
+    label: 'Veo 3.1 Fast',
+    description: 'Turns a photo into a short video.',
+    capabilities: ['video'],
+  },
+];
+
+// Which model each kind of request uses unless a session picks otherwise.
+// `utility` covers short background tasks such as summaries.
+export const DEFAULT_MODELS = {
+  chat: 'gemini-2.5-pro',
+  utility: 'gemini-2.5-flash',
+  image: 'gemini-2.5-flash-image',
+  video: 'veo-3.1-fast-generate-preview',
+} as const;
+
+export function getModel(id: string | undefined): ModelInfo | undefined {
+  return MODELS.find(m => m.id === id);
+}
+
+export function hasCapability(model: ModelInfo, capability: ModelCapability): boolean {
+  return model.capabilities.includes(capability);
+}
+
+export function getModelsWith(capability: ModelCapability): ModelInfo[] {
+  return MODELS.filter(m => hasCapability(m, capability));
+}
+
+// Falls back to the default chat model when a session has no model, or one that no longer exists.
+export function resolveChatModel(id: string | undefined): ModelInfo {
+  const model = getModel(id);
+  return model && hasCapability(model, 'text') ? model : getModel(DEFAULT_MODELS.chat)!;
+}
@@ -0,0 +1,17 @@
+import type { ChatProvider } from './chatProvider';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+const PROVIDERS: { [name: string]: ChatProvider } = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Picks the provider named by CHAT_PROVIDER, defaulting to Gemini through the local backend.
+// Use CHAT_PROVIDER=mock to run fully offline without the backend or an API key.
+export function getChatProvider(): ChatProvider {
+  const requested = process.env.CHAT_PROVIDER || 'gemini';
+  const provider = PROVIDERS[requested];
+  if (!provider) throw new Error(`Unknown CHAT_PROVIDER "${requested}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+  return provider;
+}
@@ -0,0 +1,191 @@
+import type { ChatMessage, ChatSession } from '../types';
+
+// Inverted index over every message in every session: message text, source titles and
+// attached file names. `update` re-indexes only the messages whose objects changed since the
+// last call, so it can run on every streamed chunk.
+
+type Field = 'text' | 'source' | 'file';
+
+// A match in a file name or source title says more about a message than one word in a long reply.
+const FIELD_WEIGHTS: { [field in Field]: number } = { text: 1, source: 1.5, file: 2 };
+// BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_RADIUS = 60;
+const MAX_RESULTS = 50;
+
+export interface SnippetPart {
+  text: string;
+  isMatch: boolean;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: number;
+  sender: ChatMessage['sender'];
+  score: number;
+  snippet: SnippetPart[];
+}
+
+interface IndexedDoc {
+  sessionId: string;
+  message: ChatMessage;
+  terms: Map<string, number>; // term -> weighted frequency
+  length: number;
+}
+
+// Letters including combining marks, so Devanagari, Kannada, Tamil, Telugu and Malayalam words stay whole.
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+export const tokenize = (text: string): string[] => (text.toLowerCase().match(TOKEN_PATTERN) ?? []);
+
+const docKey = (sessionId: string, messageId: number) => `${sessionId}:${messageId}`;
+
+const isSearchable = (message: ChatMessage) => !message.isWelcome && !message.isSystem;
+
+export class SearchIndex {
+  private docs = new Map<string, IndexedDoc>();
+  private postings = new Map<string, Set<string>>();
+  private sessions = new Map<string, ChatSession>();
+  private totalLength = 0;
+
+  update(sessions: ChatSession[]): void {
+    const current = new Set<string>();
+    for (const session of sessions) {
+      current.add(session.id);
+      const previous = this.sessions.get(session.id);
+      this.sessions.set(session.id, session);
+      if (previous?.messages === session.messages) continue;
+
+      const seen = new Set<string>();
+      for (const message of session.messages) {
+        if (!isSearchable(message)) continue;
+        const key = docKey(session.id, message.id);
+        seen.add(key);
+        if (this.docs.get(key)?.message !== message) this.add(key, session.id, message);
+      }
+      previous?.messages.forEach(message => {
+        const key = docKey(session.id, message.id);
+        if (!seen.has(key)) this.remove(key);
+      });
+    }
+    for (const [id, session] of this.sessions) {
+      if (current.has(id)) continue;
+      session.messages.forEach(message => this.remove(docKey(id, message.id)));
+      this.sessions.delete(id);
+    }
+  }
+
+  // Every query word must match; the last one also matches as a prefix, since users search as they type.
+  search(query: string): SearchResult[] {
+    const queryTerms = tokenize(query);
+    if (queryTerms.length === 0 || this.docs.size === 0) return [];
+
+    const expanded = queryTerms.map((term, i) => i === queryTerms.length - 1 ? this.expandPrefix(term) : (this.postings.has(term) ? [term] : []));
+    if (expanded.some(terms => terms.length === 0)) return [];
+
+    let candidates: Set<string> | null = null;
+    for (const terms of expanded) {
+      const matching = new Set(terms.flatMap(term => [...this.postings.get(term)!]));
+      candidates = candidates ? new Set([...candidates].filter(key => matching.has(key))) : matching;
+    }
+
+    const averageLength = this.totalLength / this.docs.size;
+    const results: SearchResult[] = [];
+    for (const key of candidates ?? []) {
+      const doc = this.docs.get(key)!;
+      const score = expanded.flat().reduce((total, term) => {
+        const frequency = doc.terms.get(term);
+        if (!frequency) return total;
+        const docFrequency = this.postings.get(term)!.size;
+        const idf = Math.log(1 + (this.docs.size - docFrequency + 0.5) / (docFrequency + 0.5));
+        return total + idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * doc.length / averageLength));
+      }, 0);
+      results.push({
+        sessionId: doc.sessionId,
+        sessionTitle: this.sessions.get(doc.sessionId)?.title ?? '',
+        messageId: doc.message.id,
+        sender: doc.message.sender,
+        score,
+        snippet: buildSnippet(doc.message, expanded.flat()),
+      });
+    }
+    // Ties go to the newer message; ids are timestamps.
+    return results.sort((a, b) => b.score - a.score || b.messageId - a.messageId).slice(0, MAX_RESULTS);
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    const terms: string[] = [];
+    for (const term of this.postings.keys()) {
+      if (term.startsWith(prefix)) terms.push(term);
+    }
+    return terms;
+  }
+
+  private add(key: string, sessionId: string, message: ChatMessage): void {
+    this.remove(key);
+    const terms = new Map<string, number>();
+    let length = 0;
+    const addField = (text: string, field: Field) => {
+      for (const term of tokenize(text)) {
+        terms.set(term, (terms.get(term) ?? 0) + FIELD_WEIGHTS[field]);
+        length += 1;
+      }
+    };
+    addField(message.text, 'text');
+    message.sources?.forEach(source => addField(source.title, 'source'));
+    message.files?.forEach(file => addField(file.name, 'file'));
+    if (terms.size === 0) return;
+
+    this.docs.set(key, { sessionId, message, terms, length });
+    this.totalLength += length;
+    for (const term of terms.keys()) {
+      let keys = this.postings.get(term);
+      if (!keys) this.postings.set(term, keys = new Set());
+      keys.add(key);
+    }
+  }
+
+  private remove(key: string): void {
+    const doc = this.docs.get(key);
+    if (!doc) return;
+    this.docs.delete(key);
+    this.totalLength -= doc.length;
+    for (const term of doc.terms.keys()) {
+      const keys = this.postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) this.postings.delete(term);
+    }
+  }
+}
+
+// A window of text around the first match, split into plain and highlighted parts.
+function buildSnippet(message: ChatMessage, terms: string[]): SnippetPart[] {
+  const sourceText = [message.text, ...(message.sources ?? []).map(s => s.title), ...(message.files ?? []).map(f => f.name)]
+    .filter(Boolean)
+    .join(' · ')
+    .replace(/\*\*/g, '')
+    .replace(/\s+/g, ' ');
+  const termSet = new Set(terms);
+  const matches: { start: number; end: number }[] = [];
+  for (const match of sourceText.matchAll(TOKEN_PATTERN)) {
+    if (termSet.has(match[0].toLowerCase())) matches.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  if (matches.length === 0) return [{ text: sourceText.slice(0, SNIPPET_RADIUS * 2), isMatch: false }];
+
+  const start = Math.max(0, matches[0].start - SNIPPET_RADIUS);
+  const end = Math.min(sourceText.length, matches[0].end + SNIPPET_RADIUS * 2);
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+  for (const match of matches) {
+    if (match.start < start || match.end > end) continue;
+    if (match.start > cursor) parts.push({ text: sourceText.slice(cursor, match.start), isMatch: false });
+    parts.push({ text: sourceText.slice(match.start, match.end), isMatch: true });
+    cursor = match.end;
+  }
+  if (cursor < end) parts.push({ text: sourceText.slice(cursor, end), isMatch: false });
+  if (start > 0) parts.unshift({ text: '…', isMatch: false });
+  if (end < sourceText.length) parts.push({ text: '…', isMatch: false });
+  return parts;
+}
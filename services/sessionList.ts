@@ -0,0 +1,23 @@
+import type { ChatSession } from '../types';
+
+// Ordering and trash rules for the chat history. Deleted chats stay in the session list with a
+// `deletedAt` stamp until they are restored or purged, so everything else filters them out.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Session ids are creation timestamps, which stand in for chats that have no activity yet.
+export const lastActivity = (session: ChatSession): number => session.lastActivityAt ?? (Number(session.id) || 0);
+
+export const isInTrash = (session: ChatSession): boolean => session.deletedAt !== undefined;
+
+export const sortByActivity = (sessions: ChatSession[]): ChatSession[] =>
+  [...sessions].sort((a, b) => lastActivity(b) - lastActivity(a));
+
+export const purgeDate = (session: ChatSession, retentionDays: number): number =>
+  (session.deletedAt ?? 0) + retentionDays * DAY_MS;
+
+// Returns the same array when nothing expired, so callers can hand it straight to setState.
+export function purgeExpired(sessions: ChatSession[], retentionDays: number, now = Date.now()): ChatSession[] {
+  const kept = sessions.filter(s => !isInTrash(s) || purgeDate(s, retentionDays) > now);
+  return kept.length === sessions.length ? sessions : kept;
+}
@@ -0,0 +1,111 @@
+import { ART_STYLES, LANGUAGES, type ArtStyle } from '../constants';
+import { DEFAULT_LANGUAGE, translate, type MessageKey } from './i18n';
+
+// Typed shortcuts for actions that otherwise depend on the intent router or the attachment
+// menu. ChatInput parses them; App dispatches each one straight to its handler.
+
+export type SlashCommand =
+  | { type: 'image'; prompt: string; style?: ArtStyle }
+  | { type: 'edit'; prompt: string }
+  | { type: 'video'; prompt: string; aspectRatio: '16:9' | '9:16' }
+  | { type: 'summarize'; text?: string }
+  | { type: 'lang'; languageCode: string }
+  | { type: 'briefing' }
+  | { type: 'plan'; details?: string }
+  | { type: 'new' };
+
+export interface SlashCommandSpec {
+  name: SlashCommand['type'];
+  // Shown after the name in the autocomplete menu; optional parts are in brackets.
+  args: string;
+  description: MessageKey;
+  // The command works on exactly one attached image.
+  needsImage?: boolean;
+}
+
+export const SLASH_COMMANDS: SlashCommandSpec[] = [
+  { name: 'image', args: '<prompt> [--style <style>]', description: 'command.image' },
+  { name: 'edit', args: '<prompt>', description: 'command.edit', needsImage: true },
+  { name: 'video', args: '[prompt] [--portrait]', description: 'command.video', needsImage: true },
+  { name: 'summarize', args: '[text]', description: 'command.summarize' },
+  { name: 'lang', args: '<language>', description: 'command.lang' },
+  { name: 'briefing', args: '', description: 'command.briefing' },
+  { name: 'plan', args: '[details]', description: 'command.plan' },
+  { name: 'new', args: '', description: 'command.new' },
+];
+
+// Styles and languages are typed in English, so they are listed that way in every language.
+const LIST_PARAMS = { styles: ART_STYLES.join(', '), languages: LANGUAGES.map(l => l.name).join(', ') };
+
+export const describeCommand = (command: SlashCommandSpec, languageCode: string): string =>
+  translate(languageCode, command.description, LIST_PARAMS);
+
+export const DEFAULT_VIDEO_PROMPT = 'A cinematic shot of this scene.';
+
+// Commands whose name starts with what has been typed so far, while the name is still being
+// typed. Once there is a space the menu gives way to the argument hint.
+export function matchCommands(input: string): SlashCommandSpec[] {
+  const match = /^\/(\S*)$/.exec(input);
+  if (!match) return [];
+  const typed = match[1].toLowerCase();
+  return SLASH_COMMANDS.filter(c => c.name.startsWith(typed));
+}
+
+// The command being typed, once its name is complete.
+export function findCommand(input: string): SlashCommandSpec | undefined {
+  const name = /^\/(\S+)\s/.exec(input)?.[1].toLowerCase();
+  return SLASH_COMMANDS.find(c => c.name === name);
+}
+
+// Removes `--flag` or `--flag <value>` from the arguments. The value runs up to the next flag,
+// so multi-word styles such as "Oil Painting" work without quotes.
+function takeFlag(args: string, flag: string, withValue: boolean): { rest: string; found: boolean; value?: string } {
+  const pattern = withValue ? new RegExp(`(^|\\s)--${flag}(?:\\s+((?:(?!\\s--).)*))?`, 'i') : new RegExp(`(^|\\s)--${flag}(?=\\s|$)`, 'i');
+  const match = pattern.exec(args);
+  if (!match) return { rest: args.trim(), found: false };
+  const rest = (args.slice(0, match.index) + ' ' + args.slice(match.index + match[0].length)).replace(/\s+/g, ' ').trim();
+  return { rest, found: true, value: match[2]?.trim() };
+}
+
+// Parses a message that starts with "/". Throws an Error with a message meant for the
+// traveler, in `languageCode`, when the command is unknown or its arguments do not make sense.
+export function parseSlashCommand(input: string, languageCode: string = DEFAULT_LANGUAGE): SlashCommand {
+  const match = /^\/(\S*)\s*([\s\S]*)$/.exec(input.trim());
+  const name = match?.[1].toLowerCase() ?? '';
+  const args = match?.[2].trim() ?? '';
+  const fail = (key: MessageKey, params?: { name: string }) => new Error(translate(languageCode, key, { ...LIST_PARAMS, ...params }));
+
+  switch (name) {
+    case 'image': {
+      const { rest, found, value } = takeFlag(args, 'style', true);
+      if (!rest) throw fail('command.needImagePrompt');
+      if (!found) return { type: 'image', prompt: rest };
+      const style = ART_STYLES.find(s => s.toLowerCase() === value?.toLowerCase());
+      if (!style) throw fail('command.unknownStyle');
+      return { type: 'image', prompt: rest, style };
+    }
+    case 'edit':
+      if (!args) throw fail('command.needEditPrompt');
+      return { type: 'edit', prompt: args };
+    case 'video': {
+      const { rest, found } = takeFlag(args, 'portrait', false);
+      return { type: 'video', prompt: rest || DEFAULT_VIDEO_PROMPT, aspectRatio: found ? '9:16' : '16:9' };
+    }
+    case 'summarize':
+      return args ? { type: 'summarize', text: args } : { type: 'summarize' };
+    case 'lang': {
+      const wanted = args.toLowerCase();
+      const language = LANGUAGES.find(l => [l.code, l.code.split('-')[0], l.name, l.nativeName].some(n => n.toLowerCase() === wanted));
+      if (!language) throw fail('command.unknownLanguage');
+      return { type: 'lang', languageCode: language.code };
+    }
+    case 'briefing':
+      return { type: 'briefing' };
+    case 'plan':
+      return args ? { type: 'plan', details: args } : { type: 'plan' };
+    case 'new':
+      return { type: 'new' };
+    default:
+      throw fail('command.unknown', { name });
+  }
+}
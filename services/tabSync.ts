@@ -0,0 +1,58 @@
+import type { ChatMessage } from '../types';
+
+// Keeps several open tabs of the app in step. Each tab persists its own changes to IndexedDB
+// and then announces which sessions it touched; the other tabs re-read those sessions instead
+// of trusting their stale copies. Replies that are still streaming are never persisted, so the
+// owning tab mirrors them here as previews. A Web Lock per session makes sure only one tab
+// streams a reply into a given chat at a time.
+
+export type SyncMessage =
+  | { type: 'sessions-changed'; sessionIds: string[] }
+  | { type: 'folders-changed' }
+  // The reply as streamed so far. Receivers show it read-only until the owner persists it.
+  | { type: 'stream-progress'; sessionId: string; message: ChatMessage }
+  | { type: 'stream-ended'; sessionId: string; messageId: number }
+  // Asks the tab that owns the stream to stop it, as if its own Stop button was pressed.
+  | { type: 'stop-stream'; sessionId: string }
+  // The history lock was turned on or off, its passphrase changed, or the history was erased.
+  | { type: 'history-lock-changed' }
+  // Locking one tab locks them all.
+  | { type: 'history-locked' };
+
+const CHANNEL_NAME = 'gokarna-guide-sync';
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<(message: SyncMessage) => void>();
+
+// Without BroadcastChannel every tab simply works on its own, as before.
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => listeners.forEach(listener => listener(event.data));
+  }
+  return channel;
+};
+
+// Messages go to the other tabs only; a tab never hears its own.
+export function broadcast(message: SyncMessage): void {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (error) {
+    console.warn('Could not notify other tabs:', error);
+  }
+}
+
+export function onSyncMessage(listener: (message: SyncMessage) => void): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export const SESSION_BUSY = Symbol('session-busy');
+
+// Runs `task` while holding this session's stream lock, or resolves to SESSION_BUSY straight
+// away if another tab holds it. The lock is released when the task settles or the tab closes.
+export async function withSessionLock<T>(sessionId: string, task: () => Promise<T>): Promise<T | typeof SESSION_BUSY> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return task();
+  return navigator.locks.request(`gokarna-stream-${sessionId}`, { ifAvailable: true }, lock => lock ? task() : SESSION_BUSY);
+}
@@ -0,0 +1,65 @@
+// WebCrypto helpers for the optional history lock. A passphrase is stretched with PBKDF2 into
+// an AES-GCM key; the key only ever lives in memory and is forgotten when the app locks. The
+// stored config holds the salt and a sealed check value, so a wrong passphrase is recognized
+// without trying to decrypt the history itself.
+
+export interface Sealed {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export interface VaultConfig {
+  salt: Uint8Array;
+  iterations: number;
+  check: Sealed;
+}
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256.
+const PBKDF2_ITERATIONS = 600_000;
+const CHECK_TEXT = 'gokarna-guide-history';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function sealBytes(key: CryptoKey, bytes: BufferSource): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+}
+
+// Rejects when the key is wrong or the data was tampered with.
+export const openBytes = (key: CryptoKey, sealed: Sealed): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+
+export const sealJson = (key: CryptoKey, value: unknown): Promise<Sealed> => sealBytes(key, encoder.encode(JSON.stringify(value)));
+
+export const openJson = async <T,>(key: CryptoKey, sealed: Sealed): Promise<T> => JSON.parse(decoder.decode(await openBytes(key, sealed)));
+
+export const isSealed = (value: unknown): value is Sealed =>
+  typeof value === 'object' && value !== null && (value as Sealed).iv instanceof Uint8Array && (value as Sealed).data instanceof ArrayBuffer;
+
+export async function createVault(passphrase: string): Promise<{ config: VaultConfig; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return { config: { salt, iterations: PBKDF2_ITERATIONS, check: await sealBytes(key, encoder.encode(CHECK_TEXT)) }, key };
+}
+
+// Resolves to null when the passphrase is wrong.
+export async function unlockVault(config: VaultConfig, passphrase: string): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  try {
+    return decoder.decode(await openBytes(key, config.check)) === CHECK_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,5 +1,6 @@
 // Use a type-only import for React types to avoid runtime side effects.
 import type React from 'react';
+import type { SessionTag } from './constants';
 
 export interface Language {
   code: string;
@@ -20,28 +21,158 @@ export interface Suggestion {
     prompt?: string;
 }
 
+// What a message asks the app to do; see services/intentRouter.ts.
+export type IntentId = 'chat' | 'generate-image' | 'edit-image' | 'change-language' | 'trip-plan' | 'update-itinerary';
+
+export type GenerationErrorKind = 'safety' | 'quota' | 'network' | 'invalid-input' | 'model-unavailable' | 'unknown';
+
+// Enough information to replay a failed request from the "Retry" action.
+export type RetryRequest =
+  | { type: 'chat'; text: string; files: UploadedFile[]; prompt?: string }
+  | { type: 'image'; prompt: string; style: string }
+  | { type: 'edit'; text: string; file: UploadedFile }
+  | { type: 'video'; file: UploadedFile; prompt: string; aspectRatio: '16:9' | '9:16' }
+  | { type: 'summarize'; text: string }
+  | { type: 'itinerary'; request: string; isUpdate: boolean }
+  | { type: 'briefing' };
+
+// A day-by-day trip plan; see services/itinerary.ts.
+export interface ItineraryStop {
+  id: string;
+  time: string; // "07:30" or a part of the day, as the plan gives it.
+  place: string;
+  activity: string;
+  travel?: { mode: string; minutes: number }; // Getting here from the previous stop.
+  cost?: number; // Rough estimate per person, in rupees.
+  notes?: string;
+}
+
+export interface ItineraryDay {
+  title: string;
+  stops: ItineraryStop[];
+}
+
+export interface Itinerary {
+  title: string;
+  days: ItineraryDay[];
+  notes?: string;
+}
+
+// A hotel recommendation, shown as a card; see services/hotels.ts.
+export interface HotelOption {
+  id: string; // Derived from the name, so the same hotel is recognized across replies.
+  name: string;
+  area?: string;
+  pricePerNight?: { min: number; max: number }; // In rupees.
+  rating?: number; // Out of 5.
+  amenities: string[];
+  pros: string[];
+  cons: string[];
+  bookingUrl?: string;
+}
+
+// Today's weather, tides and tips for Gokarna, shown as a card; see services/briefing.ts.
+export type WeatherCondition = 'sunny' | 'partly-cloudy' | 'cloudy' | 'rain' | 'storm' | 'fog';
+
+export interface TideEvent {
+  type: 'high' | 'low';
+  time: string; // "14:05", local time.
+}
+
+export interface TodaysBriefing {
+  date: string; // "2025-01-31", the day in Gokarna the briefing is for.
+  summary: string; // A welcoming sentence about the day.
+  temperature: number; // In °C.
+  high?: number;
+  low?: number;
+  condition: WeatherCondition;
+  conditionText: string; // The forecast in words, in the briefing's language.
+  tides: TideEvent[]; // In time order.
+  sunset?: string; // "18:42"
+  gem: string;
+  safetyTip: string;
+}
+
+export type KnowledgeCategory = 'beach' | 'temple' | 'sight' | 'cafe' | 'trail' | 'emergency' | 'transport' | 'season';
+
+// One curated fact sheet from the bundled dataset; see services/knowledgeData.ts.
+export interface KnowledgeEntry {
+  id: string; // Stable across dataset versions, so citations in saved chats keep pointing at it.
+  category: KnowledgeCategory;
+  name: string;
+  aliases?: string[]; // Other spellings and names in the supported languages, for retrieval.
+  summary: string;
+  coordinates?: { lat: number; lng: number };
+  timings?: string;
+  fee?: string;
+  phone?: string;
+  tips?: string[];
+}
+
+// A dataset entry a reply was grounded on.
+export interface KnowledgeCitation {
+  id: string;
+  name: string;
+}
+
 export interface ChatMessage {
   id: number;
   text: string;
   sender: 'user' | 'bot';
   suggestions?: Suggestion[];
   images?: string[];
-  sources?: { uri: string; title: string }[];
+  sources?: { uri: string; title: string; isPlace?: boolean }[];
   isLoading?: boolean;
   files?: UploadedFile[];
   isWelcome?: boolean;
   isSystem?: boolean;
-  videoState?: 'generating' | 'done' | 'failed';
+  videoState?: 'generating' | 'done' | 'failed' | 'cancelled';
   videoUrl?: string;
+  error?: { kind: GenerationErrorKind; retry?: RetryRequest };
+  isInterrupted?: boolean; // The user stopped the reply before it finished streaming.
+  prompt?: string; // What was actually sent, when it differs from the displayed text (e.g. a suggestion chip).
+  parentId?: number | null; // The message this one follows; see services/branches.ts.
+  itinerary?: Itinerary; // The plan as this reply left it, shown as day cards.
+  hotels?: HotelOption[]; // Hotels the reply recommends, shown as cards instead of in the text.
+  citations?: KnowledgeCitation[]; // Dataset entries given to the model with the question.
+  briefing?: TodaysBriefing; // Shown as the briefing card under the text.
+  translations?: { [languageCode: string]: string }; // Translations asked for so far, kept so each is fetched once.
 }
 
 export type ChatStage = 'chat' | 'live-chat';
 
+// Rolling summary of the older part of a session that no longer fits in the replayed history.
+export interface HistorySummary {
+  text: string;
+  throughMessageId: number; // Id of the newest message folded into the summary.
+}
+
 export interface ChatSession {
   id: string;
   title: string;
   messages: ChatMessage[];
   languageCode: string;
+  modelId?: string; // Chat model for this session; see services/models.ts. Defaults when unset.
+  // When set, bot replies are shown side by side with their translation into this language.
+  bilingualLanguageCode?: string;
+  historySummary?: HistorySummary;
+  activeLeafId?: number; // Last message of the branch currently shown.
+  // Set once the chat has been titled and tagged from its first exchange (possibly with no tags).
+  tags?: SessionTag[];
+  // A title the user typed is never replaced by a generated one.
+  isTitleUserEdited?: boolean;
+  isPinned?: boolean;
+  folderId?: string; // See ChatFolder. A chat whose folder no longer exists is unfiled.
+  lastActivityAt?: number; // When a message was last added; the history is sorted by it.
+  deletedAt?: number; // Set while the chat is in the trash.
+  // The plan later messages change instead of starting over, and the reply whose cards edit it.
+  itinerary?: { plan: Itinerary; messageId: number };
+  shortlist?: HotelOption[]; // Hotels saved from any reply, to compare later.
+}
+
+export interface ChatFolder {
+  id: string;
+  name: string;
 }
 
 export interface GeneratedImage {
@@ -7,12 +7,17 @@ export default defineConfig(({ mode }) => {
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // Only this machine: the /api proxy below spends the API key for whoever can reach it.
+        // `npm run dev -- --host` opens it to the local network when that is really wanted.
+        host: 'localhost',
+        proxy: {
+          // The Gemini API key lives only in the local backend (see server/index.ts).
+          '/api': `http://127.0.0.1:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.CHAT_PROVIDER': JSON.stringify(env.CHAT_PROVIDER)
       },
       resolve: {
         alias: {